@@ -1,4 +1,8 @@
 import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { PNG } from 'pngjs';
 import {
   AutoPilot,
   PageStateAnalyzer,
@@ -8,7 +12,64 @@ import {
   SmartFieldAnalyzer,
   InteractionHandler,
   DropdownHandler,
-  ErrorRecovery
+  ErrorRecovery,
+  SuccessEvaluator,
+  ScenarioRunner,
+  ValueCapturer,
+  SeededValueGenerator,
+  ValueProviderRegistry,
+  createValueScope,
+  ValidationFuzzer,
+  formatCoverageMatrix,
+  FieldDependencyAnalyzer,
+  sortByFillOrder,
+  DecisionPolicyRegistry,
+  DEFAULT_DECISION_POLICY,
+  extendPolicy,
+  createReplayScript,
+  saveReplayScript,
+  loadReplayScript,
+  matchesUrlPattern,
+  generateSpecCode,
+  getSpecFilePath,
+  FlowRecorder,
+  typeCheckTestCode,
+  selectorFromSnapshot,
+  FlowPlayer,
+  formatPlaybackResult,
+  toPlaywrightSelector,
+  diffFlows,
+  diffFlowWithPlayback,
+  writeFlowDiffReport,
+  VisualBaselineStore,
+  compareImages,
+  flowStepKey,
+  writeTraceReport,
+  SelectorRepository,
+  formatDriftReport,
+  SelectorScorer,
+  analyzeSelector,
+  inferSelectorType,
+  formatSelectorScores,
+  DOMExplorer,
+  splitFrameSelector,
+  FRAME_SEPARATOR,
+  AccessibilityStateAnalyzer,
+  AccessibilityAuditor,
+  summarizeAudit,
+  assertNoViolations,
+  formatAuditReport,
+  qaEvents,
+  configureLogger,
+  resetLoggerConfig,
+  createLogger,
+  type LogRecord,
+  resolveValue,
+  loadGoalFile,
+  parseGoalDefinition,
+  validateGoalDefinition,
+  type FlowRecord,
+  type FlowStep
 } from '../lib';
 
 test.describe('Auto-QA 모듈 통합 테스트', () => {
@@ -260,6 +321,58 @@ test.describe('Auto-QA 모듈 통합 테스트', () => {
     console.log(`✅ 진행 요약: ${summary.currentState}`);
   });
 
+  test('ActionDecider - 결정 정책 및 규칙 기록 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <div id="cookie-banner"><button id="accept-cookies">모두 허용</button></div>
+          <form>
+            <input id="title" type="text" placeholder="제목" required />
+            <input id="memo" type="text" placeholder="메모" />
+            <button id="submit" type="button" disabled>저장</button>
+          </form>
+        </body>
+      </html>
+    `);
+
+    const goal = { name: '정책 테스트', targetButton: '저장' };
+    const policies = new DecisionPolicyRegistry();
+    policies.register(extendPolicy(DEFAULT_DECISION_POLICY, {
+      name: 'accept-cookies',
+      prepend: [{
+        name: 'cookie-banner',
+        decide: (ctx) => {
+          const button = ctx.state.buttons.find(b => b.visible && b.text.includes('모두 허용'));
+          return button && { type: 'click', selector: button.selector, reason: '쿠키 배너 수락', confidence: 0.9 };
+        }
+      }]
+    }));
+    policies.register(extendPolicy(DEFAULT_DECISION_POLICY, { name: 'tab-first', order: ['blur', 'fill-field'] }));
+
+    // 기본 정책: 필드 입력
+    const decider = new ActionDecider(page, new SeededValueGenerator(1), undefined, policies);
+    const fill = await decider.decideNextAction(goal);
+    expect(fill.type).toBe('fill');
+    expect(fill.rule).toBe('fill-field');
+    expect(fill.policy).toBe('default');
+
+    // 사용자 규칙이 먼저 평가됨
+    decider.setDecisionPolicy('accept-cookies');
+    const cookie = await decider.decideNextAction(goal);
+    expect(cookie).toMatchObject({ type: 'click', selector: '#accept-cookies', rule: 'cookie-banner', policy: 'accept-cookies' });
+
+    // 규칙 순서 변경: fill 직후에는 Tab 먼저
+    decider.setDecisionPolicy('tab-first');
+    expect(decider.getDecisionPolicy().rules.map(r => r.name).slice(0, 5))
+      .toEqual(['modal', 'success', 'target-button', 'blur', 'fill-field']);
+    decider.recordAction(fill);
+    const tab = await decider.decideNextAction(goal);
+    expect(tab).toMatchObject({ type: 'tab', rule: 'blur' });
+
+    expect(() => decider.setDecisionPolicy('unknown')).toThrow('등록되지 않은 결정 정책');
+    console.log(`✅ 결정 정책: ${policies.list().join(', ')}`);
+  });
+
   test('InteractionHandler - 텍스트 입력 테스트', async ({ page }) => {
     await page.setContent(`
       <html>
@@ -375,4 +488,1359 @@ test.describe('Auto-QA 모듈 통합 테스트', () => {
     console.log(`✅ 상태 텍스트 생성 성공`);
   });
 
+  test('AutoPilot - 사전 단계 순서/실패/타임아웃 테스트', async ({ page }) => {
+    const html = `
+      <html>
+        <body>
+          <button id="open" onclick="document.getElementById('panel').style.display = 'block'">열기</button>
+          <div id="panel" style="display: none">
+            <input id="memo" type="text" placeholder="메모" />
+          </div>
+          <button id="save" onclick="document.getElementById('result').textContent = '저장 완료'">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `;
+    const config = { maxSteps: 10, stepDelay: 50, typeDelay: 0, verbose: false };
+
+    // 순서대로 실행, optional 단계는 실패해도 계속 진행
+    await page.setContent(html);
+    const result = await new AutoPilot(page, config).execute({
+      name: '메모 저장',
+      targetButton: '저장',
+      successIndicator: /저장 완료/,
+      preSteps: [
+        { type: 'click', target: '#open' },
+        { type: 'wait', target: '#memo' },
+        { type: 'fill', target: '#memo', value: '사전 입력' },
+        { type: 'click', target: '#missing', optional: true, timeout: 300 }
+      ]
+    });
+    expect(result.success).toBe(true);
+    const preSteps = result.steps.filter(s => s.phase === 'preStep');
+    expect(preSteps.map(s => `${s.action.type}:${s.action.selector}`))
+      .toEqual(['click:#open', 'wait:#memo', 'fill:#memo', 'click:#missing']);
+    expect(preSteps.map(s => s.success)).toEqual([true, true, true, false]);
+    expect(preSteps.every((s, i) => s.step === i + 1)).toBe(true);
+
+    // 필수 단계 실패: 이후 단계와 목표 실행 중단, fill도 단계 timeout 적용
+    await page.setContent(html);
+    const failed = await new AutoPilot(page, config).execute({
+      name: '없는 필드',
+      targetButton: '저장',
+      successIndicator: /저장 완료/,
+      preSteps: [
+        { type: 'fill', target: '#absent', value: '값', timeout: 300 },
+        { type: 'click', target: '#open' }
+      ]
+    });
+    expect(failed.success).toBe(false);
+    expect(failed.error).toContain('사전 단계 1(fill) 실패');
+    expect(failed.steps).toHaveLength(1);
+    expect(failed.steps[0].duration).toBeLessThan(2000);
+    await expect(page.locator('#result')).toHaveText('');
+    console.log(`✅ 사전 단계: ${preSteps.length}개 순서 실행, 필수 단계 실패 시 ${failed.steps[0].duration}ms 안에 중단`);
+  });
+
+  test('AutoPilot - strictMode/autoFillUnknown 자동 입력 범위 테스트', async ({ page }) => {
+    const html = `
+      <html>
+        <body>
+          <label for="name">이름</label>
+          <input id="name" type="text" />
+          <label for="memo">메모</label>
+          <input id="memo" type="text" />
+          <label for="note">비고</label>
+          <input id="note" type="text" />
+          <button id="save" onclick="document.getElementById('result').textContent = '저장 완료'">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `;
+    const config = { maxSteps: 10, stepDelay: 50, typeDelay: 0, verbose: false };
+    const goal = {
+      name: '이름만 저장',
+      targetButton: '저장',
+      successIndicator: /저장 완료/,
+      fieldInstructions: [{ field: { selector: '#name' }, value: '홍길동' }],
+      requiredFields: ['메모']
+    };
+
+    // strictMode: 명시적 지시 필드만 입력, 나머지는 비워두고 보고
+    await page.setContent(html);
+    const strict = await new AutoPilot(page, config).execute({ ...goal, options: { strictMode: true } });
+    expect(strict.success).toBe(true);
+    await expect(page.locator('#name')).toHaveValue('홍길동');
+    await expect(page.locator('#memo')).toHaveValue('');
+    await expect(page.locator('#note')).toHaveValue('');
+    const strictSkipped = strict.skippedFields || [];
+    expect(strictSkipped.map(f => f.selector).sort()).toEqual(['#memo', '#note']);
+    expect(strictSkipped.every(f => f.reason === 'strict-mode')).toBe(true);
+
+    // autoFillUnknown=false: requiredFields는 입력, 그 외 필드만 건너뜀
+    await page.setContent(html);
+    const limited = await new AutoPilot(page, config).execute({ ...goal, options: { autoFillUnknown: false } });
+    expect(limited.success).toBe(true);
+    await expect(page.locator('#memo')).not.toHaveValue('');
+    await expect(page.locator('#note')).toHaveValue('');
+    expect(limited.skippedFields?.map(f => `${f.selector}:${f.reason}`)).toEqual(['#note:auto-fill-disabled']);
+    console.log(`✅ 자동 입력 범위: strictMode 건너뜀 ${strictSkipped.length}개, autoFillUnknown=false 건너뜀 ${limited.skippedFields?.length}개`);
+  });
+
+  test('SuccessEvaluator - 구조화된 성공 조건 평가 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <div class="toast">트래킹 링크 생성 완료</div>
+          <button id="copy">복사</button>
+          <span style="display: none;">숨겨진 메시지</span>
+        </body>
+      </html>
+    `);
+
+    const evaluator = new SuccessEvaluator(page, { timeout: 500 });
+
+    // 단일 조건
+    expect(await evaluator.check({ type: 'text', value: /생성 완료/ })).toBe(true);
+    expect(await evaluator.check({ type: 'text', value: '숨겨진 메시지' })).toBe(false);
+    expect(await evaluator.check({ type: 'element', value: '#copy' })).toBe(true);
+    expect(await evaluator.check({
+      type: 'custom',
+      predicate: async (p) => (await p.locator('button').count()) === 1
+    })).toBe(true);
+    console.log('✅ 단일 조건 평가 성공');
+
+    // 복합 조건
+    expect(await evaluator.check({
+      type: 'all',
+      conditions: [
+        { type: 'text', value: '생성 완료' },
+        { type: 'element', value: '#copy' }
+      ]
+    })).toBe(true);
+    expect(await evaluator.check({
+      type: 'any',
+      conditions: [
+        { type: 'url', value: '/done/' },
+        { type: 'text', value: '생성 완료' }
+      ]
+    })).toBe(true);
+    expect(await evaluator.check({
+      type: 'not',
+      conditions: [{ type: 'text', value: '에러' }]
+    })).toBe(true);
+    console.log('✅ 복합 조건 평가 성공');
+
+    // 미충족 조건은 timeout 후 실패
+    const waitResult = await evaluator.waitFor({ type: 'url', value: '/done/', timeout: 300 });
+    expect(waitResult.success).toBe(false);
+    console.log(`✅ 미충족 조건 대기 결과: ${waitResult.reason}`);
+
+    // all: 하위 조건이 같은 시점에 모두 충족되어야 성공 (토스트가 사라진 뒤 요소가 나타나면 실패)
+    const toastThenDone = {
+      type: 'all' as const,
+      timeout: 800,
+      conditions: [
+        { type: 'text' as const, value: '저장 토스트' },
+        { type: 'element' as const, value: '#done' }
+      ]
+    };
+    await page.evaluate(() => {
+      const toast = document.createElement('div');
+      toast.textContent = '저장 토스트';
+      document.body.appendChild(toast);
+      setTimeout(() => toast.remove(), 200);
+      setTimeout(() => {
+        const done = document.createElement('div');
+        done.id = 'done';
+        done.textContent = '완료';
+        document.body.appendChild(done);
+      }, 400);
+    });
+    const missed = await evaluator.waitFor(toastThenDone);
+    expect(missed.success).toBe(false);
+    expect(missed.reason).toContain('text: 저장 토스트');
+    expect(missed.reason).not.toContain('#done');
+
+    await page.evaluate(() => setTimeout(() => {
+      const toast = document.createElement('div');
+      toast.textContent = '저장 토스트';
+      document.body.appendChild(toast);
+    }, 300));
+    const together = await evaluator.waitFor(toastThenDone);
+    expect(together.success).toBe(true);
+    expect(together.duration).toBeLessThan(800);
+    console.log(`✅ all 조건 동시 충족 대기: ${together.duration}ms`);
+  });
+
+  test('GoalLoader - Goal 파일 로드 및 검증 오류 경로 테스트', async () => {
+    // 저장소의 예제 Goal 파일
+    const { goal } = loadGoalFile(path.join(__dirname, '트래킹 링크 생성', '트래킹 링크 생성.goal.yaml'));
+    expect(goal.preSteps).toHaveLength(4);
+    expect(goal.fieldInstructions?.[0].field.label).toEqual(/채널.*선택/);
+    expect(goal.fieldInstructions?.[0].value).toBe('ch_{{random:6}}');
+    expect(goal.successIndicator).toMatchObject({ type: 'url', value: '/done/', timeout: 15000 });
+
+    // YAML: 모든 오류를 경로와 함께 보고
+    const issues = validateGoalDefinition(parseYaml(`
+name: ''
+targetButton: { label: 저장 }
+successIndicator:
+  type: all
+  conditions:
+    - type: custom
+    - type: text
+fieldInstructions:
+  - field: {}
+    value: '{{random:abc}}'
+  - field: { label: { regex: '(' } }
+    value: 1
+  - field: { selector: '#memo' }
+    value: 'memo-{{uuid'
+preSteps:
+  - type: hover
+`));
+    expect(issues.map(issue => issue.path)).toEqual([
+      'name',
+      'targetButton.label',
+      'targetButton',
+      'successIndicator.conditions[0].type',
+      'successIndicator.conditions[1].value',
+      'fieldInstructions[0].field',
+      'fieldInstructions[0].value',
+      'fieldInstructions[1].field.label.regex',
+      'fieldInstructions[1].value',
+      'fieldInstructions[2].value',
+      'preSteps[0].type'
+    ]);
+    expect(issues.find(issue => issue.path === 'fieldInstructions[2].value')?.message).toContain('닫히지 않은 플레이스홀더');
+
+    // JSON 파일: 파일 경로와 오류 경로를 포함한 Error
+    const jsonPath = test.info().outputPath('invalid.goal.json');
+    fs.writeFileSync(jsonPath, JSON.stringify({
+      name: '링크 ID 캡처',
+      captures: [{ name: 'linkId', from: 'url' }],
+      options: { locale: 'fr-FR', maxSteps: 0 }
+    }));
+    expect(() => loadGoalFile(jsonPath)).toThrow(
+      `Goal 파일 검증 실패 (${jsonPath}): 3개 오류\n` +
+      '  - captures[0].pattern: url 캡처에는 필수 항목입니다\n' +
+      '  - options.maxSteps: 1 이상의 숫자여야 합니다 (현재: 0)\n' +
+      '  - options.locale: 허용되지 않은 값 "fr-FR" (허용: ko-KR, en-US, ja-JP)'
+    );
+
+    // 문법 오류
+    expect(() => parseGoalDefinition('name: [', 'yaml', 'broken.goal.yaml')).toThrow('Goal 파일 파싱 실패 (broken.goal.yaml)');
+    expect(() => parseGoalDefinition('{"name": ', 'json', 'broken.goal.json')).toThrow('Goal 파일 파싱 실패 (broken.goal.json)');
+    console.log(`✅ Goal 파일 검증: 오류 ${issues.length}개 경로 보고`);
+  });
+
+  test('ValueCapturer - 페이지 값 캡처 및 템플릿 치환 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <div data-testid="tracking-link">https://abr.ge/ab12cd</div>
+          <a id="open" href="/links/42/detail">열기</a>
+          <input id="channel" type="text" value="ch_1735689600000" />
+        </body>
+      </html>
+    `);
+
+    const capturer = new ValueCapturer(page, { timeout: 1000 });
+
+    const results = await capturer.captureAll([
+      { name: 'trackingLink', from: 'text', selector: '[data-testid="tracking-link"]' },
+      { name: 'shortCode', from: 'text', selector: '[data-testid="tracking-link"]', pattern: /abr\.ge\/(?<code>\w+)/, group: 'code' },
+      { name: 'linkId', from: 'attribute', selector: '#open', attribute: 'href', pattern: /\/links\/(\d+)/ },
+      { name: 'channel', from: 'value', selector: '#channel' },
+      { name: 'scheme', from: 'url', pattern: /^(\w+):/ },
+      { name: 'missing', from: 'text', selector: '#missing', timeout: 300 }
+    ]);
+
+    const values = Object.fromEntries(results.filter(r => r.success).map(r => [r.name, r.value]));
+    expect(values).toEqual({
+      trackingLink: 'https://abr.ge/ab12cd',
+      shortCode: 'ab12cd',
+      linkId: '42',
+      channel: 'ch_1735689600000',
+      scheme: 'about'
+    });
+    expect(results.find(r => r.name === 'missing')?.success).toBe(false);
+    console.log(`✅ 값 캡처 성공: ${Object.keys(values).join(', ')}`);
+
+    // {{변수}} 템플릿 치환 (없는 변수는 그대로 유지)
+    expect(resolveValue('{{channel}}_copy', values)).toBe('ch_1735689600000_copy');
+    expect(resolveValue(() => 'id={{linkId}}', values)).toBe('id=42');
+    expect(resolveValue('{{unknown}}', values)).toBe('{{unknown}}');
+    console.log('✅ 템플릿 치환 성공');
+  });
+
+  test('SeededValueGenerator - 시드 기반 값 재현 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <input id="channel" type="text" placeholder="채널을 선택하세요" />
+          <input id="campaign" type="text" placeholder="캠페인의 이름을 입력하세요" />
+          <button id="submit" disabled>링크 생성</button>
+        </body>
+      </html>
+    `);
+
+    // 같은 시드 → 같은 값 (숫자 문자열 시드는 숫자와 동일), 다른 시드 → 다른 값
+    const a = new SeededValueGenerator(1234);
+    const b = new SeededValueGenerator('1234');
+    expect(b.seed).toBe(1234);
+    expect(a.token('channel')).toBe(b.token('channel'));
+    expect(a.token('channel')).not.toBe(new SeededValueGenerator('run-1234').token('channel'));
+    expect(a.token('channel', 6)).toMatch(/^[a-z0-9]{6}$/);
+    console.log(`✅ 시드 값 재현: ${a.token('channel')}`);
+
+    // ActionDecider 기본 전략도 시드로 재현
+    const goal = { name: '트래킹 링크 생성', targetButton: '링크 생성' };
+    const first = await new ActionDecider(page, new SeededValueGenerator(42)).decideNextAction(goal);
+    const second = await new ActionDecider(page, new SeededValueGenerator(42)).decideNextAction(goal);
+    expect(first.type).toBe('fill');
+    expect(first.value).toBe(second.value);
+    console.log(`✅ 자동 입력 값 재현: ${first.value}`);
+
+    // SmartFieldAnalyzer 추천 값은 분석 횟수와 무관하게 동일
+    const analyzer = new SmartFieldAnalyzer(page, new SeededValueGenerator(42));
+    const [before] = await analyzer.analyzeAllFields();
+    const [after] = await analyzer.analyzeAllFields();
+    expect(before.suggestedValue).toBe(after.suggestedValue);
+    console.log(`✅ 추천 값 재현: ${before.suggestedValue}`);
+
+    // 템플릿 내장 값({{random}}, {{date}}, {{timestamp}}, {{uuid}})도 시드/기준 날짜로 재현
+    const template = 'ch_{{random:6}}_{{date}}_{{timestamp}}_{{uuid}}';
+    const baseDate = '2025-06-01T00:00:00Z';
+    const rendered = resolveValue(template, {}, createValueScope(new SeededValueGenerator(7, { baseDate }), 'template'));
+    expect(resolveValue(template, {}, createValueScope(new SeededValueGenerator('7', { baseDate }), 'template'))).toBe(rendered);
+    expect(rendered).toMatch(/^ch_[a-z0-9]{6}_2025-06-01_1748736000000_[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+
+    // 기준 날짜가 없으면 실행 시작 시각 (실행마다 다른 {{timestamp}}, 오늘 날짜)
+    const startedAt = Date.now();
+    const current = new SeededValueGenerator(7);
+    expect(current.baseTime).toBeGreaterThanOrEqual(startedAt);
+    expect(current.baseTime - startedAt).toBeLessThan(1000);
+    expect(resolveValue('{{date}}', {}, createValueScope(current, 'template'))).toBe(new Date(current.baseTime).toISOString().slice(0, 10));
+
+    const runWithSeed = async (runBaseDate?: string) => {
+      await page.setContent(`<input id="memo" type="text" placeholder="메모" /><button onclick="this.textContent = '저장 완료'">저장</button>`);
+      const result = await new AutoPilot(page, { maxSteps: 5, stepDelay: 0, typeDelay: 0, verbose: false, seed: 42, baseDate: runBaseDate }).execute({
+        name: '메모 저장',
+        targetButton: '저장',
+        successIndicator: /저장 완료/,
+        fieldInstructions: [{ field: { placeholder: '메모' }, value: 'memo_{{random:6}}_{{timestamp}}' }]
+      });
+      return { memo: await page.locator('#memo').inputValue(), baseDate: result.baseDate };
+    };
+    const seeded = await runWithSeed();
+    const firstMemo = seeded.memo;
+    expect(firstMemo).toBe(`memo_${firstMemo.slice(5, 11)}_${new Date(seeded.baseDate!).getTime()}`);
+
+    // 결과의 seed + baseDate로 같은 값 재현
+    expect((await runWithSeed(seeded.baseDate)).memo).toBe(firstMemo);
+    console.log(`✅ 템플릿 값 재현: ${firstMemo}`);
+  });
+
+  test('ValueProviderRegistry - 로케일/경계값 변형 테스트', async () => {
+    const providers = new ValueProviderRegistry();
+    const generator = new SeededValueGenerator(7);
+    const scope = (key: string) => createValueScope(generator, key);
+
+    // 로케일별 값
+    expect(providers.generate('phone', scope('phone'), { locale: 'ko-KR' })).toMatch(/^010-\d{4}-\d{4}$/);
+    expect(providers.generate('phone', scope('phone'), { locale: 'en-US' })).toMatch(/^\(201\) 555-01\d{2}$/);
+    expect(providers.generate('date', scope('date'), { locale: 'ja-JP' })).toMatch(/^\d{4}\/\d{2}\/\d{2}$/);
+    expect(providers.generate('date', scope('date'), { locale: 'en-US', inputType: 'date' })).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+    // 날짜는 실행 날짜가 아닌 생성기 기준 날짜에서 1~30일 뒤
+    const dated = createValueScope(new SeededValueGenerator(7, { baseDate: '2025-06-01T00:00:00Z' }), 'date');
+    const date = providers.generate('date', dated, { inputType: 'date' }) as string;
+    expect(date >= '2025-06-02' && date <= '2025-07-01').toBe(true);
+    expect(providers.generate('date', createValueScope(new SeededValueGenerator(7, { baseDate: '2025-06-01T00:00:00Z' }), 'date'), { inputType: 'date' })).toBe(date);
+    expect(providers.generate('password', scope('password'))).toBeUndefined();
+    console.log('✅ 로케일별 값 생성 성공');
+
+    // 경계값 변형
+    const maxEmail = providers.generate('email', scope('email'), { variant: 'maxLength', maxLength: 40 });
+    expect(maxEmail?.length).toBe(40);
+    expect(maxEmail).toMatch(/@example\.com$/);
+    expect(providers.generate('name', scope('name'), { variant: 'emoji' })).toContain('😀');
+    expect(providers.generate('name', scope('name'), { variant: 'unicode', locale: 'ja-JP' })).toContain('ひらがな');
+    expect(providers.generate('name', scope('name'), { variant: 'whitespace' })).toMatch(/^\s+.*\s+$/);
+    console.log('✅ 경계값 변형 생성 성공');
+
+    // 사용자 정의 (로케일 지정이 우선)
+    providers.register('description', () => '説明', 'ja-JP');
+    expect(providers.generate('description', scope('description'), { locale: 'ja-JP' })).toBe('説明');
+    expect(providers.generate('description', scope('description'), { locale: 'en-US' })).toContain('Automated');
+    console.log('✅ 사용자 정의 값 생성기 등록 성공');
+  });
+
+  test('ValidationFuzzer - 비정상 입력 검증 커버리지 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <form>
+            <label for="email">이메일</label>
+            <input id="email" type="email" required maxlength="40" value="user@example.com" />
+            <span id="email-error" role="alert" style="display: none;">이메일 형식이 올바르지 않습니다</span>
+
+            <label for="nickname">닉네임</label>
+            <input id="nickname" type="text" value="tester" />
+
+            <label for="memo">메모</label>
+            <input id="memo" type="text" maxlength="20" />
+
+            <input id="phone-home" type="text" placeholder="연락처" maxlength="20" />
+            <input id="phone-work" type="text" placeholder="연락처" />
+
+            <button id="login" type="button">로그인</button>
+          </form>
+          <script>
+            const email = document.getElementById('email');
+            email.addEventListener('blur', () => {
+              document.getElementById('email-error').style.display = email.checkValidity() ? 'none' : 'block';
+              document.getElementById('login').disabled = !email.checkValidity();
+            });
+          </script>
+        </body>
+      </html>
+    `);
+
+    const fuzzer = new ValidationFuzzer(page);
+    const report = await fuzzer.run({ submitButton: '로그인', categories: ['format', 'length', 'injection'], settleTimeout: 500 });
+
+    // 이메일: 형식 오류는 검증 메시지 / 메모: 길이 초과는 maxlength로 잘림
+    expect(report.matrix['#email'].format).toBe('validation-message');
+    expect(report.matrix['#memo'].length).toBe('sanitized');
+
+    // 닉네임: 검증 없음 → 허용
+    expect(report.matrix['#nickname'].injection).toBe('accepted');
+
+    // 이름이 같은 필드도 셀렉터별로 따로 (한쪽 결과가 다른 쪽을 가리지 않음)
+    expect(report.fields.filter(f => f.name === '연락처').map(f => f.selector)).toEqual(['#phone-home', '#phone-work']);
+    expect(report.matrix['#phone-home'].length).toBe('sanitized');
+    expect(report.matrix['#phone-work'].length).toBe('accepted');
+    expect(report.summary.accepted).toBeGreaterThan(0);
+
+    // 원래 값 복원
+    await expect(page.locator('#email')).toHaveValue('user@example.com');
+
+    const markdown = formatCoverageMatrix(report);
+    expect(markdown).toContain('| 필드 | 셀렉터 | format | length | injection |');
+    expect(markdown).toContain('| 연락처 | `#phone-work` |');
+    console.log(`✅ 검증 커버리지: 거부 ${report.summary.rejected}건, 허용 ${report.summary.accepted}건`);
+  });
+
+  test('FieldDependencyAnalyzer - 필드 의존성 탐색 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <form>
+            <select id="type" onchange="onTypeChange()">
+              <option value="">유형 선택</option>
+              <option value="app">앱</option>
+              <option value="web">웹</option>
+            </select>
+            <input id="name" type="text" placeholder="이름" oninput="update()" required />
+            <div id="channel-wrap" style="display: none">
+              <input id="channel" type="text" placeholder="채널" oninput="update()" />
+            </div>
+            <input id="agree" type="checkbox" onchange="update()" />
+            <input id="coupon" type="text" placeholder="쿠폰 코드" />
+            <input id="plan-basic" type="radio" name="plan" value="basic" onchange="document.getElementById('coupon').value = ''" />
+            <button id="submit" type="button" disabled>링크 생성</button>
+          </form>
+          <script>
+            function onTypeChange() {
+              const type = document.getElementById('type').value;
+              document.getElementById('channel-wrap').style.display = type ? 'block' : 'none';
+              document.getElementById('channel').value = '';
+              update();
+            }
+            function update() {
+              const ready = document.getElementById('name').value
+                && document.getElementById('channel').value
+                && document.getElementById('agree').checked;
+              document.getElementById('submit').disabled = !ready;
+            }
+          </script>
+        </body>
+      </html>
+    `);
+
+    const analyzer = new FieldDependencyAnalyzer(page, new SeededValueGenerator(7));
+    const graph = await analyzer.discover({ targetButton: '링크 생성', settleTimeout: 300 });
+
+    // 유형 선택 → 채널 필드 노출
+    expect(graph.edges).toContainEqual({ from: '#type', to: '#channel', type: 'reveals' });
+    expect(graph.nodes.find(n => n.selector === '#channel')?.initiallyVisible).toBe(false);
+
+    // 요금제 선택 → 먼저 입력한 쿠폰 코드가 지워짐 (요금제를 먼저 입력)
+    expect(graph.edges).toContainEqual({ from: '#plan-basic', to: '#coupon', type: 'resets' });
+    expect(graph.fillOrder.indexOf('#plan-basic')).toBeLessThan(graph.fillOrder.indexOf('#coupon'));
+
+    // 버튼 활성화 조건
+    expect(graph.buttonEnabled).toBe(true);
+    expect(graph.buttonRequires).toEqual(expect.arrayContaining(['#name', '#channel', '#agree']));
+    expect(graph.nodes.find(n => n.selector === '#agree')?.enablesButton).toBe(true);
+
+    // 입력 순서: 노출시키는 필드가 먼저
+    expect(graph.fillOrder.indexOf('#type')).toBeLessThan(graph.fillOrder.indexOf('#channel'));
+    const ordered = sortByFillOrder(
+      [{ selector: '#channel' }, { selector: '#unknown' }, { selector: '#type' }],
+      graph
+    );
+    expect(ordered.map(i => i.selector)).toEqual(['#type', '#channel', '#unknown']);
+
+    // 탐색 후 텍스트/체크박스/셀렉트/라디오 값 복원 (셀렉트로 노출된 필드도 다시 숨겨짐)
+    await expect(page.locator('#name')).toHaveValue('');
+    await expect(page.locator('#agree')).not.toBeChecked();
+    await expect(page.locator('#type')).toHaveValue('');
+    await expect(page.locator('#channel')).toBeHidden();
+    await expect(page.locator('#coupon')).toHaveValue('');
+    await expect(page.locator('#plan-basic')).not.toBeChecked();
+    console.log(`✅ 의존성 탐색: ${graph.edges.length}개 관계, 입력 순서 ${graph.fillOrder.join(' → ')}`);
+  });
+
+  test('AutoPilot - 리플레이 스크립트 기록/재생 및 fallback 테스트', async ({ page }) => {
+    const form = (buttonId: string) => `
+      <html>
+        <body>
+          <button id="open" onclick="const count = document.getElementById('opened'); count.textContent = String(Number(count.textContent) + 1)">작성</button>
+          <span id="opened">0</span>
+          <input id="title" type="text" placeholder="제목" oninput="document.getElementById('${buttonId}').disabled = !this.value" />
+          <button id="${buttonId}" disabled onclick="document.getElementById('result').textContent = '저장 완료'">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `;
+    const goal = {
+      name: '제목 저장',
+      preSteps: [{ type: 'click' as const, target: '#open' }],
+      targetButton: '저장',
+      successIndicator: /저장 완료/
+    };
+    const config = { maxSteps: 10, stepDelay: 50, typeDelay: 0, verbose: false, seed: 42 };
+
+    await page.setContent(form('save'));
+    const recorded = await new AutoPilot(page, config).execute(goal);
+    expect(recorded.success).toBe(true);
+
+    // 저장/불러오기 (정규식 성공 조건 유지)
+    const script = createReplayScript(recorded, { goal });
+    const filePath = test.info().outputPath('title.replay.json');
+    saveReplayScript(script, filePath);
+    const loaded = loadReplayScript(filePath);
+    expect(loaded.successIndicator).toBeInstanceOf(RegExp);
+    expect(loaded.steps.map(s => s.type)).toEqual(['click', 'fill', 'click']);
+    expect(loaded.seed).toBe(42);
+    expect(loaded.baseDate).toBe(recorded.baseDate);
+
+    // 함수 값이 있는 Goal은 저장 거부, includeGoal: false로 만들면 저장 후 replay 옵션으로 전달
+    const functionGoal = { ...goal, fieldInstructions: [{ field: { selector: '#title' }, value: () => '제목' }] };
+    expect(() => saveReplayScript(createReplayScript(recorded, { goal: functionGoal }), filePath))
+      .toThrow('goal.fieldInstructions[0].value');
+    saveReplayScript(createReplayScript(recorded, { goal: functionGoal, includeGoal: false }), filePath);
+    expect(loadReplayScript(filePath).goal).toBeUndefined();
+
+    // 같은 화면: 결정 없이 재생
+    await page.setContent(form('save'));
+    const replayed = await new AutoPilot(page, config).replay(loaded);
+    expect(replayed.mode).toBe('replay');
+    expect(replayed.success).toBe(true);
+    expect(replayed.steps.every(s => s.phase === 'replay')).toBe(true);
+
+    // 버튼 id 변경: 이탈 → 재생한 사전 단계는 다시 실행하지 않고 AutoPilot으로 전환
+    await page.setContent(form('save-v2'));
+    const fallback = await new AutoPilot(page, config).replay(loaded, { stepTimeout: 500 });
+    expect(fallback.mode).toBe('fallback');
+    expect(fallback.divergedAt).toBe(3);
+    expect(fallback.success).toBe(true);
+    expect(fallback.steps.some(s => s.phase === 'preStep')).toBe(false);
+    await expect(page.locator('#opened')).toHaveText('1');
+
+    // fallback 비활성화 시 실패 반환
+    await page.setContent(form('save-v2'));
+    const strict = await new AutoPilot(page, config).replay(loaded, { stepTimeout: 500, fallback: false });
+    expect(strict.success).toBe(false);
+    expect(strict.divergence).toContain('#save');
+
+    // URL 변경 대기: 경로의 숫자/UUID id는 :id 패턴으로 저장
+    const navigated = createReplayScript({
+      success: true,
+      totalTime: 0,
+      steps: [
+        { step: 1, timestamp: '', success: true, url: 'https://app.test/links', action: { type: 'click', selector: '#new', reason: '새 링크', confidence: 1 } },
+        { step: 2, timestamp: '', success: true, url: 'https://app.test/links/42/edit?tab=1', action: { type: 'click', selector: '#edit', reason: '편집', confidence: 1 } }
+      ]
+    });
+    expect(navigated.steps[2]).toMatchObject({ type: 'waitForUrl', value: '/links/:id/edit' });
+    expect(matchesUrlPattern('https://app.test/links/7f1c2a90-1b2c-4d3e-8f90-123456789abc/edit', '/links/:id/edit')).toBe(true);
+    expect(matchesUrlPattern('https://app.test/links/43/done', '/links/:id/edit')).toBe(false);
+    console.log(`✅ 리플레이: ${replayed.totalTime}ms (AutoPilot ${recorded.totalTime}ms), 이탈 후 fallback 성공`);
+  });
+
+  test('SpecGenerator - 실행 결과로 Playwright 스펙 생성 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <label for="title">제목</label>
+          <input id="title" type="text" oninput="document.getElementById('save').disabled = !this.value" />
+          <button id="save" disabled onclick="document.getElementById('result').textContent = '저장 완료'">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `);
+
+    const goal = { name: '제목 저장', targetButton: '저장', successIndicator: { type: 'text' as const, value: '저장 완료' } };
+    const pilot = new AutoPilot(page, { maxSteps: 10, stepDelay: 50, typeDelay: 0, verbose: false, seed: 3 });
+    const result = await pilot.execute(goal);
+    expect(result.success).toBe(true);
+
+    const code = generateSpecCode(result, { feature: '제목 저장', goal });
+    expect(code).toContain(`test.describe('제목 저장'`);
+    expect(code).toContain(`await page.getByLabel('제목').fill(`);
+    expect(code).toContain(`await expect(page.getByRole('button', { name: '저장' })).toBeEnabled();`);
+    expect(code).toContain(`await expect(page.getByText('저장 완료').first()).toBeVisible();`);
+    expect(code).not.toContain('waitForTimeout');
+    expect(code).toContain('시드: 3');
+
+    expect(getSpecFilePath('제목 저장')).toMatch(/Tests[\\/]제목 저장[\\/]제목 저장_test_code\.spec\.ts$/);
+    console.log(`✅ 스펙 생성: ${code.split('\n').length}줄`);
+  });
+
+  test('SpecGenerator - URL 이동 확인의 id 세그먼트 패턴 테스트', async () => {
+    const result = {
+      success: true,
+      totalTime: 0,
+      steps: [
+        { step: 1, timestamp: '', success: true, url: 'https://app.test/links', action: { type: 'click' as const, selector: '#new', reason: '새 링크', confidence: 1 } },
+        { step: 2, timestamp: '', success: true, url: 'https://app.test/links/123/edit', action: { type: 'click' as const, selector: '#edit', reason: '편집', confidence: 1 } }
+      ]
+    };
+
+    // 실행마다 바뀌는 id는 [^/]+로 (다음 실행의 다른 id와도 일치)
+    const code = generateSpecCode(result, { feature: '링크 편집' });
+    expect(code).toContain('await expect(page).toHaveURL(/\\/links\\/[^/]+\\/edit/);');
+    expect(code).not.toContain('123');
+    const emitted = new RegExp(code.match(/toHaveURL\(\/(.+)\/\)/)![1]);
+    expect(emitted.test('https://app.test/links/456/edit')).toBe(true);
+    expect(emitted.test('https://app.test/links/456/view')).toBe(false);
+    console.log(`✅ 스펙 URL 패턴: ${emitted}`);
+  });
+
+  test('FlowRecorder - 코드 생성 이스케이프/로케이터/test.step 테스트', async ({ page }) => {
+    await page.setContent(`<html><body><button>삭제</button></body></html>`);
+
+    const recorder = new FlowRecorder(page, test.info().outputPath('flow-records'));
+    recorder.startFlow(`사용자's 플로우`, '따옴표가 포함된 플로우');
+    await recorder.addStep({ action: 'fill', selector: 'input[placeholder="이름"]', value: `O'Reilly "홍길동"\n두 번째 줄`, description: '이름 입력' }, false);
+    await recorder.addStep({ action: 'click', selector: `getByText('삭제')`, description: '삭제 클릭' }, false);
+    await recorder.addStep({ action: 'click', selector: `text='확인'`, description: '확인 클릭' }, false);
+    await recorder.addStep({ action: 'wait', target: '/done?', description: '완료 페이지 대기' }, false);
+    await recorder.addStep({ action: 'custom', value: `await page.keyboard.press('Escape');`, description: '팝업 닫기' }, false);
+    const flow = recorder.endFlow()!;
+
+    const code = recorder.generateTestCode(flow);
+    expect(code).toContain(`test('사용자\\'s 플로우', async ({ page }) => {`);
+    expect(code).toContain(`await page.locator('input[placeholder="이름"]').fill('O\\'Reilly "홍길동"\\n두 번째 줄');`);
+    expect(code).toContain(`await page.getByText('삭제').click();`);
+    expect(code).toContain(`await page.locator('text=\\'확인\\'').click();`);
+    expect(code).toContain(`await expect(page).toHaveURL(/\\/done\\?/);`);
+    expect(code).toContain(`await page.keyboard.press('Escape');`);
+    expect(code).not.toContain('waitForTimeout');
+
+    // test.step 묶기 + 타입 체크
+    const stepped = recorder.generateTestCode(flow, { useTestSteps: true, typeCheck: true });
+    expect(stepped).toContain(`await test.step('Step 2: 삭제 클릭', async () => {`);
+
+    // 잘못된 코드는 오류 위치와 함께 보고
+    const broken = typeCheckTestCode(code.replace('.click();', '.clik();'));
+    expect(broken.valid).toBe(false);
+    expect(broken.errors[0]).toContain('clik');
+    console.log(`✅ 코드 생성: ${flow.steps.length}개 스텝, 타입 체크 통과`);
+  });
+
+  test('FlowRecorder - 라이브 기록 (클릭/입력/선택/대화상자) 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <label for="email">이메일</label>
+          <input id="email" type="email" />
+          <label for="password">비밀번호</label>
+          <input id="password" type="password" />
+          <label for="plan">요금제</label>
+          <select id="plan">
+            <option value="">선택</option>
+            <option value="pro">프로</option>
+          </select>
+          <button onclick="if (confirm('저장할까요?')) document.getElementById('result').textContent = '저장됨'">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `);
+
+    const recorder = new FlowRecorder(page, test.info().outputPath('flow-records'));
+    await recorder.startCapture('라이브 기록', '직접 조작한 플로우');
+    expect(recorder.isCapturing()).toBe(true);
+
+    await page.locator('#email').fill('a@example.com');
+    await page.locator('#email').press('Tab');
+    await page.locator('#password').fill('secret-1234');
+    await page.locator('#password').press('Tab');
+    await page.locator('#plan').selectOption('pro');
+    await page.getByRole('button', { name: '저장' }).click();
+    await expect(page.locator('#result')).toHaveText('저장됨');
+
+    const flow = (await recorder.stopCapture())!;
+    expect(flow.steps.map(s => s.action)).toEqual(['fill', 'fill', 'select', 'custom', 'click']);
+    expect(flow.steps.map(s => s.order)).toEqual([1, 2, 3, 4, 5]);
+    expect(flow.steps[0].selector).toContain(`getByLabel('이메일')`);
+    expect(flow.steps[0].value).toBe('a@example.com');
+    expect(flow.steps[1]).toMatchObject({ masked: true, value: undefined });
+    expect(flow.steps[2].value).toBe('pro');
+    expect(flow.steps[4].selector).toContain(`getByRole('button', { name: '저장' })`);
+    expect(await page.locator('[data-flow-capture-id]').count()).toBe(0);
+
+    // 대화상자 핸들러는 클릭 전에 등록
+    const code = recorder.generateTestCode(flow, { typeCheck: true });
+    expect(code).toContain(`page.once('dialog', dialog => dialog.accept());`);
+    expect(code).toContain(`.selectOption('pro');`);
+    expect(code).toContain(`.fill(process.env.FLOW_STEP_2_VALUE);`);
+    expect(code).not.toContain('secret-1234');
+
+    // 요소가 사라졌을 때는 이벤트 시점 스냅샷으로 셀렉터 생성
+    expect(selectorFromSnapshot({ tag: 'button', text: '저장 "확인"' })).toBe('button:has-text("저장 \\"확인\\"")');
+    console.log(`✅ 라이브 기록: ${flow.steps.length}개 스텝`);
+  });
+
+  test('FlowPlayer - 저장된 플로우 재생 및 스텝별 결과 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <label for="email">이메일</label>
+          <input id="email" type="email" />
+          <label for="plan">요금제</label>
+          <select id="plan">
+            <option value="">선택</option>
+            <option value="pro">프로</option>
+          </select>
+          <button onclick="if (confirm('저장할까요?')) document.getElementById('result').textContent = '저장됨: ' + document.getElementById('plan').value">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `);
+
+    const outputDir = test.info().outputPath('flow-records');
+    const recorder = new FlowRecorder(page, outputDir);
+    recorder.startFlow('플로우 재생');
+    await recorder.addStep({ action: 'fill', selector: `getByLabel('이메일')`, value: 'a@example.com', description: '이메일 입력' }, false);
+    await recorder.addStep({ action: 'select', selector: `page.getByLabel('요금제')`, value: 'pro', description: '요금제 선택' }, false);
+    await recorder.recordCustom('confirm 수락', `page.once('dialog', dialog => dialog.accept());`);
+    await recorder.addStep({ action: 'click', selector: `getByRole('button', { name: '저장' })`, description: '저장 클릭' }, false);
+    await recorder.addStep({ action: 'assert', selector: '#result', value: '저장됨: pro', description: '결과 확인' }, false);
+    recorder.endFlow();
+
+    expect(toPlaywrightSelector(`getByRole('button', { name: '저장' })`)).toBe('internal:role=button[name="저장"i]');
+    expect(toPlaywrightSelector(`frameLocator('#editor').getByText('제목')`))
+      .toBe(`#editor${FRAME_SEPARATOR}internal:text="제목"i`);
+
+    // 이름으로 불러와 재생 (스텝별 스크린샷)
+    const player = new FlowPlayer(page, { outputDir, typeDelay: 0 });
+    const result = await player.play('플로우 재생');
+    expect(result.success).toBe(true);
+    expect(result.passed).toBe(5);
+    expect(await page.locator('#email').inputValue()).toBe('a@example.com');
+    expect(result.steps.every(s => s.screenshot)).toBe(true);
+
+    // 실패 시 남은 스텝은 건너뛰고 실패 스크린샷만 저장
+    const failing = new FlowPlayer(page, { outputDir, stepTimeout: 1000, recovery: false, screenshots: 'failure' });
+    const failed = await failing.play({
+      ...recorder.loadFlow('플로우 재생')!,
+      steps: [
+        { order: 1, action: 'click', selector: '#missing', description: '없는 버튼', timestamp: '' },
+        { order: 2, action: 'assert', selector: '#result', description: '결과 확인', timestamp: '' }
+      ]
+    });
+    expect(failed.success).toBe(false);
+    expect(failed.steps.map(s => s.status)).toEqual(['failed', 'skipped']);
+    expect(failed.steps[0].screenshot).toContain('step-1-failed.png');
+    expect(formatPlaybackResult(failed)).toContain('| 1 | click | 없는 버튼 | ❌ |');
+
+    // 가린 입력값은 valueOverrides(또는 환경 변수) 없이는 실패
+    const maskedFlow = {
+      ...recorder.loadFlow('플로우 재생')!,
+      steps: [{ order: 1, action: 'fill' as const, selector: '#email', masked: true, description: '가린 입력', timestamp: '' }]
+    };
+    const missing = await failing.play(maskedFlow);
+    expect(missing.success).toBe(false);
+    expect(missing.steps[0].error).toContain('FLOW_STEP_1_VALUE');
+    const overridden = await new FlowPlayer(page, { outputDir, screenshots: 'none', typeDelay: 0, valueOverrides: { 1: 'b@example.com' } }).play(maskedFlow);
+    expect(overridden.success).toBe(true);
+    expect(await page.locator('#email').inputValue()).toBe('b@example.com');
+    console.log(`✅ 플로우 재생: ${result.passed}개 통과, 실패 플로우 ${failed.skipped}개 건너뜀`);
+  });
+
+  test('FlowDiff - 플로우 변경 감지 및 보고서 테스트', async () => {
+    const dir = test.info().outputPath('flow-diff');
+    fs.mkdirSync(dir, { recursive: true });
+    // 100x100 흰 이미지, dark 영역만 검게
+    const shot = (name: string, dark?: { x: number; y: number; width: number; height: number }) => {
+      const image = new PNG({ width: 100, height: 100 });
+      for (let y = 0; y < 100; y++) {
+        for (let x = 0; x < 100; x++) {
+          const inside = dark && x >= dark.x && x < dark.x + dark.width && y >= dark.y && y < dark.y + dark.height;
+          image.data.set(inside ? [0, 0, 0, 255] : [255, 255, 255, 255], (y * 100 + x) * 4);
+        }
+      }
+      const filePath = path.join(dir, name);
+      fs.writeFileSync(filePath, PNG.sync.write(image));
+      return filePath;
+    };
+    const step = (order: number, rest: Partial<FlowStep> & Pick<FlowStep, 'action' | 'description'>): FlowStep =>
+      ({ order, timestamp: '', ...rest });
+
+    const base: FlowRecord = {
+      name: '회원가입', description: '', startUrl: '/signup', createdAt: '2025-01-01', updatedAt: '2025-01-01',
+      steps: [
+        step(1, { action: 'fill', selector: `getByLabel('이메일')`, value: 'a@example.com', description: '이메일 입력', screenshot: shot('base-1.png') }),
+        step(2, { action: 'click', selector: `getByRole('checkbox', { name: '약관 동의' })`, description: '약관 동의' }),
+        step(3, { action: 'click', selector: '#submit', description: '가입 클릭' })
+      ]
+    };
+    const head: FlowRecord = {
+      ...base, createdAt: '2025-02-01',
+      steps: [
+        step(1, { action: 'fill', selector: `getByLabel('이메일 주소')`, value: 'b@example.com', description: '이메일 입력', screenshot: shot('head-1.png', { x: 0, y: 0, width: 20, height: 20 }) }),
+        step(2, { action: 'click', selector: '#submit', description: '가입하기 클릭' }),
+        step(3, { action: 'wait', target: '/welcome', description: '환영 페이지 대기' })
+      ]
+    };
+
+    const diff = diffFlows(base, head, { context: { baseURL: 'https://preview.example.com' } });
+    expect(diff.identical).toBe(false);
+    expect(diff.changes.map(c => `${c.type}:${c.baseOrder ?? '-'}>${c.headOrder ?? '-'}`)).toEqual([
+      'selector:1>1', 'value:1>1', 'screenshot:1>1', 'removed:2>-', 'added:->3'
+    ]);
+    expect(diffFlows(base, base).identical).toBe(true);
+    expect(diffFlows(base, head, { compareValues: false, compareScreenshots: false }).summary).toEqual({ selector: 1, removed: 1, added: 1 });
+
+    // 스크린샷: 허용치 안의 픽셀 차이와 기준 이미지 마스크 영역은 변경 아님
+    const withShot = (screenshot: string): FlowRecord => ({ ...base, steps: [{ ...base.steps[0], screenshot }, ...base.steps.slice(1)] });
+    expect(diffFlows(base, withShot(shot('dot-1.png', { x: 50, y: 50, width: 2, height: 2 }))).identical).toBe(true);
+    expect(diffFlows(base, head, { compareValues: false, screenshotTolerance: { maxDiffRatio: 0.05 } }).summary.screenshot).toBeUndefined();
+    const store = new VisualBaselineStore(path.join(dir, 'baselines'));
+    store.approve(flowStepKey(base.name, 1), base.steps[0].screenshot!, [{ x: 0, y: 0, width: 20, height: 20 }]);
+    expect(diffFlows(base, withShot(head.steps[0].screenshot!), { visualBaselines: store }).identical).toBe(true);
+
+    // 재생 결과와 비교: 실패 스텝과 이후 미실행 스텝
+    const playback = diffFlowWithPlayback(base, {
+      flow: base.name, success: false, passed: 1, failed: 1, skipped: 1, visualFailed: 0, duration: 0,
+      steps: [
+        { order: 1, action: 'fill', description: '이메일 입력', status: 'passed', duration: 0 },
+        { order: 2, action: 'click', description: '약관 동의', status: 'failed', duration: 0, error: 'Timeout 1000ms exceeded' },
+        { order: 3, action: 'click', description: '가입 클릭', status: 'skipped', duration: 0 }
+      ]
+    });
+    expect(playback.summary).toEqual({ failed: 1, 'not-reached': 1 });
+
+    const report = writeFlowDiffReport(diff, dir);
+    const markdown = fs.readFileSync(report.markdownPath, 'utf-8');
+    expect(markdown).toContain('- **baseURL**: https://preview.example.com');
+    expect(markdown).toContain("| 1 | 1 | 셀렉터 변경 | `이메일 입력` | `getByLabel('이메일')` | `getByLabel('이메일 주소')` |");
+    expect(JSON.parse(fs.readFileSync(report.jsonPath, 'utf-8')).changes).toHaveLength(5);
+    console.log(`✅ 플로우 비교: ${diff.changes.length}건 변경 감지`);
+  });
+
+  test('VisualBaselineStore - 플로우 스텝 시각 회귀 판정 테스트', async ({ page }) => {
+    const html = (color: string, clock: string) => `
+      <html>
+        <body style="margin: 0">
+          <div id="clock">${clock}</div>
+          <button id="confirm" style="background: ${color}; width: 120px; height: 40px">확인</button>
+        </body>
+      </html>
+    `;
+    const outputDir = test.info().outputPath('visual');
+    const store = new VisualBaselineStore(path.join(outputDir, 'visual-baselines'), { maxDiffPixels: 10 });
+    const player = new FlowPlayer(page, { outputDir, visualBaselines: store, screenshotMask: ['#clock'], recovery: false });
+    const flow: FlowRecord = {
+      name: '시각 비교', description: '', startUrl: '', createdAt: '', updatedAt: '',
+      steps: [{ order: 1, action: 'click', selector: '#confirm', description: '확인 클릭', timestamp: '' }]
+    };
+
+    // 첫 재생: 기준 이미지 생성
+    await page.setContent(html('white', '10:00'));
+    const first = await player.play(flow);
+    expect(first.steps[0].visual?.verdict).toBe('new');
+    expect(store.hasBaseline(flowStepKey('시각 비교', 1))).toBe(true);
+
+    // 마스크한 시계만 바뀜 → 통과
+    await page.setContent(html('white', '11:59'));
+    const second = await player.play(flow);
+    expect(second.steps[0].visual?.verdict).toBe('pass');
+    expect(second.success).toBe(true);
+
+    // 버튼 색 변경 → 시각 회귀로 재생 실패, 차이 이미지 저장
+    await page.setContent(html('red', '11:59'));
+    const third = await player.play(flow);
+    expect(third.success).toBe(false);
+    expect(third.visualFailed).toBe(1);
+    expect(third.steps[0].status).toBe('passed');
+    expect(fs.existsSync(third.steps[0].visual!.diffPath!)).toBe(true);
+
+    // 오프라인 비교: 허용 비율을 넘지 않으면 일치
+    const offline = compareImages(store.baselinePath(flowStepKey('시각 비교', 1)), third.steps[0].screenshot!);
+    expect(offline.match).toBe(false);
+    expect(compareImages(store.baselinePath(flowStepKey('시각 비교', 1)), third.steps[0].screenshot!, { maxDiffRatio: 0.5 }).match).toBe(true);
+    console.log(`✅ 시각 회귀: ${offline.diffPixels}px 차이 감지`);
+  });
+
+  test('TraceReport - AutoPilot 실행 트레이스 HTML 리포트 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <label for="title">제목</label>
+          <input id="title" type="text" oninput="document.getElementById('save').disabled = !this.value" />
+          <button id="save" disabled onclick="document.getElementById('result').textContent = '저장 완료'">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `);
+
+    const outputDir = test.info().outputPath('trace');
+    const pilot = new AutoPilot(page, {
+      maxSteps: 10, stepDelay: 50, typeDelay: 0, verbose: false, seed: 3,
+      enableScreenshots: true, screenshotDir: path.join(outputDir, 'screenshots'), recordStateSnapshots: true
+    });
+    const result = await pilot.execute({ name: '<제목> 저장', targetButton: '저장', successIndicator: { type: 'text' as const, value: '저장 완료' } });
+    expect(result.success).toBe(true);
+
+    const executed = result.steps.filter(step => step.action.type !== 'done');
+    expect(executed.every(step => step.duration !== undefined)).toBe(true);
+    expect(result.steps[0].stateSnapshot?.inputs?.length).toBeGreaterThan(0);
+
+    const reportPath = writeTraceReport(result, { title: '<제목> 저장', testsDir: outputDir, feature: '제목 저장' });
+    expect(reportPath).toMatch(/제목 저장[\\/]trace[\\/]index\.html$/);
+
+    const html = fs.readFileSync(reportPath, 'utf-8');
+    expect(html).toContain('&lt;제목&gt; 저장');
+    expect(html).not.toContain('<제목>');
+    expect(html).toContain('data:image/png;base64,');
+    expect(html).toContain('상태 스냅샷');
+    expect(html.match(/class="step /g)?.length).toBe(result.steps.length);
+
+    // 외부 리소스 없이 열림
+    await page.goto(`file://${path.resolve(reportPath)}`);
+    await expect(page.locator('.timeline .bar')).toHaveCount(result.steps.length);
+    await page.getByLabel('실패/복구만 보기').check();
+    await expect(page.locator('.step:visible')).toHaveCount(0);
+    console.log(`✅ 트레이스 리포트: ${result.steps.length}단계`);
+  });
+
+  test('Logger/qaEvents - 구조화 로그 및 실행 이벤트 구독 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <label for="title">제목</label>
+          <input id="title" type="text" oninput="document.getElementById('save').disabled = !this.value" />
+          <button id="save" disabled onclick="document.getElementById('result').textContent = '저장 완료'">저장</button>
+          <div id="result"></div>
+        </body>
+      </html>
+    `);
+
+    const records: LogRecord[] = [];
+    const lines: string[] = [];
+    configureLogger({ level: 'debug', format: 'json', namespaces: ['AutoPilot', 'Custom*', '-Custom:Hidden'], sink: (record, line) => { records.push(record); lines.push(line); } });
+
+    const started: number[] = [];
+    const executed: Array<{ action: string; success: boolean }> = [];
+    let finished: { name: string; success: boolean } | undefined;
+    const unsubscribe = [
+      qaEvents.on('stepStarted', event => { started.push(event.step); }),
+      qaEvents.on('actionExecuted', event => { executed.push({ action: event.action, success: event.success }); }),
+      qaEvents.on('executionFinished', event => { finished = event; })
+    ];
+
+    try {
+      const pilot = new AutoPilot(page, { maxSteps: 10, stepDelay: 50, typeDelay: 0, verbose: false, seed: 3 });
+      const result = await pilot.execute({ name: '제목 저장', targetButton: '저장', successIndicator: { type: 'text' as const, value: '저장 완료' } });
+      expect(result.success).toBe(true);
+
+      createLogger('Custom').info('표시', { id: 1 });
+      createLogger('Custom').child('Hidden').info('숨김');
+      createLogger('FlowPlayer').info('숨김');
+    } finally {
+      unsubscribe.forEach(off => off());
+      resetLoggerConfig();
+    }
+
+    // verbose: false → debug 레벨로 기록, JSON 한 줄씩
+    expect(records.some(r => r.namespace === 'AutoPilot' && r.level === 'debug')).toBe(true);
+    expect(records.map(r => r.namespace)).not.toContain('FlowPlayer');
+    expect(records.map(r => r.namespace)).not.toContain('Custom:Hidden');
+    expect(JSON.parse(lines[lines.length - 1])).toMatchObject({ namespace: 'Custom', level: 'info', message: '표시', data: { id: 1 } });
+
+    expect(started.length).toBeGreaterThan(0);
+    expect(executed.length).toBe(started.length);
+    expect(executed.map(e => e.action)).toEqual(expect.arrayContaining(['fill', 'click']));
+    expect(executed.every(e => e.success)).toBe(true);
+    expect(finished).toMatchObject({ name: '제목 저장', success: true });
+    expect(qaEvents.listenerCount('actionExecuted')).toBe(0);
+    console.log(`✅ 이벤트: ${executed.length}개 행동, 로그 ${records.length}줄`);
+  });
+
+  test('SelectorRepository - 깨진 셀렉터 지문 복구 및 드리프트 보고서 테스트', async ({ page }) => {
+    const html = (buttonId: string, label: string) => `
+      <html>
+        <body>
+          <form id="link-form">
+            <h2>트래킹 링크</h2>
+            <button type="button" id="${buttonId}" onclick="document.getElementById('result').textContent = '생성됨'">${label}</button>
+            <button type="button">취소</button>
+          </form>
+          <div id="result"></div>
+        </body>
+      </html>
+    `;
+    const filePath = test.info().outputPath('selector-repository.json');
+
+    // 배포 1: 등록
+    await page.setContent(html('create-link', '링크 생성'));
+    const v1 = new SelectorRepository(page, { filePath, release: 'v1' });
+    await v1.register('링크 생성 버튼', '#create-link');
+    expect((await v1.resolve('링크 생성 버튼')).healed).toBe(false);
+
+    // 배포 2: id와 문구 변경 → 지문으로 복구, 파일에 기록
+    await page.setContent(html('btn-8f3a2c', '새 링크 생성'));
+    const v2 = new SelectorRepository(page, { filePath, release: 'v2' });
+    const healed = await v2.resolve('링크 생성 버튼');
+    expect(healed.healed).toBe(true);
+    expect(healed.previous).toBe('#create-link');
+    expect(healed.confidence).toBeGreaterThanOrEqual(0.6);
+    expect(healed.selector).not.toContain('btn-8f3a2c'); // 자동 생성 id는 복구 셀렉터로 쓰지 않음
+    await page.locator(healed.selector).click();
+    await expect(page.locator('#result')).toHaveText('생성됨');
+
+    // 다음 실행은 복구된 셀렉터를 그대로 사용
+    const v3 = new SelectorRepository(page, { filePath, release: 'v2' });
+    expect(v3.get('링크 생성 버튼')?.selector).toBe(healed.selector);
+    const saved = fs.readFileSync(filePath, 'utf-8');
+    expect((await v3.resolve('링크 생성 버튼')).healed).toBe(false);
+    expect(fs.readFileSync(filePath, 'utf-8')).toBe(saved); // 재확인만으로는 파일을 다시 쓰지 않음
+    v3.save();
+    expect(JSON.parse(fs.readFileSync(filePath, 'utf-8')).entries['링크 생성 버튼'].lastVerifiedAt)
+      .toBe(v3.get('링크 생성 버튼')?.lastVerifiedAt);
+
+    const report = v3.driftReport({ release: 'v2' });
+    expect(report.drifted).toHaveLength(1);
+    expect(report.drifted[0]).toMatchObject({ name: '링크 생성 버튼', from: '#create-link', to: healed.selector });
+    expect(formatDriftReport(report)).toContain('링크 생성 버튼');
+
+    // ErrorRecovery: 등록된 셀렉터가 깨지면 저장소로 먼저 복구
+    await v3.register('링크 생성 버튼 (id)', '#btn-8f3a2c');
+    await page.setContent(html('btn-0000', '새 링크 생성'));
+    const recovery = new ErrorRecovery(page, { maxRetries: 1, selectorRepository: v3 });
+    const result = await recovery.attemptRecovery(new Error('Timeout 5000ms exceeded'), { selector: '#btn-8f3a2c', operation: 'click' });
+    expect(result.success).toBe(true);
+    expect(result.strategy).toBe('selector-repository');
+    expect(await page.locator(result.newSelector!).count()).toBe(1);
+    console.log(`✅ 셀렉터 복구: #create-link → ${healed.selector}, #btn-8f3a2c → ${result.newSelector}`);
+  });
+
+  test('SelectorScorer - 셀렉터 고유성/안정성 측정 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <ul>
+            <li><span class="css-1x2y3z">3개 남음</span><button type="button">삭제</button></li>
+            <li><span class="css-9a8b7c">12개 남음</span><button type="button">삭제</button></li>
+          </ul>
+          <button type="button" id="btn-8f3a2c" data-testid="save-button" class="sc-AxjAm">저장</button>
+        </body>
+      </html>
+    `);
+
+    // 정적 분석: 자동 생성 id, 해시 클래스, 바뀌기 쉬운 텍스트
+    expect(analyzeSelector('#btn-8f3a2c').risks.map(risk => risk.type)).toContain('generated-id');
+    expect(analyzeSelector('.sc-AxjAm').risks.map(risk => risk.type)).toContain('hashed-class');
+    expect(analyzeSelector('.Button_primary__3xYz9').risks.map(risk => risk.type)).toContain('hashed-class');
+    expect(analyzeSelector('.styles__title___2kR9a').risks.map(risk => risk.type)).toContain('hashed-class');
+    // BEM 클래스는 해시가 아님
+    for (const bem of ['.card__title', '.menu__item--active', '.grid__col12', '.block__element_modifier']) {
+      expect(analyzeSelector(bem).risks).toHaveLength(0);
+    }
+    expect(analyzeSelector('span:has-text("12개 남음")').risks.map(risk => risk.type)).toContain('volatile-text');
+    expect(inferSelectorType('[data-testid="save-button"]')).toBe('data-testid');
+    expect(analyzeSelector('#submit').risks).toHaveLength(0);
+
+    // 실제 DOM: 매칭 개수와 고유성
+    const scorer = new SelectorScorer(page);
+    const ambiguous = await scorer.score('button:has-text("삭제")');
+    expect(ambiguous.matchCount).toBe(2);
+    expect(ambiguous.unique).toBe(false);
+    expect(ambiguous.risks.map(risk => risk.type)).toContain('ambiguous');
+    expect((await scorer.score('#missing')).score).toBe(0);
+
+    // 대상 요소 기준 정렬: data-testid > 자동 생성 id, 다른 요소를 가리키면 제외
+    const target = page.locator('[data-testid="save-button"]');
+    const ranked = await scorer.rank(['#btn-8f3a2c', 'button:has-text("삭제")', '[data-testid="save-button"]'], target);
+    expect(ranked[0].selector).toBe('[data-testid="save-button"]');
+    expect(ranked[0].stability).toBe('high');
+    expect(ranked[2].selector).toBe('button:has-text("삭제")');
+    expect(ranked[2].risks.map(risk => risk.type)).toContain('wrong-element');
+    expect(formatSelectorScores(ranked)).toContain('| 셀렉터 | 점수 |');
+
+    // SelectorGenerator: 견고성 순 정렬
+    const alternatives = await new SelectorGenerator(page).generateAlternatives(target, { rankBy: 'robustness' });
+    expect(alternatives[0].type).toBe('data-testid');
+    expect(alternatives[0].score?.unique).toBe(true);
+    expect(alternatives.findIndex(alt => alt.type === 'id')).toBeGreaterThan(alternatives.findIndex(alt => alt.type === 'text'));
+    console.log(`✅ 셀렉터 점수: ${ranked.map(score => `${score.selector}=${score.score}`).join(', ')}`);
+  });
+
+  test('Shadow DOM/iframe - 분석기 탐색 및 프레임 셀렉터 상호작용 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <input id="title" type="text" placeholder="제목" />
+          <rich-editor></rich-editor>
+          <iframe id="embedded" srcdoc="<label for='memo'>메모</label><input id='memo' type='text' /><button type='button'>위젯 저장</button>"></iframe>
+          <script>
+            const host = document.querySelector('rich-editor');
+            const root = host.attachShadow({ mode: 'open' });
+            root.innerHTML = '<label for="body">본문</label><textarea id="body"></textarea><button type="button">서식</button>';
+          </script>
+        </body>
+      </html>
+    `);
+
+    // PageStateAnalyzer: shadow root 내부 라벨, iframe 내부는 프레임 경로가 붙은 셀렉터
+    const stateAnalyzer = new PageStateAnalyzer(page);
+    const inputs = await stateAnalyzer.extractInputs();
+    expect(inputs.find(input => input.selector === '#body')?.name).toBe('본문');
+    const memo = inputs.find(input => input.name === '메모');
+    expect(memo?.selector).toBe('iframe#embedded >> internal:control=enter-frame >> #memo');
+    expect(splitFrameSelector(memo!.selector)).toEqual({ path: ['iframe#embedded'], selector: '#memo' });
+
+    const buttons = await stateAnalyzer.extractButtons();
+    expect(buttons.map(button => button.text)).toEqual(expect.arrayContaining(['서식', '위젯 저장']));
+
+    // SmartFieldAnalyzer: 세 필드 모두 분석
+    const fields = await new SmartFieldAnalyzer(page).analyzeAllFields();
+    expect(fields.map(field => field.context.selector)).toEqual([
+      '#title',
+      '#body',
+      'iframe#embedded >> internal:control=enter-frame >> #memo'
+    ]);
+
+    // InteractionHandler: 프레임 셀렉터로 입력
+    const handler = new InteractionHandler(page);
+    const result = await handler.handleTextInput(memo!.selector, '위젯 메모');
+    expect(result.success).toBe(true);
+    await expect(page.frameLocator('iframe#embedded').locator('#memo')).toHaveValue('위젯 메모');
+
+    // DOMExplorer: iframe 내부 요소에 framePath, frameLocator 코드 제안
+    const clickables = await new DOMExplorer(page).exploreClickables();
+    const widgetButton = clickables.find(el => el.text === '위젯 저장');
+    expect(widgetButton?.framePath).toEqual(['iframe#embedded']);
+    expect(widgetButton?.suggestedSelectors[0]).toContain("page.frameLocator('iframe#embedded')");
+    expect(clickables.find(el => el.text === '서식')?.framePath).toBeUndefined();
+    console.log(`✅ Shadow DOM/iframe 탐색: 필드 ${fields.length}개, 버튼 ${buttons.length}개`);
+  });
+
+  test('AccessibilityStateAnalyzer - 접근성 트리 기반 상태 추출 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <span id="campaign-label">캠페인 이름</span>
+          <input type="text" aria-labelledby="campaign-label" />
+          <label>이메일 <input type="email" required /></label>
+          <label><input type="checkbox" checked /> 약관 동의</label>
+          <button type="button" aria-expanded="true">고급 설정</button>
+          <div role="dialog" aria-label="링크 생성">
+            <div role="group" aria-label="기본 정보">
+              <label for="link-name">링크 이름</label>
+              <input id="link-name" type="text" />
+            </div>
+            <button type="submit" disabled>저장</button>
+          </div>
+          <div role="tablist"><button role="tab" aria-selected="true">일반</button></div>
+        </body>
+      </html>
+    `);
+
+    const state = await new AccessibilityStateAnalyzer(page).analyze();
+
+    // aria-labelledby, 감싸는 label도 접근 가능한 이름으로 추출
+    const campaign = state.inputs.find(input => input.name === '캠페인 이름');
+    expect(campaign?.selector).toBe('internal:role=textbox[name="캠페인 이름"s]');
+    await page.locator(campaign!.selector).fill('봄 프로모션');
+    const email = state.inputs.find(input => input.name === '이메일');
+    expect(email).toMatchObject({ type: 'email', required: true, role: 'textbox' });
+    expect(state.inputs.find(input => input.name === '약관 동의')?.checked).toBe(true);
+
+    // DOM 분석기는 aria-labelledby 라벨을 찾지 못함
+    const domInputs = await new PageStateAnalyzer(page).extractInputs();
+    expect(domInputs.map(input => input.name)).not.toContain('캠페인 이름');
+
+    // 상태와 계층
+    expect(state.buttons.find(button => button.text === '고급 설정')?.expanded).toBe(true);
+    expect(state.inputs.find(input => input.name === '링크 이름')?.path).toEqual(['dialog "링크 생성"', 'group "기본 정보"']);
+    expect(state.modals).toHaveLength(1);
+    expect(state.modals[0]).toMatchObject({ title: '링크 생성' });
+    expect(state.modals[0].buttons.map(button => button.text)).toEqual(['저장']);
+    expect(state.modals[0].buttons[0]).toMatchObject({ disabled: true, type: 'submit' });
+    expect(state.activeTab).toBe('일반');
+    expect(state.accessibilityTree?.some(node => node.role === 'dialog')).toBe(true);
+
+    // AutoPilotConfig로 선택
+    const pilot = new AutoPilot(page, { stateAnalyzer: 'accessibility', verbose: false });
+    expect((await pilot.getState()).accessibilityTree).toBeDefined();
+    expect((await new AutoPilot(page, { verbose: false }).getState()).accessibilityTree).toBeUndefined();
+    console.log(`✅ 접근성 트리 상태: 입력 ${state.inputs.length}개, 버튼 ${state.buttons.length}개`);
+  });
+
+  test('AccessibilityAuditor - 접근성 규칙 위반 검사 및 리포트 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <input type="text" id="nameless" />
+          <button type="button" id="next"><span class="material-icons">keyboard_arrow_right</span></button>
+          <p id="faint" style="color: #bbbbbb">희미한 안내 문구</p>
+          <div class="custom-modal" style="position: fixed; top: 0; right: 0; width: 200px; height: 80px; background: #fff">공지</div>
+          <div role="dialog" aria-modal="true" id="confirm">
+            <button type="button">취소</button>
+            <button type="button">확인</button>
+          </div>
+          <a href="#after">다음 영역</a>
+          <div id="widget"></div>
+          <script>
+            document.getElementById('widget').attachShadow({ mode: 'open' }).innerHTML =
+              '<p id="shadow-faint" style="color: #cccccc">위젯 안내 문구</p>' +
+              '<div class="widget-modal" style="position: fixed; bottom: 0; left: 0; width: 160px; height: 40px; background: #fff">위젯 알림</div>';
+          </script>
+        </body>
+      </html>
+    `);
+
+    const auditor = new AccessibilityAuditor(page);
+    const result = await auditor.audit();
+    expect(summarizeAudit(result)).toEqual({
+      'input-name': 1,
+      'icon-ligature-name': 1,
+      'dialog-role': 2,
+      'dialog-name': 1,
+      'color-contrast': 2,
+      'modal-focus-trap': 1
+    });
+
+    // open shadow root 안 요소도 검사 (셀렉터는 shadow root를 관통해 같은 요소를 가리킴)
+    expect(result.violations.filter(v => v.rule === 'color-contrast').map(v => v.selector)).toEqual(['#faint', '#shadow-faint']);
+    const shadowModal = result.violations.find(v => v.rule === 'dialog-role' && v.detail?.includes('widget-modal'));
+    await expect(page.locator(shadowModal!.selector)).toHaveText('위젯 알림');
+    expect(result.violations.find(v => v.rule === 'dialog-name')?.selector).toBe('#confirm');
+    expect(() => assertNoViolations(result, ['input-name'])).toThrow('[input-name]');
+
+    const report = formatAuditReport(result);
+    expect(report).toContain('## 접근성 검사');
+    expect(report).toContain('| `modal-focus-trap` | serious | ❌ 1건 |');
+
+    // 규칙을 지킨 화면: 위반 없음
+    await page.setContent(`
+      <html>
+        <body>
+          <label for="title">제목</label>
+          <input type="text" id="title" />
+          <button type="button" aria-label="다음"><span class="material-icons" aria-hidden="true">keyboard_arrow_right</span></button>
+          <div role="dialog" aria-modal="true" aria-labelledby="dialog-title" id="dialog">
+            <h2 id="dialog-title">링크 삭제</h2>
+            <button type="button">취소</button>
+            <button type="button">삭제</button>
+          </div>
+          <div class="modal-backdrop fade show" style="position: fixed; inset: 0; background: rgba(0, 0, 0, 0.5)"></div>
+          <div class="modal-scrim" style="position: fixed; inset: 0; background: rgba(0, 0, 0, 0.2)"></div>
+          <script>
+            const dialog = document.getElementById('dialog');
+            dialog.addEventListener('keydown', event => {
+              if (event.key !== 'Tab') return;
+              const buttons = dialog.querySelectorAll('button');
+              const first = buttons[0];
+              const last = buttons[buttons.length - 1];
+              if (!event.shiftKey && document.activeElement === last) { event.preventDefault(); first.focus(); }
+              if (event.shiftKey && document.activeElement === first) { event.preventDefault(); last.focus(); }
+            });
+          </script>
+        </body>
+      </html>
+    `);
+    const clean = await auditor.audit();
+    expect(clean.violations).toEqual([]);
+    expect(clean.passed).toHaveLength(6);
+    assertNoViolations(clean);
+    console.log(`✅ 접근성 검사: 위반 ${result.violations.length}건 → ${clean.violations.length}건`);
+  });
+
+  test('ScenarioRunner - Goal 연결 실행 및 변수 공유 테스트', async ({ page }) => {
+    await page.setContent(`
+      <html>
+        <body>
+          <input id="name" type="text" placeholder="이름" />
+          <button id="create" onclick="document.getElementById('list').textContent = document.getElementById('name').value">생성</button>
+          <div id="list"></div>
+        </body>
+      </html>
+    `);
+
+    const runner = new ScenarioRunner(page, { maxSteps: 10, stepDelay: 50, typeDelay: 0, verbose: false });
+
+    const result = await runner.run({
+      name: '생성 → 확인',
+      goals: [
+        {
+          id: 'create',
+          goal: {
+            name: '항목 생성',
+            fieldInstructions: [
+              { field: { placeholder: '이름' }, value: '시나리오-항목', saveAs: 'itemName' }
+            ],
+            targetButton: '생성',
+            successIndicator: { type: 'text', value: '시나리오-항목' }
+          }
+        },
+        {
+          id: 'verify',
+          goal: (ctx) => ({
+            name: '항목 확인',
+            preSteps: [{ type: 'assertVisible', target: `#list:has-text("${ctx.variables.itemName}")` }],
+            successIndicator: { type: 'element', value: '#list' }
+          })
+        },
+        {
+          id: 'optional',
+          goal: { name: '없는 버튼', preSteps: [{ type: 'click', target: '#missing', timeout: 300 }] },
+          onFailure: 'ignore',
+          retries: 1
+        }
+      ]
+    });
+
+    expect(result.variables.itemName).toBe('시나리오-항목');
+    expect(result.variables['create.itemName']).toBe('시나리오-항목');
+    expect(result.goals.map(g => g.status)).toEqual(['passed', 'passed', 'failed']);
+    expect(result.success).toBe(true);
+    expect(result.steps.every(s => s.goal)).toBe(true);
+
+    // 재시도: 실패한 시도의 단계도 시도 번호와 함께 보존
+    const optional = result.goals[2];
+    expect(optional.attempts).toBe(2);
+    expect(optional.steps.map(s => s.attempt)).toEqual([1, 2]);
+    expect(optional.steps.every(s => !s.success)).toBe(true);
+    expect(result.steps.filter(s => s.goal === 'optional').map(s => s.attempt)).toEqual([1, 2]);
+    console.log(`✅ 시나리오 실행 성공: ${result.steps.length}단계, 변수 ${Object.keys(result.variables).length}개`);
+  });
+
 });
@@ -0,0 +1,492 @@
+import { Page, Frame, Locator } from '@playwright/test';
+import { AccessibilityStateAnalyzer } from './accessibility-state-analyzer';
+import { collectFrameScopes, qualifySelector, FrameScope } from './frame-scope';
+import { createLogger, errorData } from '../utils/logger';
+
+const logger = createLogger('AccessibilityAudit');
+
+/**
+ * 접근성 검사 규칙
+ *
+ * | 규칙 | 검사 내용 |
+ * |------|----------|
+ * | input-name | 접근 가능한 이름이 없는 입력 필드 |
+ * | icon-ligature-name | 이름이 아이콘 리거처 텍스트인 버튼 (keyboard_arrow_right 등) |
+ * | dialog-role | role="dialog" 없이 모달처럼 떠 있는 요소 |
+ * | dialog-name | aria-label/aria-labelledby가 없는 dialog |
+ * | color-contrast | 텍스트 명도 대비 부족 (일반 4.5:1, 큰 텍스트 3:1) |
+ * | modal-focus-trap | Tab 이동 시 열린 모달 밖으로 포커스가 빠져나감 |
+ */
+export type AuditRuleId =
+  | 'input-name'
+  | 'icon-ligature-name'
+  | 'dialog-role'
+  | 'dialog-name'
+  | 'color-contrast'
+  | 'modal-focus-trap';
+
+export type AuditImpact = 'critical' | 'serious' | 'moderate' | 'minor';
+
+/**
+ * 규칙 위반
+ */
+export interface AuditViolation {
+  rule: AuditRuleId;
+  impact: AuditImpact;
+  selector: string;           // 위반 요소 (iframe 내부면 프레임 경로가 붙은 셀렉터)
+  message: string;
+  detail?: string;            // 대비율, 포커스가 이동한 요소 등
+}
+
+/**
+ * 접근성 검사 결과
+ */
+export interface AuditResult {
+  url: string;
+  timestamp: string;
+  rules: AuditRuleId[];       // 실행한 규칙
+  violations: AuditViolation[];
+  passed: AuditRuleId[];      // 위반이 없는 규칙
+}
+
+/**
+ * 접근성 검사 옵션
+ */
+export interface AuditOptions {
+  rules?: AuditRuleId[];      // 실행할 규칙 (기본: 전체)
+  maxContrastViolations?: number; // color-contrast 최대 보고 개수 (기본: 50)
+}
+
+export const AUDIT_RULES: AuditRuleId[] = [
+  'input-name',
+  'icon-ligature-name',
+  'dialog-role',
+  'dialog-name',
+  'color-contrast',
+  'modal-focus-trap'
+];
+
+const RULE_IMPACT: Record<AuditRuleId, AuditImpact> = {
+  'input-name': 'critical',
+  'icon-ligature-name': 'serious',
+  'dialog-role': 'serious',
+  'dialog-name': 'moderate',
+  'color-contrast': 'serious',
+  'modal-focus-trap': 'serious'
+};
+
+// snake_case 아이콘 이름 (keyboard_arrow_right, more_vert, error_outline)
+const LIGATURE_PATTERN = /^[a-z][a-z0-9]*(?:_[a-z0-9]+)+$/;
+// 한 단어 아이콘 이름은 아이콘 폰트 요소에서 나온 경우만 위반
+const SINGLE_WORD_LIGATURES = ['close', 'menu', 'search', 'add', 'remove', 'delete', 'edit', 'check', 'done', 'clear', 'settings', 'refresh', 'info', 'help', 'home', 'logout'];
+const ICON_FONT_SELECTOR = '.material-icons, .material-icons-outlined, .material-symbols-outlined, .material-symbols-rounded, [class*="icon"], [class*="Icon"]';
+
+const MODAL_SELECTOR = '[role="dialog"], [role="alertdialog"], dialog[open], [aria-modal="true"]';
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]):not([type="hidden"]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+/**
+ * AccessibilityAuditor - 접근성 트리와 DOM 기반 오프라인 접근성 검사
+ *
+ * 외부 서비스 없이 현재 페이지(same-origin iframe, open shadow root 포함)를 검사하고
+ * 규칙 ID로 위반을 반환 (스펙에서 검증, 결과 리포트 .md에 포함)
+ *
+ * 사용법:
+ * ```typescript
+ * const result = await new AccessibilityAuditor(page).audit();
+ * expect(result.violations.map(v => v.rule)).not.toContain('input-name');
+ * assertNoViolations(result, ['input-name', 'modal-focus-trap']);
+ *
+ * // {테스트명}_test_result.md에 추가
+ * fs.appendFileSync(resultPath, formatAuditReport(result));
+ * ```
+ */
+export class AccessibilityAuditor {
+  private page: Page;
+  private stateAnalyzer: AccessibilityStateAnalyzer;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.stateAnalyzer = new AccessibilityStateAnalyzer(page);
+  }
+
+  /**
+   * 접근성 검사 실행
+   */
+  async audit(options: AuditOptions = {}): Promise<AuditResult> {
+    const rules = options.rules ?? AUDIT_RULES;
+    const { maxContrastViolations = 50 } = options;
+    const violations: AuditViolation[] = [];
+
+    if (rules.includes('input-name') || rules.includes('icon-ligature-name')) {
+      violations.push(...await this.checkNames(rules));
+    }
+
+    const scopes = await collectFrameScopes(this.page);
+    for (const scope of scopes) {
+      if (rules.includes('dialog-role') || rules.includes('dialog-name')) {
+        violations.push(...await this.checkDialogs(scope, rules));
+      }
+      if (rules.includes('color-contrast')) {
+        const remaining = maxContrastViolations - violations.filter(v => v.rule === 'color-contrast').length;
+        if (remaining > 0) {
+          violations.push(...await this.checkContrast(scope, remaining));
+        }
+      }
+      if (rules.includes('modal-focus-trap')) {
+        violations.push(...await this.checkFocusTrap(scope));
+      }
+    }
+
+    const result: AuditResult = {
+      url: this.page.url(),
+      timestamp: new Date().toISOString(),
+      rules: [...rules],
+      violations,
+      passed: rules.filter(rule => !violations.some(v => v.rule === rule))
+    };
+
+    logger.info(`접근성 검사: 위반 ${violations.length}건 (통과 규칙 ${result.passed.length}/${rules.length})`);
+    return result;
+  }
+
+  /**
+   * input-name, icon-ligature-name: 접근성 트리의 이름 기준
+   */
+  private async checkNames(rules: AuditRuleId[]): Promise<AuditViolation[]> {
+    const violations: AuditViolation[] = [];
+    const state = await this.stateAnalyzer.analyze();
+
+    if (rules.includes('input-name')) {
+      for (const input of state.inputs) {
+        if (input.ariaLabel) continue;
+        violations.push(this.violation('input-name', input.selector, '입력 필드에 접근 가능한 이름이 없습니다 (label, aria-label, aria-labelledby 필요)'));
+      }
+    }
+
+    if (rules.includes('icon-ligature-name')) {
+      for (const button of state.buttons) {
+        const name = button.text.trim();
+        if (!name) continue;
+        const ligature = LIGATURE_PATTERN.test(name) ||
+          (SINGLE_WORD_LIGATURES.includes(name) && await this.hasIconFont(button.selector, name));
+        if (ligature) {
+          violations.push(this.violation('icon-ligature-name', button.selector, '버튼 이름이 아이콘 리거처 텍스트입니다 (aria-label로 의미 있는 이름 필요)', `이름: "${name}"`));
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  private async hasIconFont(selector: string, name: string): Promise<boolean> {
+    return this.page.locator(selector).evaluate((el, { iconSelector, text }) => {
+      return Array.from(el.querySelectorAll(iconSelector)).some(icon => (icon.textContent || '').trim() === text);
+    }, { iconSelector: ICON_FONT_SELECTOR, text: name }, { timeout: 2000 }).catch(() => false);
+  }
+
+  /**
+   * dialog-role, dialog-name
+   */
+  private async checkDialogs(scope: FrameScope, rules: AuditRuleId[]): Promise<AuditViolation[]> {
+    const found = await scope.frame.locator('body').evaluate((body, { modalSelector, focusableSelector }) => {
+      // open shadow root 안 요소는 호스트를 거쳐 경로 생성 (Playwright CSS는 shadow root를 관통)
+      const parentOf = (node: Element): Element | null => node.parentElement ?? (node.getRootNode() as ShadowRoot).host ?? null;
+      const queryAllDeep = (root: Element | ShadowRoot, selector: string): Element[] => {
+        const found = Array.from(root.querySelectorAll(selector));
+        for (const el of Array.from(root.querySelectorAll('*'))) {
+          if (el.shadowRoot) found.push(...queryAllDeep(el.shadowRoot, selector));
+        }
+        return found;
+      };
+      const cssPath = (el: Element): string => {
+        if (el.id) return `#${CSS.escape(el.id)}`;
+        const parts: string[] = [];
+        for (let node: Element | null = el; node && node !== body; node = parentOf(node)) {
+          const parent = node.parentNode as ParentNode | null;
+          const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === node!.tagName) : [];
+          parts.unshift(siblings.length > 1 ? `${node.tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(node) + 1})` : node.tagName.toLowerCase());
+        }
+        return ['body', ...parts].join(' > ');
+      };
+      const isVisible = (el: Element) => {
+        const rect = el.getBoundingClientRect();
+        const style = getComputedStyle(el);
+        return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+      };
+
+      const covers = (outer: Element, inner: Element) => {
+        const a = outer.getBoundingClientRect();
+        const b = inner.getBoundingClientRect();
+        return a.left <= b.left && a.top <= b.top && a.right >= b.right && a.bottom >= b.bottom;
+      };
+      // 배경막(backdrop/overlay): 클래스 이름, 내용 없음, 보이는 형제 dialog를 덮는 요소 (Bootstrap .modal-backdrop 등)
+      const isBackdrop = (el: Element) =>
+        /backdrop|overlay/i.test(el.className.toString()) ||
+        (!el.querySelector(focusableSelector) && !(el.textContent || '').trim()) ||
+        Array.from(el.parentNode?.children ?? []).some(sibling =>
+          sibling !== el && sibling.matches(modalSelector) && isVisible(sibling) && covers(el, sibling));
+
+      // 모달처럼 떠 있지만 role이 없는 요소 (가장 바깥 요소만)
+      const unlabelledRole: Array<{ selector: string; className: string }> = [];
+      const candidates = queryAllDeep(body, '[class*="modal"], [class*="Modal"], [class*="dialog"], [class*="Dialog"]');
+      for (const el of candidates) {
+        if (!isVisible(el)) continue;
+        const position = getComputedStyle(el).position;
+        if (position !== 'fixed' && position !== 'absolute') continue;
+        if (el.closest(modalSelector) || el.querySelector(modalSelector)) continue;
+        if (isBackdrop(el)) continue;
+        if (candidates.some(other => other !== el && other.contains(el) && isVisible(other) &&
+          ['fixed', 'absolute'].includes(getComputedStyle(other).position))) continue;
+        unlabelledRole.push({ selector: cssPath(el), className: el.className.toString().slice(0, 80) });
+      }
+
+      // 이름 없는 dialog
+      const unnamed: string[] = [];
+      for (const el of queryAllDeep(body, '[role="dialog"], [role="alertdialog"], dialog[open]')) {
+        if (!isVisible(el)) continue;
+        const label = (el.getAttribute('aria-label') || '').trim();
+        const labelledBy = (el.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)
+          .map(id => (el.getRootNode() as Document | ShadowRoot).getElementById(id)?.textContent?.trim() || '')
+          .join(' ').trim();
+        if (!label && !labelledBy) unnamed.push(cssPath(el));
+      }
+
+      return { unlabelledRole, unnamed };
+    }, { modalSelector: MODAL_SELECTOR, focusableSelector: FOCUSABLE_SELECTOR }).catch(error => {
+      logger.warn('dialog 검사 실패', errorData(error));
+      return { unlabelledRole: [], unnamed: [] };
+    });
+
+    const violations: AuditViolation[] = [];
+    if (rules.includes('dialog-role')) {
+      for (const item of found.unlabelledRole) {
+        violations.push(this.violation('dialog-role', qualifySelector(scope.path, item.selector),
+          '모달처럼 표시된 요소에 role="dialog"가 없습니다', `class: ${item.className}`));
+      }
+    }
+    if (rules.includes('dialog-name')) {
+      for (const selector of found.unnamed) {
+        violations.push(this.violation('dialog-name', qualifySelector(scope.path, selector),
+          'dialog에 aria-label 또는 aria-labelledby가 없습니다'));
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * color-contrast: 직접 텍스트를 가진 요소의 글자색/배경색 대비 (WCAG AA)
+   */
+  private async checkContrast(scope: FrameScope, limit: number): Promise<AuditViolation[]> {
+    const found = await scope.frame.locator('body').evaluate((body, max) => {
+      // open shadow root 안 요소는 호스트를 거쳐 경로 생성 (Playwright CSS는 shadow root를 관통)
+      const parentOf = (node: Element): Element | null => node.parentElement ?? (node.getRootNode() as ShadowRoot).host ?? null;
+      const queryAllDeep = (root: Element | ShadowRoot, selector: string): Element[] => {
+        const found = Array.from(root.querySelectorAll(selector));
+        for (const el of Array.from(root.querySelectorAll('*'))) {
+          if (el.shadowRoot) found.push(...queryAllDeep(el.shadowRoot, selector));
+        }
+        return found;
+      };
+      const cssPath = (el: Element): string => {
+        if (el.id) return `#${CSS.escape(el.id)}`;
+        const parts: string[] = [];
+        for (let node: Element | null = el; node && node !== body; node = parentOf(node)) {
+          const parent = node.parentNode as ParentNode | null;
+          const siblings = parent ? Array.from(parent.children).filter(child => child.tagName === node!.tagName) : [];
+          parts.unshift(siblings.length > 1 ? `${node.tagName.toLowerCase()}:nth-of-type(${siblings.indexOf(node) + 1})` : node.tagName.toLowerCase());
+        }
+        return ['body', ...parts].join(' > ');
+      };
+      const parseColor = (value: string): [number, number, number, number] | null => {
+        const match = value.match(/rgba?\(([^)]+)\)/);
+        if (!match) return null;
+        const [r, g, b, a = '1'] = match[1].split(/[\s,/]+/).filter(Boolean);
+        return [Number(r), Number(g), Number(b), Number(a)];
+      };
+      const blend = (top: number[], bottom: number[]) => {
+        const alpha = top[3];
+        return [0, 1, 2].map(i => top[i] * alpha + bottom[i] * (1 - alpha)).concat(1) as [number, number, number, number];
+      };
+      const luminance = (color: number[]) => {
+        const [r, g, b] = color.slice(0, 3).map(channel => {
+          const c = channel / 255;
+          return c <= 0.03928 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+        });
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+      };
+      // 배경: 불투명한 조상까지 합성 (배경 이미지가 있으면 판단 불가)
+      const backgroundOf = (el: Element): number[] | null => {
+        const layers: number[][] = [];
+        for (let node: Element | null = el; node; node = parentOf(node)) {
+          const style = getComputedStyle(node);
+          if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+          const color = parseColor(style.backgroundColor);
+          if (color && color[3] > 0) {
+            layers.push(color);
+            if (color[3] >= 1) break;
+          }
+        }
+        return layers.reverse().reduce((bottom, top) => blend(top, bottom), [255, 255, 255, 1]);
+      };
+
+      const results: Array<{ selector: string; ratio: number; required: number; text: string }> = [];
+      for (const el of queryAllDeep(body, '*')) {
+        if (results.length >= max) break;
+        if (['SCRIPT', 'STYLE', 'NOSCRIPT', 'TITLE'].includes(el.tagName)) continue;
+
+        const text = Array.from(el.childNodes)
+          .filter(node => node.nodeType === Node.TEXT_NODE)
+          .map(node => node.textContent || '')
+          .join('').trim();
+        if (!text) continue;
+
+        // 비활성 요소는 WCAG 대비 기준 예외
+        if (el.closest('[disabled], [aria-disabled="true"]')) continue;
+
+        const rect = el.getBoundingClientRect();
+        const style = getComputedStyle(el);
+        if (rect.width === 0 || rect.height === 0 || style.visibility === 'hidden' || Number(style.opacity) === 0) continue;
+
+        const foreground = parseColor(style.color);
+        const background = backgroundOf(el);
+        if (!foreground || !background) continue;
+
+        const fg = blend(foreground, background);
+        const [light, dark] = [luminance(fg), luminance(background)].sort((a, b) => b - a);
+        const ratio = (light + 0.05) / (dark + 0.05);
+
+        const fontSize = parseFloat(style.fontSize);
+        const bold = Number(style.fontWeight) >= 700 || style.fontWeight === 'bold';
+        const required = fontSize >= 24 || (bold && fontSize >= 18.66) ? 3 : 4.5;
+
+        if (ratio < required) {
+          results.push({ selector: cssPath(el), ratio: Math.round(ratio * 100) / 100, required, text: text.slice(0, 40) });
+        }
+      }
+      return results;
+    }, limit).catch(error => {
+      logger.warn('명도 대비 검사 실패', errorData(error));
+      return [];
+    });
+
+    return found.map(item => this.violation('color-contrast', qualifySelector(scope.path, item.selector),
+      `텍스트 명도 대비가 부족합니다 (${item.ratio}:1, 기준 ${item.required}:1)`, `텍스트: "${item.text}"`));
+  }
+
+  /**
+   * modal-focus-trap: 열린 모달의 첫 요소부터 Tab/Shift+Tab으로 한 바퀴 돌며 포커스가 모달 안에 머무는지 확인
+   */
+  private async checkFocusTrap(scope: FrameScope): Promise<AuditViolation[]> {
+    const violations: AuditViolation[] = [];
+    const modals = scope.frame.locator(MODAL_SELECTOR);
+    const count = await modals.count();
+
+    for (let i = 0; i < count; i++) {
+      const modal = modals.nth(i);
+      if (!await modal.isVisible().catch(() => false)) continue;
+
+      const selector = qualifySelector(scope.path, `${MODAL_SELECTOR} >> nth=${i}`);
+      try {
+        const escaped = await this.tabOutOfModal(scope.frame, modal);
+        if (escaped) {
+          violations.push(this.violation('modal-focus-trap', selector,
+            '모달이 열린 상태에서 Tab으로 포커스가 모달 밖으로 이동합니다', escaped));
+        }
+      } catch (error) {
+        logger.warn('포커스 트랩 검사 실패', errorData(error));
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * 포커스가 모달 밖으로 나가면 "키 n회 후 이동한 요소" 설명, 머무르면 null
+   */
+  private async tabOutOfModal(frame: Frame, modal: Locator): Promise<string | null> {
+    // 모달 첫 요소에 포커스 (포커스 가능한 요소 수 반환)
+    const focusFirst = () => modal.evaluate((el, focusableSelector) => {
+      const focusables = Array.from(el.querySelectorAll<HTMLElement>(focusableSelector))
+        .filter(item => item.getBoundingClientRect().width > 0);
+      focusables[0]?.focus();
+      return focusables.length;
+    }, FOCUSABLE_SELECTOR);
+
+    const focusOutside = () => modal.evaluate(el => {
+      const active = el.ownerDocument.activeElement;
+      if (active && el.contains(active)) return null;
+      if (!active || active === el.ownerDocument.body) return 'body';
+      return `${active.tagName.toLowerCase()}${active.id ? `#${active.id}` : ''} ${(active.textContent || '').trim().slice(0, 20)}`.trim();
+    });
+
+    try {
+      for (const key of ['Tab', 'Shift+Tab']) {
+        const focusableCount = await focusFirst();
+        if (focusableCount === 0) return null;
+
+        // 포커스 가능한 요소 수만큼 이동하면 한 바퀴
+        for (let step = 0; step <= focusableCount; step++) {
+          await this.page.keyboard.press(key);
+          const outside = await focusOutside();
+          if (outside) return `${key} ${step + 1}회 후 ${outside}`;
+        }
+      }
+      return null;
+    } finally {
+      await frame.evaluate(() => (document.activeElement as HTMLElement | null)?.blur()).catch(() => {});
+    }
+  }
+
+  private violation(rule: AuditRuleId, selector: string, message: string, detail?: string): AuditViolation {
+    return { rule, impact: RULE_IMPACT[rule], selector, message, detail };
+  }
+}
+
+/**
+ * 규칙별 위반 개수 (위반 없는 규칙은 0)
+ */
+export function summarizeAudit(result: AuditResult): Record<AuditRuleId, number> {
+  const summary = Object.fromEntries(result.rules.map(rule => [rule, 0])) as Record<AuditRuleId, number>;
+  for (const violation of result.violations) {
+    summary[violation.rule] = (summary[violation.rule] ?? 0) + 1;
+  }
+  return summary;
+}
+
+/**
+ * 지정한 규칙(기본: 실행한 전체 규칙)에 위반이 있으면 에러
+ */
+export function assertNoViolations(result: AuditResult, rules: AuditRuleId[] = result.rules) {
+  const violations = result.violations.filter(v => rules.includes(v.rule));
+  if (violations.length === 0) return;
+
+  const lines = violations.map(v => `- [${v.rule}] ${v.selector}: ${v.message}${v.detail ? ` (${v.detail})` : ''}`);
+  throw new Error(`접근성 위반 ${violations.length}건:\n${lines.join('\n')}`);
+}
+
+/**
+ * 접근성 검사 결과 Markdown (결과 리포트 {테스트명}_test_result.md에 추가하는 섹션)
+ */
+export function formatAuditReport(result: AuditResult): string {
+  const summary = summarizeAudit(result);
+  const lines = [
+    `## 접근성 검사`,
+    ``,
+    `- **URL**: ${result.url}`,
+    `- **위반**: ${result.violations.length}건`,
+    `- **통과 규칙**: ${result.passed.length > 0 ? result.passed.map(rule => `\`${rule}\``).join(', ') : '-'}`,
+    ``,
+    `| 규칙 | 심각도 | 위반 |`,
+    `|------|--------|------|`,
+    ...result.rules.map(rule => `| \`${rule}\` | ${RULE_IMPACT[rule]} | ${summary[rule] > 0 ? `❌ ${summary[rule]}건` : '✅ 0건'} |`)
+  ];
+
+  if (result.violations.length > 0) {
+    lines.push(``, `### 위반 상세`, ``, `| # | 규칙 | 요소 | 내용 |`, `|---|------|------|------|`);
+    result.violations.forEach((v, index) => {
+      const content = `${v.message}${v.detail ? ` - ${v.detail}` : ''}`.replace(/\|/g, '\\|');
+      lines.push(`| ${index + 1} | \`${v.rule}\` | \`${v.selector.replace(/\|/g, '\\|')}\` | ${content} |`);
+    });
+  }
+
+  return lines.join('\n') + '\n';
+}
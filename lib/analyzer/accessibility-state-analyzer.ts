@@ -0,0 +1,393 @@
+import { Frame } from '@playwright/test';
+import { parse as parseYaml } from 'yaml';
+import {
+  PageStateAnalyzer,
+  PageState,
+  ButtonState,
+  InputState,
+  AlertState,
+  ModalState
+} from './page-state-analyzer';
+import { collectFrameScopes, qualifySelector, FrameScope } from './frame-scope';
+import { createLogger, errorData } from '../utils/logger';
+
+const logger = createLogger('AccessibilityState');
+
+/**
+ * 접근성 트리 노드 (Playwright aria snapshot 한 줄)
+ */
+export interface AccessibilityNode {
+  role: string;                   // 'text'는 텍스트 노드 (name에 내용)
+  name: string;                   // 접근 가능한 이름 (aria-labelledby, 감싸는 label 등 반영)
+  value?: string;                 // 인라인 텍스트 (textbox 입력 값 등)
+  props: Record<string, string>;  // /url, /placeholder
+  checked?: boolean | 'mixed';
+  disabled?: boolean;
+  expanded?: boolean;
+  pressed?: boolean | 'mixed';
+  selected?: boolean;
+  level?: number;
+  children: AccessibilityNode[];
+}
+
+const BUTTON_ROLES = ['button'];
+const INPUT_ROLES = ['textbox', 'searchbox', 'combobox', 'spinbutton', 'checkbox', 'radio', 'switch', 'slider', 'listbox'];
+const CHECKABLE_ROLES = ['checkbox', 'radio', 'switch'];
+// 이름이 없어도 계층 경로에 표시할 컨테이너
+const CONTAINER_ROLES = ['dialog', 'alertdialog', 'form', 'group', 'radiogroup', 'region', 'tabpanel', 'navigation', 'main'];
+
+const KEY_PATTERN = /^([a-z][\w-]*)(?:\s+("(?:[^"\\]|\\.)*"|\/.*\/))?((?:\s+\[[^\]]+\])*)$/i;
+
+interface VisitedNode {
+  node: AccessibilityNode;
+  ancestors: AccessibilityNode[];
+}
+
+interface FrameSnapshot {
+  scope: FrameScope;
+  nodes: AccessibilityNode[];
+}
+
+interface DomDetails {
+  type: string;
+  value?: string;
+  placeholder: string;
+  required: boolean;
+  maxLength?: number;
+  validationMessage?: string;
+  visualLabel?: string;
+}
+
+/**
+ * 접근성 트리 기반 페이지 상태 분석기
+ *
+ * PageStateAnalyzer와 같은 PageState를 만들되, 버튼/입력 필드를 DOM 속성 대신
+ * Playwright aria snapshot에서 추출
+ * - 이름: 접근 가능한 이름 (aria-labelledby, 감싸는 label, label[for] 모두 반영)
+ * - 상태: expanded, checked, selected, pressed
+ * - 계층: dialog/form/group 등 상위 컨테이너 경로 (InputState.path)
+ * - 셀렉터: internal:role=textbox[name="이메일"s] (같은 이름이 여러 개면 >> nth=n)
+ *
+ * required, maxLength 등 접근성 트리에 없는 속성은 요소에서 보완
+ *
+ * 사용법:
+ * ```typescript
+ * const pilot = new AutoPilot(page, { stateAnalyzer: 'accessibility' });
+ * // 또는 직접
+ * const state = await new AccessibilityStateAnalyzer(page).analyze();
+ * ```
+ */
+export class AccessibilityStateAnalyzer extends PageStateAnalyzer {
+  /**
+   * 전체 페이지 상태 추출 (접근성 트리 한 번으로 버튼/입력/알림/모달/탭 추출)
+   */
+  async analyze(): Promise<PageState> {
+    const buttons: ButtonState[] = [];
+    const inputs: InputState[] = [];
+    const alerts: AlertState[] = [];
+    const modals: ModalState[] = [];
+    let activeTab: string | undefined;
+
+    const snapshots = await this.snapshotFrames();
+    for (const { scope, nodes } of snapshots) {
+      const visited = flattenTree(nodes);
+      const selectors = roleSelectors(visited.map(entry => entry.node));
+      const frameButtons = new Map<AccessibilityNode, ButtonState>();
+      const frameInputs = new Map<AccessibilityNode, InputState>();
+
+      for (const { node, ancestors } of visited) {
+        const localSelector = selectors.get(node)!;
+        const selector = qualifySelector(scope.path, localSelector);
+        const path = ancestors.filter(isPathContainer).map(describeNode);
+
+        if (BUTTON_ROLES.includes(node.role)) {
+          const details = await this.domDetails(scope.frame, localSelector);
+          frameButtons.set(node, {
+            text: node.name,
+            disabled: !!node.disabled,
+            visible: true,
+            selector,
+            ariaLabel: node.name || undefined,
+            type: details?.type ?? 'button',
+            role: node.role,
+            expanded: node.expanded,
+            pressed: node.pressed,
+            path
+          });
+        } else if (INPUT_ROLES.includes(node.role)) {
+          const details = await this.domDetails(scope.frame, localSelector);
+          const placeholder = node.props.placeholder ?? details?.placeholder ?? '';
+          const treeValue = nodeValue(node);
+          const value = ['combobox', 'listbox'].includes(node.role)
+            ? treeValue ?? details?.value
+            : details?.value ?? treeValue;
+
+          frameInputs.set(node, {
+            name: node.name || details?.visualLabel || placeholder || `input-${inputs.length + frameInputs.size}`,
+            type: details?.type ?? node.role,
+            value: value ?? '',
+            placeholder,
+            required: !!details?.required || /\*\s*$/.test(node.name),
+            disabled: !!node.disabled,
+            visible: true,
+            selector,
+            ariaLabel: node.name || undefined,
+            validationMessage: details?.validationMessage,
+            maxLength: details?.maxLength,
+            role: node.role,
+            checked: CHECKABLE_ROLES.includes(node.role) ? node.checked ?? false : node.checked,
+            expanded: node.expanded,
+            selected: node.selected,
+            path
+          });
+        } else if (node.role === 'alert' || node.role === 'alertdialog' || node.role === 'status') {
+          const message = flattenText(node);
+          if (message) {
+            alerts.push({ type: node.role === 'status' ? 'info' : 'error', message: message.slice(0, 200), visible: true });
+          }
+        } else if (node.role === 'tab' && node.selected && !activeTab) {
+          activeTab = node.name;
+        }
+      }
+
+      // 모달: dialog 하위의 버튼/입력 필드
+      for (const { node } of visited) {
+        if (node.role !== 'dialog' && node.role !== 'alertdialog') continue;
+        const inside = (entry: VisitedNode) => entry.ancestors.includes(node);
+        modals.push({
+          visible: true,
+          title: node.name || visited.find(entry => inside(entry) && entry.node.role === 'heading')?.node.name,
+          content: flattenText(node).slice(0, 300),
+          buttons: visited.filter(inside).map(entry => frameButtons.get(entry.node)).filter((b): b is ButtonState => !!b),
+          inputs: visited.filter(inside).map(entry => frameInputs.get(entry.node)).filter((i): i is InputState => !!i)
+        });
+      }
+
+      buttons.push(...frameButtons.values());
+      inputs.push(...frameInputs.values());
+    }
+
+    return {
+      url: this.page.url(),
+      title: await this.page.title(),
+      forms: this.groupIntoForms(inputs, buttons),
+      buttons,
+      inputs,
+      alerts,
+      modals,
+      activeTab,
+      timestamp: new Date().toISOString(),
+      accessibilityTree: toTree(snapshots)
+    };
+  }
+
+  /**
+   * 접근성 트리 (same-origin iframe 내용은 role 'iframe' 노드 하위)
+   */
+  async snapshot(): Promise<AccessibilityNode[]> {
+    return toTree(await this.snapshotFrames());
+  }
+
+  // 개별 추출도 접근성 트리 기준 (analyze() 결과에서 선택)
+  async extractButtons(): Promise<ButtonState[]> {
+    return (await this.analyze()).buttons;
+  }
+
+  async extractInputs(): Promise<InputState[]> {
+    return (await this.analyze()).inputs;
+  }
+
+  async extractAlerts(): Promise<AlertState[]> {
+    return (await this.analyze()).alerts;
+  }
+
+  async extractModals(): Promise<ModalState[]> {
+    return (await this.analyze()).modals;
+  }
+
+  async extractActiveTab(): Promise<string | undefined> {
+    return (await this.analyze()).activeTab;
+  }
+
+  private async snapshotFrames(): Promise<FrameSnapshot[]> {
+    const snapshots: FrameSnapshot[] = [];
+    for (const scope of await collectFrameScopes(this.page)) {
+      try {
+        const nodes = parseAriaSnapshot(await scope.frame.locator('body').ariaSnapshot({ timeout: 5000 }));
+        snapshots.push({ scope, nodes });
+      } catch (error) {
+        logger.warn(`접근성 스냅샷 실패: ${scope.frame.url()}`, errorData(error));
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * 접근성 트리에 없는 속성 보완 (type, required, maxLength, 시각적 라벨)
+   */
+  private async domDetails(frame: Frame, selector: string): Promise<DomDetails | undefined> {
+    return frame.locator(selector).evaluate(el => {
+      const input = el as HTMLInputElement;
+
+      // 이름 없는 필드: 바로 앞에 보이는 짧은 텍스트를 라벨로 사용
+      const previous = el.previousElementSibling ?? el.parentElement?.previousElementSibling;
+      const previousText = previous?.textContent?.trim();
+
+      return {
+        type: input.type || el.tagName.toLowerCase(),
+        value: 'value' in input ? String(input.value) : (el.textContent || '').trim(),
+        placeholder: input.placeholder || '',
+        required: !!input.required || el.getAttribute('aria-required') === 'true',
+        maxLength: input.maxLength > 0 ? input.maxLength : undefined,
+        validationMessage: input.validationMessage || undefined,
+        visualLabel: previousText && previousText.length <= 50 ? previousText : undefined
+      };
+    }, undefined, { timeout: 2000 }).catch(error => {
+      logger.debug(`요소 속성 보완 실패: ${selector}`, errorData(error));
+      return undefined;
+    });
+  }
+}
+
+/**
+ * aria snapshot(YAML) → 접근성 트리
+ *
+ * ```
+ * - dialog "링크 생성":
+ *   - textbox "채널 이름" [disabled]: 카카오
+ *   - checkbox "동의" [checked]
+ * ```
+ */
+export function parseAriaSnapshot(snapshot: string): AccessibilityNode[] {
+  const parsed = parseYaml(snapshot);
+  if (!Array.isArray(parsed)) return [];
+  return parsed.map(toNode).filter((node): node is AccessibilityNode => !!node);
+}
+
+function toNode(item: unknown): AccessibilityNode | null {
+  if (typeof item === 'string') return parseKey(item);
+  if (!item || typeof item !== 'object') return null;
+
+  const [entry] = Object.entries(item as Record<string, unknown>);
+  if (!entry) return null;
+  const [key, value] = entry;
+
+  if (key === 'text') {
+    return { role: 'text', name: String(value ?? ''), props: {}, children: [] };
+  }
+
+  const node = parseKey(key);
+  if (!node) return null;
+
+  if (Array.isArray(value)) {
+    for (const child of value) {
+      const prop = child && typeof child === 'object' ? Object.entries(child)[0] : undefined;
+      if (prop && prop[0].startsWith('/')) {
+        node.props[prop[0].slice(1)] = String(prop[1] ?? '');
+        continue;
+      }
+      const childNode = toNode(child);
+      if (childNode) node.children.push(childNode);
+    }
+  } else if (value !== null && value !== undefined) {
+    node.value = String(value);
+  }
+  return node;
+}
+
+function parseKey(key: string): AccessibilityNode | null {
+  const match = key.trim().match(KEY_PATTERN);
+  if (!match) return null;
+
+  const [, role, rawName, rawStates] = match;
+  const node: AccessibilityNode = {
+    role,
+    name: rawName ? (rawName.startsWith('"') ? JSON.parse(rawName) : rawName) : '',
+    props: {},
+    children: []
+  };
+
+  for (const [, state, stateValue] of rawStates.matchAll(/\[([\w-]+)(?:=([^\]]+))?\]/g)) {
+    switch (state) {
+      case 'checked': node.checked = stateValue === 'mixed' ? 'mixed' : true; break;
+      case 'pressed': node.pressed = stateValue === 'mixed' ? 'mixed' : true; break;
+      case 'disabled': node.disabled = true; break;
+      case 'expanded': node.expanded = true; break;
+      case 'selected': node.selected = true; break;
+      case 'level': node.level = Number(stateValue); break;
+    }
+  }
+  return node;
+}
+
+function toTree(snapshots: FrameSnapshot[]): AccessibilityNode[] {
+  return snapshots.flatMap(({ scope, nodes }) => scope.path.length === 0
+    ? nodes
+    : [{ role: 'iframe', name: scope.path[scope.path.length - 1], props: {}, children: nodes }]);
+}
+
+function flattenTree(nodes: AccessibilityNode[], ancestors: AccessibilityNode[] = []): VisitedNode[] {
+  const visited: VisitedNode[] = [];
+  for (const node of nodes) {
+    if (node.role === 'text') continue;
+    visited.push({ node, ancestors });
+    visited.push(...flattenTree(node.children, [...ancestors, node]));
+  }
+  return visited;
+}
+
+/**
+ * role 셀렉터 (이름 있으면 정확히 일치, 겹치면 문서 순서 nth)
+ */
+function roleSelectors(nodes: AccessibilityNode[]): Map<AccessibilityNode, string> {
+  const baseOf = (node: AccessibilityNode) => node.name
+    ? `internal:role=${node.role}[name="${node.name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"s]`
+    : `internal:role=${node.role}`;
+
+  // 이름 없는 role 셀렉터는 같은 role 전체에 매칭되므로 role 단위로 번호 매김
+  const totals = new Map<string, number>();
+  const roleTotals = new Map<string, number>();
+  for (const node of nodes) {
+    totals.set(baseOf(node), (totals.get(baseOf(node)) ?? 0) + 1);
+    roleTotals.set(node.role, (roleTotals.get(node.role) ?? 0) + 1);
+  }
+
+  const named = new Map<string, number>();
+  const byRole = new Map<string, number>();
+  const selectors = new Map<AccessibilityNode, string>();
+  for (const node of nodes) {
+    const roleIndex = byRole.get(node.role) ?? 0;
+    byRole.set(node.role, roleIndex + 1);
+
+    const base = baseOf(node);
+    if (node.name) {
+      const index = named.get(base) ?? 0;
+      named.set(base, index + 1);
+      selectors.set(node, totals.get(base)! > 1 ? `${base} >> nth=${index}` : base);
+    } else {
+      selectors.set(node, roleTotals.get(node.role)! > 1 ? `${base} >> nth=${roleIndex}` : base);
+    }
+  }
+  return selectors;
+}
+
+function nodeValue(node: AccessibilityNode): string | undefined {
+  if (node.value !== undefined) return node.value;
+  const text = node.children.find(child => child.role === 'text');
+  if (text) return text.name;
+  const selected = flattenTree(node.children).find(entry => entry.node.role === 'option' && entry.node.selected);
+  return selected?.node.name;
+}
+
+function flattenText(node: AccessibilityNode): string {
+  const parts = [node.name, node.value, ...node.children.map(flattenText)];
+  return parts.filter(Boolean).join(' ').replace(/\s+/g, ' ').trim();
+}
+
+function isPathContainer(node: AccessibilityNode): boolean {
+  return CONTAINER_ROLES.includes(node.role) || (!!node.name && !['listitem', 'paragraph', 'cell', 'row'].includes(node.role));
+}
+
+function describeNode(node: AccessibilityNode): string {
+  return node.name ? `${node.role} "${node.name}"` : node.role;
+}
@@ -6,6 +6,29 @@ import {
   ButtonState,
   FormState
 } from './page-state-analyzer';
+import { SuccessEvaluator, SuccessIndicator } from './success-evaluator';
+import { FieldIdentifier, matchesFieldIdentifier } from './instruction-types';
+import {
+  ValueGenerator,
+  ValueScope,
+  GeneratedValue,
+  SeededValueGenerator,
+  createValueScope
+} from './value-generator';
+import {
+  ValueProviderRegistry,
+  ValueProviderOptions,
+  ValueLocale,
+  ValueVariant
+} from './value-providers';
+import { FieldPurpose } from './smart-field-analyzer';
+import { FieldDependencyGraph, sortByFillOrder } from './field-dependency';
+import {
+  DecisionPolicy,
+  DecisionPolicyRegistry,
+  DecisionContext,
+  DEFAULT_POLICY_NAME
+} from './decision-policy';
 
 /**
  * 행동 타입
@@ -17,6 +40,9 @@ export type ActionType =
   | 'wait'      // 대기
   | 'escape'    // ESC 키 (모달 닫기)
   | 'tab'       // Tab 키 (blur 이벤트)
+  | 'navigate'  // URL 이동 (value: URL)
+  | 'waitForUrl' // URL 변경 대기 (value: URL 일부)
+  | 'assertVisible' // 요소 표시 확인
   | 'done'      // 목표 달성
   | 'blocked'   // 진행 불가
   | 'explore';  // 추가 탐색 필요
@@ -30,6 +56,10 @@ export interface Action {
   value?: string;
   reason: string;
   confidence: number; // 0-1, 이 행동이 올바를 확률
+  timeout?: number;   // 행동별 타임아웃 (ms)
+  goalAction?: boolean; // 목표 버튼 클릭 (실행 후 성공 조건 대기)
+  rule?: string;        // 행동을 만든 규칙 (DecisionRule 이름, instruction, preStep 등)
+  policy?: string;      // 규칙이 속한 결정 정책
 }
 
 /**
@@ -39,7 +69,27 @@ export interface Goal {
   name: string;
   targetButton?: string;     // 최종적으로 클릭할 버튼
   requiredFields?: string[]; // 반드시 채워야 하는 필드
-  successIndicator?: string; // 성공 확인 텍스트/셀렉터
+  successIndicator?: SuccessIndicator; // 성공 확인 URL/텍스트/셀렉터 또는 구조화된 조건
+
+  // 자동 입력 범위 제어
+  strictMode?: boolean;       // 명시된 필드(fieldIdentifiers/knownSelectors)만 입력 (기본: false)
+  autoFillUnknown?: boolean;  // 명시되지 않은 필드도 자동 입력 (기본: true)
+  fieldIdentifiers?: FieldIdentifier[]; // 명시적 지시의 필드 식별자
+  knownSelectors?: string[];  // 명시적 지시로 매칭된 필드 셀렉터
+
+  // 자동 입력 값 (ValueProviderRegistry)
+  locale?: ValueLocale;       // 기본: ko-KR
+  valueVariant?: ValueVariant; // 기본: default (경계값 테스트 시 maxLength/unicode/emoji/whitespace)
+}
+
+/**
+ * 자동 입력하지 않고 건너뛴 필드
+ */
+export interface SkippedField {
+  name: string;
+  selector: string;
+  required: boolean;
+  reason: 'strict-mode' | 'auto-fill-disabled';
 }
 
 /**
@@ -47,7 +97,8 @@ export interface Goal {
  */
 export interface FieldStrategy {
   fieldPattern: RegExp;      // 필드 이름 패턴
-  valueGenerator: (fieldName: string, state: PageState) => string;
+  // values: 시드 기반 무작위 값 (Date.now()/Math.random() 대신 사용하면 같은 시드로 재현 가능)
+  valueGenerator: (fieldName: string, state: PageState, values: ValueScope) => string;
 }
 
 /**
@@ -77,17 +128,37 @@ interface StuckDetectionResult {
 export class ActionDecider {
   private page: Page;
   private analyzer: PageStateAnalyzer;
+  private successEvaluator: SuccessEvaluator;
   private fieldStrategies: FieldStrategy[] = [];
   private actionHistory: Action[] = [];
+  private skippedFields: Map<string, SkippedField> = new Map();
+  private valueGenerator: ValueGenerator;
+  private valueProviders: ValueProviderRegistry;
+  private valueOptions: ValueProviderOptions = {};
+  private generatedValues: GeneratedValue[] = [];
+  private dependencyGraph?: FieldDependencyGraph;
+  private policies: DecisionPolicyRegistry;
+  private policy: DecisionPolicy;
 
   // Orchestration 개선: State 추적
   private stateSnapshots: StateSnapshot[] = [];
+  private lastState?: PageState;
   private maxSnapshotHistory: number = 10;
   private stuckThreshold: number = 3;  // 동일 상태 반복 횟수
 
-  constructor(page: Page) {
+  constructor(
+    page: Page,
+    valueGenerator: ValueGenerator = new SeededValueGenerator(),
+    valueProviders: ValueProviderRegistry = new ValueProviderRegistry(),
+    policies: DecisionPolicyRegistry = new DecisionPolicyRegistry()
+  ) {
     this.page = page;
     this.analyzer = new PageStateAnalyzer(page);
+    this.successEvaluator = new SuccessEvaluator(page);
+    this.valueGenerator = valueGenerator;
+    this.valueProviders = valueProviders;
+    this.policies = policies;
+    this.policy = policies.get(DEFAULT_POLICY_NAME);
     this.initDefaultStrategies();
   }
 
@@ -100,6 +171,8 @@ export class ActionDecider {
    * 등록 순서 (일반 -> 구체적):
    * 1. 일반 패턴 먼저 (낮은 우선순위)
    * 2. 구체적 패턴 나중 (높은 우선순위)
+   *
+   * 값은 ValueProviderRegistry에서 Goal의 locale/valueVariant에 맞게 생성
    */
   private initDefaultStrategies() {
     // === 일반 패턴 (낮은 우선순위) - 먼저 등록 ===
@@ -107,26 +180,26 @@ export class ActionDecider {
     // 전화번호 필드
     this.addFieldStrategy({
       fieldPattern: /phone|전화|휴대폰/i,
-      valueGenerator: () => '010-1234-5678'
+      valueGenerator: (_, __, values) => this.provideValue('phone', values)
     });
 
     // 이메일 필드
     this.addFieldStrategy({
       fieldPattern: /email|이메일/i,
-      valueGenerator: () => `test_${Date.now()}@example.com`
+      valueGenerator: (_, __, values) => this.provideValue('email', values)
     });
 
     // URL 필드 (더 구체적인 패턴 - "트래킹 링크"와 구분)
     // "웹 URL", "목적지 URL", "리다이렉트 URL" 등만 매칭
     this.addFieldStrategy({
       fieldPattern: /웹.*url|목적지.*url|리다이렉트|redirect|http|https|website/i,
-      valueGenerator: () => 'https://example.com/test'
+      valueGenerator: (_, __, values) => this.provideValue('url', values)
     });
 
     // 이름/명칭 필드 (영문으로)
     this.addFieldStrategy({
       fieldPattern: /이름|name|title/i,
-      valueGenerator: () => `test_name_${Date.now()}`
+      valueGenerator: (_, __, values) => this.provideValue('name', values)
     });
 
     // === 구체적 패턴 (높은 우선순위) - 나중에 등록 ===
@@ -136,32 +209,32 @@ export class ActionDecider {
     // 광고 소재 필드 - "광고 소재의 이름" 또는 "소재를 입력"
     this.addFieldStrategy({
       fieldPattern: /광고.*소재의|소재를.*입력|ad.*creative|creative/i,
-      valueGenerator: () => `test_creative_${Date.now()}`
+      valueGenerator: (_, __, values) => this.provideValue('creative', values)
     });
 
     // 광고 그룹 필드 - "광고 그룹의 이름" 또는 "그룹을 입력"
     this.addFieldStrategy({
       fieldPattern: /광고.*그룹의|그룹을.*입력|ad.*group/i,
-      valueGenerator: () => `test_adgroup_${Date.now()}`
+      valueGenerator: (_, __, values) => this.provideValue('adgroup', values)
     });
 
     // 캠페인 필드 - "캠페인의 이름" (채널에서 운영할 캠페인)
     this.addFieldStrategy({
       fieldPattern: /캠페인의 이름|캠페인을.*입력|campaign/i,
-      valueGenerator: () => `test_campaign_${Date.now()}`
+      valueGenerator: (_, __, values) => this.provideValue('campaign', values)
     });
 
     // 채널 필드 - "채널을 선택" 또는 "채널의 이름" (가장 높은 우선순위)
     // 짧은 고정 접두사 + 짧은 랜덤 문자열 사용 (API 검증 최적화)
     this.addFieldStrategy({
       fieldPattern: /채널을 선택|채널의 이름|channel/i,
-      valueGenerator: () => `ch_${Math.random().toString(36).slice(2, 8)}`
+      valueGenerator: (_, __, values) => this.provideValue('channel', values)
     });
 
     // === 기본값 (가장 낮은 우선순위) - push로 배열 끝에 추가 ===
     this.fieldStrategies.push({
       fieldPattern: /.*/,
-      valueGenerator: () => `test_value_${Date.now()}`
+      valueGenerator: (_, __, values) => this.provideValue('unknown', values)
     });
   }
 
@@ -175,115 +248,85 @@ export class ActionDecider {
 
   /**
    * 목표 기반 다음 행동 결정
+   * 현재 결정 정책의 규칙을 순서대로 평가하고, 행동에 만든 규칙 이름 기록
    */
   async decideNextAction(goal: Goal): Promise<Action> {
     const state = await this.analyzer.analyze();
+    this.lastState = state;
+    const context = this.createDecisionContext(state, goal);
 
-    // 1. 모달이 있으면 먼저 처리
-    if (state.modals.length > 0) {
-      return this.handleModal(state);
-    }
-
-    // 2. 성공 지표 먼저 확인 (버튼 클릭 후 페이지 이동 감지)
-    if (goal.successIndicator) {
-      const success = await this.checkSuccessIndicator(goal.successIndicator);
-      if (success) {
-        return {
-          type: 'done',
-          reason: '목표 달성됨',
-          confidence: 1.0
-        };
+    for (const rule of this.policy.rules) {
+      const action = await rule.decide(context);
+      if (action) {
+        return { ...action, rule: rule.name, policy: this.policy.name };
       }
     }
 
-    // 3. 목표 버튼 확인
-    const targetButton = this.findTargetButton(state, goal);
-
-    // 3. 버튼이 활성화되어 있으면 클릭
-    if (targetButton && !targetButton.disabled) {
-      return {
-        type: 'click',
-        selector: targetButton.selector,
-        reason: `목표 버튼 "${targetButton.text}" 활성화됨`,
-        confidence: 0.95
-      };
-    }
-
-    // 4. 버튼이 비활성화되어 있으면 필드 채우기
-    if (targetButton && targetButton.disabled) {
-      const nextInput = this.findNextInputToFill(state, goal);
-
-      if (nextInput) {
-        const value = this.generateValue(nextInput, state);
-        return {
-          type: 'fill',
-          selector: nextInput.selector,
-          value,
-          reason: `필드 "${nextInput.name}" 입력 필요 (버튼 활성화를 위해)`,
-          confidence: 0.8
-        };
-      }
-
-      // 모든 필드가 채워졌는데 버튼이 비활성화
-      // blur 이벤트 발생 시도
-      if (this.shouldTriggerBlur()) {
-        return {
-          type: 'tab',
-          reason: 'blur 이벤트 발생을 위해 Tab 키 입력',
-          confidence: 0.6
-        };
-      }
+    return {
+      type: 'blocked',
+      reason: '다음 행동을 결정할 수 없음',
+      confidence: 0.5,
+      rule: 'fallback',
+      policy: this.policy.name
+    };
+  }
 
-      // 추가 탐색 필요
-      return {
-        type: 'explore',
-        reason: `버튼 "${targetButton.text}"이 여전히 비활성화. 추가 조건 탐색 필요`,
-        confidence: 0.3
-      };
-    }
+  /**
+   * 결정 정책 설정 (이름은 레지스트리에서 조회)
+   */
+  setDecisionPolicy(policy: DecisionPolicy | string): void {
+    this.policy = typeof policy === 'string' ? this.policies.get(policy) : policy;
+  }
 
-    // 5. 목표 버튼을 찾을 수 없음
-    if (goal.targetButton) {
-      return {
-        type: 'blocked',
-        reason: `목표 버튼 "${goal.targetButton}"을 찾을 수 없음`,
-        confidence: 0.9
-      };
-    }
+  /**
+   * 페이지 상태 분석기 교체 (예: AccessibilityStateAnalyzer)
+   */
+  setStateAnalyzer(analyzer: PageStateAnalyzer): void {
+    this.analyzer = analyzer;
+  }
 
-    // 6. 성공 지표 확인
-    if (goal.successIndicator) {
-      const success = await this.checkSuccessIndicator(goal.successIndicator);
-      if (success) {
-        return {
-          type: 'done',
-          reason: '목표 달성됨',
-          confidence: 1.0
-        };
-      }
-    }
+  /**
+   * 현재 결정 정책
+   */
+  getDecisionPolicy(): DecisionPolicy {
+    return this.policy;
+  }
 
+  /**
+   * 규칙에 전달할 컨텍스트
+   */
+  private createDecisionContext(state: PageState, goal: Goal): DecisionContext {
     return {
-      type: 'blocked',
-      reason: '다음 행동을 결정할 수 없음',
-      confidence: 0.5
+      page: this.page,
+      state,
+      goal,
+      targetButton: this.findTargetButton(state, goal),
+      history: this.getActionHistory(),
+      isSuccess: () => goal.successIndicator
+        ? this.checkSuccessIndicator(goal.successIndicator)
+        : Promise.resolve(false),
+      findNextInput: () => this.findNextInputToFill(state, goal),
+      generateValue: (input) => this.generateValue(input, state, goal),
+      decideModal: () => this.handleModal(state, goal),
+      shouldTriggerBlur: () => this.shouldTriggerBlur(),
+      skippedFields: () => this.getSkippedFields()
     };
   }
 
   /**
    * 모달 처리 행동 결정
    */
-  private handleModal(state: PageState): Action {
+  private handleModal(state: PageState, goal: Goal): Action {
     const modal = state.modals[0];
 
     // 입력 필드가 있는 모달
     if (modal.inputs.length > 0) {
-      const emptyInput = modal.inputs.find(i => !i.value);
+      const emptyInput = modal.inputs.find(i => !i.value && this.isAutoFillAllowed(i, goal));
       if (emptyInput) {
         return {
           type: 'fill',
           selector: emptyInput.selector,
-          value: this.generateValue(emptyInput, state),
+          value: this.generateValue(emptyInput, state, goal),
           reason: `모달 내 필드 "${emptyInput.name}" 입력`,
           confidence: 0.7
         };
@@ -337,10 +380,13 @@ export class ActionDecider {
     const form = state.forms[0];
     if (!form) return undefined;
 
+    // 0. strictMode / autoFillUnknown에 따라 자동 입력 대상 제한
+    const inputs = form.inputs.filter(i => this.isAutoFillAllowed(i, goal));
+
     // 1. 필수 필드 중 빈 필드
     if (goal.requiredFields) {
       for (const fieldName of goal.requiredFields) {
-        const input = form.inputs.find(i =>
+        const input = inputs.find(i =>
           i.visible &&
           !i.disabled &&
           !i.value &&
@@ -350,33 +396,153 @@ export class ActionDecider {
       }
     }
 
-    // 2. 비어있는 필수 필드
-    const emptyRequired = form.inputs.find(i =>
+    // 2. 의존성 그래프가 있으면 탐색된 입력 순서 사용
+    if (this.dependencyGraph) {
+      const [next] = sortByFillOrder(
+        inputs.filter(i => i.visible && !i.disabled && !i.value),
+        this.dependencyGraph
+      );
+      if (next) return next;
+    }
+
+    // 3. 비어있는 필수 필드
+    const emptyRequired = inputs.find(i =>
       i.visible && !i.disabled && i.required && !i.value
     );
     if (emptyRequired) return emptyRequired;
 
-    // 3. 비어있는 일반 필드 (visible)
-    const emptyVisible = form.inputs.find(i =>
+    // 4. 비어있는 일반 필드 (visible)
+    const emptyVisible = inputs.find(i =>
       i.visible && !i.disabled && !i.value
     );
 
     return emptyVisible;
   }
 
+  /**
+   * 필드 자동 입력 허용 여부
+   *
+   * - 기본: 모든 필드 허용
+   * - autoFillUnknown=false: 명시적 지시 + requiredFields 필드만 허용
+   * - strictMode: 명시적 지시(fieldIdentifiers/knownSelectors) 필드만 허용
+   *
+   * 허용되지 않은 빈 필드는 건너뛴 필드로 기록
+   */
+  private isAutoFillAllowed(input: InputState, goal: Goal): boolean {
+    const strict = goal.strictMode === true;
+    if (!strict && goal.autoFillUnknown !== false) return true;
+
+    if (this.isKnownField(input, goal, !strict)) return true;
+
+    if (input.visible && !input.disabled && !input.value && !this.skippedFields.has(input.selector)) {
+      this.skippedFields.set(input.selector, {
+        name: input.name,
+        selector: input.selector,
+        required: input.required,
+        reason: strict ? 'strict-mode' : 'auto-fill-disabled'
+      });
+    }
+
+    return false;
+  }
+
+  /**
+   * 명시적으로 지정된 필드인지 확인
+   */
+  private isKnownField(input: InputState, goal: Goal, includeRequiredFields: boolean): boolean {
+    if (goal.knownSelectors?.includes(input.selector)) return true;
+
+    const matchesIdentifier = goal.fieldIdentifiers?.some(identifier =>
+      matchesFieldIdentifier(identifier, {
+        selector: input.selector,
+        label: input.name,
+        placeholder: input.placeholder,
+        ariaLabel: input.ariaLabel
+      })
+    );
+    if (matchesIdentifier) return true;
+
+    if (includeRequiredFields && goal.requiredFields) {
+      return goal.requiredFields.some(fieldName =>
+        input.name.includes(fieldName) || input.ariaLabel?.includes(fieldName)
+      );
+    }
+
+    return false;
+  }
+
+  /**
+   * 건너뛴 필드 목록 조회
+   */
+  getSkippedFields(): SkippedField[] {
+    return Array.from(this.skippedFields.values());
+  }
+
+  /**
+   * 건너뛴 필드 기록 초기화
+   */
+  clearSkippedFields(): void {
+    this.skippedFields.clear();
+  }
+
+  /**
+   * 목적별 값 생성 (현재 필드의 로케일/변형/maxlength 적용)
+   */
+  private provideValue(purpose: FieldPurpose, values: ValueScope): string {
+    return this.valueProviders.generate(purpose, values, this.valueOptions)
+      ?? `test_value_${values.token()}`;
+  }
+
+  /**
+   * 이번 실행에서 생성한 값 목록 (시드 재현 확인용)
+   */
+  getGeneratedValues(): GeneratedValue[] {
+    return [...this.generatedValues];
+  }
+
+  /**
+   * 생성 값 기록 초기화
+   */
+  clearGeneratedValues(): void {
+    this.generatedValues = [];
+  }
+
+  /**
+   * 필드 의존성 그래프 설정 (없으면 빈 필수 필드 우선 순서)
+   */
+  setDependencyGraph(graph?: FieldDependencyGraph): void {
+    this.dependencyGraph = graph;
+  }
+
   /**
    * 필드에 맞는 값 생성
+   * 값 생성 키 = Goal 이름 + 필드 이름 + 같은 필드의 생성 순번
    */
-  private generateValue(input: InputState, state: PageState): string {
+  private generateValue(input: InputState, state: PageState, goal: Goal): string {
     const fieldName = input.name || input.ariaLabel || input.placeholder || '';
+    const baseKey = `${goal.name}:${fieldName}`;
+    const attempt = this.generatedValues.filter(v => v.key.startsWith(`${baseKey}#`)).length;
+    const values = createValueScope(this.valueGenerator, `${baseKey}#${attempt}`);
+    this.valueOptions = {
+      locale: goal.locale,
+      variant: goal.valueVariant,
+      maxLength: input.maxLength,
+      inputType: input.type
+    };
 
-    for (const strategy of this.fieldStrategies) {
-      if (strategy.fieldPattern.test(fieldName)) {
-        return strategy.valueGenerator(fieldName, state);
-      }
-    }
+    const strategy = this.fieldStrategies.find(s => s.fieldPattern.test(fieldName));
+    const value = strategy
+      ? strategy.valueGenerator(fieldName, state, values)
+      : `테스트_${values.token()}`;
 
-    return `테스트_${Date.now()}`;
+    this.generatedValues.push({
+      field: fieldName,
+      value,
+      strategy: strategy ? strategy.fieldPattern.toString() : '(기본값)',
+      key: values.key
+    });
+
+    return value;
   }
 
   /**
@@ -403,25 +569,10 @@ export class ActionDecider {
   }
 
   /**
-   * 성공 지표 확인
+   * 성공 지표 확인 (즉시 평가)
    */
-  private async checkSuccessIndicator(indicator: string): Promise<boolean> {
-    try {
-      // URL 패턴
-      if (indicator.startsWith('/') || indicator.startsWith('http')) {
-        return this.page.url().includes(indicator);
-      }
-
-      // 텍스트 또는 셀렉터
-      const isVisible = await this.page.locator(`text=${indicator}`)
-        .or(this.page.locator(indicator))
-        .isVisible({ timeout: 1000 })
-        .catch(() => false);
-
-      return isVisible;
-    } catch {
-      return false;
-    }
+  private async checkSuccessIndicator(indicator: SuccessIndicator): Promise<boolean> {
+    return this.successEvaluator.check(indicator);
   }
 
   /**
@@ -445,6 +596,13 @@ export class ActionDecider {
     return this.analyzer.analyze();
   }
 
+  /**
+   * 마지막 행동 결정에 사용한 상태 (재분석 없음)
+   */
+  getLastState(): PageState | undefined {
+    return this.lastState;
+  }
+
   /**
    * 읽기 쉬운 상태 텍스트
    */
@@ -1,20 +1,36 @@
 import { Page, expect } from '@playwright/test';
-import { ActionDecider, Action, Goal, FieldStrategy } from './action-decider';
+import { ActionDecider, Action, Goal, FieldStrategy, SkippedField } from './action-decider';
 import { PageState } from './page-state-analyzer';
+import { AccessibilityStateAnalyzer } from './accessibility-state-analyzer';
 import { ModalHandler } from '../modal/modal-handler';
 import { SmartFieldAnalyzer, AnalyzedField } from './smart-field-analyzer';
 import { InteractionHandler, InteractionResult } from './interaction-handler';
 import { WaitStrategy } from './wait-strategy';
+import { SelectorGenerator } from './selector-generator';
 import { DropdownHandler } from './dropdown-handler';
-import { ErrorRecovery } from './error-recovery';
+import { ErrorRecovery, RecoveryResult } from './error-recovery';
+import type { SelectorRepository } from './selector-repository';
+import { SuccessEvaluator } from './success-evaluator';
+import { ValueCapturer, CaptureResult } from './value-capturer';
+import { ValueGenerator, ValueScope, GeneratedValue, SeededValueGenerator, createValueScope } from './value-generator';
+import { ValueProviderRegistry } from './value-providers';
+import { FieldDependencyAnalyzer, FieldDependencyGraph, describeDependencyGraph } from './field-dependency';
+import { DecisionPolicy, DecisionPolicyRegistry, DEFAULT_POLICY_NAME } from './decision-policy';
+import { ReplayScript, ReplayOptions, ReplayResult, matchesUrlPattern } from './replay-script';
+import { createLogger } from '../utils/logger';
+import { qaEvents } from '../utils/event-bus';
 import {
   ExtendedGoal,
+  CaptureInstruction,
   FieldInstruction,
+  PreStep,
   matchesFieldIdentifier,
   resolveValue,
   normalizeGoal
 } from './instruction-types';
 
+const logger = createLogger('AutoPilot');
+
 /**
  * 실행 단계 기록
  */
@@ -25,6 +41,14 @@ export interface ExecutionStep {
   success: boolean;
   error?: string;
   stateSnapshot?: Partial<PageState>;
+  phase?: 'preStep' | 'goal' | 'replay'; // 실행 전 단계 / 목표 루프 / 리플레이 구분
+  goal?: string;              // 시나리오 실행 시 소속 Goal id
+  attempt?: number;           // 시나리오 재시도 시 시도 번호 (1부터)
+  url?: string;               // 행동 실행 후 URL (리플레이 대기 조건)
+  locator?: string;           // 코드 생성용 Playwright 로케이터 (page.getByRole(...) 등)
+  screenshot?: string;        // 행동 전 스크린샷 (enableScreenshots)
+  duration?: number;          // 행동 실행 시간 ms
+  recoveries?: RecoveryResult[]; // 실행 중 ErrorRecovery 복구 시도
 }
 
 /**
@@ -36,6 +60,13 @@ export interface ExecutionResult {
   finalState?: PageState;
   error?: string;
   totalTime: number;
+  skippedFields?: SkippedField[]; // strictMode/autoFillUnknown으로 자동 입력하지 않은 필드
+  variables?: Record<string, string>; // saveAs/captures로 저장된 값 (이름 → 값)
+  captures?: CaptureResult[];         // 목표 달성 후 값 캡처 결과
+  seed?: number;                      // 값 생성 시드 (AutoPilotConfig.seed로 재현)
+  baseDate?: string;                  // 날짜/시각 값 기준 시각 ISO (AutoPilotConfig.baseDate로 재현)
+  generatedValues?: GeneratedValue[]; // 자동 생성되어 입력된 값
+  dependencyGraph?: FieldDependencyGraph; // discoverDependencies로 탐색한 필드 의존성
 }
 
 /**
@@ -55,6 +86,18 @@ export interface AutoPilotConfig {
   useSmartAnalysis?: boolean; // 스마트 필드 분석 사용 (기본: true)
   useAdaptiveWait?: boolean;  // 적응형 대기 사용 (기본: true)
   strictMode?: boolean;       // 명시적 지시만 처리 (기본: false)
+  discoverDependencies?: boolean; // 루프 전 필드 의존성 탐색 후 입력 순서에 반영 (기본: false)
+  recordStateSnapshots?: boolean; // 각 단계의 결정 시점 페이지 상태 저장 (트레이스 리포트용, 기본: false)
+  stateAnalyzer?: 'dom' | 'accessibility'; // 페이지 상태 추출 방식 (dom: DOM 속성, accessibility: 접근성 트리, 기본: 'dom')
+  selectorRepository?: SelectorRepository; // 깨진 셀렉터를 저장된 요소 지문으로 복구
+  decisionPolicy?: DecisionPolicy | string; // 행동 결정 정책 (기본: 'default')
+  decisionPolicies?: DecisionPolicyRegistry; // 이름으로 조회할 정책 레지스트리
+
+  // 값 생성 (재현성)
+  seed?: number | string;     // 자동 입력 값 시드 (기본: 무작위, 결과의 seed로 재현)
+  valueGenerator?: ValueGenerator; // 사용자 정의 생성기 (seed보다 우선)
+  baseDate?: Date | string | number; // 날짜/시각 값 기준 ({{date}}, {{timestamp}}, 날짜 필드, 기본: 실행 시작 시각)
+  valueProviders?: ValueProviderRegistry; // 목적/로케일별 값 생성기 (기본: 내장 레지스트리)
 }
 
 /**
@@ -73,13 +116,26 @@ export interface AutoPilotConfig {
  * if (result.success) {
  *   console.log('성공!');
  * }
+ *
+ * // 사전 단계(preSteps)로 화면 이동까지 하나의 Goal로 표현
+ * await pilot.execute({
+ *   name: '트래킹 링크 생성',
+ *   preSteps: [
+ *     { type: 'click', target: 'text=트래킹 링크 생성' },
+ *     { type: 'waitForUrl', target: '/tracking-link' }
+ *   ],
+ *   targetButton: '링크 생성',
+ *   successIndicator: '/done/'
+ * });
  * ```
  */
 export class AutoPilot {
   private page: Page;
   private decider: ActionDecider;
   private modalHandler: ModalHandler;
-  private config: Required<AutoPilotConfig>;
+  private config: Required<Omit<AutoPilotConfig,
+    'seed' | 'baseDate' | 'valueGenerator' | 'valueProviders' | 'decisionPolicy' | 'decisionPolicies' | 'selectorRepository'>>;
+  private valueGenerator: ValueGenerator;
 
   // 신규 모듈
   private smartAnalyzer: SmartFieldAnalyzer;
@@ -87,21 +143,46 @@ export class AutoPilot {
   private waitStrategy: WaitStrategy;
   private dropdownHandler: DropdownHandler;
   private errorRecovery: ErrorRecovery;
+  private successEvaluator: SuccessEvaluator;
+  private valueCapturer: ValueCapturer;
+  private selectorGenerator: SelectorGenerator;
 
   // 명시적 지시 처리 상태
   private processedInstructions: Set<number> = new Set();
+  private knownFieldSelectors: Set<string> = new Set();
+  private savedValues: Map<string, string> = new Map();
+  private inputVariables: Record<string, string> = {};
+  private captureResults: CaptureResult[] = [];
+  private dependencyGraph?: FieldDependencyGraph;
+  private stepRecoveries: RecoveryResult[] = [];
+  private templateValues?: ValueScope;
+  private runCount = 0;
 
   constructor(page: Page, config: AutoPilotConfig = {}) {
     this.page = page;
-    this.decider = new ActionDecider(page);
+    this.valueGenerator = config.valueGenerator ?? new SeededValueGenerator(config.seed, { baseDate: config.baseDate });
+    const valueProviders = config.valueProviders ?? new ValueProviderRegistry();
+    this.decider = new ActionDecider(page, this.valueGenerator, valueProviders, config.decisionPolicies);
+    if (config.decisionPolicy) {
+      this.decider.setDecisionPolicy(config.decisionPolicy);
+    }
+    if (config.stateAnalyzer === 'accessibility') {
+      this.decider.setStateAnalyzer(new AccessibilityStateAnalyzer(page));
+    }
     this.modalHandler = new ModalHandler(page);
 
     // 신규 모듈 초기화
-    this.smartAnalyzer = new SmartFieldAnalyzer(page);
+    this.smartAnalyzer = new SmartFieldAnalyzer(page, this.valueGenerator, valueProviders);
     this.interactionHandler = new InteractionHandler(page);
     this.waitStrategy = new WaitStrategy(page);
     this.dropdownHandler = new DropdownHandler(page, { maxRetries: config.maxRetries ?? 3 });
-    this.errorRecovery = new ErrorRecovery(page, { maxRetries: config.maxRetries ?? 3 });
+    this.errorRecovery = new ErrorRecovery(page, {
+      maxRetries: config.maxRetries ?? 3,
+      selectorRepository: config.selectorRepository
+    });
+    this.successEvaluator = new SuccessEvaluator(page);
+    this.valueCapturer = new ValueCapturer(page);
+    this.selectorGenerator = new SelectorGenerator(page);
 
     this.config = {
       maxSteps: config.maxSteps ?? 20,
@@ -114,7 +195,10 @@ export class AutoPilot {
       maxRetries: config.maxRetries ?? 2,
       useSmartAnalysis: config.useSmartAnalysis ?? true,
       useAdaptiveWait: config.useAdaptiveWait ?? true,
-      strictMode: config.strictMode ?? false
+      strictMode: config.strictMode ?? false,
+      discoverDependencies: config.discoverDependencies ?? false,
+      recordStateSnapshots: config.recordStateSnapshots ?? false,
+      stateAnalyzer: config.stateAnalyzer ?? 'dom'
     };
   }
 
@@ -125,11 +209,218 @@ export class AutoPilot {
     this.decider.addFieldStrategy(strategy);
   }
 
+  /**
+   * 값 생성 시드 (실패 재현용)
+   */
+  getSeed(): number {
+    return this.valueGenerator.seed;
+  }
+
+  /**
+   * 날짜/시각 값 기준 시각 ISO (seed와 함께 넘기면 같은 {{date}}/{{timestamp}} 재현)
+   */
+  getBaseDate(): string {
+    return new Date(this.valueGenerator.baseTime).toISOString();
+  }
+
   /**
    * 목표 달성을 위한 자동 실행
    * ExtendedGoal과 기존 Goal 모두 지원
+   *
+   * variables: 값/셀렉터의 {{변수}} 템플릿에 사용할 값 (시나리오의 이전 Goal 결과 등)
+   */
+  async execute(
+    goal: Goal | ExtendedGoal,
+    variables: Record<string, string> = {}
+  ): Promise<ExecutionResult> {
+    this.inputVariables = { ...variables };
+    const result = await this.runGoal(goal);
+
+    if (!result.success) {
+      this.log(`🎲 같은 입력값으로 재현: new AutoPilot(page, { seed: ${this.valueGenerator.seed}, baseDate: '${this.getBaseDate()}' })`);
+    }
+
+    qaEvents.emit('executionFinished', {
+      source: 'AutoPilot',
+      name: goal.name,
+      success: result.success,
+      steps: result.steps.length,
+      duration: result.totalTime,
+      error: result.error
+    });
+
+    return {
+      ...result,
+      skippedFields: this.reportSkippedFields(),
+      variables: Object.fromEntries(this.savedValues),
+      captures: this.captureResults.length > 0 ? [...this.captureResults] : undefined,
+      seed: this.valueGenerator.seed,
+      baseDate: this.getBaseDate(),
+      generatedValues: this.decider.getGeneratedValues(),
+      dependencyGraph: this.dependencyGraph
+    };
+  }
+
+  /**
+   * 리플레이 스크립트 실행 (행동 결정 없이 기록된 단계만 실행)
+   * 단계가 실패하거나 성공 조건이 맞지 않으면 AutoPilot으로 전환 (fallback: false면 실패 반환)
+   */
+  async replay(script: ReplayScript, options: ReplayOptions = {}): Promise<ReplayResult> {
+    const startTime = Date.now();
+    const steps: ExecutionStep[] = [];
+    const stepTimeout = options.stepTimeout ?? 5000;
+    const startUrl = this.page.url();
+    const successIndicator = script.successIndicator ?? options.goal?.successIndicator;
+    const captures = script.captures ?? (options.goal as ExtendedGoal | undefined)?.captures;
+    let divergedAt: number | undefined;
+    let divergence: string | undefined;
+
+    this.savedValues = new Map(Object.entries(script.variables ?? {}));
+    this.inputVariables = { ...options.variables };
+    this.captureResults = [];
+
+    this.log(`⏩ 리플레이 시작: ${script.name} (${script.steps.length}단계)`);
+    if (script.seed !== undefined && script.seed !== this.valueGenerator.seed) {
+      this.log(`   ⚠️ 시드 불일치: 스크립트 ${script.seed}, 현재 ${this.valueGenerator.seed} (fallback 입력값이 달라질 수 있음)`);
+    }
+    if (script.baseDate !== undefined && script.baseDate !== this.getBaseDate()) {
+      this.log(`   ⚠️ 기준 시각 불일치: 스크립트 ${script.baseDate}, 현재 ${this.getBaseDate()} (fallback 날짜/시각 값이 달라질 수 있음)`);
+    }
+
+    for (let i = 0; i < script.steps.length; i++) {
+      const replayStep = script.steps[i];
+      const action: Action = {
+        type: replayStep.type,
+        selector: replayStep.selector,
+        value: replayStep.value,
+        timeout: replayStep.timeout ?? stepTimeout,
+        reason: replayStep.description,
+        confidence: 1.0,
+        goalAction: replayStep.goalAction,
+        rule: 'replay'
+      };
+      this.log(`\n[Replay ${i + 1}] ${action.type}: ${action.reason}`);
+
+      const step: ExecutionStep = {
+        step: i + 1,
+        timestamp: new Date().toISOString(),
+        action,
+        success: false,
+        phase: 'replay'
+      };
+
+      try {
+        await this.executeStepAction(step, action);
+        if (action.goalAction && successIndicator) {
+          await this.successEvaluator.waitFor(successIndicator, stepTimeout);
+        } else if (this.config.useAdaptiveWait) {
+          await this.waitStrategy.waitForDomStable({ timeout: 1000 });
+        }
+        step.success = true;
+        step.url = this.page.url();
+      } catch (error) {
+        step.error = error instanceof Error ? error.message : String(error);
+        divergedAt = i + 1;
+        divergence = `단계 ${i + 1}(${action.type}${action.selector ? ` ${action.selector}` : ''}) 실패: ${step.error.split('\n')[0]}`;
+      }
+
+      steps.push(step);
+      if (divergence) break;
+    }
+
+    // 모든 단계 성공 → 성공 조건 확인
+    if (!divergence && successIndicator) {
+      const check = await this.successEvaluator.waitFor(successIndicator, stepTimeout);
+      if (!check.success) {
+        divergedAt = script.steps.length + 1;
+        divergence = `성공 조건 불일치: ${check.reason}`;
+      }
+    }
+
+    const replayedSteps = steps.filter(s => s.success).length;
+
+    if (!divergence) {
+      const captureError = captures?.length ? await this.runCaptures(captures) : null;
+      this.log(captureError ? `❌ ${captureError}` : `✅ 리플레이 완료 (${Date.now() - startTime}ms)`);
+      return {
+        success: !captureError,
+        steps,
+        error: captureError ?? undefined,
+        finalState: await this.decider.getCurrentState(),
+        totalTime: Date.now() - startTime,
+        variables: Object.fromEntries(this.savedValues),
+        captures: this.captureResults.length > 0 ? [...this.captureResults] : undefined,
+        seed: this.valueGenerator.seed,
+        baseDate: this.getBaseDate(),
+        mode: 'replay',
+        replayedSteps
+      };
+    }
+
+    this.log(`⚠️ 리플레이 이탈: ${divergence}`);
+
+    const goal = options.goal ?? script.goal;
+    if (options.fallback === false || !goal) {
+      return {
+        success: false,
+        steps,
+        error: divergence,
+        finalState: await this.decider.getCurrentState(),
+        totalTime: Date.now() - startTime,
+        seed: this.valueGenerator.seed,
+        baseDate: this.getBaseDate(),
+        mode: 'replay',
+        replayedSteps,
+        divergedAt,
+        divergence
+      };
+    }
+
+    // 이탈 지점부터 이어서 실행: 사전 단계를 모두 재생했으면 건너뛰고,
+    // 사전 단계 도중 이탈했으면 시작 URL로 돌아가 처음부터 실행 (같은 클릭/이동 반복 방지)
+    const preStepsReplayed = script.steps.every((replayStep, i) => replayStep.source !== 'preStep' || steps[i]?.success);
+    let fallbackGoal = goal;
+    if (preStepsReplayed) {
+      fallbackGoal = { ...goal, preSteps: [] } as ExtendedGoal;
+    } else if (/^https?:/.test(startUrl)) {
+      this.log(`   사전 단계에서 이탈 → 시작 URL로 이동: ${startUrl}`);
+      await this.page.goto(startUrl);
+    } else {
+      const error = `${divergence} (사전 단계 도중 이탈, 시작 URL(${startUrl})로 돌아갈 수 없어 fallback하지 않음)`;
+      this.log(`❌ ${error}`);
+      return {
+        success: false,
+        steps,
+        error,
+        finalState: await this.decider.getCurrentState(),
+        totalTime: Date.now() - startTime,
+        seed: this.valueGenerator.seed,
+        baseDate: this.getBaseDate(),
+        mode: 'replay',
+        replayedSteps,
+        divergedAt,
+        divergence
+      };
+    }
+
+    this.log('🔁 AutoPilot으로 전환');
+    const fallback = await this.execute(fallbackGoal, { ...script.variables, ...options.variables });
+
+    return {
+      ...fallback,
+      steps: [...steps, ...fallback.steps.map(s => ({ ...s, step: steps.length + s.step }))],
+      totalTime: Date.now() - startTime,
+      mode: 'fallback',
+      replayedSteps,
+      divergedAt,
+      divergence
+    };
+  }
+
+  /**
+   * 목표 실행 루프
    */
-  async execute(goal: Goal | ExtendedGoal): Promise<ExecutionResult> {
+  private async runGoal(goal: Goal | ExtendedGoal): Promise<ExecutionResult> {
     const startTime = Date.now();
     const steps: ExecutionStep[] = [];
     let currentStep = 0;
@@ -143,14 +434,40 @@ export class AutoPilot {
 
     // 명시적 지시 처리 상태 초기화
     this.processedInstructions.clear();
+    this.knownFieldSelectors.clear();
+    this.savedValues.clear();
+    this.captureResults = [];
+    this.decider.clearSkippedFields();
+    this.decider.clearGeneratedValues();
+    this.decider.setDependencyGraph(undefined);
+    this.dependencyGraph = undefined;
+    this.templateValues = createValueScope(this.valueGenerator, `template/${++this.runCount}`);
+    this.smartAnalyzer.setValueOptions({
+      locale: extendedGoal.options?.locale,
+      variant: extendedGoal.options?.valueVariant
+    });
+
+    // 자동 입력 범위 (AutoPilotConfig.strictMode는 모든 Goal에 적용)
+    const strictMode = this.config.strictMode || extendedGoal.options?.strictMode === true;
+    const autoFillUnknown = !strictMode && extendedGoal.options?.autoFillUnknown !== false;
 
     this.log(`🚀 AutoPilot 시작: ${extendedGoal.name}`);
     this.log(`   목표 버튼: ${targetButtonText || '(없음)'}`);
-    this.log(`   성공 지표: ${extendedGoal.successIndicator || '(없음)'}`);
+    this.log(`   성공 지표: ${this.successEvaluator.describe(extendedGoal.successIndicator)}`);
+    this.log(`   시드: ${this.valueGenerator.seed}`);
+    if (this.decider.getDecisionPolicy().name !== DEFAULT_POLICY_NAME) {
+      this.log(`   결정 정책: ${this.decider.getDecisionPolicy().name}`);
+    }
+    if (extendedGoal.options?.locale || extendedGoal.options?.valueVariant) {
+      this.log(`   값 생성: ${extendedGoal.options.locale ?? 'ko-KR'} / ${extendedGoal.options.valueVariant ?? 'default'}`);
+    }
 
     if (extendedGoal.fieldInstructions?.length) {
       this.log(`   명시적 지시: ${extendedGoal.fieldInstructions.length}개 필드`);
     }
+    if (!autoFillUnknown) {
+      this.log(`   자동 입력: ${strictMode ? 'strictMode (명시된 필드만)' : '명시되지 않은 필드 제외'}`);
+    }
 
     try {
       // 적응형 대기로 초기 DOM 안정화
@@ -158,6 +475,30 @@ export class AutoPilot {
         await this.waitStrategy.waitForDomStable({ timeout: 3000 });
       }
 
+      // 0. 실행 전 단계 처리 (maxSteps에 포함되지 않음)
+      if (extendedGoal.preSteps?.length) {
+        const preStepError = await this.runPreSteps(extendedGoal, steps);
+        if (preStepError) {
+          this.log(`❌ ${preStepError}`);
+          return {
+            success: false,
+            steps,
+            error: preStepError,
+            finalState: await this.decider.getCurrentState(),
+            totalTime: Date.now() - startTime
+          };
+        }
+      }
+      const stepOffset = steps.length;
+
+      // 필드 의존성 탐색 (자동 입력 허용 시에만, 탐색 후 값은 원래대로 복원)
+      if (this.config.discoverDependencies && autoFillUnknown && targetButtonText) {
+        const dependencyAnalyzer = new FieldDependencyAnalyzer(this.page, this.valueGenerator);
+        this.dependencyGraph = await dependencyAnalyzer.discover({ targetButton: targetButtonText });
+        this.decider.setDependencyGraph(this.dependencyGraph);
+        this.log(`🔗 ${describeDependencyGraph(this.dependencyGraph)}`);
+      }
+
       while (currentStep < this.config.maxSteps) {
         currentStep++;
 
@@ -165,18 +506,21 @@ export class AutoPilot {
         if (extendedGoal.fieldInstructions?.length) {
           const instructionAction = await this.processNextInstruction(extendedGoal);
           if (instructionAction) {
-            this.log(`\n[Step ${currentStep}] 명시적 지시: ${instructionAction.reason}`);
+            this.log(`\n[Step ${stepOffset + currentStep}] 명시적 지시: ${instructionAction.reason}`);
 
             const step: ExecutionStep = {
-              step: currentStep,
+              step: stepOffset + currentStep,
               timestamp: new Date().toISOString(),
               action: instructionAction,
-              success: false
+              success: false,
+              phase: 'goal'
             };
 
+            step.locator = await this.describeLocator(instructionAction);
             try {
-              await this.executeAction(instructionAction);
+              await this.executeStepAction(step, instructionAction);
               step.success = true;
+              step.url = this.page.url();
               retryCount = 0;
             } catch (error) {
               step.success = false;
@@ -195,27 +539,36 @@ export class AutoPilot {
         const legacyGoal: Goal = {
           name: extendedGoal.name,
           targetButton: targetButtonText,
-          successIndicator: typeof extendedGoal.successIndicator === 'string'
-            ? extendedGoal.successIndicator
-            : (extendedGoal.successIndicator as any)?.value,
-          requiredFields: extendedGoal.requiredFields
+          successIndicator: extendedGoal.successIndicator,
+          requiredFields: extendedGoal.requiredFields,
+          strictMode,
+          autoFillUnknown,
+          fieldIdentifiers: extendedGoal.fieldInstructions?.map(i => i.field),
+          knownSelectors: Array.from(this.knownFieldSelectors),
+          locale: extendedGoal.options?.locale,
+          valueVariant: extendedGoal.options?.valueVariant
         };
 
         const action = await this.decider.decideNextAction(legacyGoal);
-        this.log(`\n[Step ${currentStep}] ${action.type}: ${action.reason}`);
+        this.log(`\n[Step ${stepOffset + currentStep}] ${action.type}: ${action.reason} (${action.rule})`);
 
         // 2. 스크린샷 (설정된 경우)
-        if (this.config.enableScreenshots) {
-          await this.takeScreenshot(`step-${currentStep}`);
-        }
+        const screenshot = this.config.enableScreenshots
+          ? await this.takeScreenshot(`step-${stepOffset + currentStep}`)
+          : undefined;
 
         // 3. 행동 실행
         const step: ExecutionStep = {
-          step: currentStep,
+          step: stepOffset + currentStep,
           timestamp: new Date().toISOString(),
           action,
-          success: false
+          success: false,
+          phase: 'goal',
+          screenshot
         };
+        if (this.config.recordStateSnapshots) {
+          step.stateSnapshot = this.decider.getLastState();
+        }
 
         // 완료 조건 체크
         if (action.type === 'done') {
@@ -223,6 +576,21 @@ export class AutoPilot {
           steps.push(step);
           this.log('✅ 목표 달성!');
 
+          // 목표 달성 후 값 캡처
+          if (extendedGoal.captures?.length) {
+            const captureError = await this.runCaptures(extendedGoal.captures);
+            if (captureError) {
+              this.log(`❌ ${captureError}`);
+              return {
+                success: false,
+                steps,
+                error: captureError,
+                finalState: await this.decider.getCurrentState(),
+                totalTime: Date.now() - startTime
+              };
+            }
+          }
+
           return {
             success: true,
             steps,
@@ -290,10 +658,20 @@ export class AutoPilot {
         }
 
         // 행동 실행
+        step.locator = await this.describeLocator(action);
         try {
-          await this.executeAction(action);
+          await this.executeStepAction(step, action);
           step.success = true;
           retryCount = 0; // 성공하면 재시도 카운트 초기화
+
+          // 목표 버튼 클릭 후 성공 조건 대기 (조건별 timeout 적용)
+          if (action.goalAction && extendedGoal.successIndicator) {
+            const successWait = await this.successEvaluator.waitFor(extendedGoal.successIndicator);
+            this.log(successWait.success
+              ? `   ✓ 성공 조건 충족 (${successWait.duration}ms)`
+              : `   ⚠️ ${successWait.reason}`);
+          }
+          step.url = this.page.url();
         } catch (error) {
           step.success = false;
           step.error = error instanceof Error ? error.message : String(error);
@@ -331,6 +709,157 @@ export class AutoPilot {
     }
   }
 
+  /**
+   * 실행 전 단계 처리
+   * 필수 단계가 실패하면 에러 메시지 반환 (optional 단계는 실패해도 계속 진행)
+   */
+  private async runPreSteps(goal: ExtendedGoal, steps: ExecutionStep[]): Promise<string | null> {
+    const preSteps = goal.preSteps || [];
+    const defaultTimeout = goal.options?.preStepTimeout ?? 10000;
+
+    this.log(`   사전 단계: ${preSteps.length}개`);
+
+    for (let i = 0; i < preSteps.length; i++) {
+      const preStep = preSteps[i];
+      const action = this.preStepToAction(preStep, defaultTimeout);
+      this.log(`\n[PreStep ${i + 1}] ${action.type}: ${action.reason}`);
+
+      const screenshot = this.config.enableScreenshots
+        ? await this.takeScreenshot(`prestep-${i + 1}`)
+        : undefined;
+
+      const step: ExecutionStep = {
+        step: steps.length + 1,
+        timestamp: new Date().toISOString(),
+        action,
+        success: false,
+        phase: 'preStep',
+        screenshot
+      };
+
+      step.locator = await this.describeLocator(action);
+      try {
+        await this.executeStepAction(step, action);
+        step.success = true;
+        step.url = this.page.url();
+      } catch (error) {
+        step.error = error instanceof Error ? error.message : String(error);
+        this.log(`   ❌ 실패: ${step.error}`);
+      }
+
+      this.decider.recordAction(action);
+      steps.push(step);
+
+      if (!step.success) {
+        if (preStep.optional) {
+          this.log('   ⚠️ 선택 단계이므로 계속 진행');
+          continue;
+        }
+        return `사전 단계 ${i + 1}(${preStep.type}) 실패: ${step.error}`;
+      }
+
+      if (this.config.useAdaptiveWait) {
+        await this.waitStrategy.waitForDomStable({ timeout: 2000 });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * PreStep을 실행 가능한 Action으로 변환
+   */
+  private preStepToAction(preStep: PreStep, defaultTimeout: number): Action {
+    const timeout = preStep.timeout ?? defaultTimeout;
+    const variables = this.getVariables();
+    const value = preStep.value !== undefined ? resolveValue(preStep.value, variables, this.templateValues) : undefined;
+    const target = preStep.target !== undefined ? resolveValue(preStep.target, variables, this.templateValues) : undefined;
+
+    switch (preStep.type) {
+      case 'navigate':
+        return {
+          type: 'navigate',
+          value: target,
+          timeout,
+          reason: preStep.description || `사전 단계: ${target}로 이동`,
+          confidence: 1.0,
+          rule: 'preStep'
+        };
+
+      case 'waitForUrl':
+        return {
+          type: 'waitForUrl',
+          value: target,
+          timeout,
+          reason: preStep.description || `사전 단계: URL에 "${target}" 포함 대기`,
+          confidence: 1.0,
+          rule: 'preStep'
+        };
+
+      case 'wait':
+        return {
+          type: 'wait',
+          selector: target,
+          value,
+          timeout,
+          reason: preStep.description || (target
+            ? `사전 단계: "${target}" 표시 대기`
+            : `사전 단계: ${value ?? 1000}ms 대기`),
+          confidence: 1.0,
+          rule: 'preStep'
+        };
+
+      default:
+        return {
+          type: preStep.type,
+          selector: target,
+          value,
+          timeout,
+          reason: preStep.description || `사전 단계: ${preStep.type}${target ? ` "${target}"` : ''}`,
+          confidence: 1.0,
+          rule: 'preStep'
+        };
+    }
+  }
+
+  /**
+   * 행동 대상의 코드 생성용 로케이터 (실행 전 요소 기준, 실패 시 undefined)
+   */
+  private async describeLocator(action: Action): Promise<string | undefined> {
+    if (!action.selector || !['fill', 'click', 'select', 'wait', 'assertVisible'].includes(action.type)) {
+      return undefined;
+    }
+    try {
+      return (await this.selectorGenerator.generateLocatorExpression(action.selector)).code;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * 단계 행동 실행 (실행 시간, 복구 시도를 단계에 기록)
+   */
+  private async executeStepAction(step: ExecutionStep, action: Action): Promise<void> {
+    const event = { source: 'AutoPilot' as const, step: step.step, action: action.type, description: action.reason, selector: action.selector };
+    qaEvents.emit('stepStarted', event);
+
+    this.stepRecoveries = [];
+    const started = Date.now();
+    let error: string | undefined;
+    try {
+      await this.executeAction(action);
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+      throw e;
+    } finally {
+      step.duration = Date.now() - started;
+      if (this.stepRecoveries.length > 0) {
+        step.recoveries = this.stepRecoveries;
+      }
+      qaEvents.emit('actionExecuted', { ...event, success: !error, duration: step.duration, error });
+    }
+  }
+
   /**
    * 단일 행동 실행
    */
@@ -340,25 +869,56 @@ export class AutoPilot {
         if (!action.selector || !action.value) {
           throw new Error('fill 행동에 selector와 value가 필요합니다');
         }
-        await this.fillInput(action.selector, action.value);
+        await this.fillInput(action.selector, action.value, action.timeout);
         break;
 
       case 'click':
         if (!action.selector) {
           throw new Error('click 행동에 selector가 필요합니다');
         }
-        await this.clickElement(action.selector);
+        await this.clickElement(action.selector, action.timeout);
         break;
 
       case 'select':
         if (!action.selector || !action.value) {
           throw new Error('select 행동에 selector와 value가 필요합니다');
         }
-        await this.page.selectOption(action.selector, action.value);
+        await this.page.selectOption(action.selector, action.value, { timeout: action.timeout });
         break;
 
       case 'wait':
-        await this.page.waitForTimeout(action.value ? parseInt(action.value) : 1000);
+        if (action.selector) {
+          await this.page.locator(action.selector).first()
+            .waitFor({ state: 'visible', timeout: action.timeout ?? 10000 });
+        } else {
+          await this.page.waitForTimeout(action.value ? parseInt(action.value) : 1000);
+        }
+        break;
+
+      case 'navigate':
+        if (!action.value) {
+          throw new Error('navigate 행동에 URL(value)이 필요합니다');
+        }
+        await this.page.goto(action.value, { timeout: action.timeout });
+        break;
+
+      case 'waitForUrl': {
+        const urlPart = action.value;
+        if (!urlPart) {
+          throw new Error('waitForUrl 행동에 URL(value)이 필요합니다');
+        }
+        await this.page.waitForURL(url => matchesUrlPattern(url.toString(), urlPart), {
+          timeout: action.timeout ?? 10000
+        });
+        break;
+      }
+
+      case 'assertVisible':
+        if (!action.selector) {
+          throw new Error('assertVisible 행동에 selector가 필요합니다');
+        }
+        await expect(this.page.locator(action.selector).first())
+          .toBeVisible({ timeout: action.timeout ?? 10000 });
         break;
 
       case 'escape':
@@ -377,12 +937,17 @@ export class AutoPilot {
   /**
    * 입력 필드 채우기 (개선된 버전)
    * SmartFieldAnalyzer, InteractionHandler, DropdownHandler, ErrorRecovery 통합
+   * timeout이 주어지면 (PreStep 등) 필드가 그 시간 안에 보이지 않을 때 바로 실패
    */
-  private async fillInput(selector: string, value: string): Promise<void> {
+  private async fillInput(selector: string, value: string, timeout?: number): Promise<void> {
     const locator = this.page.locator(selector).first();
 
     this.log(`   입력: "${value.slice(0, 30)}${value.length > 30 ? '...' : ''}"`);
 
+    if (timeout !== undefined) {
+      await locator.waitFor({ state: 'visible', timeout });
+    }
+
     // 스마트 분석 사용 시
     if (this.config.useSmartAnalysis) {
       try {
@@ -394,7 +959,7 @@ export class AutoPilot {
           const dropdownResult = await this.dropdownHandler.selectOrCreate({
             selector: analyzed.context.selector,
             value,
-            timeout: 10000,
+            timeout: timeout ?? 10000,
             maxRetries: this.config.maxRetries,
             allowCreate: true,
             typeDelay: this.config.typeDelay
@@ -410,13 +975,14 @@ export class AutoPilot {
               new Error(dropdownResult.error || 'Dropdown selection failed'),
               { selector, value, operation: 'select' }
             );
+            this.stepRecoveries.push(recoveryResult);
             if (recoveryResult.success) {
               this.log(`   ↻ 복구 성공 (전략: ${recoveryResult.strategy})`);
               // 복구 후 재시도
               const retryResult = await this.dropdownHandler.selectOrCreate({
                 selector: recoveryResult.newSelector || selector,
                 value,
-                timeout: 10000,
+                timeout: timeout ?? 10000,
                 maxRetries: 1
               });
               if (retryResult.success) {
@@ -441,17 +1007,19 @@ export class AutoPilot {
             new Error(result.error || 'Fill failed'),
             { selector, value, operation: 'fill' }
           );
+          this.stepRecoveries.push(recoveryResult);
 
           if (recoveryResult.success) {
             this.log(`   ↻ 복구 성공 (전략: ${recoveryResult.strategy})`);
             // 복구 후 legacy 방식으로 재시도
             await this.fillInputLegacy(
               recoveryResult.newSelector || selector,
-              value
+              value,
+              timeout
             );
           } else {
             // Fallback to legacy method
-            await this.fillInputLegacy(selector, value);
+            await this.fillInputLegacy(selector, value, timeout);
           }
         } else {
           this.log(`   ✓ 성공 (방법: ${result.method})`);
@@ -460,7 +1028,7 @@ export class AutoPilot {
           const persistVerified = await this.verifyValuePersistence(locator, value);
           if (!persistVerified) {
             this.log(`   ⚠️ 값 persist 검증 실패, 재시도`);
-            await this.fillInputLegacy(selector, value);
+            await this.fillInputLegacy(selector, value, timeout);
           }
         }
         return;
@@ -470,7 +1038,7 @@ export class AutoPilot {
     }
 
     // 기존 방식 (fallback)
-    await this.fillInputLegacy(selector, value);
+    await this.fillInputLegacy(selector, value, timeout);
   }
 
   /**
@@ -495,11 +1063,11 @@ export class AutoPilot {
   /**
    * 기존 입력 방식 (fallback) - 개선된 버전
    */
-  private async fillInputLegacy(selector: string, value: string): Promise<void> {
+  private async fillInputLegacy(selector: string, value: string, timeout: number = 5000): Promise<void> {
     const input = this.page.locator(selector).first();
 
     // 입력 필드가 보일 때까지 대기
-    await input.waitFor({ state: 'visible', timeout: 5000 });
+    await input.waitFor({ state: 'visible', timeout });
 
     // 상호작용 가능 대기
     const interactableResult = await this.waitStrategy.waitForInteractable(input, 3000);
@@ -792,6 +1360,9 @@ export class AutoPilot {
         continue;
       }
 
+      // strictMode에서 입력 허용할 필드로 기록
+      this.knownFieldSelectors.add(matchedField.context.selector);
+
       // 이미 값이 있으면 건너뛰기
       if (skipIfFilled && matchedField.context.value) {
         this.processedInstructions.add(i);
@@ -804,7 +1375,10 @@ export class AutoPilot {
       }
 
       // 값 해결
-      const resolvedValue = resolveValue(value);
+      const resolvedValue = resolveValue(value, this.getVariables(), this.templateValues);
+      if (instruction.saveAs) {
+        this.savedValues.set(instruction.saveAs, resolvedValue);
+      }
 
       // 지시 처리 완료로 표시
       this.processedInstructions.add(i);
@@ -814,7 +1388,8 @@ export class AutoPilot {
         selector: matchedField.context.selector,
         value: resolvedValue,
         reason: `명시적 지시: ${matchedField.context.label || matchedField.context.placeholder || '필드'}에 "${resolvedValue.slice(0, 20)}" 입력`,
-        confidence: 1.0
+        confidence: 1.0,
+        rule: 'instruction'
       };
     }
 
@@ -824,7 +1399,7 @@ export class AutoPilot {
   /**
    * 요소 클릭
    */
-  private async clickElement(selector: string): Promise<void> {
+  private async clickElement(selector: string, timeout: number = 5000): Promise<void> {
     // 다양한 셀렉터 형식 지원
     let locator;
 
@@ -839,7 +1414,7 @@ export class AutoPilot {
       locator = this.page.locator(selector).first();
     }
 
-    await locator.waitFor({ state: 'visible', timeout: 5000 });
+    await locator.waitFor({ state: 'visible', timeout });
     await locator.click();
 
     this.log(`   클릭: ${selector.slice(0, 50)}`);
@@ -863,12 +1438,59 @@ export class AutoPilot {
     return filepath;
   }
 
+  /**
+   * 건너뛴 필드 보고 (결과에 포함)
+   */
+  private reportSkippedFields(): SkippedField[] {
+    const skipped = this.decider.getSkippedFields();
+    if (skipped.length > 0) {
+      this.log(`   자동 입력하지 않은 필드 ${skipped.length}개: ${skipped.map(f => f.name).join(', ')}`);
+    }
+    return skipped;
+  }
+
+  /**
+   * 목표 달성 후 값 캡처
+   * 필수 캡처가 실패하면 에러 메시지 반환 (optional 캡처는 실패해도 계속 진행)
+   */
+  private async runCaptures(captures: CaptureInstruction[]): Promise<string | null> {
+    this.log(`   값 캡처: ${captures.length}개`);
+
+    this.captureResults = await this.valueCapturer.captureAll(captures, this.getVariables());
+
+    for (let i = 0; i < this.captureResults.length; i++) {
+      const result = this.captureResults[i];
+
+      if (result.success) {
+        this.savedValues.set(result.name, result.value);
+        this.log(`   ✓ ${result.name} = "${result.value.slice(0, 50)}"`);
+        continue;
+      }
+
+      this.log(`   ❌ ${result.name} 캡처 실패: ${result.error}`);
+      if (!captures[i].optional) {
+        return `값 캡처 ${result.name}(${captures[i].from}) 실패: ${result.error}`;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 템플릿 치환용 변수 (입력 변수 + 이번 실행에서 저장한 값)
+   */
+  private getVariables(): Record<string, string> {
+    return { ...this.inputVariables, ...Object.fromEntries(this.savedValues) };
+  }
+
   /**
    * 로그 출력
    */
   private log(message: string) {
     if (this.config.verbose) {
-      console.log(`[AutoPilot] ${message}`);
+      logger.info(message);
+    } else {
+      logger.debug(message);
     }
   }
 
@@ -0,0 +1,231 @@
+import { Page } from '@playwright/test';
+import { PageState, InputState, ButtonState } from './page-state-analyzer';
+import type { Action, Goal, SkippedField } from './action-decider';
+
+/**
+ * 규칙이 참조하는 결정 컨텍스트
+ *
+ * ActionDecider 내부 기능(필드 선택, 값 생성 등)은 함수로 노출
+ */
+export interface DecisionContext {
+  page: Page;
+  state: PageState;
+  goal: Goal;
+  targetButton?: ButtonState;   // 화면에 보이는 목표 버튼 (없으면 undefined)
+  history: Action[];            // 이전 행동 기록
+
+  isSuccess(): Promise<boolean>;                 // 성공 지표 즉시 평가
+  findNextInput(): InputState | undefined;       // 다음으로 채울 필드 (의존성 그래프/필수 필드 우선)
+  generateValue(input: InputState): string;      // 필드 값 생성 (FieldStrategy + 시드)
+  decideModal(): Action;                         // 모달 처리 행동
+  shouldTriggerBlur(): boolean;                  // 마지막 fill 후 Tab을 안 눌렀는지
+  skippedFields(): SkippedField[];               // 자동 입력하지 않은 필드
+}
+
+/**
+ * 결정 규칙 - 해당되지 않으면 undefined 반환 (다음 규칙으로)
+ */
+export interface DecisionRule {
+  name: string;
+  decide(context: DecisionContext): Action | undefined | Promise<Action | undefined>;
+}
+
+/**
+ * 결정 정책 - 규칙을 순서대로 평가해 처음 나온 행동 사용
+ */
+export interface DecisionPolicy {
+  name: string;
+  description?: string;
+  rules: DecisionRule[];
+}
+
+/**
+ * 정책 확장 옵션
+ */
+export interface PolicyExtension {
+  name: string;
+  description?: string;
+  prepend?: DecisionRule[];     // 기존 규칙보다 먼저 평가
+  append?: DecisionRule[];      // 기존 규칙 뒤에 평가
+  order?: string[];             // 지정한 규칙끼리 이 순서로 재배치 (다른 규칙 위치는 유지)
+  omit?: string[];              // 제외할 규칙 이름
+}
+
+export const DEFAULT_POLICY_NAME = 'default';
+
+/**
+ * 기본 규칙 (ActionDecider의 기존 결정 순서)
+ */
+export const DEFAULT_DECISION_RULES: DecisionRule[] = [
+  {
+    // 1. 모달이 있으면 먼저 처리
+    name: 'modal',
+    decide: (ctx) => ctx.state.modals.length > 0 ? ctx.decideModal() : undefined
+  },
+  {
+    // 2. 성공 지표 확인 (버튼 클릭 후 페이지 이동 감지)
+    name: 'success',
+    decide: async (ctx) => {
+      if (!ctx.goal.successIndicator || !(await ctx.isSuccess())) return undefined;
+      return { type: 'done', reason: '목표 달성됨', confidence: 1.0 };
+    }
+  },
+  {
+    // 3. 목표 버튼이 활성화되어 있으면 클릭
+    name: 'target-button',
+    decide: (ctx) => {
+      const button = ctx.targetButton;
+      if (!button || button.disabled) return undefined;
+      return {
+        type: 'click',
+        selector: button.selector,
+        reason: `목표 버튼 "${button.text}" 활성화됨`,
+        confidence: 0.95,
+        goalAction: true
+      };
+    }
+  },
+  {
+    // 4. 버튼이 비활성화되어 있으면 필드 채우기
+    name: 'fill-field',
+    decide: (ctx) => {
+      if (!ctx.targetButton?.disabled) return undefined;
+      const input = ctx.findNextInput();
+      if (!input) return undefined;
+      return {
+        type: 'fill',
+        selector: input.selector,
+        value: ctx.generateValue(input),
+        reason: `필드 "${input.name}" 입력 필요 (버튼 활성화를 위해)`,
+        confidence: 0.8
+      };
+    }
+  },
+  {
+    // 5. 모든 필드가 채워졌는데 버튼이 비활성화 → blur 이벤트 발생 시도
+    name: 'blur',
+    decide: (ctx) => {
+      if (!ctx.targetButton?.disabled || !ctx.shouldTriggerBlur()) return undefined;
+      return { type: 'tab', reason: 'blur 이벤트 발생을 위해 Tab 키 입력', confidence: 0.6 };
+    }
+  },
+  {
+    // 6. 추가 탐색 필요
+    name: 'explore',
+    decide: (ctx) => {
+      const button = ctx.targetButton;
+      if (!button?.disabled) return undefined;
+      const skipped = ctx.skippedFields().filter(f => !ctx.state.inputs.some(i => i.selector === f.selector && i.value));
+      return {
+        type: 'explore',
+        reason: skipped.length > 0
+          ? `버튼 "${button.text}"이 여전히 비활성화. 자동 입력하지 않은 필드: ${skipped.map(f => f.name).join(', ')}`
+          : `버튼 "${button.text}"이 여전히 비활성화. 추가 조건 탐색 필요`,
+        confidence: 0.3
+      };
+    }
+  },
+  {
+    // 7. 목표 버튼을 찾을 수 없음
+    name: 'button-missing',
+    decide: (ctx) => {
+      if (!ctx.goal.targetButton || ctx.targetButton) return undefined;
+      return {
+        type: 'blocked',
+        reason: `목표 버튼 "${ctx.goal.targetButton}"을 찾을 수 없음`,
+        confidence: 0.9
+      };
+    }
+  }
+];
+
+export const DEFAULT_DECISION_POLICY: DecisionPolicy = {
+  name: DEFAULT_POLICY_NAME,
+  description: '모달 → 성공 확인 → 목표 버튼 → 필드 입력 → blur → 탐색',
+  rules: DEFAULT_DECISION_RULES
+};
+
+/**
+ * DecisionPolicyRegistry - 이름으로 결정 정책 관리
+ *
+ * 사용법:
+ * ```typescript
+ * const policies = new DecisionPolicyRegistry();
+ *
+ * // 쿠키 배너는 항상 수락
+ * policies.register(extendPolicy(DEFAULT_DECISION_POLICY, {
+ *   name: 'accept-cookies',
+ *   prepend: [{
+ *     name: 'cookie-banner',
+ *     decide: (ctx) => {
+ *       const button = ctx.state.buttons.find(b => b.visible && /모두 허용|Accept all/.test(b.text));
+ *       return button && { type: 'click', selector: button.selector, reason: '쿠키 배너 수락', confidence: 0.9 };
+ *     }
+ *   }]
+ * }));
+ *
+ * const pilot = new AutoPilot(page, { decisionPolicies: policies, decisionPolicy: 'accept-cookies' });
+ * ```
+ */
+export class DecisionPolicyRegistry {
+  private policies: Map<string, DecisionPolicy> = new Map();
+
+  constructor() {
+    this.register(DEFAULT_DECISION_POLICY);
+  }
+
+  /**
+   * 정책 등록 (같은 이름이면 교체)
+   */
+  register(policy: DecisionPolicy) {
+    const names = policy.rules.map(r => r.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      throw new Error(`정책 "${policy.name}"에 중복된 규칙 이름: ${duplicate}`);
+    }
+    this.policies.set(policy.name, policy);
+  }
+
+  /**
+   * 정책 조회
+   */
+  get(name: string): DecisionPolicy {
+    const policy = this.policies.get(name);
+    if (!policy) {
+      throw new Error(`등록되지 않은 결정 정책: ${name} (등록된 정책: ${this.list().join(', ')})`);
+    }
+    return policy;
+  }
+
+  has(name: string): boolean {
+    return this.policies.has(name);
+  }
+
+  list(): string[] {
+    return Array.from(this.policies.keys());
+  }
+}
+
+/**
+ * 기존 정책을 바탕으로 새 정책 생성
+ */
+export function extendPolicy(base: DecisionPolicy, extension: PolicyExtension): DecisionPolicy {
+  const omit = new Set(extension.omit ?? []);
+  let rules = base.rules.filter(r => !omit.has(r.name));
+
+  if (extension.order?.length) {
+    const unknown = extension.order.filter(name => !rules.some(r => r.name === name));
+    if (unknown.length > 0) {
+      throw new Error(`정책 "${base.name}"에 없는 규칙: ${unknown.join(', ')}`);
+    }
+    // 지정한 규칙이 차지하던 자리에 새 순서로 채움
+    const ordered = extension.order.map(name => rules.find(r => r.name === name)!);
+    rules = rules.map(r => extension.order!.includes(r.name) ? ordered.shift()! : r);
+  }
+
+  return {
+    name: extension.name,
+    description: extension.description ?? base.description,
+    rules: [...(extension.prepend ?? []), ...rules, ...(extension.append ?? [])]
+  };
+}
@@ -1,6 +1,11 @@
 import { Page, Locator } from '@playwright/test';
 import { WaitStrategy } from './wait-strategy';
 import { SelectorGenerator, GeneratedSelector } from './selector-generator';
+import type { SelectorRepository } from './selector-repository';
+import { createLogger } from '../utils/logger';
+import { qaEvents } from '../utils/event-bus';
+
+const logger = createLogger('ErrorRecovery');
 
 /**
  * 에러 타입
@@ -24,6 +29,7 @@ export type RecoveryStrategyType =
   | 'retry-with-wait'         // 대기 후 재시도
   | 'scroll-into-view'        // 뷰포트로 스크롤
   | 'alternative-selector'    // 대체 셀렉터 사용
+  | 'selector-repository'     // 셀렉터 저장소의 요소 지문으로 복구
   | 'refresh-page'            // 페이지 새로고침
   | 'clear-and-retry'         // 초기화 후 재시도
   | 'extend-timeout'          // 타임아웃 연장
@@ -45,6 +51,15 @@ export interface RecoveryResult {
   message: string;
 }
 
+/**
+ * 복구 대상 작업
+ */
+export interface RecoveryContext {
+  selector?: string;
+  value?: string;
+  operation: 'click' | 'fill' | 'select' | 'wait' | 'navigate' | 'other';
+}
+
 /**
  * 복구 옵션
  */
@@ -55,6 +70,13 @@ export interface RecoveryOptions {
   preserveState?: boolean;
 }
 
+/**
+ * ErrorRecovery 생성 옵션
+ */
+export interface ErrorRecoveryConfig extends RecoveryOptions {
+  selectorRepository?: SelectorRepository; // 등록된 셀렉터가 깨지면 저장된 지문으로 먼저 복구
+}
+
 /**
  * 에러 컨텍스트 (복구에 필요한 정보)
  */
@@ -87,6 +109,9 @@ interface RecoveryStrategy {
  * | element-not-interactable | scrollIntoView + 대기 |
  * | value-not-persisted | 다른 blur 방법 시도 |
  * | timeout | timeout 연장 후 재시도 |
+ *
+ * selectorRepository에 등록된 셀렉터가 더 이상 요소를 찾지 못하면 에러 유형과 관계없이
+ * 저장소 복구(selector-repository)를 먼저 시도하고, 복구된 셀렉터는 저장소에 기록됨
  */
 export class ErrorRecovery {
   private page: Page;
@@ -94,9 +119,11 @@ export class ErrorRecovery {
   private selectorGenerator: SelectorGenerator;
   private strategies: RecoveryStrategy[];
   private defaultOptions: Required<RecoveryOptions>;
+  private selectorRepository?: SelectorRepository;
 
-  constructor(page: Page, options: RecoveryOptions = {}) {
+  constructor(page: Page, options: ErrorRecoveryConfig = {}) {
     this.page = page;
+    this.selectorRepository = options.selectorRepository;
     this.waitStrategy = new WaitStrategy(page);
     this.selectorGenerator = new SelectorGenerator(page);
     this.defaultOptions = {
@@ -341,16 +368,29 @@ export class ErrorRecovery {
   }
 
   /**
-   * 에러 복구 시도
+   * 에러 복구 시도 (결과는 recoveryAttempted 이벤트로도 발행)
    */
   async attemptRecovery(
     error: Error,
-    context: {
-      selector?: string;
-      value?: string;
-      operation: 'click' | 'fill' | 'select' | 'wait' | 'navigate' | 'other';
-    },
+    context: RecoveryContext,
     options: RecoveryOptions = {}
+  ): Promise<RecoveryResult> {
+    const result = await this.runRecovery(error, context, options);
+
+    const log = result.success ? logger.info : logger.debug;
+    log(`${context.operation} ${result.success ? '복구 성공' : '복구 실패'} (${result.errorType} → ${result.strategy}, ${result.attempts}회)`, {
+      selector: context.selector,
+      duration: result.duration
+    });
+    qaEvents.emit('recoveryAttempted', { operation: context.operation, selector: context.selector, result });
+
+    return result;
+  }
+
+  private async runRecovery(
+    error: Error,
+    context: RecoveryContext,
+    options: RecoveryOptions
   ): Promise<RecoveryResult> {
     const startTime = Date.now();
     const opts = { ...this.defaultOptions, ...options };
@@ -364,6 +404,12 @@ export class ErrorRecovery {
       operation: context.operation
     };
 
+    // 저장소에 등록된 셀렉터: 학습한 요소 지문으로 먼저 복구
+    const healed = await this.healFromRepository(errorContext);
+    if (healed) {
+      return { ...healed, duration: Date.now() - startTime };
+    }
+
     // 적용 가능한 전략 필터링 (우선순위 정렬)
     const applicableStrategies = this.strategies
       .filter(s => s.errorTypes.includes(errorType))
@@ -451,6 +497,32 @@ export class ErrorRecovery {
     };
   }
 
+  /**
+   * 셀렉터 저장소로 복구 (등록된 셀렉터가 요소를 찾지 못할 때만)
+   */
+  private async healFromRepository(ctx: ErrorContext): Promise<RecoveryResult | null> {
+    if (!this.selectorRepository || !ctx.selector) return null;
+
+    const entry = this.selectorRepository.findBySelector(ctx.selector);
+    if (!entry) return null;
+
+    const count = await this.page.locator(ctx.selector).count().catch(() => 0);
+    if (count > 0) return null;
+
+    const resolution = await this.selectorRepository.heal(entry.name);
+    if (!resolution) return null;
+
+    return {
+      success: true,
+      strategy: 'selector-repository',
+      attempts: 1,
+      duration: 0,
+      errorType: ctx.errorType,
+      newSelector: resolution.selector,
+      message: `Healed '${entry.name}' from selector repository (confidence ${resolution.confidence})`
+    };
+  }
+
   /**
    * 대체 셀렉터로 복구 시도
    */
@@ -0,0 +1,466 @@
+import { Page } from '@playwright/test';
+import { PageStateAnalyzer, PageState, InputState, ButtonState } from './page-state-analyzer';
+import { SmartFieldAnalyzer } from './smart-field-analyzer';
+import { WaitStrategy } from './wait-strategy';
+import { ValueGenerator, SeededValueGenerator } from './value-generator';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('FieldDependency');
+
+/**
+ * 필드 간 의존 관계
+ *
+ * | 타입 | 의미 |
+ * |------|------|
+ * | reveals | from 입력 후 to 필드가 나타남 |
+ * | hides | from 입력 후 to 필드가 사라짐 |
+ * | enables | from 입력 후 to 필드가 활성화됨 |
+ * | disables | from 입력 후 to 필드가 비활성화됨 |
+ * | resets | from 입력 후 to 필드 값이 지워지거나 바뀜 |
+ */
+export type FieldDependencyType = 'reveals' | 'hides' | 'enables' | 'disables' | 'resets';
+
+/**
+ * 의존 관계 간선
+ */
+export interface FieldDependency {
+  from: string;              // 입력한 필드 셀렉터
+  to: string;                // 영향받은 필드 셀렉터
+  type: FieldDependencyType;
+}
+
+/**
+ * 그래프 노드 (필드)
+ */
+export interface FieldNode {
+  selector: string;
+  name: string;
+  type: string;
+  required: boolean;
+  initiallyVisible: boolean;   // 탐색 시작 시 보였는지 (false면 다른 필드가 노출시킴)
+  discoveryIndex: number;      // 발견 순서
+  filledValue?: string;        // 탐색 중 입력한 값
+  enablesButton?: boolean;     // 입력 직후 목표 버튼이 활성화됨
+  requiredForButton?: boolean; // 비우면 목표 버튼이 다시 비활성화됨
+}
+
+/**
+ * 필드 의존성 그래프
+ */
+export interface FieldDependencyGraph {
+  targetButton?: string;
+  nodes: FieldNode[];
+  edges: FieldDependency[];
+  buttonEnabled: boolean;      // 탐색 후 목표 버튼 활성화 여부
+  buttonRequires: string[];    // 목표 버튼 활성화에 필요한 필드 셀렉터
+  fillOrder: string[];         // 권장 입력 순서 (위상 정렬)
+  skipped: { selector: string; name: string; reason: string }[];
+}
+
+/**
+ * 탐색 옵션
+ */
+export interface DependencyDiscoveryOptions {
+  targetButton?: string;       // 활성화 조건을 찾을 버튼 텍스트
+  restore?: boolean;           // 탐색 후 입력한 필드를 원래 값/선택 상태로 복원 (기본: true)
+  ablation?: boolean;          // 필드를 하나씩 비워 버튼 필수 필드 확인 (기본: true)
+  maxFields?: number;          // 최대 입력 필드 수 (기본: 30)
+  settleTimeout?: number;      // 입력 후 DOM 안정화 대기 (기본: 1500)
+}
+
+// 탐색에서 입력하지 않는 input type
+const UNSUPPORTED_TYPES = ['file', 'hidden', 'submit', 'button', 'image', 'reset', 'color', 'range'];
+
+// 입력 순서에 영향을 주는 관계 (from을 먼저 입력)
+const ORDERING_TYPES: FieldDependencyType[] = ['reveals', 'enables', 'resets'];
+
+/**
+ * FieldDependencyAnalyzer - 필드를 하나씩 입력하며 폼 상태 변화로 의존 관계 추론
+ *
+ * 사용법:
+ * ```typescript
+ * const analyzer = new FieldDependencyAnalyzer(page);
+ * const graph = await analyzer.discover({ targetButton: '링크 생성' });
+ *
+ * console.log(describeDependencyGraph(graph));
+ * decider.setDependencyGraph(graph);  // ActionDecider 입력 순서에 반영
+ * ```
+ *
+ * 주의: 셀렉터가 nth 기반인 필드는 필드가 새로 나타나면 가리키는 요소가 바뀔 수 있음
+ */
+export class FieldDependencyAnalyzer {
+  private page: Page;
+  private stateAnalyzer: PageStateAnalyzer;
+  private fieldAnalyzer: SmartFieldAnalyzer;
+  private waitStrategy: WaitStrategy;
+
+  constructor(page: Page, valueGenerator: ValueGenerator = new SeededValueGenerator()) {
+    this.page = page;
+    this.stateAnalyzer = new PageStateAnalyzer(page);
+    this.fieldAnalyzer = new SmartFieldAnalyzer(page, valueGenerator);
+    this.waitStrategy = new WaitStrategy(page);
+  }
+
+  /**
+   * 의존성 탐색 실행
+   */
+  async discover(options: DependencyDiscoveryOptions = {}): Promise<FieldDependencyGraph> {
+    const { targetButton, restore = true, ablation = true, maxFields = 30 } = options;
+
+    let state = await this.stateAnalyzer.analyze();
+    const originalValues = new Map(state.inputs.map(i => [i.selector, i.value]));
+    const originalRadios = await this.checkedRadios(state);
+    const nodes = new Map<string, FieldNode>();
+    const edges: FieldDependency[] = [];
+    const skipped: FieldDependencyGraph['skipped'] = [];
+    const filled: string[] = [];
+
+    state.inputs.forEach(input => this.addNode(nodes, input, true));
+
+    const queue = state.inputs.map(i => i.selector);
+    const visited = new Set<string>();
+
+    while (queue.length > 0 && filled.length < maxFields) {
+      const selector = queue.shift()!;
+      if (visited.has(selector)) continue;
+
+      // 숨김/비활성 필드는 다른 필드 입력 후 다시 대기열에 추가됨
+      const input = state.inputs.find(i => i.selector === selector);
+      if (!input || !input.visible || input.disabled) continue;
+      visited.add(selector);
+      if (!(await this.isEmpty(input))) continue;
+
+      if (UNSUPPORTED_TYPES.includes(input.type)) {
+        skipped.push({ selector, name: input.name, reason: `지원하지 않는 타입 (${input.type})` });
+        continue;
+      }
+
+      const value = await this.fillInput(input).catch((error: Error) => {
+        skipped.push({ selector, name: input.name, reason: error.message.split('\n')[0] });
+        return undefined;
+      });
+      if (value === undefined) continue;
+
+      filled.push(selector);
+      nodes.get(selector)!.filledValue = value;
+
+      const next = await this.snapshot(options);
+      edges.push(...diffStates(selector, state, next));
+
+      // 새로 나타난 필드는 탐색 대상에 추가
+      next.inputs.forEach(i => {
+        this.addNode(nodes, i, false);
+        if (!visited.has(i.selector) && !queue.includes(i.selector)) queue.push(i.selector);
+      });
+
+      const before = findButton(state, targetButton);
+      const after = findButton(next, targetButton);
+      if (before?.disabled && after && !after.disabled) {
+        nodes.get(selector)!.enablesButton = true;
+      }
+
+      logger.info(`${input.name} 입력 → ${edges.filter(e => e.from === selector).map(e => `${e.type}:${e.to}`).join(', ') || '변화 없음'}`);
+      state = next;
+    }
+
+    const buttonEnabled = findButton(state, targetButton)?.disabled === false;
+
+    // 필드를 하나씩 비워서 버튼 필수 필드 확인
+    const buttonRequires: string[] = [];
+    if (ablation && targetButton && buttonEnabled) {
+      for (const selector of filled) {
+        const input = state.inputs.find(i => i.selector === selector);
+        if (!input || input.type === 'radio') continue;
+
+        await this.clearInput(input).catch(() => undefined);
+        const cleared = await this.snapshot(options);
+        if (findButton(cleared, targetButton)?.disabled) {
+          buttonRequires.push(selector);
+          nodes.get(selector)!.requiredForButton = true;
+        }
+
+        // 다시 입력하고, 지워진 다른 필드도 복구
+        await this.fillInput(input, nodes.get(selector)!.filledValue).catch(() => undefined);
+        state = await this.snapshot(options);
+        for (const other of filled) {
+          const otherInput = state.inputs.find(i => i.selector === other);
+          if (otherInput && otherInput.visible && (await this.isEmpty(otherInput))) {
+            await this.fillInput(otherInput, nodes.get(other)!.filledValue).catch(() => undefined);
+          }
+        }
+        state = await this.snapshot(options);
+      }
+    }
+
+    if (restore) {
+      // 역순 복원: 셀렉트를 되돌려 숨겨지는 필드보다 그 필드 값을 먼저 복원
+      for (const selector of [...filled].reverse()) {
+        const input = state.inputs.find(i => i.selector === selector);
+        if (!input) continue;
+        await this.restoreInput(input, originalValues.get(selector) ?? '', originalRadios).catch(() => undefined);
+      }
+      if (filled.length > 0) {
+        await this.waitStrategy.waitForDomStable({ timeout: options.settleTimeout ?? 1500 });
+      }
+    }
+
+    const nodeList = Array.from(nodes.values()).sort((a, b) => a.discoveryIndex - b.discoveryIndex);
+
+    return {
+      targetButton,
+      nodes: nodeList,
+      edges,
+      buttonEnabled,
+      buttonRequires,
+      fillOrder: topologicalOrder(nodeList, edges),
+      skipped
+    };
+  }
+
+  /**
+   * 빈 필드 여부 (체크박스/라디오는 value가 항상 있으므로 체크 상태로 판단)
+   */
+  private async isEmpty(input: InputState): Promise<boolean> {
+    if (input.type === 'checkbox' || input.type === 'radio') {
+      return !(await this.page.locator(input.selector).first().isChecked().catch(() => true));
+    }
+    return !input.value;
+  }
+
+  /**
+   * 필드 입력 (값을 지정하지 않으면 필드 분석 추천 값 사용)
+   */
+  private async fillInput(input: InputState, value?: string): Promise<string> {
+    const locator = this.page.locator(input.selector).first();
+
+    if (input.type === 'checkbox' || input.type === 'radio') {
+      await locator.check({ timeout: 3000 });
+      return 'true';
+    }
+
+    if (input.type.startsWith('select')) {
+      if (value) {
+        await locator.selectOption(value, { timeout: 3000 });
+        return value;
+      }
+      const options = await locator.locator('option').evaluateAll(els =>
+        els.map(el => (el as HTMLOptionElement).value).filter(Boolean)
+      );
+      if (options.length === 0) throw new Error('선택 가능한 옵션 없음');
+      await locator.selectOption(options[0], { timeout: 3000 });
+      return options[0];
+    }
+
+    const fillValue = value ?? (input.type === 'number'
+      ? '1'
+      : (await this.fieldAnalyzer.analyzeField(locator)).suggestedValue ?? 'test_value');
+
+    await locator.fill(fillValue, { timeout: 3000 });
+    await locator.press('Tab', { timeout: 1000 }).catch(() => undefined);
+    return fillValue;
+  }
+
+  /**
+   * 필드 비우기 (ablation)
+   */
+  private async clearInput(input: InputState) {
+    const locator = this.page.locator(input.selector).first();
+
+    if (input.type === 'checkbox') {
+      await locator.uncheck({ timeout: 3000 });
+    } else if (input.type.startsWith('select')) {
+      await locator.selectOption({ index: 0 }, { timeout: 3000 });
+    } else {
+      await locator.fill('', { timeout: 3000 });
+      await locator.press('Tab', { timeout: 1000 }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * 원래 값으로 복원
+   *
+   * - 체크박스: 체크되지 않은 것만 입력하므로 해제
+   * - 셀렉트: 원래 선택 값으로 다시 선택
+   * - 라디오: 원래 체크되어 있던 라디오를 다시 체크, 원래 그룹에 선택이 없었으면 선택 해제
+   */
+  private async restoreInput(input: InputState, original: string, originalRadios: Set<string>) {
+    const locator = this.page.locator(input.selector).first();
+
+    if (input.type === 'checkbox') {
+      await locator.uncheck({ timeout: 3000 });
+      return;
+    }
+    if (input.type.startsWith('select')) {
+      await locator.selectOption({ value: original }, { timeout: 3000 });
+      return;
+    }
+    if (input.type === 'radio') {
+      for (const selector of originalRadios) {
+        await this.page.locator(selector).first().check({ timeout: 3000 }).catch(() => undefined);
+      }
+      if (!originalRadios.has(input.selector) && await locator.isChecked()) {
+        // 라디오는 UI로 해제할 수 없으므로 직접 해제 후 change 이벤트 발생
+        await locator.evaluate(el => {
+          (el as HTMLInputElement).checked = false;
+          el.dispatchEvent(new Event('input', { bubbles: true }));
+          el.dispatchEvent(new Event('change', { bubbles: true }));
+        });
+      }
+      return;
+    }
+    await locator.fill(original, { timeout: 3000 });
+  }
+
+  /**
+   * 탐색 시작 시 체크되어 있던 라디오 셀렉터
+   */
+  private async checkedRadios(state: PageState): Promise<Set<string>> {
+    const checked = new Set<string>();
+    for (const input of state.inputs) {
+      if (input.type !== 'radio') continue;
+      if (await this.page.locator(input.selector).first().isChecked().catch(() => false)) {
+        checked.add(input.selector);
+      }
+    }
+    return checked;
+  }
+
+  /**
+   * DOM 안정화 후 상태 수집
+   */
+  private async snapshot(options: DependencyDiscoveryOptions): Promise<PageState> {
+    await this.waitStrategy.waitForDomStable({ timeout: options.settleTimeout ?? 1500 });
+    return this.stateAnalyzer.analyze();
+  }
+
+  /**
+   * 노드 추가 (이미 있으면 무시)
+   */
+  private addNode(nodes: Map<string, FieldNode>, input: InputState, initial: boolean) {
+    if (nodes.has(input.selector)) return;
+    nodes.set(input.selector, {
+      selector: input.selector,
+      name: input.name,
+      type: input.type,
+      required: input.required,
+      initiallyVisible: initial && input.visible,
+      discoveryIndex: nodes.size
+    });
+  }
+}
+
+/**
+ * 두 상태의 차이 → 의존 관계
+ */
+function diffStates(from: string, prev: PageState, next: PageState): FieldDependency[] {
+  const edges: FieldDependency[] = [];
+
+  for (const input of next.inputs) {
+    if (input.selector === from) continue;
+    const before = prev.inputs.find(i => i.selector === input.selector);
+
+    if ((!before || !before.visible) && input.visible) {
+      edges.push({ from, to: input.selector, type: 'reveals' });
+    }
+    if (before?.disabled && !input.disabled) {
+      edges.push({ from, to: input.selector, type: 'enables' });
+    }
+    if (before && !before.disabled && input.disabled) {
+      edges.push({ from, to: input.selector, type: 'disables' });
+    }
+    if (before?.value && input.value !== before.value) {
+      edges.push({ from, to: input.selector, type: 'resets' });
+    }
+  }
+
+  for (const before of prev.inputs) {
+    if (before.selector === from || !before.visible) continue;
+    const after = next.inputs.find(i => i.selector === before.selector);
+    if (!after || !after.visible) {
+      edges.push({ from, to: before.selector, type: 'hides' });
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * 목표 버튼 찾기
+ */
+function findButton(state: PageState, text?: string): ButtonState | undefined {
+  if (!text) return undefined;
+  return state.buttons.find(b => b.text.includes(text) || b.ariaLabel?.includes(text));
+}
+
+/**
+ * 위상 정렬 - reveals/enables/resets의 from을 먼저
+ * 순서가 자유로운 필드는 버튼 필수 필드 → 발견 순서 (순환은 발견 순서로 끊음)
+ */
+function topologicalOrder(nodes: FieldNode[], edges: FieldDependency[]): string[] {
+  const ordering = edges.filter(e => ORDERING_TYPES.includes(e.type) && e.from !== e.to);
+  const remaining = new Set(nodes.map(n => n.selector));
+  const order: string[] = [];
+
+  const priority = (a: FieldNode, b: FieldNode) =>
+    Number(!!b.requiredForButton) - Number(!!a.requiredForButton) || a.discoveryIndex - b.discoveryIndex;
+
+  while (remaining.size > 0) {
+    const candidates = nodes.filter(n => remaining.has(n.selector));
+    const free = candidates.filter(n =>
+      !ordering.some(e => e.to === n.selector && remaining.has(e.from))
+    );
+    const next = (free.length > 0 ? free : candidates).sort(priority)[0];
+
+    order.push(next.selector);
+    remaining.delete(next.selector);
+  }
+
+  return order;
+}
+
+/**
+ * 입력 순서대로 필드 정렬 (그래프에 없는 필드는 필수 → 기존 순서로 뒤에 배치)
+ */
+export function sortByFillOrder<T extends { selector: string; required?: boolean }>(
+  inputs: T[],
+  graph: FieldDependencyGraph
+): T[] {
+  const rank = (input: T) => {
+    const index = graph.fillOrder.indexOf(input.selector);
+    return index >= 0 ? index : graph.fillOrder.length + (input.required ? 0 : 1);
+  };
+
+  return inputs
+    .map((input, index) => ({ input, index }))
+    .sort((a, b) => rank(a.input) - rank(b.input) || a.index - b.index)
+    .map(({ input }) => input);
+}
+
+/**
+ * 로그용 그래프 설명
+ */
+export function describeDependencyGraph(graph: FieldDependencyGraph): string {
+  const name = (selector: string) => graph.nodes.find(n => n.selector === selector)?.name || selector;
+  const labels: Record<FieldDependencyType, string> = {
+    reveals: '노출',
+    hides: '숨김',
+    enables: '활성화',
+    disables: '비활성화',
+    resets: '초기화'
+  };
+
+  const lines = [`필드 의존성 (${graph.nodes.length}개 필드, ${graph.edges.length}개 관계)`];
+
+  graph.edges.forEach(edge => {
+    lines.push(`  ${name(edge.from)} → ${name(edge.to)} ${labels[edge.type]}`);
+  });
+
+  if (graph.targetButton) {
+    const requires = graph.buttonRequires.map(name).join(', ') || '(확인 안 됨)';
+    lines.push(`  "${graph.targetButton}" 버튼: ${graph.buttonEnabled ? '활성화됨' : '비활성화'}, 필수 필드: ${requires}`);
+  }
+
+  lines.push(`  입력 순서: ${graph.fillOrder.map(name).join(' → ')}`);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,115 @@
+import { Page, Frame, FrameLocator } from '@playwright/test';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('FrameScope');
+
+/**
+ * 프레임 진입 구분자 (Playwright frameLocator()가 만드는 셀렉터와 동일)
+ *
+ * 'iframe#editor >> internal:control=enter-frame >> #title' 형태의 셀렉터는
+ * page.locator()에 그대로 넘기면 iframe 내부 요소를 가리킴
+ */
+export const FRAME_SEPARATOR = ' >> internal:control=enter-frame >> ';
+
+const FRAME_SEPARATOR_PATTERN = /\s*>>\s*internal:control=enter-frame\s*>>\s*/;
+
+/**
+ * 분석 대상 프레임
+ */
+export interface FrameScope {
+  frame: Frame;
+  path: string[];            // 최상위 문서부터 이 프레임까지의 iframe 셀렉터 (메인 프레임은 [])
+}
+
+/**
+ * 메인 프레임과 same-origin iframe 목록 (문서 순서, 중첩 iframe 포함)
+ *
+ * cross-origin iframe은 접근할 수 없으므로 제외
+ * (Shadow DOM은 Playwright CSS 셀렉터가 open shadow root를 관통하므로 프레임 단위로만 나눔)
+ */
+export async function collectFrameScopes(page: Page, options: { maxDepth?: number } = {}): Promise<FrameScope[]> {
+  const { maxDepth = 3 } = options;
+  const scopes: FrameScope[] = [{ frame: page.mainFrame(), path: [] }];
+
+  const visit = async (parent: FrameScope, depth: number) => {
+    if (depth > maxDepth) return;
+
+    for (const frame of parent.frame.childFrames()) {
+      if (frame.isDetached()) continue;
+
+      const sameOrigin = await frame.evaluate(() => window.frameElement !== null).catch(() => false);
+      if (!sameOrigin) {
+        logger.debug(`cross-origin 프레임 제외: ${frame.url()}`);
+        continue;
+      }
+
+      const selector = await frameElementSelector(frame);
+      if (!selector) continue;
+
+      const scope = { frame, path: [...parent.path, selector] };
+      scopes.push(scope);
+      await visit(scope, depth + 1);
+    }
+  };
+
+  await visit(scopes[0], 1);
+  return scopes;
+}
+
+/**
+ * 프레임 경로를 붙인 셀렉터 (메인 프레임이면 그대로)
+ *
+ * qualifySelector(['iframe#editor'], '#title') → 'iframe#editor >> internal:control=enter-frame >> #title'
+ */
+export function qualifySelector(path: string[], selector: string): string {
+  return [...path, selector].join(FRAME_SEPARATOR);
+}
+
+/**
+ * 프레임 경로가 붙은 셀렉터 분리
+ */
+export function splitFrameSelector(selector: string): { path: string[]; selector: string } {
+  const parts = selector.split(FRAME_SEPARATOR_PATTERN);
+  return { path: parts.slice(0, -1), selector: parts[parts.length - 1] };
+}
+
+/**
+ * 셀렉터가 가리키는 요소가 있는 프레임 (옵션/라디오 등 주변 요소를 같은 프레임에서 찾을 때 사용)
+ */
+export function frameScopeOf(page: Page, selector: string): Page | FrameLocator {
+  const { path } = splitFrameSelector(selector);
+  if (path.length === 0) return page;
+
+  let scope = page.frameLocator(path[0]);
+  for (const frameSelector of path.slice(1)) {
+    scope = scope.frameLocator(frameSelector);
+  }
+  return scope;
+}
+
+/**
+ * iframe 요소 셀렉터 (id > name > title > src > 순서)
+ */
+async function frameElementSelector(frame: Frame): Promise<string | null> {
+  const element = await frame.frameElement().catch(() => null);
+  if (!element) return null;
+
+  try {
+    return await element.evaluate(el => {
+      const tag = el.tagName.toLowerCase();
+      const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+      if (el.id) return `${tag}#${CSS.escape(el.id)}`;
+      for (const attribute of ['name', 'title', 'src']) {
+        const value = el.getAttribute(attribute);
+        if (value) return `${tag}[${attribute}=${quote(value)}]`;
+      }
+
+      const root = el.getRootNode() as Document | ShadowRoot;
+      const index = Array.from(root.querySelectorAll(tag)).indexOf(el);
+      return `${tag} >> nth=${index}`;
+    });
+  } finally {
+    await element.dispose();
+  }
+}
@@ -9,12 +9,41 @@ export {
   type ModalState
 } from './page-state-analyzer';
 
+export {
+  AccessibilityStateAnalyzer,
+  parseAriaSnapshot,
+  type AccessibilityNode
+} from './accessibility-state-analyzer';
+
+export {
+  AccessibilityAuditor,
+  summarizeAudit,
+  assertNoViolations,
+  formatAuditReport,
+  AUDIT_RULES,
+  type AuditRuleId,
+  type AuditImpact,
+  type AuditViolation,
+  type AuditResult,
+  type AuditOptions
+} from './accessibility-audit';
+
+export {
+  collectFrameScopes,
+  qualifySelector,
+  splitFrameSelector,
+  frameScopeOf,
+  FRAME_SEPARATOR,
+  type FrameScope
+} from './frame-scope';
+
 export {
   ActionDecider,
   type Action,
   type ActionType,
   type Goal,
-  type FieldStrategy
+  type FieldStrategy,
+  type SkippedField
 } from './action-decider';
 
 export {
@@ -48,12 +77,16 @@ export {
 
 export {
   SelectorGenerator,
+  toStringLiteral,
+  toRegexLiteral,
   escapeForSelector,
   escapeForHasText,
   type GeneratedSelector,
   type SelectorStability,
   type SelectorType,
-  type SelectorOptions
+  type SelectorOptions,
+  type LocatorExpression,
+  type LocatorStrategy
 } from './selector-generator';
 
 export {
@@ -68,16 +101,142 @@ export {
   type ErrorType,
   type RecoveryStrategyType,
   type RecoveryResult,
-  type RecoveryOptions
+  type RecoveryOptions,
+  type RecoveryContext,
+  type ErrorRecoveryConfig
 } from './error-recovery';
 
+export {
+  SelectorRepository,
+  fingerprintSimilarity,
+  formatDriftReport,
+  type ElementFingerprint,
+  type SelectorEntry,
+  type SelectorHistoryEntry,
+  type SelectorResolution,
+  type SelectorDriftReport,
+  type SelectorRepositoryOptions
+} from './selector-repository';
+
+export {
+  SelectorScorer,
+  analyzeSelector,
+  inferSelectorType,
+  formatSelectorScores,
+  type SelectorScore,
+  type SelectorRisk,
+  type SelectorRiskType
+} from './selector-scorer';
+
+export {
+  SuccessEvaluator,
+  toSuccessCondition,
+  type SuccessIndicator
+} from './success-evaluator';
+
+export {
+  ValueCapturer,
+  type CaptureResult
+} from './value-capturer';
+
+export {
+  SeededValueGenerator,
+  createValueScope,
+  normalizeSeed,
+  type ValueGenerator,
+  type ValueScope,
+  type SeededValueGeneratorOptions,
+  type GeneratedValue
+} from './value-generator';
+
+export {
+  ValueProviderRegistry,
+  applyValueVariant,
+  DEFAULT_VALUE_LOCALE,
+  DEFAULT_MAX_LENGTH,
+  VALUE_LOCALES,
+  VALUE_VARIANTS,
+  type ValueLocale,
+  type ValueVariant,
+  type ValueProvider,
+  type ValueProviderOptions
+} from './value-providers';
+
+export {
+  ValidationFuzzer,
+  getNegativeInputs,
+  formatCoverageMatrix,
+  type NegativeInput,
+  type NegativeInputCategory,
+  type FuzzOutcome,
+  type FuzzOptions,
+  type FuzzCaseResult,
+  type ValidationMessage,
+  type ValidationCoverageReport
+} from './validation-fuzzer';
+
+export {
+  FieldDependencyAnalyzer,
+  sortByFillOrder,
+  describeDependencyGraph,
+  type FieldDependencyType,
+  type FieldDependency,
+  type FieldNode,
+  type FieldDependencyGraph,
+  type DependencyDiscoveryOptions
+} from './field-dependency';
+
+export {
+  DecisionPolicyRegistry,
+  extendPolicy,
+  DEFAULT_DECISION_POLICY,
+  DEFAULT_DECISION_RULES,
+  DEFAULT_POLICY_NAME,
+  type DecisionPolicy,
+  type DecisionRule,
+  type DecisionContext,
+  type PolicyExtension
+} from './decision-policy';
+
+export {
+  createReplayScript,
+  saveReplayScript,
+  loadReplayScript,
+  matchesUrlPattern,
+  REPLAY_SCRIPT_VERSION,
+  REPLAY_FILE_EXTENSION,
+  type ReplayStep,
+  type ReplayScript,
+  type ReplayOptions,
+  type ReplayResult,
+  type ReplayScriptOptions
+} from './replay-script';
+
+export {
+  generateSpecCode,
+  writeSpecFile,
+  getSpecFilePath,
+  type SpecGeneratorOptions
+} from './spec-generator';
+
+export {
+  generateTraceHtml,
+  writeTraceReport,
+  type TraceReportOptions,
+  type TraceReportWriteOptions
+} from './trace-report';
+
 export {
   type ExtendedGoal,
   type FieldInstruction,
   type FieldIdentifier,
   type ButtonInstruction,
   type SuccessCondition,
+  type SuccessConditionType,
   type PreStep,
+  type PreStepType,
+  type CaptureInstruction,
+  type CaptureSource,
   type GoalOptions,
   matchesFieldIdentifier,
   resolveValue,
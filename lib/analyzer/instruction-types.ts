@@ -1,4 +1,8 @@
+import { Page } from '@playwright/test';
+import { renderTemplate } from '../goal/value-template';
 import { FieldType, FieldPurpose } from './smart-field-analyzer';
+import { ValueLocale, ValueVariant } from './value-providers';
+import { ValueScope } from './value-generator';
 
 /**
  * 필드 식별 방법
@@ -35,6 +39,9 @@ export interface FieldInstruction {
   // 드롭다운/콤보박스 옵션
   selectExact?: boolean;       // 정확히 일치하는 옵션 선택
   createIfNotExists?: boolean; // 옵션 없으면 새로 생성 ("추가" 버튼)
+
+  // 입력한 값을 ExecutionResult.variables에 저장할 이름 (시나리오에서 다음 Goal로 전달)
+  saveAs?: string;
 }
 
 /**
@@ -73,6 +80,9 @@ export interface ExtendedGoal {
   // 실행 전 단계 (신규)
   preSteps?: PreStep[];
 
+  // 목표 달성 후 페이지에서 읽어 변수로 저장할 값
+  captures?: CaptureInstruction[];
+
   // 필수 필드 (기존 호환, 이름 기반)
   requiredFields?: string[];
 
@@ -82,22 +92,95 @@ export interface ExtendedGoal {
 
 /**
  * 성공 조건 (상세)
+ *
+ * 예시: URL에 /done/ 포함 AND 토스트에 "생성 완료" 표시
+ * ```typescript
+ * {
+ *   type: 'all',
+ *   conditions: [
+ *     { type: 'url', value: '/done/', timeout: 15000 },
+ *     { type: 'text', value: /생성 완료/ }
+ *   ]
+ * }
+ * ```
  */
 export interface SuccessCondition {
-  type: 'url' | 'text' | 'element' | 'custom';
-  value: string | RegExp;
-  timeout?: number;
+  type: SuccessConditionType;
+  value?: string | RegExp;     // url/text/element 대상 (custom은 설명용 이름)
+  predicate?: (page: Page) => Promise<boolean>;  // custom 전용
+  conditions?: SuccessCondition[];               // all/any/not 하위 조건
+  timeout?: number;            // 조건 충족 대기 시간 (ms)
 }
 
+/**
+ * 성공 조건 타입
+ */
+export type SuccessConditionType =
+  | 'url'       // URL 포함/정규식 매칭
+  | 'text'      // 텍스트 표시
+  | 'element'   // 셀렉터 요소 표시
+  | 'custom'    // 사용자 정의 predicate
+  | 'all'       // 모든 하위 조건 충족
+  | 'any'       // 하위 조건 중 하나 충족
+  | 'not';      // 첫 번째 하위 조건 미충족
+
 /**
  * 실행 전 단계
  */
 export interface PreStep {
-  type: 'click' | 'wait' | 'navigate' | 'escape';
-  target?: string;             // 셀렉터 또는 URL
-  timeout?: number;
+  type: PreStepType;
+  target?: string;             // 셀렉터 또는 URL (waitForUrl은 URL 일부)
+  value?: string | (() => string);  // fill/select 값, wait의 대기 시간(ms)
+  timeout?: number;            // 단계별 타임아웃 (기본: GoalOptions.preStepTimeout)
+  optional?: boolean;          // 실패해도 다음 단계 진행 (기본: false)
+  description?: string;        // 로그/기록용 설명
+}
+
+/**
+ * 실행 전 단계 타입
+ */
+export type PreStepType =
+  | 'click'          // 요소 클릭
+  | 'wait'           // target 셀렉터 표시 대기 또는 value(ms)만큼 대기
+  | 'navigate'       // URL 이동
+  | 'escape'         // ESC 키
+  | 'fill'           // 입력 필드 채우기
+  | 'select'         // 드롭다운 선택
+  | 'waitForUrl'     // URL에 target이 포함될 때까지 대기 (/links/:id/done의 :id는 아무 세그먼트와 매칭)
+  | 'assertVisible'; // 요소가 보이는지 확인
+
+/**
+ * 값 캡처 지시 - 목표 달성 후 페이지의 값을 변수로 저장
+ *
+ * 예시: 완료 페이지의 트래킹 링크와 URL의 링크 ID 저장
+ * ```typescript
+ * captures: [
+ *   { name: 'trackingLink', from: 'text', selector: '[data-testid="tracking-link"]' },
+ *   { name: 'linkId', from: 'url', pattern: /\/links\/(\d+)\/done/ }
+ * ]
+ * ```
+ */
+export interface CaptureInstruction {
+  name: string;                // 저장할 변수 이름 ({{name}}으로 참조)
+  from: CaptureSource;
+  selector?: string;           // text/attribute/value 대상 요소
+  attribute?: string;          // attribute 전용 속성 이름
+  pattern?: string | RegExp;   // 추출 정규식 (url은 필수, 나머지는 선택)
+  group?: number | string;     // 정규식 그룹 번호/이름 (기본: 1, 그룹이 없으면 전체 매칭)
+  optional?: boolean;          // 실패해도 목표 성공 유지 (기본: false)
+  timeout?: number;            // 요소 대기 시간 (기본: 5000)
 }
 
+/**
+ * 캡처 대상
+ */
+export type CaptureSource =
+  | 'text'       // 요소의 보이는 텍스트
+  | 'attribute'  // 요소의 속성 값 (href 등)
+  | 'value'      // 입력 필드 값
+  | 'clipboard'  // 클립보드 텍스트 ("복사" 버튼 이후)
+  | 'url';       // 현재 URL의 정규식 그룹
+
 /**
  * Goal 옵션
  */
@@ -108,6 +191,11 @@ export interface GoalOptions {
   strictMode?: boolean;        // 명시된 필드만 처리 (기본: false)
   retryOnError?: boolean;      // 에러 시 재시도
   maxRetries?: number;
+  preStepTimeout?: number;     // 실행 전 단계 기본 타임아웃 (기본: 10000)
+
+  // 자동 생성 값 (명시적 지시 value에는 적용되지 않음)
+  locale?: ValueLocale;        // 값 로케일 (기본: ko-KR)
+  valueVariant?: ValueVariant; // 값 변형 - default(정상) / maxLength / unicode / emoji / whitespace
 }
 
 /**
@@ -181,12 +269,19 @@ export function matchesFieldIdentifier(
 
 /**
  * value가 함수인 경우 실행하여 문자열 반환
+ * {{timestamp}} 같은 내장 템플릿과 {{변수}} 참조를 치환 (없는 변수는 그대로 유지)
+ * values가 주어지면 내장 템플릿 값을 시드로 생성 (같은 시드 → 같은 값)
  */
-export function resolveValue(value: string | (() => string)): string {
-  if (typeof value === 'function') {
-    return value();
+export function resolveValue(
+  value: string | (() => string),
+  variables: Record<string, string> = {},
+  values?: ValueScope
+): string {
+  if (value === undefined || value === null) {
+    throw new Error('값이 지정되지 않았습니다 (함수 값은 Goal 파일/리플레이 스크립트에 저장되지 않음)');
   }
-  return value;
+  const raw = typeof value === 'function' ? value() : value;
+  return renderTemplate(raw, variables, values);
 }
 
 /**
@@ -205,6 +300,7 @@ export function normalizeGoal(goal: ExtendedGoal | {
       strictMode: false,
       retryOnError: true,
       maxRetries: 2,
+      preStepTimeout: 10000,
       ...((goal as ExtendedGoal).options || {})
     }
   };
@@ -217,6 +313,13 @@ export const EXAMPLE_TRACKING_LINK_GOAL: ExtendedGoal = {
   name: '트래킹 링크 생성',
   description: '커스텀 채널로 트래킹 링크를 생성합니다',
 
+  preSteps: [
+    { type: 'click', target: 'text="트래킹 링크"', description: '트래킹 링크 메뉴 열기' },
+    { type: 'click', target: 'text=트래킹 링크 생성', description: '트래킹 링크 생성 메뉴 클릭' },
+    { type: 'escape', optional: true, description: '안내 모달 닫기' },
+    { type: 'click', target: '[role="tab"]:has-text("커스텀 채널")', description: '커스텀 채널 탭 선택' }
+  ],
+
   targetButton: {
     text: /링크 생성/,
     waitForEnabled: true,
@@ -232,7 +335,7 @@ export const EXAMPLE_TRACKING_LINK_GOAL: ExtendedGoal = {
   fieldInstructions: [
     {
       field: { label: /채널.*선택/, purpose: 'channel' },
-      value: () => `ch_${Date.now()}`,
+      value: 'ch_{{random:6}}',
       type: 'combobox',
       createIfNotExists: true
     },
@@ -1,7 +1,8 @@
-import { Page, Locator } from '@playwright/test';
+import { Page, Locator, FrameLocator } from '@playwright/test';
 import { WaitStrategy } from './wait-strategy';
 import { FieldType, AnalyzedField } from './smart-field-analyzer';
 import { escapeForHasText } from './selector-generator';
+import { frameScopeOf } from './frame-scope';
 
 /**
  * 상호작용 결과
@@ -27,6 +28,9 @@ export interface InteractionOptions {
 
 /**
  * InteractionHandler - 필드 타입별 전문화된 상호작용 처리
+ *
+ * 프레임 경로가 붙은 셀렉터(iframe >> internal:control=enter-frame >> ...)도 처리하며,
+ * 드롭다운 옵션/라디오 그룹 등 주변 요소는 대상 필드와 같은 프레임에서 찾음
  */
 export class InteractionHandler {
   private page: Page;
@@ -192,7 +196,7 @@ export class InteractionHandler {
         await this.waitStrategy.waitForDomStable({ timeout: 2000 });
 
         // 옵션 찾기 및 클릭
-        const result = await this.selectDropdownOption(value, timeout);
+        const result = await this.selectDropdownOption(value, timeout, frameScopeOf(this.page, selector));
         if (result.success) {
           return {
             ...result,
@@ -257,7 +261,7 @@ export class InteractionHandler {
         await this.waitStrategy.waitForDomStable({ timeout: 2000 });
 
         // 4. 옵션 선택 시도 (여러 방법)
-        const selectResult = await this.tryComboboxSelection(value, timeout);
+        const selectResult = await this.tryComboboxSelection(value, timeout, frameScopeOf(this.page, selector));
 
         if (selectResult.success) {
           // 5. 값 확인
@@ -302,14 +306,15 @@ export class InteractionHandler {
    */
   private async tryComboboxSelection(
     value: string,
-    timeout: number
+    timeout: number,
+    scope: Page | FrameLocator = this.page
   ): Promise<{ success: boolean; method: string }> {
     const escapedValue = escapeForHasText(value);
 
     // 방법 1: role="option" 직접 클릭 (Playwright click 사용)
     try {
       const optionSelector = `[role="option"]:has-text("${escapedValue}")`;
-      const option = this.page.locator(optionSelector).first();
+      const option = scope.locator(optionSelector).first();
       const isVisible = await option.isVisible({ timeout: 1000 }).catch(() => false);
 
       if (isVisible) {
@@ -330,7 +335,7 @@ export class InteractionHandler {
       ];
 
       for (const pattern of addPatterns) {
-        const addBtn = this.page.locator(pattern).first();
+        const addBtn = scope.locator(pattern).first();
         const exists = await addBtn.count() > 0;
         const isVisible = exists && await addBtn.isVisible({ timeout: 500 }).catch(() => false);
 
@@ -349,7 +354,7 @@ export class InteractionHandler {
       await this.page.waitForTimeout(500);
 
       // Enter 후 드롭다운이 닫혔는지 확인
-      const listbox = this.page.locator('[role="listbox"], [class*="dropdown-menu"]').first();
+      const listbox = scope.locator('[role="listbox"], [class*="dropdown-menu"]').first();
       const stillOpen = await listbox.isVisible({ timeout: 500 }).catch(() => false);
 
       if (!stillOpen) {
@@ -377,7 +382,8 @@ export class InteractionHandler {
    */
   private async selectDropdownOption(
     value: string,
-    timeout: number
+    timeout: number,
+    scope: Page | FrameLocator = this.page
   ): Promise<InteractionResult> {
     const escapedValue = escapeForHasText(value);
     const startTime = Date.now();
@@ -394,7 +400,7 @@ export class InteractionHandler {
 
     for (const selector of optionSelectors) {
       try {
-        const option = this.page.locator(selector).first();
+        const option = scope.locator(selector).first();
         const isVisible = await option.isVisible({ timeout: 1000 }).catch(() => false);
 
         if (isVisible) {
@@ -433,7 +439,8 @@ export class InteractionHandler {
     const { timeout = this.defaultTimeout } = options;
 
     try {
-      // 라디오 그룹에서 해당 값 찾기
+      // 라디오 그룹에서 해당 값 찾기 (같은 프레임 안에서)
+      const scope = frameScopeOf(this.page, selector);
       const radioGroup = this.page.locator(selector).first();
       const name = await radioGroup.getAttribute('name');
 
@@ -441,17 +448,17 @@ export class InteractionHandler {
 
       if (name) {
         // name으로 그룹 내 찾기
-        targetRadio = this.page.locator(`input[name="${name}"][value="${value}"]`).first();
+        targetRadio = scope.locator(`input[name="${name}"][value="${value}"]`).first();
       } else {
         // 라벨 텍스트로 찾기
-        targetRadio = this.page.locator(`input[type="radio"]`).filter({
-          has: this.page.locator(`xpath=..//*[contains(text(), "${value}")]`)
+        targetRadio = scope.locator(`input[type="radio"]`).filter({
+          has: this.page.locator(`xpath=..//*[contains(text(), "${value}")]`) // has는 라디오 기준 상대 셀렉터
         }).first();
       }
 
       // 또는 label로 찾기
       if (await targetRadio.count() === 0) {
-        targetRadio = this.page.getByLabel(value);
+        targetRadio = scope.getByLabel(value);
       }
 
       await targetRadio.waitFor({ state: 'visible', timeout });
@@ -1,4 +1,6 @@
-import { Page } from '@playwright/test';
+import { Page, Frame } from '@playwright/test';
+import { collectFrameScopes, qualifySelector } from './frame-scope';
+import type { AccessibilityNode } from './accessibility-state-analyzer';
 
 /**
  * 버튼 상태 정보
@@ -10,6 +12,12 @@ export interface ButtonState {
   selector: string;
   ariaLabel?: string;
   type?: string;
+
+  // 접근성 트리 기반 분석(AccessibilityStateAnalyzer)에서만 채움
+  role?: string;
+  expanded?: boolean;
+  pressed?: boolean | 'mixed';
+  path?: string[];            // 상위 컨테이너 (예: ['dialog "링크 생성"'])
 }
 
 /**
@@ -26,6 +34,14 @@ export interface InputState {
   selector: string;
   ariaLabel?: string;
   validationMessage?: string;
+  maxLength?: number;
+
+  // 접근성 트리 기반 분석(AccessibilityStateAnalyzer)에서만 채움
+  role?: string;
+  checked?: boolean | 'mixed';
+  expanded?: boolean;
+  selected?: boolean;
+  path?: string[];            // 상위 컨테이너 (예: ['dialog "링크 생성"', 'group "기본 정보"'])
 }
 
 /**
@@ -61,6 +77,7 @@ export interface PageState {
   modals: ModalState[];
   activeTab?: string;
   timestamp: string;
+  accessibilityTree?: AccessibilityNode[]; // AccessibilityStateAnalyzer에서만 채움
 }
 
 /**
@@ -78,7 +95,7 @@ export interface ModalState {
  * 페이지 상태 분석기 - 현재 페이지의 전체 상태를 구조화된 형태로 추출
  */
 export class PageStateAnalyzer {
-  private page: Page;
+  protected page: Page;
 
   constructor(page: Page) {
     this.page = page;
@@ -112,14 +129,23 @@ export class PageStateAnalyzer {
   }
 
   /**
-   * 모든 버튼 상태 추출
+   * 모든 버튼 상태 추출 (open shadow root, same-origin iframe 포함 - iframe 내부는 프레임 경로가 붙은 셀렉터)
    */
   async extractButtons(): Promise<ButtonState[]> {
-    return this.page.evaluate(() => {
+    const buttons: ButtonState[] = [];
+    for (const scope of await collectFrameScopes(this.page)) {
+      const frameButtons = await this.extractFrameButtons(scope.frame);
+      buttons.push(...frameButtons.map(button => ({ ...button, selector: qualifySelector(scope.path, button.selector) })));
+    }
+    return buttons;
+  }
+
+  private async extractFrameButtons(frame: Frame): Promise<ButtonState[]> {
+    return frame.locator('button, [role="button"], input[type="submit"], input[type="button"]').evaluateAll(elements => {
       const buttons: any[] = [];
       const seen = new Set<string>();
 
-      document.querySelectorAll('button, [role="button"], input[type="submit"], input[type="button"]').forEach((el, index) => {
+      elements.forEach((el, index) => {
         const htmlEl = el as HTMLButtonElement;
         const rect = htmlEl.getBoundingClientRect();
 
@@ -161,23 +187,34 @@ export class PageStateAnalyzer {
   }
 
   /**
-   * 모든 입력 필드 상태 추출
+   * 모든 입력 필드 상태 추출 (open shadow root, same-origin iframe 포함 - iframe 내부는 프레임 경로가 붙은 셀렉터)
    */
   async extractInputs(): Promise<InputState[]> {
-    return this.page.evaluate(() => {
+    const inputs: InputState[] = [];
+    for (const scope of await collectFrameScopes(this.page)) {
+      const frameInputs = await this.extractFrameInputs(scope.frame);
+      inputs.push(...frameInputs.map(input => ({ ...input, selector: qualifySelector(scope.path, input.selector) })));
+    }
+    return inputs;
+  }
+
+  private async extractFrameInputs(frame: Frame): Promise<InputState[]> {
+    return frame.locator('input, textarea, select, [contenteditable="true"], [role="textbox"], [role="combobox"]').evaluateAll(elements => {
       const inputs: any[] = [];
 
-      document.querySelectorAll('input, textarea, select, [contenteditable="true"], [role="textbox"], [role="combobox"]').forEach((el, index) => {
+      elements.forEach((el, index) => {
         const htmlEl = el as HTMLInputElement;
         const rect = htmlEl.getBoundingClientRect();
 
         // hidden 타입 제외
         if (htmlEl.type === 'hidden') return;
 
+        // label[for]는 같은 문서/shadow root 안에서 찾기
+        const root = htmlEl.getRootNode() as Document | ShadowRoot;
         const name = htmlEl.name || htmlEl.id || '';
         const ariaLabel = htmlEl.getAttribute('aria-label');
         const placeholder = htmlEl.placeholder || '';
-        const label = document.querySelector(`label[for="${htmlEl.id}"]`)?.textContent?.trim() || '';
+        const label = root.querySelector(`label[for="${htmlEl.id}"]`)?.textContent?.trim() || '';
 
         // 셀렉터 생성
         let selector = '';
@@ -198,7 +235,7 @@ export class PageStateAnalyzer {
 
         // label 내 필수 표시 확인 (id가 있는 경우만)
         if (!required && htmlEl.id) {
-          const labelEl = document.querySelector(`label[for="${htmlEl.id}"]`);
+          const labelEl = root.querySelector(`label[for="${htmlEl.id}"]`);
           if (labelEl) {
             const labelText = labelEl.textContent || '';
             required = labelText.includes('*') || !!labelEl.querySelector('.required');
@@ -215,7 +252,8 @@ export class PageStateAnalyzer {
           visible: rect.width > 0 && rect.height > 0,
           selector,
           ariaLabel: ariaLabel || undefined,
-          validationMessage: htmlEl.validationMessage || undefined
+          validationMessage: htmlEl.validationMessage || undefined,
+          maxLength: htmlEl.maxLength > 0 ? htmlEl.maxLength : undefined
         });
       });
 
@@ -353,7 +391,8 @@ export class PageStateAnalyzer {
             required: inputEl.required,
             disabled: inputEl.disabled,
             visible: true,
-            selector: '[role="dialog"] input'
+            selector: '[role="dialog"] input',
+            maxLength: inputEl.maxLength > 0 ? inputEl.maxLength : undefined
           });
         });
 
@@ -385,7 +424,7 @@ export class PageStateAnalyzer {
   /**
    * 입력 필드와 버튼을 폼 단위로 그룹화
    */
-  private groupIntoForms(inputs: InputState[], buttons: ButtonState[]): FormState[] {
+  protected groupIntoForms(inputs: InputState[], buttons: ButtonState[]): FormState[] {
     // 단순화: 전체를 하나의 폼으로 처리
     const emptyRequiredFields = inputs
       .filter(i => i.required && !i.value && i.visible)
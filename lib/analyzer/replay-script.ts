@@ -0,0 +1,273 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ActionType, Goal } from './action-decider';
+import type { ExecutionResult } from './auto-pilot';
+import { ExtendedGoal, CaptureInstruction } from './instruction-types';
+import { SuccessIndicator } from './success-evaluator';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Replay');
+
+export const REPLAY_SCRIPT_VERSION = 1;
+export const REPLAY_FILE_EXTENSION = '.replay.json';
+
+/**
+ * 리플레이 가능한 행동 (done/blocked/explore는 결정 결과라 제외)
+ */
+const REPLAYABLE_TYPES: ActionType[] = [
+  'fill', 'click', 'select', 'wait', 'escape', 'tab', 'navigate', 'waitForUrl', 'assertVisible'
+];
+
+/**
+ * 리플레이 단계 - 실제로 성공한 셀렉터/값/대기
+ */
+export interface ReplayStep {
+  type: ActionType;
+  selector?: string;
+  value?: string;            // waitForUrl은 URL 경로 패턴 (/links/:id/done)
+  timeout?: number;
+  goalAction?: boolean;      // 목표 버튼 클릭 (실행 후 성공 조건 대기)
+  description: string;       // 원래 행동의 reason
+  source?: string;           // 원래 행동을 만든 규칙 (fill-field, instruction, preStep 등)
+}
+
+/**
+ * 리플레이 스크립트 - AutoPilot 실행에서 찾은 경로
+ */
+export interface ReplayScript {
+  version: number;
+  name: string;
+  createdAt: string;
+  seed?: number;                         // 원래 실행 시드 (fallback 시 같은 값 재현)
+  baseDate?: string;                     // 원래 실행 기준 시각 ISO (fallback 시 같은 날짜/시각 값 재현)
+  successIndicator?: SuccessIndicator;
+  captures?: CaptureInstruction[];
+  goal?: Goal | ExtendedGoal;            // 리플레이 이탈 시 AutoPilot fallback용 Goal
+  variables?: Record<string, string>;    // 원래 실행의 saveAs/captures 값
+  steps: ReplayStep[];
+}
+
+/**
+ * 리플레이 실행 옵션
+ */
+export interface ReplayOptions {
+  fallback?: boolean;                    // 이탈 시 AutoPilot으로 전환 (기본: true)
+  goal?: Goal | ExtendedGoal;            // fallback Goal, 스크립트에 없는 성공 조건/캡처 (기본: script.goal)
+  stepTimeout?: number;                  // 단계별 타임아웃 ms (기본: 5000)
+  variables?: Record<string, string>;    // fallback에 전달할 변수
+}
+
+/**
+ * 리플레이 결과
+ */
+export interface ReplayResult extends ExecutionResult {
+  mode: 'replay' | 'fallback';           // 스크립트만으로 완료 / AutoPilot으로 전환
+  replayedSteps: number;                 // 성공한 리플레이 단계 수
+  divergedAt?: number;                   // 이탈한 단계 (1부터, 성공 조건 불일치면 steps.length + 1)
+  divergence?: string;                   // 이탈 사유
+}
+
+/**
+ * 리플레이 스크립트 생성 옵션
+ */
+export interface ReplayScriptOptions {
+  name?: string;                         // 기본: goal.name 또는 'replay'
+  goal?: Goal | ExtendedGoal;            // 성공 조건/캡처/fallback에 사용
+  includeGoal?: boolean;                 // fallback용 Goal을 스크립트에 저장 (기본: true)
+}
+
+/**
+ * 실행 결과 → 리플레이 스크립트
+ *
+ * 성공한 단계만 남기고, 단계 실행 후 URL이 바뀌었으면 waitForUrl 단계를 추가
+ * (경로의 숫자/UUID 세그먼트는 :id로 바꿔 실행마다 바뀌는 id와 매칭)
+ *
+ * 사용법:
+ * ```typescript
+ * const result = await pilot.execute(goal);
+ * if (result.success) {
+ *   saveReplayScript(createReplayScript(result, { goal }), 'replays/tracking-link.replay.json');
+ * }
+ *
+ * // 회귀 테스트: 빠르게 재생하고, 화면이 바뀌었으면 AutoPilot으로 전환
+ * const script = loadReplayScript('replays/tracking-link.replay.json');
+ * const replay = await new AutoPilot(page, { seed: script.seed, baseDate: script.baseDate }).replay(script);
+ *
+ * // 함수 값(value: () => ...)이 있는 Goal은 저장하지 않고 재생 시 전달
+ * saveReplayScript(createReplayScript(result, { goal, includeGoal: false }), filePath);
+ * await pilot.replay(loadReplayScript(filePath), { goal });
+ * ```
+ */
+export function createReplayScript(result: ExecutionResult, options: ReplayScriptOptions = {}): ReplayScript {
+  if (!result.success) {
+    throw new Error(`실패한 실행은 리플레이 스크립트로 만들 수 없습니다: ${result.error ?? '알 수 없는 오류'}`);
+  }
+
+  const goal = options.goal;
+  const includeGoal = options.includeGoal !== false;
+  const steps: ReplayStep[] = [];
+  let lastUrl: string | undefined;
+
+  for (const step of result.steps) {
+    if (!step.success || !REPLAYABLE_TYPES.includes(step.action.type)) continue;
+
+    const { type, selector, value, timeout, goalAction, reason, rule } = step.action;
+    steps.push({ type, selector, value, timeout, goalAction, description: reason, source: rule });
+
+    // 목표 버튼 클릭은 성공 조건 대기로 충분
+    if (step.url && lastUrl && urlPath(step.url) !== urlPath(lastUrl) && !goalAction && type !== 'navigate' && type !== 'waitForUrl') {
+      const pattern = urlPathPattern(step.url);
+      steps.push({ type: 'waitForUrl', value: pattern, description: `URL 변경 대기 (${pattern})` });
+    }
+    lastUrl = step.url ?? lastUrl;
+  }
+
+  return {
+    version: REPLAY_SCRIPT_VERSION,
+    name: options.name ?? goal?.name ?? 'replay',
+    createdAt: new Date().toISOString(),
+    seed: result.seed,
+    baseDate: result.baseDate,
+    // includeGoal: false면 함수가 있는 성공 조건(custom)은 저장하지 않고 replay 옵션의 goal에서 사용
+    successIndicator: includeGoal || findFunctionPaths(goal?.successIndicator).length === 0 ? goal?.successIndicator : undefined,
+    captures: (goal as ExtendedGoal | undefined)?.captures,
+    goal: includeGoal ? goal : undefined,
+    variables: result.variables,
+    steps
+  };
+}
+
+/**
+ * 리플레이 스크립트 저장 (정규식은 { $regex, flags }로 직렬화)
+ *
+ * 함수 값(fieldInstructions/preSteps의 value 함수, custom 성공 조건의 predicate)은
+ * JSON에 저장되지 않으므로 저장을 거부 → 문자열 템플릿을 쓰거나 includeGoal: false로 만들고
+ * replay 옵션의 goal로 전달
+ */
+export function saveReplayScript(script: ReplayScript, filePath: string): void {
+  const unserializable = findFunctionPaths(script);
+  if (unserializable.length > 0) {
+    throw new Error(
+      `리플레이 스크립트에 저장할 수 없는 함수 값이 있습니다: ${unserializable.join(', ')}\n` +
+      `  함수 대신 문자열 템플릿({{random}}, {{timestamp}} 등)을 쓰거나, ` +
+      `createReplayScript(result, { goal, includeGoal: false })로 만들고 replay(script, { goal })로 전달하세요`
+    );
+  }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(script, regexReplacer, 2), 'utf-8');
+  logger.info(`스크립트 저장: ${filePath} (${script.steps.length}단계)`);
+}
+
+/**
+ * 리플레이 스크립트 불러오기
+ */
+export function loadReplayScript(filePath: string): ReplayScript {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  let script: ReplayScript;
+
+  try {
+    script = JSON.parse(text, regexReviver);
+  } catch (error) {
+    throw new Error(`리플레이 스크립트 파싱 실패 (${filePath}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (script.version !== REPLAY_SCRIPT_VERSION) {
+    throw new Error(`지원하지 않는 리플레이 스크립트 버전: ${script.version} (${filePath})`);
+  }
+  if (!Array.isArray(script.steps)) {
+    throw new Error(`리플레이 스크립트에 steps가 없습니다: ${filePath}`);
+  }
+
+  return script;
+}
+
+/**
+ * URL이 경로 패턴과 일치하는지 확인 (waitForUrl)
+ *
+ * - :id 같은 ":이름" 세그먼트는 아무 세그먼트와 매칭 (/links/:id/done → /links/42/done)
+ * - 그 외에는 URL에 포함되는지 확인
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  if (!PATH_PARAM_PATTERN.test(pattern)) return url.includes(pattern);
+
+  const source = pattern
+    .split('/')
+    .map(segment => /^:[A-Za-z_]\w*$/.test(segment) ? '[^/?#]+' : escapeRegex(segment))
+    .join('/');
+  return new RegExp(`${source}(?=[/?#]|$)`).test(url);
+}
+
+// ":이름" 경로 세그먼트
+const PATH_PARAM_PATTERN = /(^|\/):[A-Za-z_]\w*(?=\/|$)/;
+
+// 실행마다 바뀌는 id 세그먼트 (숫자, UUID)
+const DYNAMIC_SEGMENT_PATTERN = /^(\d+|[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+/**
+ * URL 비교용 경로 (쿼리/해시 제외) - 리플레이 스크립트/스펙 생성 공용
+ */
+export function urlPath(url: string): string {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * URL 경로 패턴 - 숫자/UUID 세그먼트를 :id로 (실행마다 바뀌는 id 대비)
+ */
+function urlPathPattern(url: string): string {
+  return urlPath(url)
+    .split('/')
+    .map(segment => DYNAMIC_SEGMENT_PATTERN.test(segment) ? ':id' : segment)
+    .join('/');
+}
+
+/**
+ * URL 경로 정규식 - 숫자/UUID 세그먼트는 [^/]+ (생성 스펙의 toHaveURL용)
+ */
+export function urlPathRegex(url: string): RegExp {
+  const source = urlPath(url)
+    .split('/')
+    .map(segment => DYNAMIC_SEGMENT_PATTERN.test(segment) ? '[^/]+' : escapeRegex(segment))
+    .join('\\/');
+  return new RegExp(source);
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * JSON으로 저장되지 않는 함수 값의 경로 (goal.fieldInstructions[0].value 등)
+ */
+function findFunctionPaths(value: unknown, path: string = ''): string[] {
+  if (typeof value === 'function') return [path || '(root)'];
+  if (Array.isArray(value)) {
+    return value.flatMap((item, i) => findFunctionPaths(item, `${path}[${i}]`));
+  }
+  if (typeof value === 'object' && value !== null && !(value instanceof RegExp)) {
+    return Object.entries(value).flatMap(([key, item]) => findFunctionPaths(item, path ? `${path}.${key}` : key));
+  }
+  return [];
+}
+
+function regexReplacer(_key: string, value: unknown) {
+  if (value instanceof RegExp) {
+    return { $regex: value.source, flags: value.flags };
+  }
+  return value;
+}
+
+function regexReviver(_key: string, value: unknown) {
+  if (isSerializedRegex(value)) {
+    return new RegExp(value.$regex, value.flags ?? '');
+  }
+  return value;
+}
+
+function isSerializedRegex(value: unknown): value is { $regex: string; flags?: string } {
+  return typeof value === 'object' && value !== null && typeof (value as { $regex?: unknown }).$regex === 'string';
+}
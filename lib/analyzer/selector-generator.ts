@@ -1,4 +1,5 @@
 import { Page, Locator } from '@playwright/test';
+import { SelectorScorer, SelectorScore } from './selector-scorer';
 
 /**
  * 셀렉터 안정성 레벨
@@ -13,6 +14,7 @@ export interface GeneratedSelector {
   stability: SelectorStability;
   type: SelectorType;
   description: string;
+  score?: SelectorScore;     // 견고성 측정 결과 (rankBy: 'robustness')
 }
 
 /**
@@ -36,6 +38,34 @@ export interface SelectorOptions {
   excludeTypes?: SelectorType[];
   maxAlternatives?: number;
   includeNthIndex?: boolean;
+  rankBy?: 'priority' | 'robustness'; // priority: 타입 우선순위 (기본), robustness: 실제 DOM에서 측정한 점수 순
+}
+
+/**
+ * Playwright 로케이터 생성 방식
+ */
+export type LocatorStrategy = 'role' | 'label' | 'placeholder' | 'test-id' | 'text' | 'css';
+
+/**
+ * 생성된 코드용 로케이터 표현식
+ */
+export interface LocatorExpression {
+  code: string;              // page 기준 코드 (예: page.getByRole('button', { name: '저장' }))
+  strategy: LocatorStrategy;
+  stability: SelectorStability;
+}
+
+/**
+ * 로케이터 표현식 생성용 요소 정보 (접근성 이름 포함)
+ */
+interface AccessibleAttributes {
+  role?: string;
+  name?: string;
+  label?: string;
+  placeholder?: string;
+  testId?: string;
+  text?: string;
+  isFormControl: boolean;
 }
 
 /**
@@ -66,6 +96,8 @@ interface ElementAttributes {
  * 5. placeholder (Medium) - 입력 필드 전용
  * 6. :has-text() (Medium) - 텍스트 기반
  * 7. nth-index (Low) - 최후 수단
+ *
+ * rankBy: 'robustness'면 위 우선순위 대신 SelectorScorer 측정 점수 순
  */
 export class SelectorGenerator {
   private page: Page;
@@ -88,7 +120,10 @@ export class SelectorGenerator {
     } = options;
 
     const attrs = await this.extractAttributes(locator);
-    const selectors = this.generateAllSelectors(attrs, excludeTypes, includeNthIndex);
+    const generated = this.generateAllSelectors(attrs, excludeTypes, includeNthIndex);
+    const selectors = options.rankBy === 'robustness'
+      ? await this.rankByRobustness(generated, locator)
+      : generated;
 
     // 선호하는 타입이 있으면 해당 타입 우선
     if (preferredTypes && preferredTypes.length > 0) {
@@ -121,11 +156,26 @@ export class SelectorGenerator {
     } = options;
 
     const attrs = await this.extractAttributes(locator);
-    const selectors = this.generateAllSelectors(attrs, excludeTypes, includeNthIndex);
+    const generated = this.generateAllSelectors(attrs, excludeTypes, includeNthIndex);
+    const selectors = options.rankBy === 'robustness'
+      ? await this.rankByRobustness(generated, locator)
+      : generated;
 
     return selectors.slice(0, maxAlternatives);
   }
 
+  /**
+   * 후보 셀렉터를 실제 DOM에서 측정해 견고한 순으로 정렬
+   * (고유성, 대상 일치, 자동 생성 id, 바뀌기 쉬운 텍스트 반영 - stability도 측정 결과로 교체)
+   */
+  private async rankByRobustness(selectors: GeneratedSelector[], target: Locator): Promise<GeneratedSelector[]> {
+    const scores = await new SelectorScorer(this.page).rank(selectors, target);
+    return scores.map(score => {
+      const generated = selectors.find(s => s.selector === score.selector)!;
+      return { ...generated, stability: score.stability, score };
+    });
+  }
+
   /**
    * 셀렉터 유효성 검증
    */
@@ -317,6 +367,149 @@ export class SelectorGenerator {
       .slice(0, 50); // 너무 긴 텍스트 자르기
   }
 
+  /**
+   * 코드 생성용 Playwright 로케이터 표현식 (getByRole/getByLabel 우선)
+   *
+   * 우선순위 (후보가 정확히 하나의 요소를 가리킬 때만 사용):
+   * - 입력 필드: getByLabel → getByRole → getByPlaceholder → getByTestId → CSS
+   * - 그 외: getByRole → getByTestId → getByText → CSS
+   */
+  async generateLocatorExpression(selector: string): Promise<LocatorExpression> {
+    const css: LocatorExpression = {
+      code: `page.locator(${toStringLiteral(selector)})`,
+      strategy: 'css',
+      stability: 'low'
+    };
+
+    // 아직 없는 요소(대기 대상 등)는 CSS 그대로
+    const count = await this.page.locator(selector).count().catch(() => 0);
+    if (count === 0) return css;
+
+    const locator = this.page.locator(selector).first();
+    const attrs = await this.extractAccessibleAttributes(locator).catch(() => null);
+    if (!attrs) return count > 1 ? { ...css, code: `${css.code}.first()` } : css;
+
+    const candidates: { strategy: LocatorStrategy; value?: string; build: (exact: boolean) => [Locator, string] }[] = [];
+    const byRole = { strategy: 'role' as const, value: attrs.role && attrs.name, build: (exact: boolean): [Locator, string] => [
+      this.page.getByRole(attrs.role as Parameters<Page['getByRole']>[0], { name: attrs.name, exact }),
+      `page.getByRole(${toStringLiteral(attrs.role!)}, { name: ${toStringLiteral(attrs.name!)}${exact ? ', exact: true' : ''} })`
+    ] };
+    const byLabel = { strategy: 'label' as const, value: attrs.label, build: (exact: boolean): [Locator, string] => [
+      this.page.getByLabel(attrs.label!, { exact }),
+      `page.getByLabel(${toStringLiteral(attrs.label!)}${exact ? ', { exact: true }' : ''})`
+    ] };
+    const byPlaceholder = { strategy: 'placeholder' as const, value: attrs.placeholder, build: (exact: boolean): [Locator, string] => [
+      this.page.getByPlaceholder(attrs.placeholder!, { exact }),
+      `page.getByPlaceholder(${toStringLiteral(attrs.placeholder!)}${exact ? ', { exact: true }' : ''})`
+    ] };
+    const byTestId = { strategy: 'test-id' as const, value: attrs.testId, build: (): [Locator, string] => [
+      this.page.getByTestId(attrs.testId!),
+      `page.getByTestId(${toStringLiteral(attrs.testId!)})`
+    ] };
+    const byText = { strategy: 'text' as const, value: attrs.text, build: (exact: boolean): [Locator, string] => [
+      this.page.getByText(attrs.text!, { exact }),
+      `page.getByText(${toStringLiteral(attrs.text!)}${exact ? ', { exact: true }' : ''})`
+    ] };
+
+    if (attrs.isFormControl) {
+      candidates.push(byLabel, byRole, byPlaceholder, byTestId);
+    } else {
+      candidates.push(byRole, byTestId, byText);
+    }
+
+    for (const candidate of candidates) {
+      if (!candidate.value) continue;
+
+      for (const exact of [false, true]) {
+        const [candidateLocator, code] = candidate.build(exact);
+        if (await this.isSameUniqueElement(candidateLocator, locator)) {
+          return {
+            code,
+            strategy: candidate.strategy,
+            stability: candidate.strategy === 'text' || candidate.strategy === 'placeholder' ? 'medium' : 'high'
+          };
+        }
+      }
+    }
+
+    return count > 1 ? { ...css, code: `${css.code}.first()` } : css;
+  }
+
+  /**
+   * 후보 로케이터가 정확히 하나이고 대상 요소와 같은지 확인
+   */
+  private async isSameUniqueElement(candidate: Locator, target: Locator): Promise<boolean> {
+    try {
+      if (await candidate.count() !== 1) return false;
+      const handle = await target.elementHandle({ timeout: 1000 });
+      if (!handle) return false;
+      return await candidate.evaluate((el, other) => el === other, handle);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 역할/접근성 이름/레이블 추출 (암묵적 role 포함)
+   */
+  private async extractAccessibleAttributes(locator: Locator): Promise<AccessibleAttributes> {
+    return locator.evaluate((el) => {
+      const htmlEl = el as HTMLInputElement;
+      const tag = el.tagName.toLowerCase();
+      const type = (htmlEl.type || '').toLowerCase();
+      const clean = (text?: string | null) => (text || '').replace(/\s+/g, ' ').trim();
+
+      // 암묵적 role
+      const implicitRole = (): string | undefined => {
+        if (tag === 'button') return 'button';
+        if (tag === 'a' && el.hasAttribute('href')) return 'link';
+        if (tag === 'textarea') return 'textbox';
+        if (tag === 'select') return htmlEl.multiple ? 'listbox' : 'combobox';
+        if (/^h[1-6]$/.test(tag)) return 'heading';
+        if (tag === 'input') {
+          if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+          if (type === 'checkbox') return 'checkbox';
+          if (type === 'radio') return 'radio';
+          if (type === 'number') return 'spinbutton';
+          if (type === 'range') return 'slider';
+          if (type === 'search') return 'searchbox';
+          if (['', 'text', 'email', 'tel', 'url', 'password'].includes(type)) return 'textbox';
+        }
+        return undefined;
+      };
+      const role = el.getAttribute('role') || implicitRole();
+
+      // 레이블 (label[for], 감싸는 label, aria-labelledby)
+      const labelledBy = el.getAttribute('aria-labelledby');
+      const labelText = clean(
+        (htmlEl.id && document.querySelector(`label[for="${CSS.escape(htmlEl.id)}"]`)?.textContent) ||
+        el.closest('label')?.textContent ||
+        (labelledBy && labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent || '').join(' '))
+      );
+      const ariaLabel = clean(el.getAttribute('aria-label'));
+
+      const isFormControl = ['input', 'textarea', 'select'].includes(tag) ||
+        ['textbox', 'combobox', 'checkbox', 'radio', 'searchbox', 'spinbutton', 'listbox', 'switch'].includes(role || '');
+
+      // 접근성 이름: aria-label → 레이블 → (버튼/링크 등) 텍스트 → value → title
+      const text = clean(el.textContent);
+      const name = ariaLabel || labelText ||
+        (!isFormControl ? text : '') ||
+        (tag === 'input' && ['button', 'submit', 'reset'].includes(type) ? clean(htmlEl.value) : '') ||
+        clean(el.getAttribute('title'));
+
+      return {
+        role: role || undefined,
+        name: name || undefined,
+        label: labelText || ariaLabel || undefined,
+        placeholder: htmlEl.placeholder || undefined,
+        testId: el.getAttribute('data-testid') || undefined,
+        text: !isFormControl && text && text.length <= 50 ? text : undefined,
+        isFormControl
+      };
+    }, undefined, { timeout: 1000 });
+  }
+
   /**
    * 입력 필드용 최적 셀렉터 생성
    */
@@ -437,3 +630,26 @@ export function escapeForHasText(text: string): string {
     .replace(/\)/g, '\\)')
     .slice(0, 100); // 너무 긴 텍스트는 자르기
 }
+
+/**
+ * 생성 코드용 문자열 리터럴 (작은따옴표, 역슬래시/줄바꿈/유니코드 구분자 이스케이프)
+ */
+export function toStringLiteral(value: string): string {
+  const escaped = value
+    .replace(/\\/g, '\\\\')
+    .replace(/'/g, "\\'")
+    .replace(/\n/g, '\\n')
+    .replace(/\r/g, '\\r')
+    .replace(/\t/g, '\\t')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+  return `'${escaped}'`;
+}
+
+/**
+ * 생성 코드용 정규식 리터럴 (문자열은 포함 매칭으로 이스케이프)
+ */
+export function toRegexLiteral(value: string | RegExp): string {
+  if (value instanceof RegExp) return `/${value.source}/${value.flags}`;
+  return `/${value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}/`;
+}
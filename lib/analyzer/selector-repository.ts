@@ -0,0 +1,615 @@
+import { Page, Locator } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { SelectorGenerator } from './selector-generator';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SelectorRepository');
+
+/**
+ * 요소 지문 - 셀렉터가 깨져도 같은 요소를 다시 찾기 위한 특징
+ */
+export interface ElementFingerprint {
+  tag: string;
+  role?: string;                // 명시적 role 또는 태그 기반 암묵적 role
+  text?: string;                // 요소 텍스트 (버튼 input은 value)
+  label?: string;               // aria-label / aria-labelledby / label[for] / 감싸는 label
+  nearbyText?: string;          // 부모 요소의 나머지 텍스트 (섹션 제목, 인접 설명 등)
+  attributes: {
+    id?: string;
+    name?: string;
+    type?: string;
+    placeholder?: string;
+    testId?: string;
+    href?: string;
+  };
+  domPath: string[];            // body → 요소 경로 (tag 또는 tag#id)
+}
+
+/**
+ * 셀렉터 변경 이력
+ */
+export interface SelectorHistoryEntry {
+  selector: string;
+  reason: 'registered' | 'healed' | 'updated';
+  confidence: number;
+  previous?: string;            // 대체되기 전 셀렉터
+  release?: string;             // 배포 식별자 (SelectorRepositoryOptions.release)
+  at: string;
+}
+
+/**
+ * 저장소 항목 (논리적 요소 이름 단위)
+ */
+export interface SelectorEntry {
+  name: string;
+  selector: string;
+  fingerprint: ElementFingerprint;
+  confidence: number;           // 현재 셀렉터 신뢰도 (등록 1.0, 복구 시 유사도, 재확인될수록 상승)
+  healCount: number;
+  history: SelectorHistoryEntry[];
+  createdAt: string;
+  updatedAt: string;
+  lastVerifiedAt?: string;
+}
+
+/**
+ * 셀렉터 조회 결과
+ */
+export interface SelectorResolution {
+  name: string;
+  selector: string;
+  healed: boolean;
+  confidence: number;
+  previous?: string;            // 복구된 경우 깨진 셀렉터
+}
+
+/**
+ * 셀렉터 변경(드리프트) 보고서
+ */
+export interface SelectorDriftReport {
+  generatedAt: string;
+  release?: string;
+  total: number;                // 저장소 항목 수
+  drifted: Array<{
+    name: string;
+    from: string;
+    to: string;
+    confidence: number;
+    release?: string;
+    at: string;
+  }>;
+  lowConfidence: string[];      // minConfidence 미만으로 떨어진 항목 (재등록 권장)
+}
+
+/**
+ * 저장소 옵션
+ */
+export interface SelectorRepositoryOptions {
+  filePath?: string;            // JSON 저장 경로 (기본: ./selector-repository.json)
+  minConfidence?: number;       // 복구로 인정할 최소 유사도 0~1 (기본: 0.6)
+  ambiguityMargin?: number;     // 1, 2위 후보 유사도 차이가 이보다 작으면 복구하지 않음 (기본: 0.05)
+  release?: string;             // 이력에 남길 배포 식별자 (기본: 환경변수 QA_RELEASE)
+}
+
+interface RepositoryFile {
+  version: number;
+  entries: Record<string, SelectorEntry>;
+}
+
+const REPOSITORY_VERSION = 1;
+const FINGERPRINT_ATTRIBUTE = 'data-qa-fingerprint';
+
+// 복구 후보로 살펴볼 요소 (지문의 태그는 항상 포함)
+const CANDIDATE_QUERY = 'a, button, input, select, textarea, summary, label, [role], [contenteditable="true"], [tabindex]';
+
+/**
+ * SelectorRepository - 논리적 요소 이름별 셀렉터 + 요소 지문 저장소
+ *
+ * 셀렉터가 깨지면 저장된 지문(role, 텍스트, 라벨, 주변 텍스트, DOM 경로)과 가장 비슷한 요소를 찾아
+ * 새 셀렉터로 갱신하고 이력을 남김 → 다음 실행부터 갱신된 셀렉터 사용, 배포별 드리프트 보고서
+ *
+ * 사용법:
+ * ```typescript
+ * const repository = new SelectorRepository(page, { release: process.env.DEPLOY_ID });
+ * await repository.register('링크 생성 버튼', 'button:has-text("링크 생성")');
+ *
+ * // 이후 실행: 셀렉터가 깨졌으면 자동 복구 후 저장
+ * await (await repository.locator('링크 생성 버튼')).click();
+ * repository.save();   // 테스트 종료 시 재확인한 지문/신뢰도 저장
+ *
+ * // AutoPilot/FlowPlayer의 ErrorRecovery에서도 사용
+ * const pilot = new AutoPilot(page, { selectorRepository: repository });
+ * console.log(formatDriftReport(repository.driftReport()));
+ * ```
+ */
+export class SelectorRepository {
+  private page: Page;
+  private options: Required<Omit<SelectorRepositoryOptions, 'release'>> & { release?: string };
+  private entries: Map<string, SelectorEntry> = new Map();
+  private selectorGenerator: SelectorGenerator;
+
+  constructor(page: Page, options: SelectorRepositoryOptions = {}) {
+    this.page = page;
+    this.options = {
+      filePath: options.filePath ?? './selector-repository.json',
+      minConfidence: options.minConfidence ?? 0.6,
+      ambiguityMargin: options.ambiguityMargin ?? 0.05,
+      release: options.release ?? process.env.QA_RELEASE
+    };
+    this.selectorGenerator = new SelectorGenerator(page);
+    this.load();
+  }
+
+  /**
+   * 요소 등록 (현재 페이지에서 셀렉터가 가리키는 요소의 지문 저장)
+   * 이미 있는 이름이면 셀렉터/지문 갱신
+   */
+  async register(name: string, selector: string): Promise<SelectorEntry> {
+    const fingerprint = await this.captureFingerprint(selector);
+    if (!fingerprint) {
+      throw new Error(`요소를 찾을 수 없어 등록할 수 없습니다: ${name} (${selector})`);
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.entries.get(name);
+    const entry: SelectorEntry = {
+      name,
+      selector,
+      fingerprint,
+      confidence: 1,
+      healCount: existing?.healCount ?? 0,
+      history: [
+        ...(existing?.history ?? []),
+        {
+          selector,
+          reason: existing ? 'updated' : 'registered',
+          confidence: 1,
+          previous: existing && existing.selector !== selector ? existing.selector : undefined,
+          release: this.options.release,
+          at: now
+        }
+      ],
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      lastVerifiedAt: now
+    };
+
+    this.entries.set(name, entry);
+    this.save();
+    logger.info(`등록: ${name} → ${selector}`);
+    return entry;
+  }
+
+  /**
+   * 항목 조회
+   */
+  get(name: string): SelectorEntry | undefined {
+    return this.entries.get(name);
+  }
+
+  /**
+   * 현재 셀렉터로 항목 조회 (ErrorRecovery에서 깨진 셀렉터 → 이름)
+   */
+  findBySelector(selector: string): SelectorEntry | undefined {
+    return Array.from(this.entries.values()).find(entry => entry.selector === selector);
+  }
+
+  /**
+   * 전체 항목
+   */
+  list(): SelectorEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * 항목 삭제
+   */
+  remove(name: string): boolean {
+    const removed = this.entries.delete(name);
+    if (removed) this.save();
+    return removed;
+  }
+
+  /**
+   * 이름 → 동작하는 셀렉터 (깨졌으면 복구)
+   *
+   * 셀렉터가 그대로 동작하면 지문을 최신 DOM으로 갱신하고 신뢰도를 올림
+   * (메모리에만 반영, 파일은 셀렉터가 바뀔 때 또는 save() 호출 시 저장)
+   */
+  async resolve(name: string): Promise<SelectorResolution> {
+    const entry = this.entries.get(name);
+    if (!entry) {
+      throw new Error(`등록되지 않은 요소입니다: ${name}`);
+    }
+
+    const fingerprint = await this.captureFingerprint(entry.selector);
+    if (fingerprint) {
+      entry.fingerprint = fingerprint;
+      entry.confidence = Math.min(1, round(entry.confidence + 0.1));
+      entry.lastVerifiedAt = new Date().toISOString();
+      return { name, selector: entry.selector, healed: false, confidence: entry.confidence };
+    }
+
+    const healed = await this.heal(name);
+    if (!healed) {
+      throw new Error(`셀렉터를 복구할 수 없습니다: ${name} (${entry.selector})`);
+    }
+    return healed;
+  }
+
+  /**
+   * 이름 → Locator (resolve 후)
+   */
+  async locator(name: string): Promise<Locator> {
+    const { selector } = await this.resolve(name);
+    return this.page.locator(selector);
+  }
+
+  /**
+   * 지문 유사도로 요소를 다시 찾아 셀렉터 갱신 (찾지 못하면 null)
+   */
+  async heal(name: string): Promise<SelectorResolution | null> {
+    const entry = this.entries.get(name);
+    if (!entry) return null;
+
+    try {
+      const candidates = await this.page.evaluate(scanFingerprints, {
+        query: `${CANDIDATE_QUERY}, ${entry.fingerprint.tag}`,
+        attribute: FINGERPRINT_ATTRIBUTE
+      });
+
+      const ranked = candidates
+        .map((fingerprint, index) => ({ index, fingerprint, score: fingerprintSimilarity(entry.fingerprint, fingerprint) }))
+        .sort((a, b) => b.score - a.score);
+      const [best, second] = ranked;
+
+      if (!best || best.score < this.options.minConfidence) {
+        logger.warn(`복구 실패: ${name} (최고 유사도 ${best ? best.score.toFixed(2) : '-'})`);
+        return null;
+      }
+      if (second && best.score - second.score < this.options.ambiguityMargin) {
+        logger.warn(`복구 보류: ${name} - 비슷한 후보가 여럿입니다 (${best.score.toFixed(2)} / ${second.score.toFixed(2)})`);
+        return null;
+      }
+
+      const selector = await this.uniqueSelectorFor(this.page.locator(`[${FINGERPRINT_ATTRIBUTE}="${best.index}"]`));
+      if (!selector) {
+        logger.warn(`복구 실패: ${name} - 고유한 셀렉터를 만들 수 없습니다`);
+        return null;
+      }
+
+      const confidence = round(best.score);
+      const previous = entry.selector;
+      const now = new Date().toISOString();
+      entry.history.push({ selector, reason: 'healed', confidence, previous, release: this.options.release, at: now });
+      entry.selector = selector;
+      entry.fingerprint = best.fingerprint;
+      entry.confidence = confidence;
+      entry.healCount++;
+      entry.updatedAt = now;
+      entry.lastVerifiedAt = now;
+      this.save();
+
+      logger.info(`복구: ${name} ${previous} → ${selector} (유사도 ${confidence})`);
+      return { name, selector, healed: true, confidence, previous };
+    } finally {
+      await this.clearMarkers();
+    }
+  }
+
+  /**
+   * 셀렉터가 가리키는 첫 번째 보이는 요소의 지문 (없으면 null)
+   */
+  async captureFingerprint(selector: string): Promise<ElementFingerprint | null> {
+    const locator = this.page.locator(selector).first();
+    const count = await this.page.locator(selector).count().catch(() => 0);
+    if (count === 0) return null;
+
+    try {
+      await locator.evaluate((el, attribute) => el.setAttribute(attribute, 'target'), FINGERPRINT_ATTRIBUTE);
+      const [fingerprint] = await this.page.evaluate(scanFingerprints, {
+        query: `[${FINGERPRINT_ATTRIBUTE}="target"]`,
+        attribute: FINGERPRINT_ATTRIBUTE
+      });
+      return fingerprint ?? null;
+    } catch {
+      return null;
+    } finally {
+      await this.clearMarkers();
+    }
+  }
+
+  /**
+   * 복구 이력 보고서 (release 또는 since 이후 복구된 항목)
+   */
+  driftReport(filter: { release?: string; since?: string } = {}): SelectorDriftReport {
+    const drifted: SelectorDriftReport['drifted'] = [];
+
+    for (const entry of this.entries.values()) {
+      for (const item of entry.history) {
+        if (item.reason !== 'healed') continue;
+        if (filter.release && item.release !== filter.release) continue;
+        if (filter.since && item.at < filter.since) continue;
+        drifted.push({
+          name: entry.name,
+          from: item.previous ?? '',
+          to: item.selector,
+          confidence: item.confidence,
+          release: item.release,
+          at: item.at
+        });
+      }
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      release: filter.release,
+      total: this.entries.size,
+      drifted: drifted.sort((a, b) => a.at.localeCompare(b.at)),
+      lowConfidence: this.list()
+        .filter(entry => entry.confidence < this.options.minConfidence)
+        .map(entry => entry.name)
+    };
+  }
+
+  /**
+   * 저장소 파일 저장 (resolve()로 재확인한 지문/신뢰도는 실행 종료 시 호출해 저장)
+   */
+  save() {
+    const data: RepositoryFile = {
+      version: REPOSITORY_VERSION,
+      entries: Object.fromEntries(this.entries)
+    };
+    fs.mkdirSync(path.dirname(path.resolve(this.options.filePath)), { recursive: true });
+    fs.writeFileSync(this.options.filePath, JSON.stringify(data, null, 2), 'utf-8');
+  }
+
+  private load() {
+    if (!fs.existsSync(this.options.filePath)) return;
+
+    const data: RepositoryFile = JSON.parse(fs.readFileSync(this.options.filePath, 'utf-8'));
+    if (data.version !== REPOSITORY_VERSION) {
+      throw new Error(`지원하지 않는 셀렉터 저장소 버전: ${data.version} (${this.options.filePath})`);
+    }
+    this.entries = new Map(Object.entries(data.entries ?? {}));
+  }
+
+  /**
+   * 대상 요소 하나만 가리키는 셀렉터 (nth-index 제외)
+   */
+  private async uniqueSelectorFor(target: Locator): Promise<string | null> {
+    // 견고성 순으로 정렬된 후보 중 대상 요소 하나만 가리키는 것 (자동 생성 id 등은 뒤로 밀림)
+    const alternatives = await this.selectorGenerator.generateAlternatives(target, {
+      includeNthIndex: false,
+      maxAlternatives: 10,
+      rankBy: 'robustness'
+    });
+    const best = alternatives.find(alternative => alternative.score?.unique && alternative.score.score > 0);
+    return best?.selector ?? null;
+  }
+
+  private async clearMarkers() {
+    await this.page.evaluate(attribute => {
+      document.querySelectorAll(`[${attribute}]`).forEach(el => el.removeAttribute(attribute));
+    }, FINGERPRINT_ATTRIBUTE).catch(() => {});
+  }
+}
+
+/**
+ * 지문 유사도 0~1
+ *
+ * | 특징 | 가중치 |
+ * |------|--------|
+ * | 텍스트 | 0.25 |
+ * | 라벨 | 0.2 |
+ * | role | 0.15 |
+ * | 속성 (id, name, type, placeholder, testId, href) | 0.15 |
+ * | DOM 경로 | 0.15 |
+ * | 주변 텍스트 | 0.1 |
+ *
+ * 기준 지문에 없는 특징은 제외하고 가중 평균, 태그가 다르면 0.7배
+ */
+export function fingerprintSimilarity(expected: ElementFingerprint, actual: ElementFingerprint): number {
+  const features: Array<[number, number | null]> = [
+    [0.25, expected.text ? textSimilarity(expected.text, actual.text) : null],
+    [0.2, expected.label ? textSimilarity(expected.label, actual.label) : null],
+    [0.15, expected.role ? (expected.role === actual.role ? 1 : 0) : null],
+    [0.15, attributeSimilarity(expected.attributes, actual.attributes)],
+    [0.15, expected.domPath.length ? sequenceSimilarity(expected.domPath, actual.domPath) : null],
+    [0.1, expected.nearbyText ? textSimilarity(expected.nearbyText, actual.nearbyText) : null]
+  ];
+
+  let weight = 0;
+  let score = 0;
+  for (const [w, value] of features) {
+    if (value === null) continue;
+    weight += w;
+    score += w * value;
+  }
+  if (weight === 0) return 0;
+
+  const similarity = score / weight;
+  return expected.tag === actual.tag ? similarity : similarity * 0.7;
+}
+
+/**
+ * 드리프트 보고서 Markdown
+ */
+export function formatDriftReport(report: SelectorDriftReport): string {
+  const lines = [
+    `# 셀렉터 드리프트${report.release ? `: ${report.release}` : ''}`,
+    ``,
+    `- **항목**: ${report.total}개`,
+    `- **복구된 셀렉터**: ${report.drifted.length}건`,
+    `- **생성일**: ${report.generatedAt}`
+  ];
+
+  if (report.drifted.length > 0) {
+    lines.push(``, `| 요소 | 이전 셀렉터 | 새 셀렉터 | 신뢰도 | 배포 | 시각 |`, `|------|-------------|-----------|--------|------|------|`);
+    for (const item of report.drifted) {
+      lines.push(`| ${item.name} | \`${item.from}\` | \`${item.to}\` | ${item.confidence.toFixed(2)} | ${item.release ?? '-'} | ${item.at} |`);
+    }
+  }
+
+  if (report.lowConfidence.length > 0) {
+    lines.push(``, `## ⚠️ 신뢰도 낮음 (재등록 권장)`, ``, ...report.lowConfidence.map(name => `- ${name}`));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function textSimilarity(a: string, b?: string): number {
+  const left = normalizeText(a);
+  const right = normalizeText(b ?? '');
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) {
+    return 0.6 + 0.4 * (Math.min(left.length, right.length) / Math.max(left.length, right.length));
+  }
+
+  // 문자 bigram Dice 계수
+  const bigrams = (text: string) => {
+    const result = new Map<string, number>();
+    for (let i = 0; i < text.length - 1; i++) {
+      const gram = text.slice(i, i + 2);
+      result.set(gram, (result.get(gram) ?? 0) + 1);
+    }
+    return result;
+  };
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  for (const [gram, count] of leftGrams) {
+    overlap += Math.min(count, rightGrams.get(gram) ?? 0);
+  }
+  const total = Math.max(left.length - 1, 0) + Math.max(right.length - 1, 0);
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+function attributeSimilarity(expected: ElementFingerprint['attributes'], actual: ElementFingerprint['attributes']): number | null {
+  const keys = (Object.keys(expected) as Array<keyof ElementFingerprint['attributes']>).filter(key => expected[key]);
+  if (keys.length === 0) return null;
+  return keys.filter(key => expected[key] === actual[key]).length / keys.length;
+}
+
+/**
+ * DOM 경로 유사도 (최장 공통 부분열 / 긴 쪽 길이)
+ */
+function sequenceSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const table: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table[0][0] / Math.max(a.length, b.length);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 브라우저에서 실행 - query에 맞는 보이는 요소의 지문 수집 (attribute에 순번 표시)
+ */
+function scanFingerprints({ query, attribute }: { query: string; attribute: string }): ElementFingerprint[] {
+  const clean = (text: string | null | undefined, max = 80) => (text ?? '').replace(/\s+/g, ' ').trim().slice(0, max);
+
+  const isVisible = (el: Element) => {
+    const rect = el.getBoundingClientRect();
+    const style = window.getComputedStyle(el);
+    return rect.width > 0 && rect.height > 0 && style.visibility !== 'hidden' && style.display !== 'none';
+  };
+
+  const implicitRole = (el: Element): string | undefined => {
+    const explicit = el.getAttribute('role');
+    if (explicit) return explicit;
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'button' || tag === 'summary') return 'button';
+    if (tag === 'a') return el.hasAttribute('href') ? 'link' : undefined;
+    if (tag === 'select') return 'combobox';
+    if (tag === 'textarea') return 'textbox';
+    if (/^h[1-6]$/.test(tag)) return 'heading';
+    if (tag === 'input') {
+      const type = (el.getAttribute('type') ?? 'text').toLowerCase();
+      if (['button', 'submit', 'reset', 'image'].includes(type)) return 'button';
+      if (type === 'checkbox' || type === 'radio') return type;
+      if (type === 'range') return 'slider';
+      if (type === 'hidden') return undefined;
+      return 'textbox';
+    }
+    return undefined;
+  };
+
+  const labelOf = (el: Element): string => {
+    const ariaLabel = el.getAttribute('aria-label');
+    if (ariaLabel) return clean(ariaLabel);
+    const labelledBy = el.getAttribute('aria-labelledby');
+    if (labelledBy) {
+      return clean(labelledBy.split(/\s+/).map(id => document.getElementById(id)?.textContent ?? '').join(' '));
+    }
+    if (el.id) {
+      const label = document.querySelector(`label[for="${CSS.escape(el.id)}"]`);
+      if (label) return clean(label.textContent);
+    }
+    const wrapping = el.parentElement?.closest('label');
+    return wrapping ? clean(wrapping.textContent) : '';
+  };
+
+  const textOf = (el: Element): string => {
+    if (el instanceof HTMLInputElement) {
+      return ['button', 'submit', 'reset'].includes(el.type) ? clean(el.value) : '';
+    }
+    if (el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) return '';
+    return clean((el as HTMLElement).innerText ?? el.textContent);
+  };
+
+  const nearbyTextOf = (el: Element, own: string): string => {
+    let parent = el.parentElement;
+    for (let depth = 0; parent && parent !== document.body && depth < 3; depth++, parent = parent.parentElement) {
+      const text = clean((parent.innerText ?? '').replace(own, ''));
+      if (text) return text;
+    }
+    return '';
+  };
+
+  const domPathOf = (el: Element): string[] => {
+    const segments: string[] = [];
+    for (let node: Element | null = el; node && node !== document.body && segments.length < 8; node = node.parentElement) {
+      const tag = node.tagName.toLowerCase();
+      segments.unshift(node.id ? `${tag}#${node.id}` : tag);
+    }
+    return segments;
+  };
+
+  const fingerprints: ElementFingerprint[] = [];
+  for (const el of Array.from(document.querySelectorAll(query))) {
+    if (!isVisible(el)) continue;
+
+    const text = textOf(el);
+    el.setAttribute(attribute, String(fingerprints.length));
+    fingerprints.push({
+      tag: el.tagName.toLowerCase(),
+      role: implicitRole(el),
+      text: text || undefined,
+      label: labelOf(el) || undefined,
+      nearbyText: nearbyTextOf(el, text) || undefined,
+      attributes: {
+        id: el.id || undefined,
+        name: el.getAttribute('name') ?? undefined,
+        type: el.getAttribute('type') ?? undefined,
+        placeholder: el.getAttribute('placeholder') ?? undefined,
+        testId: el.getAttribute('data-testid') ?? undefined,
+        href: el.getAttribute('href') ?? undefined
+      },
+      domPath: domPathOf(el)
+    });
+  }
+  return fingerprints;
+}
@@ -0,0 +1,300 @@
+import { Page, Locator } from '@playwright/test';
+import type { SelectorStability, SelectorType } from './selector-generator';
+
+/**
+ * 셀렉터 위험 요소
+ */
+export type SelectorRiskType =
+  | 'not-found'         // 현재 DOM에서 매칭되는 요소 없음
+  | 'ambiguous'         // 여러 요소가 매칭됨
+  | 'wrong-element'     // 매칭되지만 대상 요소가 아님
+  | 'generated-id'      // 빌드/렌더링마다 바뀌는 id (:r1:, mui-123, btn-8f3a2c)
+  | 'hashed-class'      // CSS-in-JS/CSS Modules 해시 클래스 (css-1x2y3z, Button_primary__3xK9z)
+  | 'volatile-text'     // 숫자/날짜/시간/금액 등 바뀌는 텍스트
+  | 'long-text'         // 긴 텍스트 (문구 수정에 취약)
+  | 'positional'        // nth/nth-child 위치 의존
+  | 'deep-chain';       // 조합자가 많은 긴 체인
+
+export interface SelectorRisk {
+  type: SelectorRiskType;
+  detail: string;
+  penalty: number;
+}
+
+/**
+ * 셀렉터 견고성 점수
+ */
+export interface SelectorScore {
+  selector: string;
+  type: SelectorType | 'css';
+  score: number;                // 0~100 (높을수록 견고)
+  stability: SelectorStability; // 점수 기준 (75 이상 high, 50 이상 medium)
+  matchCount?: number;          // 실제 DOM 매칭 수 (측정한 경우)
+  unique?: boolean;
+  risks: SelectorRisk[];
+}
+
+// 셀렉터 종류별 기본 점수
+const BASE_SCORES: Record<SelectorType | 'css', number> = {
+  'data-testid': 95,
+  'id': 85,
+  'aria-label': 85,
+  'role': 80,
+  'name': 75,
+  'placeholder': 65,
+  'text': 60,
+  'css': 55,
+  'nth-index': 30
+};
+
+const PENALTIES: Record<SelectorRiskType, number> = {
+  'not-found': 100,
+  'ambiguous': 30,
+  'wrong-element': 100,
+  'generated-id': 40,
+  'hashed-class': 35,
+  'volatile-text': 25,
+  'long-text': 10,
+  'positional': 30,
+  'deep-chain': 10
+};
+
+// 자동 생성 id: React useId, UI 라이브러리 접두사 + 숫자, 긴 숫자, 해시, UUID
+const GENERATED_ID_PATTERNS = [
+  /^:[a-z0-9]+:$/i,
+  /^(mui|radix|headlessui|react-select|downshift|rc-[a-z]+|ember|ext-gen|yui|vs|el|ant|chakra|mantine|ng)[-_:].*\d/i,
+  /\d{4,}/,
+  /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}/i,
+  /(^|[-_])(?=(?:[a-z]*\d){2})(?=[a-z0-9]*[a-z])[a-z0-9]{6,}$/i
+];
+
+// 해시 클래스: CSS-in-JS 접두사, CSS Modules (이름__해시), 밑줄 + 해시
+// CSS Modules 해시는 숫자 뒤에 문자가 오는 5~10자 (BEM .card__title, .menu__item--active, .grid__col12는 제외)
+const HASHED_CLASS_PATTERNS = [
+  /^(css|sc|jsx|emotion|styled|tw|svelte|astro)-[a-z0-9]{4,}$/i,
+  /^[A-Za-z][\w-]*?_{2,3}(?=[a-zA-Z]*\d+[a-zA-Z])[a-zA-Z0-9]{5,10}$/,
+  /^_[a-z0-9]{5,}$/i,
+  /^[a-z](?=(?:[a-z]*[A-Z]){2})[a-zA-Z]{5}$/
+];
+
+// 바뀌기 쉬운 텍스트: 두 자리 이상 숫자, 날짜/시간/금액, 상대 시간
+const VOLATILE_TEXT_PATTERNS = [
+  /\d{2,}/,
+  /\d[.,:/-]\d/,
+  /[$₩€¥£]\s?\d|\d\s?(원|달러|개|건|명|%)/,
+  /(초|분|시간|일|주|개월|년)\s*전|\b(ago|today|yesterday|tomorrow)\b|오늘|어제|내일/i
+];
+
+/**
+ * 셀렉터 문자열 정적 분석 (DOM 없이)
+ *
+ * 사용법:
+ * ```typescript
+ * analyzeSelector('.css-1x2y3z > button:has-text("12건")').risks
+ * // → hashed-class, volatile-text
+ * ```
+ */
+export function analyzeSelector(selector: string, type: SelectorType | 'css' = inferSelectorType(selector)): SelectorScore {
+  const risks: SelectorRisk[] = [];
+  const addRisk = (riskType: SelectorRiskType, detail: string) => {
+    if (!risks.some(risk => risk.type === riskType)) {
+      risks.push({ type: riskType, detail, penalty: PENALTIES[riskType] });
+    }
+  };
+
+  for (const id of extractIds(selector)) {
+    if (GENERATED_ID_PATTERNS.some(pattern => pattern.test(id))) {
+      addRisk('generated-id', `자동 생성 id: ${id}`);
+    }
+  }
+
+  for (const className of extractClasses(selector)) {
+    if (HASHED_CLASS_PATTERNS.some(pattern => pattern.test(className))) {
+      addRisk('hashed-class', `해시 클래스: ${className}`);
+    }
+  }
+
+  for (const text of extractTexts(selector)) {
+    if (VOLATILE_TEXT_PATTERNS.some(pattern => pattern.test(text))) {
+      addRisk('volatile-text', `바뀌기 쉬운 텍스트: "${text}"`);
+    } else if (text.length > 30) {
+      addRisk('long-text', `긴 텍스트 (${text.length}자)`);
+    }
+  }
+
+  if (type !== 'nth-index' && /(>>\s*nth=|:nth-(child|of-type|last-child)\(|:(first|last)-(child|of-type)\b)/.test(selector)) {
+    addRisk('positional', '위치 의존 (nth)');
+  }
+
+  const combinators = selector.replace(/"[^"]*"|'[^']*'|\([^)]*\)|\[[^\]]*\]/g, '').split(/\s*(?:>>|>|\+|~|\s)\s*/).filter(Boolean).length - 1;
+  if (combinators > 4) {
+    addRisk('deep-chain', `조합자 ${combinators}개`);
+  }
+
+  return buildScore(selector, type, risks);
+}
+
+/**
+ * 셀렉터 문자열 → 셀렉터 종류 추정
+ */
+export function inferSelectorType(selector: string): SelectorType | 'css' {
+  const trimmed = selector.trim();
+  if (/>>\s*nth=\d+$/.test(trimmed)) return 'nth-index';
+  if (/^\[data-(testid|test-id|cy)=/.test(trimmed) || trimmed.startsWith('internal:testid=')) return 'data-testid';
+  if (/^#[^\s>+~:.[]+$/.test(trimmed)) return 'id';
+  if (/^\[aria-label=/.test(trimmed) || trimmed.startsWith('internal:label=')) return 'aria-label';
+  if (/^\[role=/.test(trimmed) || trimmed.startsWith('internal:role=')) return 'role';
+  if (/^\[name=/.test(trimmed)) return 'name';
+  if (/^\[placeholder=/.test(trimmed) || trimmed.startsWith('internal:attr=[placeholder=')) return 'placeholder';
+  if (/:has-text\(|^text=|^internal:text=/.test(trimmed)) return 'text';
+  return 'css';
+}
+
+/**
+ * SelectorScorer - 실제 DOM에서 셀렉터 견고성 측정
+ *
+ * 정적 분석(해시 클래스, 자동 생성 id, 바뀌기 쉬운 텍스트) + 매칭 수(고유성) + 대상 요소 일치 여부
+ *
+ * 사용법:
+ * ```typescript
+ * const scorer = new SelectorScorer(page);
+ * const ranked = await scorer.rank(['#btn-8f3a2c', 'button:has-text("저장")', '[data-testid="save"]'], target);
+ * console.log(ranked[0].selector, ranked[0].score);
+ * ```
+ */
+export class SelectorScorer {
+  private page: Page;
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  /**
+   * 셀렉터 하나 측정 (target을 주면 대상 요소를 가리키는지도 확인)
+   */
+  async score(selector: string, target?: Locator, type?: SelectorType): Promise<SelectorScore> {
+    const analysis = analyzeSelector(selector, type);
+    const risks = [...analysis.risks];
+    const matchCount = await this.page.locator(selector).count().catch(() => 0);
+
+    if (matchCount === 0) {
+      risks.push({ type: 'not-found', detail: '매칭되는 요소 없음', penalty: PENALTIES['not-found'] });
+    } else {
+      if (matchCount > 1) {
+        risks.push({
+          type: 'ambiguous',
+          detail: `${matchCount}개 요소 매칭`,
+          penalty: PENALTIES.ambiguous + Math.min(20, (matchCount - 2) * 5)
+        });
+      }
+      if (target && !(await this.pointsTo(selector, target))) {
+        risks.push({ type: 'wrong-element', detail: '첫 번째 매칭 요소가 대상이 아님', penalty: PENALTIES['wrong-element'] });
+      }
+    }
+
+    return { ...buildScore(selector, analysis.type, risks), matchCount, unique: matchCount === 1 };
+  }
+
+  /**
+   * 후보 셀렉터를 측정해 견고한 순으로 정렬
+   */
+  async rank(
+    candidates: Array<string | { selector: string; type?: SelectorType }>,
+    target?: Locator
+  ): Promise<SelectorScore[]> {
+    const scores: SelectorScore[] = [];
+    for (const candidate of candidates) {
+      const { selector, type } = typeof candidate === 'string' ? { selector: candidate, type: undefined } : candidate;
+      scores.push(await this.score(selector, target, type));
+    }
+    // 점수가 같으면 원래 순서 (생성기 우선순위) 유지
+    return scores
+      .map((score, index) => ({ score, index }))
+      .sort((a, b) => b.score.score - a.score.score || a.index - b.index)
+      .map(({ score }) => score);
+  }
+
+  private async pointsTo(selector: string, target: Locator): Promise<boolean> {
+    const handle = await target.elementHandle({ timeout: 1000 }).catch(() => null);
+    if (!handle) return false;
+    try {
+      return await this.page.locator(selector).first().evaluate((el, targetEl) => el === targetEl, handle);
+    } catch {
+      return false;
+    } finally {
+      await handle.dispose();
+    }
+  }
+}
+
+/**
+ * 셀렉터 점수 Markdown 표
+ */
+export function formatSelectorScores(scores: SelectorScore[]): string {
+  const lines = [
+    `| 셀렉터 | 점수 | 안정성 | 매칭 | 위험 요소 |`,
+    `|--------|------|--------|------|-----------|`
+  ];
+  for (const score of scores) {
+    const risks = score.risks.map(risk => risk.detail).join(', ') || '-';
+    lines.push(`| \`${score.selector.replace(/\|/g, '\\|')}\` | ${score.score} | ${score.stability} | ${score.matchCount ?? '-'} | ${risks.replace(/\|/g, '\\|')} |`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function buildScore(selector: string, type: SelectorType | 'css', risks: SelectorRisk[]): SelectorScore {
+  const penalty = risks.reduce((sum, risk) => sum + risk.penalty, 0);
+  const score = Math.max(0, Math.min(100, BASE_SCORES[type] - penalty));
+  return {
+    selector,
+    type,
+    score,
+    stability: score >= 75 ? 'high' : score >= 50 ? 'medium' : 'low',
+    risks
+  };
+}
+
+function extractIds(selector: string): string[] {
+  const ids: string[] = [];
+  for (const match of stripQuoted(selector).matchAll(/#((?:\\.|[\w-])+)/g)) {
+    ids.push(match[1].replace(/\\(.)/g, '$1'));
+  }
+  for (const match of selector.matchAll(/\[id\s*[~|^$*]?=\s*["']?([^"'\]]+)["']?\s*\]/g)) {
+    ids.push(match[1]);
+  }
+  return ids;
+}
+
+function extractClasses(selector: string): string[] {
+  const classes: string[] = [];
+  for (const match of stripQuoted(selector).matchAll(/\.((?:\\.|[\w-])+)/g)) {
+    classes.push(match[1].replace(/\\(.)/g, '$1'));
+  }
+  for (const match of selector.matchAll(/\[class\s*[~|^$*]?=\s*["']([^"']+)["']\s*\]/g)) {
+    classes.push(...match[1].split(/\s+/).filter(Boolean));
+  }
+  return classes;
+}
+
+function extractTexts(selector: string): string[] {
+  const texts: string[] = [];
+  const patterns = [
+    /:has-text\(\s*"((?:\\.|[^"\\])*)"\s*\)/g,
+    /:has-text\(\s*'((?:\\.|[^'\\])*)'\s*\)/g,
+    /:text(?:-is)?\(\s*"((?:\\.|[^"\\])*)"\s*\)/g,
+    /(?:^|>>\s*)(?:internal:)?text="((?:\\.|[^"\\])*)"/g,
+    /(?:^|>>\s*)text=([^"'>\s][^>]*)/g,
+    /\[(?:aria-label|name|title|alt|placeholder)\s*[~|^$*]?=\s*"((?:\\.|[^"\\])*)"/g
+  ];
+  for (const pattern of patterns) {
+    for (const match of selector.matchAll(pattern)) {
+      texts.push(match[1].replace(/\\(.)/g, '$1').trim());
+    }
+  }
+  return texts;
+}
+
+// 따옴표 안 텍스트 제거 (텍스트 안의 '.'/'#'을 클래스/id로 오인하지 않도록)
+function stripQuoted(selector: string): string {
+  return selector.replace(/"(?:\\.|[^"\\])*"|'(?:\\.|[^'\\])*'/g, '""');
+}
@@ -1,4 +1,10 @@
 import { Page, Locator } from '@playwright/test';
+import { ValueGenerator, SeededValueGenerator, createValueScope } from './value-generator';
+import { ValueProviderRegistry, ValueProviderOptions } from './value-providers';
+import { collectFrameScopes, qualifySelector } from './frame-scope';
+import { createLogger, errorData } from '../utils/logger';
+
+const logger = createLogger('SmartFieldAnalyzer');
 
 /**
  * 필드 타입 - UI 상호작용 방식 결정
@@ -63,6 +69,7 @@ export interface FieldContext {
   required: boolean;        // 필수 여부
   disabled: boolean;        // 비활성화 여부
   value?: string;           // 현재 값
+  maxLength?: number;       // maxlength 속성
 
   // 상태
   hasDropdownIndicator: boolean;  // 드롭다운 화살표 있음
@@ -87,9 +94,25 @@ export interface AnalyzedField {
  */
 export class SmartFieldAnalyzer {
   private page: Page;
-
-  constructor(page: Page) {
+  private valueGenerator: ValueGenerator;
+  private valueProviders: ValueProviderRegistry;
+  private valueOptions: ValueProviderOptions = {};
+
+  constructor(
+    page: Page,
+    valueGenerator: ValueGenerator = new SeededValueGenerator(),
+    valueProviders: ValueProviderRegistry = new ValueProviderRegistry()
+  ) {
     this.page = page;
+    this.valueGenerator = valueGenerator;
+    this.valueProviders = valueProviders;
+  }
+
+  /**
+   * 추천 값의 로케일/변형 설정 (Goal별)
+   */
+  setValueOptions(options: Pick<ValueProviderOptions, 'locale' | 'variant'>) {
+    this.valueOptions = { ...options };
   }
 
   /**
@@ -115,36 +138,42 @@ export class SmartFieldAnalyzer {
 
   /**
    * 페이지의 모든 입력 필드 분석
+   *
+   * open shadow root 내부 필드와 same-origin iframe 내부 필드 포함
+   * (iframe 내부 필드의 context.selector는 프레임 경로가 붙은 셀렉터)
    */
   async analyzeAllFields(): Promise<AnalyzedField[]> {
     const fields: AnalyzedField[] = [];
 
-    // 모든 입력 요소 찾기
-    const inputLocators = this.page.locator(
-      'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), ' +
-      'textarea, ' +
-      'select, ' +
-      '[role="textbox"], ' +
-      '[role="combobox"], ' +
-      '[role="listbox"], ' +
-      '[contenteditable="true"]'
-    );
+    for (const scope of await collectFrameScopes(this.page)) {
+      // 모든 입력 요소 찾기 (CSS 셀렉터는 open shadow root 관통)
+      const inputLocators = scope.frame.locator(
+        'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), ' +
+        'textarea, ' +
+        'select, ' +
+        '[role="textbox"], ' +
+        '[role="combobox"], ' +
+        '[role="listbox"], ' +
+        '[contenteditable="true"]'
+      );
 
-    const count = await inputLocators.count();
+      const count = await inputLocators.count();
 
-    for (let i = 0; i < count; i++) {
-      const locator = inputLocators.nth(i);
+      for (let i = 0; i < count; i++) {
+        const locator = inputLocators.nth(i);
 
-      // visible 요소만 분석
-      const isVisible = await locator.isVisible().catch(() => false);
-      if (!isVisible) continue;
+        // visible 요소만 분석
+        const isVisible = await locator.isVisible().catch(() => false);
+        if (!isVisible) continue;
 
-      try {
-        const analyzed = await this.analyzeField(locator);
-        fields.push(analyzed);
-      } catch (error) {
-        // 분석 실패한 필드는 건너뛰기
-        console.warn(`필드 분석 실패: ${error}`);
+        try {
+          const analyzed = await this.analyzeField(locator);
+          analyzed.context.selector = qualifySelector(scope.path, analyzed.context.selector);
+          fields.push(analyzed);
+        } catch (error) {
+          // 분석 실패한 필드는 건너뛰기
+          logger.warn('필드 분석 실패', errorData(error));
+        }
       }
     }
 
@@ -207,6 +236,8 @@ export class SmartFieldAnalyzer {
     return locator.evaluate((el) => {
       const htmlEl = el as HTMLElement;
       const inputEl = el as HTMLInputElement;
+      // label[for], aria-describedby 등 id 참조는 같은 문서/shadow root 안에서 찾기
+      const root = el.getRootNode() as Document | ShadowRoot;
 
       // 기본 셀렉터 생성
       let selector = '';
@@ -228,7 +259,7 @@ export class SmartFieldAnalyzer {
       // label 찾기 (for 속성 또는 부모)
       let label: string | undefined;
       if (htmlEl.id) {
-        const labelEl = document.querySelector(`label[for="${htmlEl.id}"]`);
+        const labelEl = root.querySelector(`label[for="${htmlEl.id}"]`);
         label = labelEl?.textContent?.trim();
       }
       if (!label) {
@@ -243,7 +274,7 @@ export class SmartFieldAnalyzer {
       let helperText: string | undefined;
       const describedBy = htmlEl.getAttribute('aria-describedby');
       if (describedBy) {
-        const helperEl = document.getElementById(describedBy);
+        const helperEl = root.getElementById(describedBy);
         helperText = helperEl?.textContent?.trim();
       }
       // 인접한 힌트 요소 찾기
@@ -263,7 +294,8 @@ export class SmartFieldAnalyzer {
           sectionTitle = heading.textContent?.trim();
           break;
         }
-        parent = parent.parentElement;
+        // shadow root 경계에서는 host 요소로 올라감
+        parent = parent.parentElement || ((parent.parentNode as ShadowRoot | null)?.host as HTMLElement | undefined) || null;
       }
 
       // 폼 제목
@@ -292,7 +324,7 @@ export class SmartFieldAnalyzer {
 
       // listbox 연결 확인
       const listboxId = htmlEl.getAttribute('aria-controls') || htmlEl.getAttribute('aria-owns');
-      const hasListbox = !!(listboxId && document.getElementById(listboxId));
+      const hasListbox = !!(listboxId && root.getElementById(listboxId));
 
       // autocomplete 확인
       const hasAutocomplete = !!(
@@ -325,6 +357,7 @@ export class SmartFieldAnalyzer {
         required,
         disabled: inputEl.disabled || htmlEl.getAttribute('aria-disabled') === 'true',
         value: inputEl.value || htmlEl.textContent?.trim() || undefined,
+        maxLength: inputEl.maxLength > 0 ? inputEl.maxLength : undefined,
         hasDropdownIndicator,
         hasAutocomplete,
         hasListbox
@@ -452,39 +485,16 @@ export class SmartFieldAnalyzer {
   }
 
   /**
-   * 추천 값 생성
+   * 추천 값 생성 (ValueProviderRegistry, setValueOptions의 로케일/변형 적용)
+   * 같은 시드에서는 같은 필드에 항상 같은 값 추천 (분석 횟수와 무관)
    */
   private generateSuggestedValue(purpose: FieldPurpose, context: FieldContext): string | undefined {
-    const timestamp = Date.now();
-
-    switch (purpose) {
-      case 'name':
-        return `test_${timestamp}`;
-      case 'email':
-        return `test_${timestamp}@example.com`;
-      case 'phone':
-        return '010-1234-5678';
-      case 'url':
-        return 'https://example.com/test';
-      case 'channel':
-        return `ch_${Math.random().toString(36).slice(2, 8)}`;
-      case 'campaign':
-        return `campaign_${timestamp}`;
-      case 'adgroup':
-        return `adgroup_${timestamp}`;
-      case 'creative':
-        return `creative_${timestamp}`;
-      case 'description':
-        return 'Test description';
-      case 'amount':
-        return '1000';
-      case 'search':
-        return undefined; // 검색은 값 제안 안 함
-      case 'password':
-        return undefined; // 비밀번호도 제안 안 함
-      default:
-        return `test_value_${timestamp}`;
-    }
+    const values = createValueScope(this.valueGenerator, `${purpose}:${context.selector}`);
+    return this.valueProviders.generate(purpose, values, {
+      ...this.valueOptions,
+      maxLength: context.maxLength,
+      inputType: context.type
+    });
   }
 
   /**
@@ -545,7 +555,7 @@ export class SmartFieldAnalyzer {
       // aria-controls로 연결된 listbox
       const listboxId = el.getAttribute('aria-controls') || el.getAttribute('aria-owns');
       if (listboxId) {
-        const listbox = document.getElementById(listboxId);
+        const listbox = (el.getRootNode() as Document | ShadowRoot).getElementById(listboxId);
         if (listbox) {
           listbox.querySelectorAll('[role="option"], li').forEach(opt => {
             const text = opt.textContent?.trim();
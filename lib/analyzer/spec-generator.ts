@@ -0,0 +1,242 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Goal } from './action-decider';
+import type { ExecutionResult, ExecutionStep } from './auto-pilot';
+import { ExtendedGoal, SuccessCondition } from './instruction-types';
+import { toSuccessCondition } from './success-evaluator';
+import { toStringLiteral, toRegexLiteral } from './selector-generator';
+import { urlPath, urlPathRegex } from './replay-script';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('SpecGenerator');
+
+/**
+ * 스펙 생성 옵션
+ */
+export interface SpecGeneratorOptions {
+  feature: string;                 // Tests/<feature>/ 폴더 및 describe 이름
+  testName?: string;               // 기본: goal.name 또는 feature
+  goal?: Goal | ExtendedGoal;      // 성공 조건 assertion 생성용
+  startUrl?: string;               // 첫 단계 전에 이동할 URL (navigate 단계가 없을 때)
+  testsDir?: string;               // writeSpecFile 기준 폴더 (기본: Tests)
+}
+
+const INDENT = '    ';
+
+/**
+ * 스펙 파일 경로 (Tests/<feature>/<feature>_test_code.spec.ts)
+ */
+export function getSpecFilePath(feature: string, testsDir: string = 'Tests'): string {
+  const folder = feature.replace(/[\\/:*?"<>|]/g, '-').trim();
+  return path.join(testsDir, folder, `${folder}_test_code.spec.ts`);
+}
+
+/**
+ * AutoPilot 실행 결과 → Playwright 스펙 코드
+ *
+ * - 로케이터: 실행 중 기록한 getByRole/getByLabel 표현식 (없으면 CSS)
+ * - 대기: waitForTimeout 대신 expect 자동 대기 (URL 변경, 버튼 활성화, 성공 조건)
+ * - 입력값: 실행에서 실제로 입력한 값 (시드로 재현 가능)
+ *
+ * 사용법:
+ * ```typescript
+ * const result = await pilot.execute(goal);
+ * if (result.success) {
+ *   writeSpecFile(result, { feature: '트래킹 링크 생성', goal });
+ *   // → Tests/트래킹 링크 생성/트래킹 링크 생성_test_code.spec.ts
+ * }
+ * ```
+ */
+export function generateSpecCode(result: ExecutionResult, options: SpecGeneratorOptions): string {
+  const testName = options.testName ?? options.goal?.name ?? options.feature;
+  const body: string[] = [];
+  const steps = result.steps.filter(isCodeStep);
+
+  if (options.startUrl && steps[0]?.action.type !== 'navigate') {
+    body.push(`${INDENT}await page.goto(${toStringLiteral(options.startUrl)});`, '');
+  }
+
+  let lastUrl: string | undefined;
+  steps.forEach((step, index) => {
+    body.push(`${INDENT}// ${index + 1}. ${oneLine(step.action.reason)}`);
+    body.push(...actionToCode(step).map(line => `${INDENT}${line}`));
+
+    // 목표 버튼 외 단계에서 URL이 바뀌었으면 이동 확인
+    if (step.url && lastUrl && urlPath(step.url) !== urlPath(lastUrl) &&
+        !step.action.goalAction && step.action.type !== 'navigate' && step.action.type !== 'waitForUrl') {
+      body.push(`${INDENT}await expect(page).toHaveURL(${toRegexLiteral(urlPathRegex(step.url))});`);
+    }
+    lastUrl = step.url ?? lastUrl;
+    body.push('');
+  });
+
+  if (options.goal?.successIndicator) {
+    body.push(`${INDENT}// 성공 조건 확인`);
+    body.push(...successAssertions(toSuccessCondition(options.goal.successIndicator)).map(line => `${INDENT}${line}`));
+  } else if (body[body.length - 1] === '') {
+    body.pop();
+  }
+
+  const header = [
+    `// AutoPilot 실행 결과에서 생성: ${oneLine(testName)}`,
+    `// 생성일: ${new Date().toISOString()}`
+  ];
+  if (result.seed !== undefined) {
+    const baseDate = result.baseDate ? `, baseDate: '${result.baseDate}'` : '';
+    header.push(`// 시드: ${result.seed} (new AutoPilot(page, { seed: ${result.seed}${baseDate} })로 같은 입력값 재현)`);
+  }
+
+  return [
+    `import { test, expect } from '@playwright/test';`,
+    ``,
+    ...header,
+    ``,
+    `test.describe(${toStringLiteral(options.feature)}, () => {`,
+    ``,
+    `  test(${toStringLiteral(testName)}, async ({ page }) => {`,
+    ...body,
+    `  });`,
+    `});`,
+    ``
+  ].join('\n');
+}
+
+/**
+ * 스펙 파일 저장 후 경로 반환
+ */
+export function writeSpecFile(result: ExecutionResult, options: SpecGeneratorOptions): string {
+  const filePath = getSpecFilePath(options.feature, options.testsDir);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, generateSpecCode(result, options), 'utf-8');
+  logger.info(`스펙 생성: ${filePath}`);
+  return filePath;
+}
+
+/**
+ * 코드로 변환할 단계 (성공한 실제 행동만)
+ */
+function isCodeStep(step: ExecutionStep): boolean {
+  return step.success && !['done', 'blocked', 'explore'].includes(step.action.type);
+}
+
+/**
+ * 행동 → 코드 줄
+ */
+function actionToCode(step: ExecutionStep): string[] {
+  const action = step.action;
+  const target = locatorCode(step);
+  const timeout = action.timeout ? `{ timeout: ${action.timeout} }` : '';
+
+  switch (action.type) {
+    case 'navigate':
+      return [`await page.goto(${toStringLiteral(action.value ?? '')});`];
+
+    case 'fill':
+      return [`await ${target}.fill(${toStringLiteral(action.value ?? '')});`];
+
+    case 'select':
+      return [`await ${target}.selectOption(${toStringLiteral(action.value ?? '')});`];
+
+    case 'click':
+      return action.goalAction
+        ? [`await expect(${target}).toBeEnabled(${timeout});`, `await ${target}.click();`]
+        : [`await ${target}.click();`];
+
+    case 'wait':
+      // 시간 대기는 생략 (다음 단계의 자동 대기 사용)
+      return action.selector
+        ? [`await expect(${target}).toBeVisible(${timeout});`]
+        : [`// 시간 대기 생략 - 다음 단계에서 자동 대기`];
+
+    case 'assertVisible':
+      return [`await expect(${target}).toBeVisible(${timeout});`];
+
+    case 'waitForUrl':
+      return [`await expect(page).toHaveURL(${toRegexLiteral(action.value ?? '')}${timeout ? `, ${timeout}` : ''});`];
+
+    case 'tab':
+      return [`await page.keyboard.press('Tab');`];
+
+    case 'escape':
+      return [`await page.keyboard.press('Escape');`];
+
+    default:
+      return [`// 변환할 수 없는 행동: ${action.type}`];
+  }
+}
+
+/**
+ * 기록된 로케이터 (없으면 CSS 셀렉터)
+ */
+function locatorCode(step: ExecutionStep): string {
+  if (step.locator) return step.locator;
+  const selector = step.action.selector ?? '';
+  return `page.locator(${toStringLiteral(selector)}).first()`;
+}
+
+/**
+ * 성공 조건 → expect 코드
+ * all은 조건별 assertion, any/not 조합은 expect.poll로 변환
+ */
+function successAssertions(condition: SuccessCondition): string[] {
+  const timeout = condition.timeout ? `{ timeout: ${condition.timeout} }` : '';
+
+  switch (condition.type) {
+    case 'url':
+      return [`await expect(page).toHaveURL(${toRegexLiteral(condition.value ?? '')}${timeout ? `, ${timeout}` : ''});`];
+
+    case 'text':
+      return [`await expect(page.getByText(${textArgument(condition.value)}).first()).toBeVisible(${timeout});`];
+
+    case 'element':
+      return [`await expect(page.locator(${toStringLiteral(String(condition.value ?? ''))}).first()).toBeVisible(${timeout});`];
+
+    case 'all':
+      return (condition.conditions ?? []).flatMap(successAssertions);
+
+    case 'custom':
+      return [`// 사용자 정의 조건 "${oneLine(String(condition.value ?? 'custom'))}"은 코드로 변환할 수 없어 생략`];
+
+    default:
+      return [
+        `await expect.poll(async () =>`,
+        `  ${conditionExpression(condition)}${timeout ? `, ${timeout}` : ''}`,
+        `).toBe(true);`
+      ];
+  }
+}
+
+/**
+ * 성공 조건 → boolean 표현식 (expect.poll용)
+ */
+function conditionExpression(condition: SuccessCondition): string {
+  const children = condition.conditions ?? [];
+
+  switch (condition.type) {
+    case 'url':
+      return `${toRegexLiteral(condition.value ?? '')}.test(page.url())`;
+    case 'text':
+      return `await page.getByText(${textArgument(condition.value)}).first().isVisible()`;
+    case 'element':
+      return `await page.locator(${toStringLiteral(String(condition.value ?? ''))}).first().isVisible()`;
+    case 'all':
+      return `(${children.map(conditionExpression).join(' && ')})`;
+    case 'any':
+      return `(${children.map(conditionExpression).join(' || ')})`;
+    case 'not':
+      return children[0] ? `!(${conditionExpression(children[0])})` : 'false';
+    default:
+      return 'false';
+  }
+}
+
+/**
+ * getByText 인자 (정규식은 그대로, 문자열은 리터럴)
+ */
+function textArgument(value?: string | RegExp): string {
+  return value instanceof RegExp ? toRegexLiteral(value) : toStringLiteral(value ?? '');
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
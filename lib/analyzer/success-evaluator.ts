@@ -0,0 +1,218 @@
+import { Page } from '@playwright/test';
+import { WaitResult } from './wait-strategy';
+import { SuccessCondition } from './instruction-types';
+
+/**
+ * 성공 지표 입력 형태 (기존 문자열/정규식 + 구조화된 조건)
+ */
+export type SuccessIndicator = string | RegExp | SuccessCondition;
+
+/**
+ * SuccessEvaluator - 목표 달성 조건 평가기
+ *
+ * 조건 타입:
+ * | 타입 | 평가 방식 |
+ * |------|------|
+ * | url | 현재 URL 포함(문자열) 또는 정규식 매칭 |
+ * | text | 보이는 텍스트 존재 여부 |
+ * | element | 셀렉터에 해당하는 요소 표시 여부 |
+ * | custom | predicate(page) 결과 |
+ * | all / any / not | 하위 조건 조합 |
+ */
+export class SuccessEvaluator {
+  private page: Page;
+  private defaultTimeout: number;
+  private pollInterval: number;
+
+  constructor(page: Page, options: { timeout?: number; pollInterval?: number } = {}) {
+    this.page = page;
+    this.defaultTimeout = options.timeout ?? 5000;
+    this.pollInterval = options.pollInterval ?? 250;
+  }
+
+  /**
+   * 조건 즉시 평가 (대기 없음)
+   */
+  async check(indicator: SuccessIndicator): Promise<boolean> {
+    const condition = toSuccessCondition(indicator);
+
+    try {
+      switch (condition.type) {
+        case 'url':
+          return this.matchUrl(condition.value);
+
+        case 'text':
+          return this.isTextVisible(condition.value);
+
+        case 'element':
+          return this.isElementVisible(condition.value);
+
+        case 'custom':
+          if (!condition.predicate) return false;
+          return await condition.predicate(this.page);
+
+        case 'all':
+          for (const child of condition.conditions || []) {
+            if (!(await this.check(child))) return false;
+          }
+          return (condition.conditions?.length ?? 0) > 0;
+
+        case 'any':
+          for (const child of condition.conditions || []) {
+            if (await this.check(child)) return true;
+          }
+          return false;
+
+        case 'not': {
+          const child = condition.conditions?.[0];
+          if (!child) return false;
+          return !(await this.check(child));
+        }
+
+        default:
+          return false;
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * 조건이 충족될 때까지 대기
+   *
+   * - 단일 조건: 조건의 timeout(없으면 인자 또는 기본값)까지 폴링
+   * - all / any / not: 전체 조건을 하나의 마감 시간 안에서 폴링
+   *   (timeout은 하위 조건 중 최대값, all은 모든 하위 조건이 같은 시점에 충족되어야 성공)
+   */
+  async waitFor(indicator: SuccessIndicator, timeout?: number): Promise<WaitResult> {
+    const startTime = Date.now();
+    const condition = toSuccessCondition(indicator);
+    const effectiveTimeout = condition.timeout ?? timeout ?? this.defaultTimeout;
+
+    const pollTimeout = condition.type === 'all' || condition.type === 'any' || condition.type === 'not'
+      ? Math.max(effectiveTimeout, ...(condition.conditions || []).map(c => c.timeout ?? 0))
+      : effectiveTimeout;
+
+    while (true) {
+      if (await this.check(condition)) {
+        return { success: true, duration: Date.now() - startTime };
+      }
+
+      if (Date.now() - startTime >= pollTimeout) {
+        return {
+          success: false,
+          duration: Date.now() - startTime,
+          reason: `성공 조건 미충족 (${pollTimeout}ms): ${await this.describeUnmet(condition)}`
+        };
+      }
+
+      await this.page.waitForTimeout(this.pollInterval);
+    }
+  }
+
+  /**
+   * 로그용 조건 설명
+   */
+  describe(indicator?: SuccessIndicator): string {
+    if (!indicator) return '(없음)';
+
+    const condition = toSuccessCondition(indicator);
+    const children = (condition.conditions || []).map(c => this.describe(c));
+
+    switch (condition.type) {
+      case 'all':
+        return `(${children.join(' AND ')})`;
+      case 'any':
+        return `(${children.join(' OR ')})`;
+      case 'not':
+        return `NOT ${children[0] ?? '(없음)'}`;
+      case 'custom':
+        return `custom(${condition.value ?? 'predicate'})`;
+      default:
+        return `${condition.type}: ${String(condition.value)}`;
+    }
+  }
+
+  /**
+   * 실패 사유용 설명 (all은 충족되지 않은 하위 조건만)
+   */
+  private async describeUnmet(condition: SuccessCondition): Promise<string> {
+    if (condition.type !== 'all') return this.describe(condition);
+
+    const unmet: string[] = [];
+    for (const child of condition.conditions || []) {
+      if (!(await this.check(child))) unmet.push(this.describe(child));
+    }
+    return unmet.length > 0 ? unmet.join(' AND ') : this.describe(condition);
+  }
+
+  /**
+   * URL 매칭
+   */
+  private matchUrl(value?: string | RegExp): boolean {
+    if (!value) return false;
+
+    const url = this.page.url();
+    return typeof value === 'string' ? url.includes(value) : value.test(url);
+  }
+
+  /**
+   * 보이는 텍스트 존재 여부
+   */
+  private async isTextVisible(value?: string | RegExp): Promise<boolean> {
+    if (!value) return false;
+
+    const count = await this.page.getByText(value)
+      .filter({ visible: true })
+      .count()
+      .catch(() => 0);
+    return count > 0;
+  }
+
+  /**
+   * 셀렉터 요소 표시 여부
+   */
+  private async isElementVisible(value?: string | RegExp): Promise<boolean> {
+    if (typeof value !== 'string' || !value) return false;
+
+    const count = await this.page.locator(value)
+      .filter({ visible: true })
+      .count()
+      .catch(() => 0);
+    return count > 0;
+  }
+}
+
+/**
+ * 기존 문자열/정규식 지표를 SuccessCondition으로 변환
+ *
+ * - "/" 또는 "http"로 시작하는 문자열: url
+ * - 그 외 문자열: 텍스트 또는 셀렉터 중 하나라도 보이면 성공
+ * - 정규식: URL 또는 텍스트 중 하나라도 매칭되면 성공
+ */
+export function toSuccessCondition(indicator: SuccessIndicator): SuccessCondition {
+  if (typeof indicator === 'string') {
+    if (indicator.startsWith('/') || indicator.startsWith('http')) {
+      return { type: 'url', value: indicator };
+    }
+    return {
+      type: 'any',
+      conditions: [
+        { type: 'text', value: indicator },
+        { type: 'element', value: indicator }
+      ]
+    };
+  }
+
+  if (indicator instanceof RegExp) {
+    return {
+      type: 'any',
+      conditions: [
+        { type: 'url', value: indicator },
+        { type: 'text', value: indicator }
+      ]
+    };
+  }
+
+  return indicator;
+}
@@ -0,0 +1,258 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ExecutionResult, ExecutionStep } from './auto-pilot';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('TraceReport');
+
+/**
+ * 트레이스 리포트 옵션
+ */
+export interface TraceReportOptions {
+  title?: string;                 // 리포트 제목 (기본: 'AutoPilot 실행 트레이스')
+  embedScreenshots?: boolean;     // 스크린샷을 HTML에 내장 (기본: true, false면 상대 경로 링크)
+}
+
+/**
+ * 트레이스 리포트 저장 옵션
+ */
+export interface TraceReportWriteOptions extends TraceReportOptions {
+  feature?: string;               // 기능 이름 → <testsDir>/<feature>/trace/
+  testsDir?: string;              // 테스트 폴더 (기본: 'Tests')
+  outputDir?: string;             // 저장 폴더 직접 지정 (feature보다 우선)
+  fileName?: string;              // 파일 이름 (기본: 'index.html')
+}
+
+/**
+ * ExecutionResult → 단일 HTML 트레이스 리포트 (외부 리소스 없음)
+ *
+ * 단계별 행동/이유/신뢰도, 결정 규칙, 상태 스냅샷, 스크린샷, 복구 시도, 실행 시간을
+ * 타임라인과 함께 표시
+ * - 상태 스냅샷: AutoPilotConfig.recordStateSnapshots (explore 단계는 항상 기록)
+ * - 스크린샷: AutoPilotConfig.enableScreenshots
+ */
+export function generateTraceHtml(result: ExecutionResult, options: TraceReportOptions = {}): string {
+  return renderTraceHtml(result, options, process.cwd());
+}
+
+/**
+ * 트레이스 리포트 저장
+ *
+ * 사용법:
+ * ```typescript
+ * const pilot = new AutoPilot(page, { enableScreenshots: true, recordStateSnapshots: true });
+ * const result = await pilot.execute(goal);
+ * writeTraceReport(result, { feature: '트래킹 링크 생성' });
+ * // open "Tests/트래킹 링크 생성/trace/index.html"
+ * ```
+ */
+export function writeTraceReport(result: ExecutionResult, options: TraceReportWriteOptions = {}): string {
+  const outputDir = options.outputDir
+    ?? (options.feature
+      ? path.join(options.testsDir ?? 'Tests', options.feature, 'trace')
+      : path.join(options.testsDir ?? 'Tests', 'trace'));
+  const filePath = path.join(outputDir, options.fileName ?? 'index.html');
+
+  fs.mkdirSync(outputDir, { recursive: true });
+  fs.writeFileSync(filePath, renderTraceHtml(result, options, outputDir), 'utf-8');
+
+  logger.info(`리포트 저장: ${filePath} (${result.steps.length} 단계)`);
+  return filePath;
+}
+
+function renderTraceHtml(result: ExecutionResult, options: TraceReportOptions, baseDir: string): string {
+  const title = options.title ?? 'AutoPilot 실행 트레이스';
+  const timeline = buildTimeline(result.steps, result.totalTime);
+  const failed = result.steps.filter(step => !step.success).length;
+  const recoveries = result.steps.reduce((sum, step) => sum + (step.recoveries?.length ?? 0), 0);
+
+  const summary = [
+    ['결과', result.success ? '✅ 성공' : '❌ 실패'],
+    ['단계', `${result.steps.length} (실패 ${failed})`],
+    ['복구 시도', String(recoveries)],
+    ['전체 시간', formatDuration(result.totalTime)],
+    ['시드', result.seed !== undefined ? String(result.seed) : '-'],
+    ['기준 시각', result.baseDate ?? '-'],
+    ['최종 URL', result.finalState?.url ?? '-']
+  ];
+
+  return `<!DOCTYPE html>
+<html lang="ko">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<table class="summary">
+${summary.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>
+${result.error ? `<p class="error">${escapeHtml(result.error)}</p>` : ''}
+<h2>타임라인</h2>
+<div class="timeline">
+${timeline.map(bar => `<a class="bar ${bar.status}" href="#step-${bar.step}" title="${escapeHtml(bar.label)}" style="left:${bar.left}%;width:${bar.width}%"></a>`).join('\n')}
+</div>
+<h2>단계 <label class="filter"><input type="checkbox" id="failed-only"> 실패/복구만 보기</label></h2>
+${result.steps.map(step => renderStep(step, options, baseDir)).join('\n')}
+${renderExtras(result)}
+<script>
+document.getElementById('failed-only').addEventListener('change', function (event) {
+  document.querySelectorAll('.step').forEach(function (el) {
+    el.hidden = event.target.checked && el.dataset.notable !== 'true';
+  });
+});
+</script>
+</body>
+</html>
+`;
+}
+
+function renderStep(step: ExecutionStep, options: TraceReportOptions, baseDir: string): string {
+  const { action } = step;
+  const status = stepStatus(step);
+  const notable = !step.success || (step.recoveries?.length ?? 0) > 0;
+
+  const rows: Array<[string, string]> = [
+    ['이유', escapeHtml(action.reason)],
+    ['신뢰도', renderConfidence(action.confidence)],
+    ['규칙', escapeHtml([action.rule, action.policy && `(${action.policy})`].filter(Boolean).join(' ') || '-')]
+  ];
+  if (action.selector) rows.push(['셀렉터', `<code>${escapeHtml(action.selector)}</code>`]);
+  if (step.locator) rows.push(['로케이터', `<code>${escapeHtml(step.locator)}</code>`]);
+  if (action.value !== undefined) rows.push(['값', `<code>${escapeHtml(action.value)}</code>`]);
+  if (step.url) rows.push(['실행 후 URL', escapeHtml(step.url)]);
+  if (step.goal) rows.push(['Goal', escapeHtml(step.goal)]);
+  if (step.attempt) rows.push(['시도', `${step.attempt}회차`]);
+  rows.push(['시각', `${escapeHtml(step.timestamp)}${step.duration !== undefined ? ` (${formatDuration(step.duration)})` : ''}`]);
+
+  return `<section class="step ${status}" id="step-${step.step}" data-notable="${notable}">
+<h3><span class="badge">${step.step}</span> ${escapeHtml(action.type)}${step.phase ? ` <small>${step.phase}</small>` : ''}</h3>
+<table>
+${rows.map(([label, value]) => `<tr><th>${label}</th><td>${value}</td></tr>`).join('\n')}
+</table>
+${step.error ? `<pre class="error">${escapeHtml(step.error)}</pre>` : ''}
+${renderRecoveries(step)}
+${step.stateSnapshot ? `<details><summary>상태 스냅샷</summary><pre>${escapeHtml(JSON.stringify(step.stateSnapshot, null, 2))}</pre></details>` : ''}
+${renderScreenshot(step, options, baseDir)}
+</section>`;
+}
+
+function renderRecoveries(step: ExecutionStep): string {
+  if (!step.recoveries?.length) return '';
+
+  const rows = step.recoveries.map(recovery => `<tr>
+<td>${recovery.success ? '✅' : '❌'} ${escapeHtml(recovery.strategy)}</td>
+<td>${escapeHtml(recovery.errorType)}</td>
+<td>${recovery.attempts}</td>
+<td>${formatDuration(recovery.duration)}</td>
+<td>${escapeHtml(recovery.message)}${recovery.newSelector ? ` → <code>${escapeHtml(recovery.newSelector)}</code>` : ''}</td>
+</tr>`);
+
+  return `<table class="recoveries">
+<tr><th>복구 전략</th><th>에러 유형</th><th>시도</th><th>시간</th><th>내용</th></tr>
+${rows.join('\n')}
+</table>`;
+}
+
+function renderScreenshot(step: ExecutionStep, options: TraceReportOptions, baseDir: string): string {
+  if (!step.screenshot) return '';
+  if (!fs.existsSync(step.screenshot)) {
+    return `<p class="muted">스크린샷 없음: ${escapeHtml(step.screenshot)}</p>`;
+  }
+
+  const src = options.embedScreenshots === false
+    ? path.relative(baseDir, path.resolve(step.screenshot)).split(path.sep).join('/')
+    : `data:image/png;base64,${fs.readFileSync(step.screenshot).toString('base64')}`;
+
+  return `<details><summary>스크린샷 (행동 전)</summary><img src="${escapeHtml(src)}" alt="단계 ${step.step} 스크린샷"></details>`;
+}
+
+function renderExtras(result: ExecutionResult): string {
+  const sections: string[] = [];
+
+  if (result.variables && Object.keys(result.variables).length > 0) {
+    sections.push(`<details><summary>변수</summary><pre>${escapeHtml(JSON.stringify(result.variables, null, 2))}</pre></details>`);
+  }
+  if (result.skippedFields?.length) {
+    sections.push(`<details><summary>건너뛴 필드 (${result.skippedFields.length})</summary><pre>${escapeHtml(JSON.stringify(result.skippedFields, null, 2))}</pre></details>`);
+  }
+  if (result.finalState) {
+    sections.push(`<details><summary>최종 상태</summary><pre>${escapeHtml(JSON.stringify(result.finalState, null, 2))}</pre></details>`);
+  }
+
+  return sections.length ? `<h2>실행 정보</h2>\n${sections.join('\n')}` : '';
+}
+
+/**
+ * 타임라인 막대 (첫 단계 시작 기준 %, 실행 시간이 없으면 최소 폭)
+ */
+function buildTimeline(steps: ExecutionStep[], totalTime: number) {
+  if (steps.length === 0) return [];
+
+  const starts = steps.map(step => Date.parse(step.timestamp));
+  const origin = Math.min(...starts);
+  const end = Math.max(...steps.map((step, i) => starts[i] + (step.duration ?? 0)));
+  const span = Math.max(end - origin, totalTime, 1);
+
+  return steps.map((step, i) => ({
+    step: step.step,
+    status: stepStatus(step),
+    left: round(((starts[i] - origin) / span) * 100),
+    width: round(Math.max(((step.duration ?? 0) / span) * 100, 0.5)),
+    label: `#${step.step} ${step.action.type} - ${step.action.reason}${step.duration !== undefined ? ` (${formatDuration(step.duration)})` : ''}`
+  }));
+}
+
+function stepStatus(step: ExecutionStep): 'passed' | 'failed' | 'recovered' {
+  if (!step.success) return 'failed';
+  return step.recoveries?.some(recovery => recovery.success) ? 'recovered' : 'passed';
+}
+
+function renderConfidence(confidence: number): string {
+  const percent = Math.round(confidence * 100);
+  return `<span class="meter"><span style="width:${percent}%"></span></span> ${percent}%`;
+}
+
+function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+const STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Apple SD Gothic Neo', sans-serif; margin: 24px; color: #222; }
+h1 { font-size: 22px; } h2 { font-size: 17px; margin-top: 28px; } h3 { font-size: 15px; margin: 0 0 8px; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { text-align: left; padding: 3px 10px 3px 0; vertical-align: top; }
+th { color: #666; font-weight: normal; white-space: nowrap; }
+code, pre { font-family: Menlo, monospace; font-size: 12px; }
+pre { background: #f6f8fa; padding: 8px; overflow: auto; max-height: 400px; }
+.error { color: #b00020; white-space: pre-wrap; }
+.muted { color: #888; font-size: 12px; }
+.timeline { position: relative; height: 22px; background: #f0f0f0; border-radius: 4px; }
+.timeline .bar { position: absolute; top: 3px; height: 16px; border-radius: 2px; }
+.passed .badge, .bar.passed { background: #2e7d32; }
+.failed .badge, .bar.failed { background: #c62828; }
+.recovered .badge, .bar.recovered { background: #ef6c00; }
+.step { border: 1px solid #ddd; border-left-width: 4px; border-radius: 4px; padding: 12px; margin: 10px 0; }
+.step.passed { border-left-color: #2e7d32; } .step.failed { border-left-color: #c62828; } .step.recovered { border-left-color: #ef6c00; }
+.badge { display: inline-block; min-width: 22px; text-align: center; color: #fff; border-radius: 10px; padding: 0 6px; }
+.recoveries { margin-top: 8px; }
+.meter { display: inline-block; width: 80px; height: 8px; background: #eee; border-radius: 4px; vertical-align: middle; }
+.meter span { display: block; height: 100%; background: #1565c0; border-radius: 4px; }
+.filter { font-size: 13px; font-weight: normal; margin-left: 12px; }
+details { margin-top: 8px; } summary { cursor: pointer; font-size: 13px; }
+img { max-width: 100%; border: 1px solid #ddd; margin-top: 6px; }
+`;
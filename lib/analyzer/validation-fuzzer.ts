@@ -0,0 +1,477 @@
+import { Page, Locator } from '@playwright/test';
+import { PageStateAnalyzer } from './page-state-analyzer';
+import { SmartFieldAnalyzer, AnalyzedField, FieldType } from './smart-field-analyzer';
+import { WaitStrategy } from './wait-strategy';
+import { FieldIdentifier, matchesFieldIdentifier } from './instruction-types';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ValidationFuzzer');
+
+/**
+ * 비정상 입력 분류
+ */
+export type NegativeInputCategory =
+  | 'required'     // 빈 값
+  | 'whitespace'   // 공백만 입력
+  | 'format'       // 형식 오류 (이메일, URL, 전화번호, 날짜)
+  | 'length'       // 최대 길이 초과
+  | 'range'        // 음수/범위 초과/숫자 아님
+  | 'injection';   // 스크립트/SQL 삽입
+
+/**
+ * 비정상 입력값
+ */
+export interface NegativeInput {
+  category: NegativeInputCategory;
+  value: string;
+  description: string;
+}
+
+/**
+ * 비정상 입력 결과
+ *
+ * - validation-message: 검증 메시지 노출 (alert/에러 텍스트, aria-invalid, 브라우저 기본 검증)
+ * - submit-disabled: 메시지는 없지만 제출 버튼이 비활성화됨
+ * - sanitized: 브라우저/컴포넌트가 입력을 거부하거나 잘라냄 (maxlength, type=number 등)
+ * - accepted: 아무 반응 없이 그대로 받아들임 (검증 누락 의심)
+ * - inconclusive: 정상 값에서도 제출 버튼이 비활성화되어 판단 불가
+ * - error: 입력 자체 실패
+ */
+export type FuzzOutcome =
+  | 'validation-message'
+  | 'submit-disabled'
+  | 'sanitized'
+  | 'accepted'
+  | 'inconclusive'
+  | 'error';
+
+/**
+ * 검증 메시지 (출처 포함)
+ */
+export interface ValidationMessage {
+  source: 'alert' | 'aria' | 'native';
+  text: string;
+}
+
+/**
+ * 단일 입력 결과
+ */
+export interface FuzzCaseResult {
+  field: string;             // 필드 표시 이름
+  selector: string;
+  fieldType: FieldType;
+  purpose: AnalyzedField['purpose'];
+  input: NegativeInput;
+  outcome: FuzzOutcome;
+  actualValue?: string;      // 입력 후 필드에 남은 값
+  messages: ValidationMessage[];
+  submitDisabled?: boolean;
+  error?: string;
+}
+
+/**
+ * 검증 커버리지 보고서
+ */
+export interface ValidationCoverageReport {
+  url: string;
+  fields: Array<{ selector: string; name: string }>; // 행 순서 (이름이 같은 필드도 셀렉터로 구분)
+  categories: NegativeInputCategory[];
+  results: FuzzCaseResult[];
+  matrix: Record<string, Partial<Record<NegativeInputCategory, FuzzOutcome>>>; // 셀렉터 → 분류 → 결과
+  summary: {
+    total: number;
+    rejected: number;        // validation-message + submit-disabled + sanitized
+    accepted: number;
+    inconclusive: number;
+    errors: number;
+  };
+}
+
+/**
+ * 퍼징 옵션
+ */
+export interface FuzzOptions {
+  submitButton?: string;                 // 비활성화 여부를 확인할 제출 버튼 텍스트
+  fields?: FieldIdentifier[];            // 대상 필드 (기본: 보이는 모든 텍스트형 필드)
+  categories?: NegativeInputCategory[];  // 대상 분류 (기본: 전체)
+  settleTimeout?: number;                // 입력 후 검증 메시지 대기 (기본: 1500)
+  extraInputs?: (field: AnalyzedField) => NegativeInput[];  // 필드별 추가 입력
+}
+
+const ALL_CATEGORIES: NegativeInputCategory[] = ['required', 'whitespace', 'format', 'length', 'range', 'injection'];
+
+// 직접 타이핑으로 값을 넣을 수 있는 필드 타입
+const TYPEABLE_FIELD_TYPES: FieldType[] = ['text', 'textarea', 'number', 'password', 'datepicker', 'unknown'];
+
+// 같은 분류 내 결과 우선순위 (낮을수록 검증 누락에 가까움)
+const OUTCOME_RANK: Record<FuzzOutcome, number> = {
+  'accepted': 0,
+  'inconclusive': 1,
+  'error': 2,
+  'sanitized': 3,
+  'submit-disabled': 4,
+  'validation-message': 5
+};
+
+/**
+ * ValidationFuzzer - 필드별 비정상 입력으로 폼 검증 커버리지 측정
+ *
+ * 사용법:
+ * ```typescript
+ * const fuzzer = new ValidationFuzzer(page);
+ * const report = await fuzzer.run({ submitButton: '로그인' });
+ *
+ * console.log(formatCoverageMatrix(report));
+ * expect(report.summary.accepted).toBe(0);
+ * ```
+ *
+ * 주의: 제출 버튼은 클릭하지 않음 (상태만 확인). 각 입력 후 원래 값으로 복원
+ */
+export class ValidationFuzzer {
+  private page: Page;
+  private fieldAnalyzer: SmartFieldAnalyzer;
+  private stateAnalyzer: PageStateAnalyzer;
+  private waitStrategy: WaitStrategy;
+
+  constructor(page: Page) {
+    this.page = page;
+    this.fieldAnalyzer = new SmartFieldAnalyzer(page);
+    this.stateAnalyzer = new PageStateAnalyzer(page);
+    this.waitStrategy = new WaitStrategy(page);
+  }
+
+  /**
+   * 현재 페이지의 필드 퍼징 실행
+   */
+  async run(options: FuzzOptions = {}): Promise<ValidationCoverageReport> {
+    const categories = options.categories ?? ALL_CATEGORIES;
+    const fields = (await this.fieldAnalyzer.analyzeAllFields()).filter(field => this.isTarget(field, options));
+    const results: FuzzCaseResult[] = [];
+
+    logger.info(`대상 필드 ${fields.length}개, 분류: ${categories.join(', ')}`);
+
+    for (const field of fields) {
+      const inputs = [
+        ...getNegativeInputs(field),
+        ...(options.extraInputs?.(field) ?? [])
+      ].filter(input => categories.includes(input.category));
+
+      if (inputs.length === 0) continue;
+
+      const locator = this.page.locator(field.context.selector).first();
+      const originalValue = await locator.inputValue().catch(() => '');
+
+      // 정상 값에서의 제출 버튼 상태 (판단 기준)
+      const validValue = originalValue || field.suggestedValue || '';
+      await this.fillAndSettle(locator, validValue, options).catch(() => undefined);
+      const baselineDisabled = await this.isSubmitDisabled(options.submitButton);
+      const baselineMessages = await this.collectMessages(locator);
+
+      for (const input of inputs) {
+        // 이전 입력의 검증 메시지가 남지 않도록 정상 값으로 되돌린 후 실행
+        await this.fillAndSettle(locator, validValue, options).catch(() => undefined);
+        const result = await this.runCase(field, locator, input, options, baselineDisabled, baselineMessages);
+        results.push(result);
+        logger.info(`${result.field} / ${input.description} → ${result.outcome}`);
+      }
+
+      // 원래 값으로 복원
+      await this.fillAndSettle(locator, originalValue, options).catch(() => undefined);
+    }
+
+    return buildReport(this.page.url(), categories, results);
+  }
+
+  /**
+   * 단일 비정상 입력 실행
+   */
+  private async runCase(
+    field: AnalyzedField,
+    locator: Locator,
+    input: NegativeInput,
+    options: FuzzOptions,
+    baselineDisabled: boolean | undefined,
+    baselineMessages: ValidationMessage[]
+  ): Promise<FuzzCaseResult> {
+    const base = {
+      field: getFieldName(field),
+      selector: field.context.selector,
+      fieldType: field.fieldType,
+      purpose: field.purpose,
+      input,
+      messages: [] as ValidationMessage[]
+    };
+
+    try {
+      await this.fillAndSettle(locator, input.value, options);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // type=number 등 브라우저가 입력 자체를 거부한 경우
+      if (/Cannot type text|Malformed value|not of type/i.test(message)) {
+        return { ...base, outcome: 'sanitized', error: message.split('\n')[0] };
+      }
+      return { ...base, outcome: 'error', error: message.split('\n')[0] };
+    }
+
+    const actualValue = await locator.inputValue().catch(() => undefined);
+    const messages = (await this.collectMessages(locator))
+      .filter(m => !baselineMessages.some(b => b.source === m.source && b.text === m.text));
+    const submitDisabled = await this.isSubmitDisabled(options.submitButton);
+
+    let outcome: FuzzOutcome;
+    if (messages.length > 0) {
+      outcome = 'validation-message';
+    } else if (submitDisabled && baselineDisabled === false) {
+      outcome = 'submit-disabled';
+    } else if (actualValue !== undefined && actualValue !== input.value) {
+      outcome = 'sanitized';
+    } else if (submitDisabled && baselineDisabled) {
+      outcome = 'inconclusive';
+    } else {
+      outcome = 'accepted';
+    }
+
+    return { ...base, outcome, actualValue, messages, submitDisabled };
+  }
+
+  /**
+   * 값 입력 후 blur → 검증 반영 대기
+   */
+  private async fillAndSettle(locator: Locator, value: string, options: FuzzOptions) {
+    await locator.fill(value, { timeout: 3000 });
+    await locator.press('Tab', { timeout: 1000 }).catch(() => undefined);
+    await this.waitStrategy.waitForDomStable({ timeout: options.settleTimeout ?? 1500 });
+  }
+
+  /**
+   * 검증 메시지 수집 (페이지 alert + 필드 aria-invalid + 브라우저 기본 검증)
+   */
+  private async collectMessages(locator: Locator): Promise<ValidationMessage[]> {
+    const messages: ValidationMessage[] = [];
+
+    const alerts = await this.stateAnalyzer.extractAlerts().catch(() => []);
+    alerts
+      .filter(alert => alert.type === 'error' || alert.type === 'warning')
+      .forEach(alert => messages.push({ source: 'alert', text: alert.message }));
+
+    const fieldState = await locator.evaluate(el => {
+      const input = el as HTMLInputElement;
+      const invalid = el.getAttribute('aria-invalid') === 'true';
+      const describedBy = (el.getAttribute('aria-errormessage') || el.getAttribute('aria-describedby') || '')
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(id => document.getElementById(id)?.textContent?.trim() || '')
+        .filter(Boolean)
+        .join(' ');
+
+      return {
+        ariaMessage: invalid ? (describedBy || 'aria-invalid') : '',
+        nativeMessage: typeof input.checkValidity === 'function' && !input.checkValidity()
+          ? input.validationMessage
+          : ''
+      };
+    }).catch(() => ({ ariaMessage: '', nativeMessage: '' }));
+
+    if (fieldState.ariaMessage) messages.push({ source: 'aria', text: fieldState.ariaMessage });
+    if (fieldState.nativeMessage) messages.push({ source: 'native', text: fieldState.nativeMessage });
+
+    return messages;
+  }
+
+  /**
+   * 제출 버튼 비활성화 여부 (버튼 미지정/미발견 시 undefined)
+   */
+  private async isSubmitDisabled(buttonText?: string): Promise<boolean | undefined> {
+    if (!buttonText) return undefined;
+
+    const buttons = await this.stateAnalyzer.extractButtons().catch(() => []);
+    const button = buttons.find(b => b.text.includes(buttonText) || b.ariaLabel?.includes(buttonText));
+    return button ? button.disabled : undefined;
+  }
+
+  /**
+   * 퍼징 대상 필드 여부
+   */
+  private isTarget(field: AnalyzedField, options: FuzzOptions): boolean {
+    if (field.context.disabled) return false;
+
+    if (options.fields?.length) {
+      const info = {
+        selector: field.context.selector,
+        name: field.context.name,
+        label: field.context.label,
+        placeholder: field.context.placeholder,
+        ariaLabel: field.context.ariaLabel,
+        purpose: field.purpose
+      };
+      return options.fields.some(identifier => matchesFieldIdentifier(identifier, info));
+    }
+
+    return TYPEABLE_FIELD_TYPES.includes(field.fieldType);
+  }
+}
+
+/**
+ * 필드 타입/목적에 맞는 비정상 입력 목록
+ */
+export function getNegativeInputs(field: AnalyzedField): NegativeInput[] {
+  const { purpose, fieldType, context } = field;
+  const inputs: NegativeInput[] = [];
+  const maxLength = context.maxLength ?? 255;
+
+  if (context.required) {
+    inputs.push({ category: 'required', value: '', description: '빈 값 (필수 필드)' });
+  }
+  inputs.push({ category: 'whitespace', value: '   ', description: '공백만 입력' });
+
+  switch (purpose) {
+    case 'email':
+      inputs.push(
+        { category: 'format', value: 'not-an-email', description: '@ 없는 이메일' },
+        { category: 'format', value: 'user@', description: '도메인 없는 이메일' },
+        { category: 'format', value: 'user@@example.com', description: '@ 중복 이메일' },
+        { category: 'format', value: 'user name@example.com', description: '공백 포함 이메일' }
+      );
+      break;
+    case 'url':
+      inputs.push(
+        { category: 'format', value: 'not a url', description: '형식이 아닌 URL' },
+        { category: 'format', value: 'htp://example', description: '잘못된 스킴' },
+        { category: 'injection', value: 'javascript:alert(1)', description: 'javascript: URL' }
+      );
+      break;
+    case 'phone':
+      inputs.push(
+        { category: 'format', value: 'abc-defg-hijk', description: '문자 전화번호' },
+        { category: 'format', value: '010-1234', description: '자릿수 부족 전화번호' }
+      );
+      break;
+    case 'date':
+      inputs.push(
+        { category: 'format', value: '2024-13-45', description: '존재하지 않는 날짜' },
+        { category: 'format', value: 'not-a-date', description: '날짜가 아닌 값' }
+      );
+      break;
+  }
+
+  if (purpose === 'amount' || fieldType === 'number') {
+    inputs.push(
+      { category: 'range', value: '-1000', description: '음수' },
+      { category: 'range', value: 'abc', description: '숫자가 아닌 값' },
+      { category: 'range', value: '9'.repeat(21), description: '매우 큰 수' }
+    );
+  }
+
+  if (fieldType !== 'number') {
+    inputs.push({
+      category: 'length',
+      value: 'a'.repeat(maxLength + 1),
+      description: `최대 길이 초과 (${maxLength + 1}자)`
+    });
+  }
+
+  inputs.push(
+    { category: 'injection', value: '<script>alert(1)</script>', description: 'script 태그' },
+    { category: 'injection', value: "' OR '1'='1", description: 'SQL 삽입' }
+  );
+
+  return inputs;
+}
+
+/**
+ * 커버리지 매트릭스를 Markdown 표로 변환
+ *
+ * | 기호 | 의미 |
+ * |------|------|
+ * | ✅ | 검증 메시지 |
+ * | 🚫 | 제출 버튼 비활성화 |
+ * | ✂️ | 입력 거부/잘림 |
+ * | ❌ | 그대로 허용 (검증 누락 의심) |
+ * | ❔ | 판단 불가 |
+ * | ⚠️ | 입력 실패 |
+ * | - | 해당 없음 |
+ */
+export function formatCoverageMatrix(report: ValidationCoverageReport): string {
+  const symbols: Record<FuzzOutcome, string> = {
+    'validation-message': '✅',
+    'submit-disabled': '🚫',
+    'sanitized': '✂️',
+    'accepted': '❌',
+    'inconclusive': '❔',
+    'error': '⚠️'
+  };
+
+  const lines = [
+    `## 검증 커버리지 (${report.url})`,
+    '',
+    `| 필드 | 셀렉터 | ${report.categories.join(' | ')} |`,
+    `|------|------|${report.categories.map(() => '------').join('|')}|`
+  ];
+
+  for (const field of report.fields) {
+    const row = report.categories.map(category => {
+      const outcome = report.matrix[field.selector]?.[category];
+      return outcome ? symbols[outcome] : '-';
+    });
+    lines.push(`| ${field.name} | \`${field.selector}\` | ${row.join(' | ')} |`);
+  }
+
+  const { summary } = report;
+  lines.push(
+    '',
+    `- 전체: ${summary.total}건, 거부: ${summary.rejected}건, 허용: ${summary.accepted}건, 판단 불가: ${summary.inconclusive}건, 입력 실패: ${summary.errors}건`
+  );
+
+  const accepted = report.results.filter(r => r.outcome === 'accepted');
+  if (accepted.length > 0) {
+    lines.push('', '### 검증 누락 의심', '', '| 필드 | 셀렉터 | 입력 | 분류 |', '|------|------|------|------|');
+    accepted.forEach(r => lines.push(`| ${r.field} | \`${r.selector}\` | ${r.input.description} | ${r.input.category} |`));
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * 결과 → 보고서 (필드×분류 셀은 가장 약한 결과로 표시, 필드는 셀렉터로 구분)
+ */
+function buildReport(
+  url: string,
+  categories: NegativeInputCategory[],
+  results: FuzzCaseResult[]
+): ValidationCoverageReport {
+  const fields = Array.from(new Map(results.map(r => [r.selector, { selector: r.selector, name: r.field }])).values());
+  const matrix: ValidationCoverageReport['matrix'] = {};
+
+  for (const result of results) {
+    const row = matrix[result.selector] ?? (matrix[result.selector] = {});
+    const current = row[result.input.category];
+    if (!current || OUTCOME_RANK[result.outcome] < OUTCOME_RANK[current]) {
+      row[result.input.category] = result.outcome;
+    }
+  }
+
+  const count = (...outcomes: FuzzOutcome[]) => results.filter(r => outcomes.includes(r.outcome)).length;
+
+  return {
+    url,
+    fields,
+    categories,
+    results,
+    matrix,
+    summary: {
+      total: results.length,
+      rejected: count('validation-message', 'submit-disabled', 'sanitized'),
+      accepted: count('accepted'),
+      inconclusive: count('inconclusive'),
+      errors: count('error')
+    }
+  };
+}
+
+/**
+ * 필드 표시 이름
+ */
+function getFieldName(field: AnalyzedField): string {
+  const { context } = field;
+  return context.label || context.placeholder || context.ariaLabel || context.name || context.selector;
+}
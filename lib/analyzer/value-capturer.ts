@@ -0,0 +1,182 @@
+import { Page } from '@playwright/test';
+import { CaptureInstruction, resolveValue } from './instruction-types';
+
+/**
+ * 캡처 결과
+ */
+export interface CaptureResult {
+  name: string;
+  success: boolean;
+  value?: string;            // 저장된 값
+  raw?: string;              // 정규식 적용 전 원본 값
+  duration: number;
+  error?: string;
+}
+
+/**
+ * ValueCapturer - 페이지의 값을 읽어 변수로 추출
+ *
+ * | from | 읽는 값 |
+ * |------|------|
+ * | text | selector 요소의 innerText |
+ * | attribute | selector 요소의 attribute 값 |
+ * | value | selector 입력 필드의 값 |
+ * | clipboard | navigator.clipboard 텍스트 |
+ * | url | 현재 URL (pattern 필수) |
+ *
+ * pattern이 있으면 원본 값에서 정규식 그룹을 추출
+ */
+export class ValueCapturer {
+  private page: Page;
+  private defaultTimeout: number;
+
+  constructor(page: Page, options: { timeout?: number } = {}) {
+    this.page = page;
+    this.defaultTimeout = options.timeout ?? 5000;
+  }
+
+  /**
+   * 단일 값 캡처
+   * selector는 {{변수}} 템플릿 지원
+   */
+  async capture(
+    instruction: CaptureInstruction,
+    variables: Record<string, string> = {}
+  ): Promise<CaptureResult> {
+    const startTime = Date.now();
+
+    try {
+      const raw = await this.readRaw(instruction, variables);
+      const value = instruction.pattern !== undefined
+        ? this.extract(raw, instruction.pattern, instruction.group)
+        : raw.trim();
+
+      return {
+        name: instruction.name,
+        success: true,
+        value,
+        raw,
+        duration: Date.now() - startTime
+      };
+    } catch (error) {
+      return {
+        name: instruction.name,
+        success: false,
+        duration: Date.now() - startTime,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+  }
+
+  /**
+   * 여러 값을 순서대로 캡처 (앞에서 캡처한 값을 뒤의 selector에서 참조 가능)
+   */
+  async captureAll(
+    instructions: CaptureInstruction[],
+    variables: Record<string, string> = {}
+  ): Promise<CaptureResult[]> {
+    const scope = { ...variables };
+    const results: CaptureResult[] = [];
+
+    for (const instruction of instructions) {
+      const result = await this.capture(instruction, scope);
+      if (result.success && result.value !== undefined) {
+        scope[instruction.name] = result.value;
+      }
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * 캡처 대상의 원본 값 읽기
+   */
+  private async readRaw(
+    instruction: CaptureInstruction,
+    variables: Record<string, string>
+  ): Promise<string> {
+    const timeout = instruction.timeout ?? this.defaultTimeout;
+
+    switch (instruction.from) {
+      case 'url':
+        if (instruction.pattern === undefined) {
+          throw new Error('url 캡처에는 pattern이 필요합니다');
+        }
+        return this.page.url();
+
+      case 'clipboard':
+        return this.readClipboard();
+
+      case 'text':
+      case 'attribute':
+      case 'value': {
+        if (!instruction.selector) {
+          throw new Error(`${instruction.from} 캡처에는 selector가 필요합니다`);
+        }
+
+        const selector = resolveValue(instruction.selector, variables);
+        const locator = this.page.locator(selector).first();
+        await locator.waitFor({ state: instruction.from === 'text' ? 'visible' : 'attached', timeout });
+
+        if (instruction.from === 'text') {
+          return locator.innerText();
+        }
+        if (instruction.from === 'value') {
+          return locator.inputValue();
+        }
+
+        if (!instruction.attribute) {
+          throw new Error('attribute 캡처에는 attribute 이름이 필요합니다');
+        }
+        const attribute = await locator.getAttribute(instruction.attribute);
+        if (attribute === null) {
+          throw new Error(`"${selector}"에 ${instruction.attribute} 속성이 없습니다`);
+        }
+        return attribute;
+      }
+
+      default:
+        throw new Error(`알 수 없는 캡처 대상: ${instruction.from}`);
+    }
+  }
+
+  /**
+   * 클립보드 텍스트 읽기 (Chromium은 clipboard-read 권한 필요)
+   */
+  private async readClipboard(): Promise<string> {
+    try {
+      await this.page.context().grantPermissions(['clipboard-read', 'clipboard-write']);
+    } catch {
+      // 권한 부여를 지원하지 않는 브라우저는 그대로 시도
+    }
+
+    return this.page.evaluate(() => navigator.clipboard.readText());
+  }
+
+  /**
+   * 정규식 그룹 추출
+   */
+  private extract(raw: string, pattern: string | RegExp, group?: number | string): string {
+    const regex = typeof pattern === 'string' ? new RegExp(pattern) : pattern;
+    const match = raw.match(regex);
+
+    if (!match) {
+      throw new Error(`패턴 ${regex} 과 일치하지 않습니다: "${raw.slice(0, 100)}"`);
+    }
+
+    if (typeof group === 'string') {
+      const named = match.groups?.[group];
+      if (named === undefined) {
+        throw new Error(`패턴 ${regex} 에 "${group}" 그룹이 없습니다`);
+      }
+      return named;
+    }
+
+    const index = group ?? (match.length > 1 ? 1 : 0);
+    if (match[index] === undefined) {
+      throw new Error(`패턴 ${regex} 의 ${index}번 그룹이 매칭되지 않았습니다`);
+    }
+    return match[index];
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * 값 생성기 - 자동 입력 값의 무작위성을 시드로 고정
+ *
+ * 같은 (seed, key)는 항상 같은 값을 만들기 때문에 호출 횟수나 순서와 무관하게
+ * 실패한 실행을 같은 시드로 다시 실행하면 동일한 입력값이 재현됨
+ */
+export interface ValueGenerator {
+  readonly seed: number;
+  readonly baseTime: number;                     // 날짜/시각 값의 기준 시각 (ms, 현재 시각 대신 사용)
+  random(key: string): number;                   // 0 이상 1 미만
+  token(key: string, length?: number): string;   // 영소문자+숫자 (기본 8자)
+}
+
+/**
+ * 단일 값 생성 범위 - FieldStrategy.valueGenerator에 전달
+ * 범위 안에서 호출할 때마다 다른 값 (순서가 같으면 재현 가능)
+ */
+export interface ValueScope {
+  readonly key: string;
+  readonly baseTime: number;
+  random(): number;
+  token(length?: number): string;
+}
+
+/**
+ * 생성된 값 기록 (ExecutionResult.generatedValues)
+ */
+export interface GeneratedValue {
+  field: string;             // 필드 이름 (name/aria-label/placeholder)
+  value: string;
+  strategy: string;          // 사용된 FieldStrategy 패턴
+  key: string;               // 값 생성 키 (재현용)
+}
+
+/**
+ * SeededValueGenerator 옵션
+ */
+export interface SeededValueGeneratorOptions {
+  baseDate?: Date | string | number;  // 날짜/시각 기준 (기본: 생성 시각, 재현 시 결과의 baseDate 전달)
+}
+
+const TOKEN_ALPHABET = 'abcdefghijklmnopqrstuvwxyz0123456789';
+
+/**
+ * SeededValueGenerator - 해시 기반 결정적 값 생성기
+ *
+ * 사용법:
+ * ```typescript
+ * const values = new SeededValueGenerator(1234);
+ * values.token('channel');      // 항상 같은 값
+ *
+ * // 날짜 기준 지정 (기본은 생성 시각)
+ * new SeededValueGenerator(1234, { baseDate: '2025-06-01' });
+ *
+ * // 실패한 실행 재현 (같은 입력값 + 같은 {{date}}/{{timestamp}})
+ * const pilot = new AutoPilot(page, { seed: failedResult.seed, baseDate: failedResult.baseDate });
+ * ```
+ */
+export class SeededValueGenerator implements ValueGenerator {
+  readonly seed: number;
+  readonly baseTime: number;
+
+  constructor(seed?: number | string, options: SeededValueGeneratorOptions = {}) {
+    this.seed = normalizeSeed(seed);
+
+    if (options.baseDate === undefined) {
+      this.baseTime = Date.now();
+    } else {
+      this.baseTime = new Date(options.baseDate).getTime();
+      if (Number.isNaN(this.baseTime)) {
+        throw new Error(`잘못된 기준 날짜: ${String(options.baseDate)}`);
+      }
+    }
+  }
+
+  random(key: string): number {
+    return mulberry32(hashString(`${this.seed}:${key}`));
+  }
+
+  token(key: string, length: number = 8): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      const index = Math.floor(this.random(`${key}#${i}`) * TOKEN_ALPHABET.length);
+      result += TOKEN_ALPHABET[index];
+    }
+    return result;
+  }
+}
+
+/**
+ * 키 범위 생성 (범위 내 호출 순서대로 하위 키 부여)
+ */
+export function createValueScope(generator: ValueGenerator, key: string): ValueScope {
+  let counter = 0;
+  return {
+    key,
+    baseTime: generator.baseTime,
+    random: () => generator.random(`${key}/${counter++}`),
+    token: (length?: number) => generator.token(`${key}/${counter++}`, length)
+  };
+}
+
+/**
+ * 시드 정규화 - 숫자 문자열은 숫자로, 그 외 문자열은 해시, 없으면 무작위 시드
+ * (로그의 result.seed를 환경 변수/CLI 인자로 넘겨도 같은 시드)
+ */
+export function normalizeSeed(seed?: number | string): number {
+  if (seed === undefined) {
+    return Math.floor(Math.random() * 0x7fffffff);
+  }
+  if (typeof seed === 'string') {
+    const trimmed = seed.trim();
+    return /^-?\d+$/.test(trimmed) ? normalizeSeed(Number(trimmed)) : hashString(seed);
+  }
+  return Math.abs(Math.floor(seed)) % 0x100000000;
+}
+
+/**
+ * FNV-1a 32비트 해시
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * mulberry32 - 32비트 상태에서 0~1 값 하나 생성
+ */
+function mulberry32(state: number): number {
+  let t = (state + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
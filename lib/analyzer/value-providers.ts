@@ -0,0 +1,238 @@
+import { FieldPurpose } from './smart-field-analyzer';
+import { ValueScope } from './value-generator';
+
+/**
+ * 값 생성 로케일
+ */
+export type ValueLocale = 'ko-KR' | 'en-US' | 'ja-JP';
+
+/**
+ * 값 변형 - 정상 값(default)과 경계값 테스트용 변형
+ */
+export type ValueVariant =
+  | 'default'      // 정상 입력 (happy path)
+  | 'maxLength'    // maxlength(없으면 255자)를 꽉 채운 값
+  | 'unicode'      // 로케일 문자 + 결합 문자 + 서로게이트 쌍
+  | 'emoji'        // 이모지 (ZWJ 시퀀스, 피부색, 국기 포함)
+  | 'whitespace';  // 앞뒤/중간 공백, NBSP
+
+/**
+ * 값 생성 옵션
+ */
+export interface ValueProviderOptions {
+  locale?: ValueLocale;        // 기본: ko-KR
+  variant?: ValueVariant;      // 기본: default
+  maxLength?: number;          // 필드의 maxlength 속성
+  inputType?: string;          // input type (date 입력은 ISO 형식 유지)
+}
+
+/**
+ * 목적별 기본 값 생성 함수 (undefined면 값 제안 안 함)
+ */
+export type ValueProvider = (values: ValueScope, locale: ValueLocale, options: ValueProviderOptions) => string | undefined;
+
+export const DEFAULT_VALUE_LOCALE: ValueLocale = 'ko-KR';
+export const DEFAULT_MAX_LENGTH = 255;
+
+export const VALUE_LOCALES: ValueLocale[] = ['ko-KR', 'en-US', 'ja-JP'];
+export const VALUE_VARIANTS: ValueVariant[] = ['default', 'maxLength', 'unicode', 'emoji', 'whitespace'];
+
+/**
+ * 로케일별 데이터
+ */
+const LOCALE_DATA: Record<ValueLocale, {
+  path: string;
+  description: string;
+  unicode: string;
+  filler: string;
+  phone: (values: ValueScope) => string;
+  amount: (values: ValueScope) => string;
+  date: (date: Date) => string;
+}> = {
+  'ko-KR': {
+    path: 'ko',
+    description: '자동화 테스트 설명',
+    unicode: '한글ㄱㅏ똠방각하',
+    filler: '가',
+    phone: (values) => `010-${digits(values, 4)}-${digits(values, 4)}`,
+    amount: (values) => String((1 + Math.floor(values.random() * 99)) * 1000),
+    date: (date) => isoDate(date)
+  },
+  'en-US': {
+    path: 'en',
+    description: 'Automated test description',
+    unicode: 'Ünïcödé Çafé',
+    filler: 'a',
+    phone: (values) => `(201) 555-01${digits(values, 2)}`,
+    amount: (values) => String(1 + Math.floor(values.random() * 999)),
+    date: (date) => `${pad2(date.getUTCMonth() + 1)}/${pad2(date.getUTCDate())}/${date.getUTCFullYear()}`
+  },
+  'ja-JP': {
+    path: 'ja',
+    description: '自動テストの説明',
+    unicode: 'ひらがなカタカナ漢字ｶﾅ',
+    filler: 'あ',
+    phone: (values) => `090-${digits(values, 4)}-${digits(values, 4)}`,
+    amount: (values) => String((1 + Math.floor(values.random() * 99)) * 100),
+    date: (date) => `${date.getUTCFullYear()}/${pad2(date.getUTCMonth() + 1)}/${pad2(date.getUTCDate())}`
+  }
+};
+
+/**
+ * 내장 목적별 값
+ *
+ * 이름/채널/캠페인 등 식별자 성격의 값은 API 검증을 고려해 로케일과 무관하게
+ * 영문 접두사 + 시드 토큰 사용 (로케일 문자는 unicode 변형으로 테스트)
+ */
+const BUILTIN_PROVIDERS: Partial<Record<FieldPurpose, ValueProvider>> = {
+  name: (values) => `test_name_${values.token()}`,
+  email: (values) => `test_${values.token()}@example.com`,
+  phone: (values, locale) => LOCALE_DATA[locale].phone(values),
+  url: (values, locale) => `https://example.com/${LOCALE_DATA[locale].path}/test-${values.token()}`,
+  channel: (values) => `ch_${values.token(6)}`,
+  campaign: (values) => `test_campaign_${values.token()}`,
+  adgroup: (values) => `test_adgroup_${values.token()}`,
+  creative: (values) => `test_creative_${values.token()}`,
+  date: (values, locale, options) => {
+    // 현재 날짜 대신 생성기 기준 시각 사용 (같은 시드 → 실행 날짜와 무관하게 같은 날짜)
+    const date = new Date(values.baseTime);
+    date.setUTCDate(date.getUTCDate() + 1 + Math.floor(values.random() * 30));
+    return options.inputType === 'date' ? isoDate(date) : LOCALE_DATA[locale].date(date);
+  },
+  amount: (values, locale) => LOCALE_DATA[locale].amount(values),
+  description: (values, locale) => `${LOCALE_DATA[locale].description} ${values.token(4)}`,
+  search: () => undefined,     // 검색은 값 제안 안 함
+  password: () => undefined,   // 비밀번호도 제안 안 함
+  custom: (values) => `test_value_${values.token()}`,
+  unknown: (values) => `test_value_${values.token()}`
+};
+
+/**
+ * ValueProviderRegistry - FieldPurpose × 로케일별 값 생성기 (오프라인)
+ *
+ * 사용법:
+ * ```typescript
+ * const providers = new ValueProviderRegistry();
+ * providers.generate('phone', values, { locale: 'ja-JP' });            // 090-xxxx-xxxx
+ * providers.generate('name', values, { variant: 'emoji' });            // test_name_xxx_😀👍🏽...
+ *
+ * // 사용자 정의 (특정 로케일만 또는 전체)
+ * providers.register('channel', (values) => `qa_${values.token(4)}`);
+ * providers.register('description', () => '説明', 'ja-JP');
+ * ```
+ */
+export class ValueProviderRegistry {
+  private providers: Map<string, ValueProvider> = new Map();
+
+  constructor() {
+    for (const [purpose, provider] of Object.entries(BUILTIN_PROVIDERS)) {
+      this.register(purpose as FieldPurpose, provider);
+    }
+  }
+
+  /**
+   * 값 생성기 등록 (locale 생략 시 모든 로케일에 적용, 로케일 지정이 우선)
+   */
+  register(purpose: FieldPurpose, provider: ValueProvider, locale: ValueLocale | '*' = '*') {
+    this.providers.set(`${purpose}|${locale}`, provider);
+  }
+
+  /**
+   * 값 생성기 조회 (로케일 → 전체 → unknown 순)
+   */
+  get(purpose: FieldPurpose, locale: ValueLocale = DEFAULT_VALUE_LOCALE): ValueProvider | undefined {
+    return this.providers.get(`${purpose}|${locale}`)
+      ?? this.providers.get(`${purpose}|*`)
+      ?? this.providers.get(`unknown|${locale}`)
+      ?? this.providers.get('unknown|*');
+  }
+
+  /**
+   * 목적에 맞는 값 생성 후 변형 적용
+   */
+  generate(purpose: FieldPurpose, values: ValueScope, options: ValueProviderOptions = {}): string | undefined {
+    const locale = options.locale ?? DEFAULT_VALUE_LOCALE;
+    const value = this.get(purpose, locale)?.(values, locale, options);
+    if (value === undefined) return undefined;
+
+    return applyValueVariant(value, purpose, options);
+  }
+}
+
+/**
+ * 경계값 변형 적용
+ */
+export function applyValueVariant(
+  value: string,
+  purpose: FieldPurpose,
+  options: ValueProviderOptions = {}
+): string {
+  const locale = options.locale ?? DEFAULT_VALUE_LOCALE;
+
+  switch (options.variant ?? 'default') {
+    case 'maxLength':
+      return fillToLength(value, purpose, options.maxLength ?? DEFAULT_MAX_LENGTH, LOCALE_DATA[locale].filler);
+
+    case 'unicode':
+      // 로케일 문자 + 결합 문자(e + U+0301) + 서로게이트 쌍(𠮷)
+      return insertBeforeSuffix(value, purpose, `_${LOCALE_DATA[locale].unicode}_e\u0301_\u{20BB7}`);
+
+    case 'emoji':
+      return insertBeforeSuffix(value, purpose, '_😀👍🏽👨‍👩‍👧‍👦🇰🇷');
+
+    case 'whitespace':
+      return `  ${value.replace(/_/g, '  ')}\u00a0 `;
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * 최대 길이까지 채우기 (이메일은 도메인 유지, 숫자형 필드는 9로 채움)
+ */
+function fillToLength(value: string, purpose: FieldPurpose, maxLength: number, localeFiller: string): string {
+  const numeric = purpose === 'amount' || purpose === 'phone';
+  const filler = numeric ? '9' : (purpose === 'email' || purpose === 'url' ? 'a' : localeFiller);
+
+  if (purpose === 'email') {
+    const at = value.lastIndexOf('@');
+    const domain = value.slice(at);
+    const local = value.slice(0, at);
+    const localLength = Math.max(1, maxLength - domain.length);
+    return local.padEnd(localLength, filler).slice(0, localLength) + domain;
+  }
+
+  if (numeric) {
+    return filler.repeat(maxLength);
+  }
+
+  return value.padEnd(maxLength, filler).slice(0, maxLength);
+}
+
+/**
+ * 이메일은 @ 앞에, 그 외는 끝에 문자열 삽입
+ */
+function insertBeforeSuffix(value: string, purpose: FieldPurpose, insert: string): string {
+  if (purpose === 'email') {
+    const at = value.lastIndexOf('@');
+    return value.slice(0, at) + insert + value.slice(at);
+  }
+  return value + insert;
+}
+
+function digits(values: ValueScope, length: number): string {
+  let result = '';
+  for (let i = 0; i < length; i++) {
+    result += Math.floor(values.random() * 10);
+  }
+  return result;
+}
+
+function isoDate(date: Date): string {
+  return `${date.getUTCFullYear()}-${pad2(date.getUTCMonth() + 1)}-${pad2(date.getUTCDate())}`;
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -1,6 +1,10 @@
 import { Page } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createLogger, errorData } from '../utils/logger';
+import { qaEvents } from '../utils/event-bus';
+
+const logger = createLogger('DataManager');
 
 export interface TestDataRecord {
   id: string;
@@ -64,7 +68,8 @@ export class TestDataManager {
     };
     this.records.push(fullRecord);
     this.saveRecords();
-    console.log(`[DataManager] 등록됨: ${record.type} - ${record.name}`);
+    logger.info(`등록됨: ${record.type} - ${record.name}`);
+    qaEvents.emit('dataRegistered', { record: fullRecord });
     return fullRecord;
   }
 
@@ -90,7 +95,8 @@ export class TestDataManager {
   removeData(id: string) {
     this.records = this.records.filter(r => r.id !== id);
     this.saveRecords();
-    console.log(`[DataManager] 제거됨: ${id}`);
+    logger.info(`제거됨: ${id}`);
+    qaEvents.emit('dataRemoved', { id });
   }
 
   /**
@@ -100,7 +106,7 @@ export class TestDataManager {
     const count = this.records.filter(r => r.type === type).length;
     this.records = this.records.filter(r => r.type !== type);
     this.saveRecords();
-    console.log(`[DataManager] ${type} 타입 ${count}개 제거됨`);
+    logger.info(`${type} 타입 ${count}개 제거됨`);
   }
 
   /**
@@ -109,7 +115,7 @@ export class TestDataManager {
   clearAll() {
     this.records = [];
     this.saveRecords();
-    console.log('[DataManager] 모든 레코드 초기화됨');
+    logger.info('모든 레코드 초기화됨');
   }
 
   /**
@@ -122,11 +128,11 @@ export class TestDataManager {
     const existing = this.getDataByType(type);
 
     if (existing.length > 0) {
-      console.log(`[DataManager] 기존 ${type} 데이터 사용: ${existing[0].name}`);
+      logger.info(`기존 ${type} 데이터 사용: ${existing[0].name}`);
       return existing[0];
     }
 
-    console.log(`[DataManager] ${type} 데이터 없음, 생성 시도...`);
+    logger.info(`${type} 데이터 없음, 생성 시도...`);
     const newData = await createFn();
 
     if (newData) {
@@ -134,7 +140,7 @@ export class TestDataManager {
       return newData;
     }
 
-    console.log(`[DataManager] ${type} 데이터 생성 실패`);
+    logger.warn(`${type} 데이터 생성 실패`);
     return null;
   }
 
@@ -180,7 +186,7 @@ export class TestDataManager {
       };
 
     } catch (error) {
-      console.log('[DataManager] 트래킹 링크 생성 실패:', error);
+      logger.warn('트래킹 링크 생성 실패', errorData(error));
       return null;
     }
   }
@@ -195,7 +201,7 @@ export class TestDataManager {
       ? this.records.filter(r => types.includes(r.type))
       : this.records;
 
-    console.log(`[DataManager] 정리 대상: ${toClean.length}개`);
+    logger.info(`정리 대상: ${toClean.length}개`);
 
     for (const record of toClean) {
       // 실제 삭제 로직은 타입별로 구현 필요
@@ -207,9 +213,9 @@ export class TestDataManager {
    * 현재 등록된 모든 데이터 출력
    */
   printStatus() {
-    console.log('\n=== Test Data Status ===');
+    const lines = ['=== Test Data Status ==='];
     if (this.records.length === 0) {
-      console.log('(등록된 데이터 없음)');
+      lines.push('(등록된 데이터 없음)');
     } else {
       const grouped = this.records.reduce((acc, r) => {
         acc[r.type] = acc[r.type] || [];
@@ -218,10 +224,11 @@ export class TestDataManager {
       }, {} as Record<string, TestDataRecord[]>);
 
       for (const [type, records] of Object.entries(grouped)) {
-        console.log(`\n[${type}] (${records.length}개)`);
-        records.forEach(r => console.log(`  - ${r.name} (${r.id})`));
+        lines.push(`[${type}] (${records.length}개)`);
+        records.forEach(r => lines.push(`  - ${r.name} (${r.id})`));
       }
     }
-    console.log('========================\n');
+    lines.push('========================');
+    logger.info(lines.join('\n'));
   }
 }
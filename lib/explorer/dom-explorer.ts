@@ -1,6 +1,10 @@
 import { Page, Locator } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
+import { collectFrameScopes, qualifySelector } from '../analyzer/frame-scope';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Explorer');
 
 export interface ElementInfo {
   tag: string;
@@ -11,6 +15,7 @@ export interface ElementInfo {
   className: string;
   id: string | null;
   suggestedSelectors: string[];
+  framePath?: string[];        // same-origin iframe 내부 요소면 iframe 셀렉터 경로
 }
 
 export interface ExplorationResult {
@@ -34,126 +39,150 @@ export class DOMExplorer {
 
   /**
    * 특정 영역의 클릭 가능한 요소들을 탐색
+   * (open shadow root, same-origin iframe 포함)
    */
   async exploreClickables(containerSelector?: string): Promise<ElementInfo[]> {
-    const container = containerSelector
-      ? this.page.locator(containerSelector)
-      : this.page;
-
-    const clickables = await this.page.evaluate((containerSel) => {
-      const root = containerSel
-        ? document.querySelector(containerSel)
-        : document.body;
-
-      if (!root) return [];
+    const results: ElementInfo[] = [];
 
-      const elements: any[] = [];
+    for (const scope of await collectFrameScopes(this.page)) {
+      const root = containerSelector
+        ? scope.frame.locator(containerSelector).first()
+        : scope.frame.locator('body');
       const selectors = 'button, a, [role="button"], [onclick], input[type="submit"], [tabindex="0"]';
 
-      root.querySelectorAll(selectors).forEach((el: Element) => {
-        const rect = el.getBoundingClientRect();
-        if (rect.width === 0 || rect.height === 0) return; // 보이지 않는 요소 제외
-
-        const htmlEl = el as HTMLElement;
-        elements.push({
-          tag: el.tagName.toLowerCase(),
-          text: (el.textContent || '').trim().slice(0, 100),
-          role: el.getAttribute('role'),
-          ariaLabel: el.getAttribute('aria-label'),
-          testId: el.getAttribute('data-test-id') || el.getAttribute('data-testid'),
-          className: el.className.toString().slice(0, 200),
-          id: el.id || null,
+      const clickables = await root.locator(selectors).evaluateAll(elements => {
+        const found: any[] = [];
+
+        elements.forEach((el: Element) => {
+          const rect = el.getBoundingClientRect();
+          if (rect.width === 0 || rect.height === 0) return; // 보이지 않는 요소 제외
+
+          found.push({
+            tag: el.tagName.toLowerCase(),
+            text: (el.textContent || '').trim().slice(0, 100),
+            role: el.getAttribute('role'),
+            ariaLabel: el.getAttribute('aria-label'),
+            testId: el.getAttribute('data-test-id') || el.getAttribute('data-testid'),
+            className: el.className.toString().slice(0, 200),
+            id: el.id || null,
+          });
         });
+
+        return found;
       });
 
-      return elements;
-    }, containerSelector);
+      results.push(...this.inFrame(clickables, scope.path).map(el => ({
+        ...el,
+        suggestedSelectors: this.generateSelectors(el, scope.path)
+      })));
+    }
 
-    return clickables.map(el => ({
-      ...el,
-      suggestedSelectors: this.generateSelectors(el)
-    }));
+    return results;
   }
 
   /**
    * 테이블 행 요소들을 탐색
    */
   async exploreTableRows(): Promise<ElementInfo[]> {
-    return this.page.evaluate(() => {
-      const rows: any[] = [];
-
-      // 일반 테이블 행
-      document.querySelectorAll('tr, [role="row"]').forEach((row, index) => {
-        const text = (row.textContent || '').trim().slice(0, 200);
-        if (text) {
-          rows.push({
-            tag: row.tagName.toLowerCase(),
-            text,
-            role: row.getAttribute('role'),
-            ariaLabel: row.getAttribute('aria-label'),
-            testId: row.getAttribute('data-test-id'),
-            className: row.className.toString(),
-            id: row.id || null,
-            index
-          });
-        }
+    const results: ElementInfo[] = [];
+
+    for (const scope of await collectFrameScopes(this.page)) {
+      const rows = await scope.frame.locator('tr, [role="row"]').evaluateAll(elements => {
+        const found: any[] = [];
+
+        // 일반 테이블 행
+        elements.forEach((row, index) => {
+          const text = (row.textContent || '').trim().slice(0, 200);
+          if (text) {
+            found.push({
+              tag: row.tagName.toLowerCase(),
+              text,
+              role: row.getAttribute('role'),
+              ariaLabel: row.getAttribute('aria-label'),
+              testId: row.getAttribute('data-test-id'),
+              className: row.className.toString(),
+              id: row.id || null,
+              index
+            });
+          }
+        });
+
+        return found;
       });
 
-      return rows;
-    });
+      results.push(...this.inFrame(rows, scope.path));
+    }
+
+    return results;
   }
 
   /**
    * 모달/다이얼로그 탐색
    */
   async exploreModals(): Promise<ElementInfo[]> {
-    return this.page.evaluate(() => {
-      const modals: any[] = [];
-      const selectors = '[role="dialog"], [role="alertdialog"], [class*="modal"], [class*="Modal"], [class*="dialog"], [class*="Dialog"]';
-
-      document.querySelectorAll(selectors).forEach((modal) => {
-        const rect = (modal as HTMLElement).getBoundingClientRect();
-        if (rect.width === 0) return;
-
-        modals.push({
-          tag: modal.tagName.toLowerCase(),
-          text: (modal.textContent || '').trim().slice(0, 500),
-          role: modal.getAttribute('role'),
-          ariaLabel: modal.getAttribute('aria-label'),
-          testId: modal.getAttribute('data-test-id'),
-          className: modal.className.toString(),
-          id: modal.id || null,
+    const results: ElementInfo[] = [];
+    const selectors = '[role="dialog"], [role="alertdialog"], [class*="modal"], [class*="Modal"], [class*="dialog"], [class*="Dialog"]';
+
+    for (const scope of await collectFrameScopes(this.page)) {
+      const modals = await scope.frame.locator(selectors).evaluateAll(elements => {
+        const found: any[] = [];
+
+        elements.forEach((modal) => {
+          const rect = (modal as HTMLElement).getBoundingClientRect();
+          if (rect.width === 0) return;
+
+          found.push({
+            tag: modal.tagName.toLowerCase(),
+            text: (modal.textContent || '').trim().slice(0, 500),
+            role: modal.getAttribute('role'),
+            ariaLabel: modal.getAttribute('aria-label'),
+            testId: modal.getAttribute('data-test-id'),
+            className: modal.className.toString(),
+            id: modal.id || null,
+          });
         });
+
+        return found;
       });
 
-      return modals;
-    });
+      results.push(...this.inFrame(modals, scope.path));
+    }
+
+    return results;
   }
 
   /**
    * 입력 필드 탐색
    */
   async exploreInputs(): Promise<ElementInfo[]> {
-    return this.page.evaluate(() => {
-      const inputs: any[] = [];
-
-      document.querySelectorAll('input, textarea, select, [contenteditable="true"]').forEach((input) => {
-        const el = input as HTMLInputElement;
-        inputs.push({
-          tag: input.tagName.toLowerCase(),
-          text: el.placeholder || el.value || '',
-          role: input.getAttribute('role'),
-          ariaLabel: input.getAttribute('aria-label'),
-          testId: input.getAttribute('data-test-id'),
-          className: input.className.toString(),
-          id: input.id || null,
-          type: el.type || null,
-          name: el.name || null,
+    const results: ElementInfo[] = [];
+
+    for (const scope of await collectFrameScopes(this.page)) {
+      const inputs = await scope.frame.locator('input, textarea, select, [contenteditable="true"]').evaluateAll(elements => {
+        const found: any[] = [];
+
+        elements.forEach((input) => {
+          const el = input as HTMLInputElement;
+          found.push({
+            tag: input.tagName.toLowerCase(),
+            text: el.placeholder || el.value || '',
+            role: input.getAttribute('role'),
+            ariaLabel: input.getAttribute('aria-label'),
+            testId: input.getAttribute('data-test-id'),
+            className: input.className.toString(),
+            id: input.id || null,
+            type: el.type || null,
+            name: el.name || null,
+          });
         });
+
+        return found;
       });
 
-      return inputs;
-    });
+      results.push(...this.inFrame(inputs, scope.path));
+    }
+
+    return results;
   }
 
   /**
@@ -192,47 +221,56 @@ export class DOMExplorer {
     const jsonPath = path.join(jsonDir, `${name}-${Date.now()}.json`);
     fs.writeFileSync(jsonPath, JSON.stringify(result, null, 2));
 
-    console.log(`[Explorer] 탐색 완료: ${result.elements.length}개 요소 발견`);
-    console.log(`[Explorer] 스크린샷: ${screenshotPath}`);
-    console.log(`[Explorer] JSON: ${jsonPath}`);
+    logger.info(`탐색 완료: ${result.elements.length}개 요소 발견`);
+    logger.info(`스크린샷: ${screenshotPath}`);
+    logger.info(`JSON: ${jsonPath}`);
 
     return result;
   }
 
   /**
    * 요소 정보로부터 가능한 셀렉터들을 생성
+   * (iframe 내부 요소는 프레임 경로가 붙은 셀렉터와 page.frameLocator(...) 코드)
    */
-  private generateSelectors(el: Partial<ElementInfo>): string[] {
+  private generateSelectors(el: Partial<ElementInfo>, framePath: string[] = []): string[] {
     const selectors: string[] = [];
+    const scope = `page${framePath.map(frameSelector => `.frameLocator('${frameSelector}')`).join('')}`;
 
     // data-test-id (최우선)
     if (el.testId) {
-      selectors.push(`[data-test-id="${el.testId}"]`);
-      selectors.push(`page.locator('[data-test-id="${el.testId}"]')`);
+      selectors.push(qualifySelector(framePath, `[data-test-id="${el.testId}"]`));
+      selectors.push(`${scope}.locator('[data-test-id="${el.testId}"]')`);
     }
 
     // role + name
     if (el.role && el.ariaLabel) {
-      selectors.push(`page.getByRole('${el.role}', { name: '${el.ariaLabel}' })`);
+      selectors.push(`${scope}.getByRole('${el.role}', { name: '${el.ariaLabel}' })`);
     } else if (el.role && el.text) {
       const shortText = el.text.slice(0, 30);
-      selectors.push(`page.getByRole('${el.role}', { name: /${shortText}/ })`);
+      selectors.push(`${scope}.getByRole('${el.role}', { name: /${shortText}/ })`);
     }
 
     // text
     if (el.text && el.text.length < 50) {
-      selectors.push(`page.getByText('${el.text}', { exact: true })`);
+      selectors.push(`${scope}.getByText('${el.text}', { exact: true })`);
     }
 
     // id
     if (el.id) {
-      selectors.push(`#${el.id}`);
-      selectors.push(`page.locator('#${el.id}')`);
+      selectors.push(qualifySelector(framePath, `#${el.id}`));
+      selectors.push(`${scope}.locator('#${el.id}')`);
     }
 
     return selectors;
   }
 
+  /**
+   * iframe 내부 요소에 프레임 경로 표시
+   */
+  private inFrame<T extends object>(elements: T[], framePath: string[]): T[] {
+    return framePath.length > 0 ? elements.map(el => ({ ...el, framePath })) : elements;
+  }
+
   /**
    * 특정 텍스트를 포함한 요소 찾기
    */
@@ -0,0 +1,195 @@
+import * as path from 'path';
+import type * as TypeScript from 'typescript';
+import type { FlowRecord, FlowStep } from './flow-recorder';
+import { isLocatorExpression } from './locator-expression';
+import { toStringLiteral, toRegexLiteral } from '../analyzer/selector-generator';
+
+/**
+ * 코드 생성 옵션
+ */
+export interface CodeEmitterOptions {
+  useTestSteps?: boolean;    // 각 스텝을 test.step()으로 묶기 (기본: false)
+  indent?: string;           // 들여쓰기 단위 (기본: 공백 2칸)
+  typeCheck?: boolean;       // 생성 후 타입 체크, 오류가 있으면 예외 (기본: false)
+}
+
+/**
+ * 생성 코드 타입 체크 결과
+ */
+export interface CodeCheckResult {
+  valid: boolean;
+  errors: string[];          // "줄:열 메시지" 형식
+}
+
+/**
+ * 셀렉터 → 로케이터 코드
+ *
+ * - getByRole(...) / page.getByText(...) 등 로케이터 표현식: 그대로 사용 (page. 보완)
+ * - 그 외 (CSS, text=, role=, xpath= 등 셀렉터 엔진): page.locator('...')
+ */
+export function toLocatorCode(selector: string): string {
+  const trimmed = selector.trim();
+  if (isLocatorExpression(trimmed)) {
+    return trimmed.startsWith('page.') ? trimmed : `page.${trimmed}`;
+  }
+  return `page.locator(${toStringLiteral(trimmed)})`;
+}
+
+/**
+ * 기록 시 가린 입력값(masked 스텝)을 전달하는 환경 변수 이름
+ */
+export function maskedValueEnv(step: Pick<FlowStep, 'order'>): string {
+  return `FLOW_STEP_${step.order}_VALUE`;
+}
+
+/**
+ * FlowRecord → Playwright 테스트 코드
+ *
+ * 스텝별 변환:
+ * | 액션 | 코드 |
+ * |------|------|
+ * | navigate | page.goto(target) |
+ * | click / fill | locator.click() / locator.fill(value) (masked는 process.env.FLOW_STEP_<순서>_VALUE) |
+ * | select | locator.selectOption(value) |
+ * | wait | selector 표시 대기 → target URL 대기 → 네트워크 안정화 (waitForTimeout 사용 안 함) |
+ * | assert | toBeVisible (value가 있으면 toContainText) |
+ * | custom | value를 코드로 그대로 삽입 (없으면 주석) |
+ */
+export function emitFlowTest(flow: FlowRecord, options: CodeEmitterOptions = {}): string {
+  const unit = options.indent ?? '  ';
+  const lines: string[] = [
+    `import { test, expect } from '@playwright/test';`,
+    ``,
+    `// 플로우: ${oneLine(flow.name)}`
+  ];
+  if (flow.description) lines.push(`// ${oneLine(flow.description)}`);
+  lines.push(`// 생성일: ${flow.createdAt}`, ``);
+
+  lines.push(`test(${toStringLiteral(flow.name)}, async ({ page }) => {`);
+
+  flow.steps.forEach((step, index) => {
+    const code = stepToCode(step);
+    const title = `Step ${step.order}: ${oneLine(step.description)}`;
+
+    if (options.useTestSteps) {
+      lines.push(`${unit}await test.step(${toStringLiteral(title)}, async () => {`);
+      lines.push(...code.map(line => `${unit}${unit}${line}`));
+      lines.push(`${unit}});`);
+    } else {
+      lines.push(`${unit}// ${title}`);
+      lines.push(...code.map(line => `${unit}${line}`));
+    }
+    if (index < flow.steps.length - 1) lines.push('');
+  });
+
+  lines.push(`});`, ``);
+  const source = lines.join('\n');
+
+  if (options.typeCheck) {
+    const check = typeCheckTestCode(source);
+    if (!check.valid) {
+      throw new Error(`생성된 테스트 코드 타입 오류 (${flow.name}):\n${check.errors.join('\n')}`);
+    }
+  }
+
+  return source;
+}
+
+/**
+ * 스텝 → 코드 줄
+ */
+function stepToCode(step: FlowStep): string[] {
+  const target = step.selector ? toLocatorCode(step.selector) : undefined;
+
+  switch (step.action) {
+    case 'navigate':
+      return step.target
+        ? [`await page.goto(${toStringLiteral(step.target)});`]
+        : [`// 이동할 URL이 기록되지 않음`];
+
+    case 'click':
+      return target ? [`await ${target}.click();`] : [`// 클릭 대상이 기록되지 않음`];
+
+    case 'fill':
+      if (!target) return [`// 입력 대상이 기록되지 않음`];
+      if (step.masked) {
+        const env = maskedValueEnv(step);
+        return [
+          `if (!process.env.${env}) throw new Error('환경 변수 ${env}가 필요합니다 (기록 시 가린 입력값)');`,
+          `await ${target}.fill(process.env.${env});`
+        ];
+      }
+      return [`await ${target}.fill(${toStringLiteral(step.value ?? '')});`];
+
+    case 'select':
+      return target
+        ? [`await ${target}.selectOption(${toStringLiteral(step.value ?? '')});`]
+        : [`// 선택 대상이 기록되지 않음`];
+
+    case 'wait':
+      if (target) return [`await expect(${target}).toBeVisible();`];
+      if (step.target) return [`await expect(page).toHaveURL(${toRegexLiteral(step.target)});`];
+      return [`await page.waitForLoadState('networkidle');`];
+
+    case 'assert':
+      if (!target) return [`// 검증 대상이 기록되지 않음`];
+      return step.value
+        ? [`await expect(${target}).toContainText(${toStringLiteral(step.value)});`]
+        : [`await expect(${target}).toBeVisible();`];
+
+    case 'custom':
+      return step.value
+        ? step.value.split('\n').map(line => line.trimEnd())
+        : [`// 수동 단계: ${oneLine(step.description)}`];
+
+    default:
+      return [`// 지원하지 않는 액션: ${step.action}`];
+  }
+}
+
+/**
+ * 생성 코드 타입 체크 (메모리상 파일, @playwright/test 타입은 baseDir의 node_modules 기준)
+ */
+export function typeCheckTestCode(code: string, baseDir: string = process.cwd()): CodeCheckResult {
+  // typescript는 타입 체크할 때만 로드 (라이브러리 import 비용 절약)
+  const ts: typeof TypeScript = require('typescript');
+  const fileName = path.resolve(baseDir, '__generated__.spec.ts');
+  const compilerOptions: TypeScript.CompilerOptions = {
+    noEmit: true,
+    strict: true,
+    target: ts.ScriptTarget.ES2020,
+    module: ts.ModuleKind.CommonJS,
+    moduleResolution: ts.ModuleResolutionKind.Node10,
+    skipLibCheck: true,
+    typeRoots: [path.resolve(baseDir, 'node_modules', '@types')],
+    types: ['node']   // 생성 코드의 process.env (masked 입력값)
+  };
+
+  const host = ts.createCompilerHost(compilerOptions);
+  const getSourceFile = host.getSourceFile.bind(host);
+  const fileExists = host.fileExists.bind(host);
+  const readFile = host.readFile.bind(host);
+
+  host.getSourceFile = (name, languageVersion, ...rest) =>
+    path.resolve(name) === fileName
+      ? ts.createSourceFile(name, code, languageVersion, true)
+      : getSourceFile(name, languageVersion, ...rest);
+  host.fileExists = (name) => path.resolve(name) === fileName || fileExists(name);
+  host.readFile = (name) => path.resolve(name) === fileName ? code : readFile(name);
+
+  const program = ts.createProgram([fileName], compilerOptions, host);
+  const errors = ts.getPreEmitDiagnostics(program)
+    .filter(d => d.category === ts.DiagnosticCategory.Error)
+    .map(d => {
+      const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+      if (!d.file || d.start === undefined) return message;
+      const { line, character } = d.file.getLineAndCharacterOfPosition(d.start);
+      return `${line + 1}:${character + 1} ${message}`;
+    });
+
+  return { valid: errors.length === 0, errors };
+}
+
+function oneLine(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,316 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FlowRecord, FlowStep } from './flow-recorder';
+import type { FlowPlaybackResult } from './flow-player';
+import { compareImages, ImageDiffOptions } from '../visual/image-diff';
+import { VisualBaselineStore, flowStepKey } from '../visual/baseline-store';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('FlowDiff');
+
+// 스크린샷 기본 허용치 (안티앨리어싱 외 다른 픽셀 0.1%까지)
+const DEFAULT_SCREENSHOT_TOLERANCE: ImageDiffOptions = { maxDiffRatio: 0.001 };
+
+/**
+ * 플로우 변경 유형
+ */
+export type FlowChangeType =
+  | 'added'                 // head에만 있는 스텝
+  | 'removed'               // base에만 있는 스텝
+  | 'selector'              // 셀렉터 변경 (재생 시 복구로 대체된 셀렉터 포함)
+  | 'value'                 // 입력/검증 값 변경
+  | 'target'                // URL 변경
+  | 'screenshot'            // 스크린샷 내용 변경
+  | 'failed'                // 재생 실패
+  | 'not-reached';          // 이전 실패로 재생되지 않음
+
+/**
+ * 스텝 단위 변경
+ */
+export interface FlowStepChange {
+  type: FlowChangeType;
+  description: string;
+  baseOrder?: number;
+  headOrder?: number;
+  before?: string;
+  after?: string;
+}
+
+/**
+ * 플로우 비교 옵션
+ */
+export interface FlowDiffOptions {
+  compareValues?: boolean;         // 값 비교 (기본: true, 시드 없는 랜덤 입력이면 false)
+  compareScreenshots?: boolean;    // 스크린샷 이미지 비교 (기본: true)
+  screenshotTolerance?: Omit<ImageDiffOptions, 'diffPath'>; // 스크린샷 허용치/마스크 (기본: 다른 픽셀 0.1%까지)
+  visualBaselines?: VisualBaselineStore; // 저장소 허용치와 기준 이미지 마스크 영역으로 비교 (screenshotTolerance 대신)
+  context?: Record<string, string>; // 보고서에 표시할 실행 환경 (baseURL, 브랜치 등)
+}
+
+/**
+ * 플로우 비교 결과 (JSON 보고서)
+ */
+export interface FlowDiff {
+  base: { name: string; createdAt: string; steps: number };
+  head: { name: string; createdAt: string; steps: number };
+  identical: boolean;
+  summary: Partial<Record<FlowChangeType, number>>;
+  changes: FlowStepChange[];
+  context?: Record<string, string>;
+  generatedAt: string;
+}
+
+/**
+ * 두 FlowRecord 비교
+ *
+ * 스텝 정렬: 액션이 같고 설명 또는 셀렉터가 같은 스텝을 최장 공통 부분열(LCS)로 매칭
+ * → 매칭된 스텝은 셀렉터/값/URL/스크린샷 비교, 나머지는 추가/삭제 (액션이 바뀐 스텝도 삭제 + 추가)
+ *
+ * 사용법:
+ * ```typescript
+ * const diff = diffFlows(recorder.loadFlow('회원가입')!, newFlow, { context: { baseURL } });
+ * writeFlowDiffReport(diff, 'flow-records/diffs');
+ * ```
+ */
+export function diffFlows(base: FlowRecord, head: FlowRecord, options: FlowDiffOptions = {}): FlowDiff {
+  const changes: FlowStepChange[] = [];
+
+  for (const [baseStep, headStep] of alignSteps(base.steps, head.steps)) {
+    if (!headStep) {
+      changes.push({ type: 'removed', description: baseStep!.description, baseOrder: baseStep!.order, before: describeStep(baseStep!) });
+      continue;
+    }
+    if (!baseStep) {
+      changes.push({ type: 'added', description: headStep.description, headOrder: headStep.order, after: describeStep(headStep) });
+      continue;
+    }
+    changes.push(...compareSteps(base.name, baseStep, headStep, options));
+  }
+
+  return buildDiff(base, head, changes, options);
+}
+
+/**
+ * FlowRecord와 FlowPlayer 재생 결과 비교
+ * (재생 실패, 복구로 바뀐 셀렉터, 기록 당시와 다른 스크린샷)
+ */
+export function diffFlowWithPlayback(
+  record: FlowRecord,
+  playback: FlowPlaybackResult,
+  options: FlowDiffOptions = {}
+): FlowDiff {
+  const changes: FlowStepChange[] = [];
+  const results = new Map(playback.steps.map(step => [step.order, step]));
+  let failedBefore = false;
+
+  for (const step of record.steps) {
+    const result = results.get(step.order);
+    const base = { description: step.description, baseOrder: step.order, headOrder: step.order };
+
+    if (!result) {
+      changes.push({ ...base, type: 'removed', headOrder: undefined, before: describeStep(step) });
+      continue;
+    }
+    if (result.status === 'failed') {
+      changes.push({ ...base, type: 'failed', before: describeStep(step), after: result.error });
+      failedBefore = true;
+      continue;
+    }
+    if (result.status === 'skipped' && failedBefore) {
+      changes.push({ ...base, type: 'not-reached' });
+      continue;
+    }
+    if (result.recovery) {
+      changes.push({ ...base, type: 'selector', before: step.selector, after: `${result.selector} (복구: ${result.recovery})` });
+    }
+    if (options.compareScreenshots !== false && screenshotsDiffer(record.name, step.order, step.screenshot, result.screenshot, options)) {
+      changes.push({ ...base, type: 'screenshot', before: step.screenshot, after: result.screenshot });
+    }
+  }
+
+  const head = {
+    name: playback.flow,
+    createdAt: new Date().toISOString(),
+    steps: playback.steps.length
+  };
+  return buildDiff(record, head, changes, options);
+}
+
+/**
+ * 비교 결과 → Markdown 보고서
+ */
+export function formatFlowDiff(diff: FlowDiff): string {
+  const lines = [
+    `# 플로우 변경 보고서: ${diff.base.name}`,
+    ``,
+    `- **기준**: ${diff.base.name} (${diff.base.createdAt}, ${diff.base.steps} 스텝)`,
+    `- **비교**: ${diff.head.name} (${diff.head.createdAt}, ${diff.head.steps} 스텝)`,
+    `- **결과**: ${diff.identical ? '✅ 변경 없음' : `⚠️ ${diff.changes.length}건 변경`}`,
+    `- **생성일**: ${diff.generatedAt}`
+  ];
+
+  if (diff.context && Object.keys(diff.context).length > 0) {
+    lines.push(``, `## 실행 환경`, ``);
+    for (const [key, value] of Object.entries(diff.context)) {
+      lines.push(`- **${key}**: ${value}`);
+    }
+  }
+
+  if (diff.identical) return lines.join('\n') + '\n';
+
+  lines.push(``, `## 요약`, ``, `| 유형 | 건수 |`, `|------|------|`);
+  for (const [type, count] of Object.entries(diff.summary)) {
+    lines.push(`| ${CHANGE_LABELS[type as FlowChangeType]} | ${count} |`);
+  }
+
+  lines.push(``, `## 변경 내역`, ``, `| 기준 | 비교 | 유형 | 스텝 | 이전 | 이후 |`, `|------|------|------|------|------|------|`);
+  for (const change of diff.changes) {
+    lines.push(`| ${change.baseOrder ?? '-'} | ${change.headOrder ?? '-'} | ${CHANGE_LABELS[change.type]} | ${cell(change.description)} | ${cell(change.before)} | ${cell(change.after)} |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Markdown + JSON 보고서 저장 (<dir>/<플로우 이름>.diff.md / .diff.json)
+ */
+export function writeFlowDiffReport(diff: FlowDiff, outputDir: string): { markdownPath: string; jsonPath: string } {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const fileName = diff.base.name.replace(/[\\/:*?"<>|]/g, '-');
+  const markdownPath = path.join(outputDir, `${fileName}.diff.md`);
+  const jsonPath = path.join(outputDir, `${fileName}.diff.json`);
+
+  fs.writeFileSync(markdownPath, formatFlowDiff(diff), 'utf-8');
+  fs.writeFileSync(jsonPath, JSON.stringify(diff, null, 2), 'utf-8');
+
+  logger.info(`보고서 저장: ${markdownPath} (${diff.changes.length}건 변경)`);
+  return { markdownPath, jsonPath };
+}
+
+const CHANGE_LABELS: Record<FlowChangeType, string> = {
+  added: '스텝 추가',
+  removed: '스텝 삭제',
+  selector: '셀렉터 변경',
+  value: '값 변경',
+  target: 'URL 변경',
+  screenshot: '스크린샷 변경',
+  failed: '재생 실패',
+  'not-reached': '미실행'
+};
+
+/**
+ * 매칭된 스텝 비교
+ */
+function compareSteps(flowName: string, base: FlowStep, head: FlowStep, options: FlowDiffOptions): FlowStepChange[] {
+  const changes: FlowStepChange[] = [];
+  const common = { description: head.description, baseOrder: base.order, headOrder: head.order };
+
+  if ((base.selector ?? '') !== (head.selector ?? '')) {
+    changes.push({ ...common, type: 'selector', before: base.selector, after: head.selector });
+  }
+  if (options.compareValues !== false && (base.value ?? '') !== (head.value ?? '')) {
+    changes.push({ ...common, type: 'value', before: base.value, after: head.value });
+  }
+  if ((base.target ?? '') !== (head.target ?? '')) {
+    changes.push({ ...common, type: 'target', before: base.target, after: head.target });
+  }
+  if (options.compareScreenshots !== false && screenshotsDiffer(flowName, base.order, base.screenshot, head.screenshot, options)) {
+    changes.push({ ...common, type: 'screenshot', before: base.screenshot, after: head.screenshot });
+  }
+
+  return changes;
+}
+
+/**
+ * LCS 스텝 정렬 - [base, head] 쌍 (한쪽이 없으면 추가/삭제)
+ */
+function alignSteps(base: FlowStep[], head: FlowStep[]): Array<[FlowStep | undefined, FlowStep | undefined]> {
+  const same = (a: FlowStep, b: FlowStep) =>
+    a.action === b.action && (a.description === b.description || (!!a.selector && a.selector === b.selector));
+
+  const table: number[][] = Array.from({ length: base.length + 1 }, () => new Array(head.length + 1).fill(0));
+  for (let i = base.length - 1; i >= 0; i--) {
+    for (let j = head.length - 1; j >= 0; j--) {
+      table[i][j] = same(base[i], head[j])
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const pairs: Array<[FlowStep | undefined, FlowStep | undefined]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < base.length && j < head.length) {
+    if (same(base[i], head[j])) {
+      pairs.push([base[i++], head[j++]]);
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      pairs.push([base[i++], undefined]);
+    } else {
+      pairs.push([undefined, head[j++]]);
+    }
+  }
+  while (i < base.length) pairs.push([base[i++], undefined]);
+  while (j < head.length) pairs.push([undefined, head[j++]]);
+
+  return pairs;
+}
+
+/**
+ * 스크린샷 비교 (둘 다 있을 때만)
+ * 허용치 안의 픽셀 차이와 마스크 영역(동적 영역)은 변경으로 보지 않음, PNG가 아니면 파일 내용 비교
+ */
+function screenshotsDiffer(
+  flowName: string,
+  order: number,
+  before: string | undefined,
+  after: string | undefined,
+  options: FlowDiffOptions
+): boolean {
+  if (!before || !after || !fs.existsSync(before) || !fs.existsSync(after)) return false;
+
+  try {
+    const diff = options.visualBaselines
+      ? options.visualBaselines.compare(flowStepKey(flowName, order), before, after)
+      : compareImages(before, after, options.screenshotTolerance ?? DEFAULT_SCREENSHOT_TOLERANCE);
+    return !diff.match;
+  } catch {
+    logger.debug(`PNG 비교 불가, 파일 내용 비교: ${before}`);
+    return !fs.readFileSync(before).equals(fs.readFileSync(after));
+  }
+}
+
+function buildDiff(
+  base: FlowRecord,
+  head: { name: string; createdAt: string; steps: FlowStep[] | number },
+  changes: FlowStepChange[],
+  options: FlowDiffOptions
+): FlowDiff {
+  const summary: Partial<Record<FlowChangeType, number>> = {};
+  for (const change of changes) {
+    summary[change.type] = (summary[change.type] ?? 0) + 1;
+  }
+
+  return {
+    base: { name: base.name, createdAt: base.createdAt, steps: base.steps.length },
+    head: {
+      name: head.name,
+      createdAt: head.createdAt,
+      steps: typeof head.steps === 'number' ? head.steps : head.steps.length
+    },
+    identical: changes.length === 0,
+    summary,
+    changes,
+    context: options.context,
+    generatedAt: new Date().toISOString()
+  };
+}
+
+function describeStep(step: FlowStep): string {
+  const detail = step.selector ?? step.target ?? '';
+  return detail ? `${step.action} ${detail}` : step.action;
+}
+
+function cell(text?: string): string {
+  if (!text) return '';
+  return `\`${text.replace(/\s+/g, ' ').replace(/\|/g, '\\|').replace(/`/g, "'")}\``;
+}
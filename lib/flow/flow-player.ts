@@ -0,0 +1,461 @@
+import { Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { FlowRecord, FlowStep } from './flow-recorder';
+import { toPlaywrightSelector, parseStringLiteral } from './locator-expression';
+import { maskedValueEnv } from './code-emitter';
+import { InteractionHandler } from '../analyzer/interaction-handler';
+import { WaitStrategy } from '../analyzer/wait-strategy';
+import { ErrorRecovery } from '../analyzer/error-recovery';
+import type { SelectorRepository } from '../analyzer/selector-repository';
+import { VisualBaselineStore, VisualCheckResult, flowStepKey } from '../visual/baseline-store';
+import { createLogger } from '../utils/logger';
+import { qaEvents } from '../utils/event-bus';
+
+const logger = createLogger('FlowPlayer');
+
+/**
+ * 플로우 재생 옵션
+ */
+export interface FlowPlayerOptions {
+  outputDir?: string;                    // 플로우 JSON/스크린샷 기준 폴더 (기본: ./flow-records)
+  stepTimeout?: number;                  // 스텝별 타임아웃 ms (기본: 10000)
+  screenshots?: 'all' | 'failure' | 'none'; // 스크린샷 시점 (기본: all)
+  stopOnFailure?: boolean;               // 실패 시 남은 스텝 건너뛰기 (기본: true)
+  recovery?: boolean;                    // 실패 시 ErrorRecovery 후 한 번 재시도 (기본: true)
+  typeDelay?: number;                    // 입력 타이핑 지연 ms (기본: 30)
+  screenshotMask?: string[];             // 스크린샷에서 가릴 동적 영역 셀렉터
+  visualBaselines?: VisualBaselineStore; // 스텝 스크린샷을 기준 이미지와 비교 (회귀 시 재생 실패)
+  selectorRepository?: SelectorRepository; // 복구 시 등록된 셀렉터는 저장된 요소 지문으로 먼저 복구
+  valueOverrides?: Record<number, string>; // 스텝 순서별 입력값 (masked 스텝은 이 값 또는 FLOW_STEP_<순서>_VALUE 환경 변수 필수)
+}
+
+/**
+ * 스텝 재생 결과
+ */
+export interface FlowStepResult {
+  order: number;
+  action: FlowStep['action'];
+  description: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  selector?: string;                     // 실제 사용한 셀렉터 (복구 시 대체 셀렉터)
+  error?: string;
+  recovery?: string;                     // 복구에 성공한 전략
+  screenshot?: string;
+  visual?: VisualCheckResult;            // 시각 비교 판정 (visualBaselines 사용 시)
+}
+
+/**
+ * 플로우 재생 결과
+ */
+export interface FlowPlaybackResult {
+  flow: string;
+  success: boolean;
+  passed: number;
+  failed: number;
+  skipped: number;
+  visualFailed: number;                  // 시각 회귀 스텝 수
+  duration: number;
+  steps: FlowStepResult[];
+}
+
+// FlowRecorder가 기록하는 대화상자 핸들러 코드
+const DIALOG_HANDLER = /^page\.once\('dialog', dialog => dialog\.(accept|dismiss)\((.*)\)\);?$/;
+
+/**
+ * FlowPlayer - 저장된 FlowRecord를 코드 생성 없이 바로 실행
+ *
+ * | 액션 | 실행 |
+ * |------|------|
+ * | navigate | page.goto + DOM/네트워크 안정화 대기 |
+ * | click | InteractionHandler.clickButton |
+ * | fill | InteractionHandler.handleTextInput (masked는 valueOverrides/환경 변수 값, 없으면 실패) |
+ * | select | native select는 selectOption, 그 외 handleDropdown |
+ * | wait | 요소 표시 / URL 이동 / DOM·네트워크 안정화 (고정 대기 없음) |
+ * | assert | 요소 표시 (value가 있으면 텍스트 포함) |
+ * | custom | 대화상자 핸들러만 실행, 그 외 코드는 건너뜀 |
+ *
+ * 사용법:
+ * ```typescript
+ * const player = new FlowPlayer(page);
+ * const result = await player.play('회원가입');   // flow-records/flows/회원가입.json
+ * expect(result.success).toBe(true);
+ * ```
+ */
+export class FlowPlayer {
+  private page: Page;
+  private options: Required<Omit<FlowPlayerOptions, 'visualBaselines' | 'selectorRepository'>>;
+  private visualBaselines?: VisualBaselineStore;
+  private interactionHandler: InteractionHandler;
+  private waitStrategy: WaitStrategy;
+  private errorRecovery: ErrorRecovery;
+
+  constructor(page: Page, options: FlowPlayerOptions = {}) {
+    this.page = page;
+    this.options = {
+      outputDir: options.outputDir ?? './flow-records',
+      stepTimeout: options.stepTimeout ?? 10000,
+      screenshots: options.screenshots ?? 'all',
+      stopOnFailure: options.stopOnFailure ?? true,
+      recovery: options.recovery ?? true,
+      typeDelay: options.typeDelay ?? 30,
+      screenshotMask: options.screenshotMask ?? [],
+      valueOverrides: options.valueOverrides ?? {}
+    };
+    this.visualBaselines = options.visualBaselines;
+    this.interactionHandler = new InteractionHandler(page, { timeout: this.options.stepTimeout });
+    this.waitStrategy = new WaitStrategy(page, this.options.stepTimeout);
+    this.errorRecovery = new ErrorRecovery(page, {
+      maxRetries: 1,
+      timeout: this.options.stepTimeout,
+      selectorRepository: options.selectorRepository
+    });
+  }
+
+  /**
+   * 플로우 재생 (FlowRecord, 플로우 이름 또는 JSON 파일 경로)
+   */
+  async play(flowOrName: FlowRecord | string): Promise<FlowPlaybackResult> {
+    const flow = typeof flowOrName === 'string' ? this.loadFlow(flowOrName) : flowOrName;
+    const startTime = Date.now();
+    const results: FlowStepResult[] = [];
+    let failed = false;
+
+    logger.info(`재생 시작: ${flow.name} (${flow.steps.length} 스텝)`);
+
+    for (const step of flow.steps) {
+      if (failed && this.options.stopOnFailure) {
+        results.push({
+          order: step.order,
+          action: step.action,
+          description: step.description,
+          status: 'skipped',
+          duration: 0,
+          error: '이전 스텝 실패'
+        });
+        continue;
+      }
+
+      const event = { source: 'FlowPlayer' as const, step: step.order, action: step.action, description: step.description, selector: step.selector };
+      qaEvents.emit('stepStarted', event);
+      const result = await this.playStep(flow, step);
+      results.push(result);
+      qaEvents.emit('actionExecuted', {
+        ...event,
+        selector: result.selector ?? step.selector,
+        success: result.status !== 'failed',
+        duration: result.duration,
+        error: result.error
+      });
+
+      const mark = result.status === 'passed' ? '✓' : result.status === 'skipped' ? '-' : '✗';
+      const message = `${mark} Step ${step.order}: ${step.description}${result.error ? ` (${result.error})` : ''}`;
+      if (result.status === 'failed') {
+        logger.warn(message);
+      } else {
+        logger.info(message);
+      }
+      if (result.status === 'failed') failed = true;
+    }
+
+    const visualFailed = results.filter(r => r.visual?.verdict === 'fail').length;
+    const summary: FlowPlaybackResult = {
+      flow: flow.name,
+      success: !results.some(r => r.status === 'failed') && visualFailed === 0,
+      passed: results.filter(r => r.status === 'passed').length,
+      failed: results.filter(r => r.status === 'failed').length,
+      skipped: results.filter(r => r.status === 'skipped').length,
+      visualFailed,
+      duration: Date.now() - startTime,
+      steps: results
+    };
+
+    logger.info(`재생 완료: ${summary.passed} 통과, ${summary.failed} 실패, ${summary.skipped} 건너뜀` +
+      (this.visualBaselines ? `, 시각 회귀 ${visualFailed}` : ''));
+    qaEvents.emit('executionFinished', {
+      source: 'FlowPlayer',
+      name: flow.name,
+      success: summary.success,
+      steps: results.length,
+      duration: summary.duration,
+      error: results.find(r => r.status === 'failed')?.error
+    });
+    return summary;
+  }
+
+  /**
+   * 저장된 플로우 로드 (이름이면 outputDir/flows/<이름>.json)
+   */
+  loadFlow(nameOrPath: string): FlowRecord {
+    const filePath = nameOrPath.endsWith('.json')
+      ? nameOrPath
+      : path.join(this.options.outputDir, 'flows', `${nameOrPath}.json`);
+
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`플로우 파일을 찾을 수 없습니다: ${filePath}`);
+    }
+
+    const flow = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FlowRecord;
+    if (!Array.isArray(flow.steps)) {
+      throw new Error(`플로우 파일에 steps가 없습니다: ${filePath}`);
+    }
+    return flow;
+  }
+
+  /**
+   * 스텝 하나 실행 (실패 시 ErrorRecovery 후 재시도) + 스크린샷
+   */
+  private async playStep(flow: FlowRecord, step: FlowStep): Promise<FlowStepResult> {
+    const startTime = Date.now();
+    const result: FlowStepResult = {
+      order: step.order,
+      action: step.action,
+      description: step.description,
+      status: 'passed',
+      duration: 0
+    };
+
+    // masked 스텝에 실제 값이 없으면 실행/복구 없이 실패
+    const playable = this.applyValueOverride(step);
+    if (!playable) {
+      result.status = 'failed';
+      result.error = `기록 시 가린 입력값이 없습니다 - valueOverrides[${step.order}] 또는 환경 변수 ${maskedValueEnv(step)}로 전달하세요`;
+    } else {
+      await this.executeWithRecovery(playable, result);
+    }
+
+    result.duration = Date.now() - startTime;
+    result.screenshot = await this.captureScreenshot(flow, step, result.status);
+
+    // 통과한 스텝만 기준 이미지와 비교
+    if (this.visualBaselines && result.status === 'passed') {
+      const regions = await this.visualBaselines.resolveMaskRegions(this.page, this.options.screenshotMask).catch(() => []);
+      result.visual = this.visualBaselines.check(flowStepKey(flow.name, step.order), result.screenshot, regions);
+    }
+    return result;
+  }
+
+  /**
+   * 액션 실행 (실패 시 ErrorRecovery 후 한 번 재시도) - 결과를 result에 기록
+   */
+  private async executeWithRecovery(step: FlowStep, result: FlowStepResult) {
+    try {
+      result.selector = step.selector ? toPlaywrightSelector(step.selector) : undefined;
+      const outcome = await this.executeStep(step, result.selector);
+      if (outcome === 'skipped') {
+        result.status = 'skipped';
+        result.error = '실행할 수 없는 사용자 정의 코드';
+      }
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      result.status = 'failed';
+      result.error = err.message;
+
+      if (this.options.recovery && (result.selector !== undefined || step.action === 'navigate')) {
+        const recovery = await this.errorRecovery.attemptRecovery(err, {
+          selector: result.selector,
+          value: step.value,
+          operation: toRecoveryOperation(step.action)
+        });
+
+        if (recovery.success) {
+          try {
+            const selector = recovery.newSelector ?? result.selector;
+            await this.executeStep(step, selector);
+            result.status = 'passed';
+            result.error = undefined;
+            result.selector = selector;
+            result.recovery = recovery.strategy;
+          } catch (retryError) {
+            result.error = retryError instanceof Error ? retryError.message : String(retryError);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * 입력값 덮어쓰기 (valueOverrides → masked 스텝은 환경 변수, 둘 다 없으면 null)
+   */
+  private applyValueOverride(step: FlowStep): FlowStep | null {
+    const override = this.options.valueOverrides[step.order];
+    if (override !== undefined) return { ...step, value: override };
+    if (!step.masked) return step;
+
+    const value = process.env[maskedValueEnv(step)];
+    return value === undefined ? null : { ...step, value };
+  }
+
+  /**
+   * 액션 실행 (실패 시 예외)
+   */
+  private async executeStep(step: FlowStep, selector?: string): Promise<'done' | 'skipped'> {
+    const timeout = this.options.stepTimeout;
+
+    switch (step.action) {
+      case 'navigate':
+        if (!step.target) throw new Error('이동할 URL이 없습니다');
+        await this.page.goto(step.target, { timeout });
+        await this.waitStrategy.waitForStableState(timeout);
+        return 'done';
+
+      case 'click': {
+        const clicked = await this.interactionHandler.clickButton(
+          { selector: requireSelector(selector) },
+          { timeout, retries: 1 }
+        );
+        if (!clicked.success) throw new Error(clicked.error ?? '클릭 실패');
+        return 'done';
+      }
+
+      case 'fill': {
+        const filled = await this.interactionHandler.handleTextInput(
+          requireSelector(selector),
+          step.value ?? '',
+          { timeout, typeDelay: this.options.typeDelay }
+        );
+        if (!filled.success) throw new Error(filled.error ?? '입력 실패');
+        return 'done';
+      }
+
+      case 'select': {
+        const locator = this.page.locator(requireSelector(selector)).first();
+        await locator.waitFor({ state: 'visible', timeout });
+
+        // 기록된 값은 option value (native select는 value/label 모두 허용)
+        if (await locator.evaluate(el => el.tagName === 'SELECT')) {
+          await locator.selectOption(step.value ?? '', { timeout });
+        } else {
+          const selected = await this.interactionHandler.handleDropdown(requireSelector(selector), step.value ?? '', { timeout });
+          if (!selected.success) throw new Error(selected.error ?? '선택 실패');
+        }
+        await this.waitStrategy.waitForDomStable({ timeout: 2000 });
+        return 'done';
+      }
+
+      case 'wait':
+        if (selector) {
+          await this.page.locator(selector).first().waitFor({ state: 'visible', timeout });
+        } else if (step.target) {
+          const target = step.target;
+          await this.page.waitForURL(url => url.toString().includes(target), { timeout });
+        } else {
+          await this.waitStrategy.waitForStableState(timeout);
+        }
+        return 'done';
+
+      case 'assert': {
+        const locator = this.page.locator(requireSelector(selector)).first();
+        await locator.waitFor({ state: 'visible', timeout });
+        if (step.value) {
+          const expected = step.value;
+          const matched = await this.waitStrategy.waitForCondition(
+            async () => ((await locator.textContent()) ?? '').includes(expected),
+            { timeout, description: `텍스트 "${expected}" 포함` }
+          );
+          if (!matched.success) {
+            throw new Error(`텍스트 불일치: "${expected}" 없음 (실제: "${(await locator.textContent()) ?? ''}")`);
+          }
+        }
+        return 'done';
+      }
+
+      case 'custom':
+        return this.executeCustom(step);
+
+      default:
+        throw new Error(`지원하지 않는 액션: ${step.action}`);
+    }
+  }
+
+  /**
+   * 사용자 정의 스텝 - FlowRecorder가 기록한 대화상자 핸들러만 실행
+   */
+  private async executeCustom(step: FlowStep): Promise<'done' | 'skipped'> {
+    const match = step.value ? DIALOG_HANDLER.exec(step.value.trim()) : null;
+    if (!match) return 'skipped';
+
+    const [, method, rawArgument] = match;
+    const promptText = rawArgument ? parseStringLiteral(rawArgument) : undefined;
+
+    this.page.once('dialog', dialog =>
+      (method === 'accept' ? dialog.accept(promptText) : dialog.dismiss()).catch(() => undefined)
+    );
+    return 'done';
+  }
+
+  /**
+   * 스텝 스크린샷 (outputDir/playback/<플로우>/step-N-상태.png)
+   * 시각 비교를 사용하면 screenshots 설정과 관계없이 통과 스텝도 촬영
+   */
+  private async captureScreenshot(flow: FlowRecord, step: FlowStep, status: FlowStepResult['status']): Promise<string | undefined> {
+    const mode = this.visualBaselines && status === 'passed' ? 'all' : this.options.screenshots;
+    if (mode === 'none' || status === 'skipped' || (mode === 'failure' && status !== 'failed')) {
+      return undefined;
+    }
+
+    const dir = path.join(this.options.outputDir, 'playback', flow.name);
+    fs.mkdirSync(dir, { recursive: true });
+    const filePath = path.join(dir, `step-${step.order}-${status}.png`);
+
+    try {
+      await this.page.screenshot({
+        path: filePath,
+        timeout: this.options.stepTimeout,
+        mask: this.options.screenshotMask.map(selector => this.page.locator(selector)),
+        animations: 'disabled',
+        caret: 'hide'
+      });
+      return filePath;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * 재생 결과 Markdown 요약
+ */
+export function formatPlaybackResult(result: FlowPlaybackResult): string {
+  const lines = [
+    `# 플로우 재생: ${result.flow}`,
+    ``,
+    `- **결과**: ${result.success ? '✅ 성공' : '❌ 실패'}`,
+    `- **스텝**: ${result.passed} 통과 / ${result.failed} 실패 / ${result.skipped} 건너뜀`,
+    ...(result.visualFailed > 0 ? [`- **시각 회귀**: ${result.visualFailed} 스텝`] : []),
+    `- **소요 시간**: ${result.duration}ms`,
+    ``,
+    `| # | 액션 | 설명 | 결과 | 시간 | 비고 |`,
+    `|---|------|------|------|------|------|`
+  ];
+
+  for (const step of result.steps) {
+    const status = step.status === 'passed' ? '✅' : step.status === 'failed' ? '❌' : '⏭️';
+    const visual = step.visual?.verdict === 'fail' ? `시각 회귀 ${step.visual.diff?.diffPixels ?? 0}px` : '';
+    const note = [step.recovery ? `복구: ${step.recovery}` : '', visual, step.error ?? '']
+      .filter(Boolean).join(' / ').replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+    lines.push(`| ${step.order} | ${step.action} | ${step.description.replace(/\|/g, '\\|')} | ${status} | ${step.duration}ms | ${note} |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+function requireSelector(selector?: string): string {
+  if (!selector) throw new Error('셀렉터가 기록되지 않았습니다');
+  return selector;
+}
+
+function toRecoveryOperation(action: FlowStep['action']): 'click' | 'fill' | 'select' | 'wait' | 'navigate' | 'other' {
+  switch (action) {
+    case 'click':
+    case 'fill':
+    case 'select':
+    case 'wait':
+    case 'navigate':
+      return action;
+    default:
+      return 'other';
+  }
+}
+
@@ -1,13 +1,28 @@
-import { Page } from '@playwright/test';
+import { Page, Frame, Dialog } from '@playwright/test';
 import * as fs from 'fs';
 import * as path from 'path';
+import { emitFlowTest, maskedValueEnv, CodeEmitterOptions } from './code-emitter';
+import {
+  installCaptureListeners,
+  selectorFromSnapshot,
+  CAPTURE_ID_ATTRIBUTE,
+  CaptureEvent,
+  CaptureOptions
+} from './live-capture';
+import { SelectorGenerator, toStringLiteral } from '../analyzer/selector-generator';
+import { getSpecFilePath } from '../analyzer/spec-generator';
+import { createLogger, errorData } from '../utils/logger';
+import { qaEvents } from '../utils/event-bus';
+
+const logger = createLogger('FlowRecorder');
 
 export interface FlowStep {
   order: number;
-  action: 'click' | 'fill' | 'navigate' | 'wait' | 'assert' | 'custom';
-  target?: string;
-  selector?: string;
-  value?: string;
+  action: 'click' | 'fill' | 'select' | 'navigate' | 'wait' | 'assert' | 'custom';
+  target?: string;           // navigate/wait: URL
+  selector?: string;         // CSS/셀렉터 엔진 또는 로케이터 표현식 (getByText('...'))
+  value?: string;            // fill: 입력값, select: 옵션 값, assert: 포함 텍스트, custom: 생성 코드에 삽입할 코드
+  masked?: boolean;          // 기록 시 값을 가린 입력 (value 없음, 재생/생성 코드는 FLOW_STEP_<순서>_VALUE 환경 변수 사용)
   description: string;
   screenshot?: string;
   timestamp: string;
@@ -30,16 +45,35 @@ export class FlowRecorder {
   private outputDir: string;
   private currentFlow: FlowRecord | null = null;
   private stepCount: number = 0;
+  private screenshotMask: string[] = [];
+
+  // 라이브 기록 상태
+  private static bindingCount = 0;
+  private bindingName: string | null = null;
+  private capturing = false;
+  private captureOptions: Required<CaptureOptions> | null = null;
+  private captureQueue: Promise<void> = Promise.resolve();
+  private lastInteractionAt = 0;
+  private lastUrl = '';
+  private selectorGenerator: SelectorGenerator;
 
   constructor(page: Page, outputDir: string = './flow-records') {
     this.page = page;
     this.outputDir = outputDir;
+    this.selectorGenerator = new SelectorGenerator(page);
 
     if (!fs.existsSync(outputDir)) {
       fs.mkdirSync(outputDir, { recursive: true });
     }
   }
 
+  /**
+   * 스크린샷에서 가릴 동적 영역 셀렉터 (시간, 랜덤 배너 등 - 시각 비교 안정화)
+   */
+  setScreenshotMask(selectors: string[]) {
+    this.screenshotMask = selectors;
+  }
+
   /**
    * 새 플로우 기록 시작
    */
@@ -53,7 +87,7 @@ export class FlowRecorder {
       updatedAt: new Date().toISOString()
     };
     this.stepCount = 0;
-    console.log(`[FlowRecorder] 기록 시작: ${name}`);
+    logger.info(`기록 시작: ${name}`);
   }
 
   /**
@@ -73,7 +107,10 @@ export class FlowRecorder {
         fs.mkdirSync(screenshotDir, { recursive: true });
       }
       screenshotPath = path.join(screenshotDir, `step-${this.stepCount}.png`);
-      await this.page.screenshot({ path: screenshotPath });
+      await this.page.screenshot({
+        path: screenshotPath,
+        mask: this.screenshotMask.map(selector => this.page.locator(selector))
+      });
     }
 
     const fullStep: FlowStep = {
@@ -86,7 +123,8 @@ export class FlowRecorder {
     this.currentFlow.steps.push(fullStep);
     this.currentFlow.updatedAt = new Date().toISOString();
 
-    console.log(`[FlowRecorder] Step ${this.stepCount}: ${step.description}`);
+    logger.info(`Step ${this.stepCount}: ${step.description}`);
+    qaEvents.emit('flowStepRecorded', { flow: this.currentFlow.name, step: fullStep });
     return fullStep;
   }
 
@@ -145,12 +183,232 @@ export class FlowRecorder {
     });
   }
 
+  /**
+   * 사용자 정의 단계 기록 (code는 생성 테스트에 그대로 삽입)
+   */
+  async recordCustom(description: string, code?: string) {
+    await this.addStep({
+      action: 'custom',
+      value: code,
+      description
+    });
+  }
+
+  /**
+   * 라이브 기록 시작 - 브라우저에서 직접 조작한 클릭/입력/선택/이동/대화상자를 스텝으로 기록
+   *
+   * 사용법 (headed 모드):
+   * ```typescript
+   * await page.goto('https://example.com/signup');
+   * await recorder.startCapture('회원가입', '가입 폼 작성');
+   * await page.pause();                       // 브라우저에서 플로우를 한 번 진행
+   * const flow = await recorder.stopCapture();
+   * recorder.saveTestCode(flow!);             // → Tests/회원가입/회원가입_test_code.spec.ts
+   * ```
+   */
+  async startCapture(name: string, description: string = '', options: CaptureOptions = {}) {
+    if (this.capturing) {
+      throw new Error('이미 라이브 기록 중입니다. stopCapture()를 먼저 호출하세요.');
+    }
+
+    this.startFlow(name, description);
+    this.captureOptions = {
+      screenshots: options.screenshots ?? false,
+      dialogAction: options.dialogAction ?? 'accept',
+      maskPasswords: options.maskPasswords ?? true,
+      navigationGrace: options.navigationGrace ?? 3000
+    };
+    this.capturing = true;
+    this.captureQueue = Promise.resolve();
+    this.lastInteractionAt = 0;
+    this.lastUrl = this.page.url();
+
+    // 바인딩/초기화 스크립트는 제거할 수 없으므로 페이지당 한 번만 등록하고 capturing으로 제어
+    if (!this.bindingName) {
+      this.bindingName = `__flowRecorderEvent${FlowRecorder.bindingCount++}`;
+      await this.page.exposeBinding(this.bindingName, (_source, event: CaptureEvent) => {
+        if (this.capturing) this.enqueueCapture(() => this.recordCapturedEvent(event));
+      });
+      await this.page.addInitScript(installCaptureListeners, this.bindingName);
+    }
+    await this.page.evaluate(installCaptureListeners, this.bindingName).catch(() => undefined);
+
+    this.page.on('framenavigated', this.onFrameNavigated);
+    this.page.on('dialog', this.onDialog);
+    logger.info(`라이브 기록 중... (stopCapture()로 종료)`);
+  }
+
+  /**
+   * 라이브 기록 종료 - 처리 중인 이벤트를 기다린 뒤 플로우 저장
+   */
+  async stopCapture(): Promise<FlowRecord | null> {
+    if (!this.capturing) {
+      logger.warn('라이브 기록 중이 아닙니다.');
+      return null;
+    }
+
+    // 페이지 왕복 한 번으로 이미 보낸 이벤트가 모두 도착하게 함
+    await this.page.evaluate(() => undefined).catch(() => undefined);
+
+    this.capturing = false;
+    this.page.off('framenavigated', this.onFrameNavigated);
+    this.page.off('dialog', this.onDialog);
+    await this.captureQueue;
+
+    return this.endFlow();
+  }
+
+  /**
+   * 라이브 기록 중 여부
+   */
+  isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  /**
+   * 생성한 테스트 코드를 Tests/<플로우 이름>/ 폴더에 저장 후 경로 반환
+   */
+  saveTestCode(flow: FlowRecord, options: CodeEmitterOptions & { testsDir?: string } = {}): string {
+    const filePath = getSpecFilePath(flow.name, options.testsDir);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, this.generateTestCode(flow, options), 'utf-8');
+    logger.info(`테스트 코드: ${filePath}`);
+    return filePath;
+  }
+
+  /**
+   * 이벤트 순서대로 기록 (셀렉터 계산이 비동기라 직렬화)
+   */
+  private enqueueCapture(task: () => Promise<void>) {
+    this.captureQueue = this.captureQueue.then(task).catch(error => {
+      logger.warn('이벤트 기록 실패', errorData(error));
+    });
+  }
+
+  /**
+   * 페이지 이벤트 → 스텝
+   */
+  private async recordCapturedEvent(event: CaptureEvent) {
+    if (!this.currentFlow || !this.captureOptions) return;
+
+    this.lastInteractionAt = Date.now();
+    const selector = await this.resolveCapturedSelector(event);
+    const label = event.element.text || event.element.ariaLabel || event.element.name ||
+      event.element.placeholder || selector;
+    const screenshot = this.captureOptions.screenshots;
+
+    if (event.type === 'click') {
+      await this.addStep({ action: 'click', selector, description: `${label} 클릭` }, screenshot);
+      return;
+    }
+
+    if (event.type === 'select') {
+      await this.addStep({ action: 'select', selector, value: event.value ?? '', description: `${label} 선택: ${event.value ?? ''}` }, screenshot);
+      return;
+    }
+
+    // 비밀번호는 값 없이 masked로 기록 (재생/생성 코드에서 실제 값을 따로 전달)
+    const masked = this.captureOptions.maskPasswords && event.element.type === 'password';
+    const value = masked ? undefined : event.value ?? '';
+
+    // 같은 필드를 연달아 수정하면 마지막 값만 유지
+    const last = this.currentFlow.steps[this.currentFlow.steps.length - 1];
+    if (last?.action === 'fill' && last.selector === selector) {
+      last.value = value;
+      last.masked = masked || undefined;
+      last.timestamp = new Date().toISOString();
+      logger.info(`Step ${last.order}: 입력값 갱신`);
+      return;
+    }
+
+    await this.addStep({ action: 'fill', selector, value, masked: masked || undefined, description: `${label} 입력` }, screenshot);
+  }
+
+  /**
+   * 기록 대상 요소의 셀렉터
+   * SelectorGenerator 로케이터 표현식 → 속성 기반 CSS → (요소가 사라졌으면) 이벤트 시점 스냅샷
+   */
+  private async resolveCapturedSelector(event: CaptureEvent): Promise<string> {
+    const marker = `[${CAPTURE_ID_ATTRIBUTE}="${event.captureId}"]`;
+    const locator = this.page.locator(marker);
+
+    try {
+      if (await locator.count() !== 1) return selectorFromSnapshot(event.element);
+
+      const expression = await this.selectorGenerator.generateLocatorExpression(marker);
+      if (expression.strategy !== 'css') return expression.code;
+
+      const generated = await this.selectorGenerator.generateSelector(locator, { includeNthIndex: false });
+      return generated.type === 'nth-index' ? selectorFromSnapshot(event.element) : generated.selector;
+    } catch {
+      return selectorFromSnapshot(event.element);
+    } finally {
+      await locator.evaluate((el, name) => el.removeAttribute(name), CAPTURE_ID_ATTRIBUTE, { timeout: 1000 })
+        .catch(() => undefined);
+    }
+  }
+
+  /**
+   * 메인 프레임 이동: 조작 직후면 URL 대기, 아니면 직접 이동(주소창 입력 등)으로 기록
+   */
+  private onFrameNavigated = (frame: Frame) => {
+    if (frame !== this.page.mainFrame()) return;
+
+    const url = frame.url();
+    if (url === this.lastUrl || url === 'about:blank') return;
+    this.lastUrl = url;
+
+    this.enqueueCapture(async () => {
+      if (!this.captureOptions) return;
+      const screenshot = this.captureOptions.screenshots;
+
+      if (Date.now() - this.lastInteractionAt <= this.captureOptions.navigationGrace) {
+        const target = urlWithoutQuery(url);
+        await this.addStep({ action: 'wait', target, description: `URL 이동 대기: ${target}` }, screenshot);
+      } else {
+        await this.addStep({ action: 'navigate', target: url, description: `${url} 이동` }, screenshot);
+      }
+    });
+  };
+
+  /**
+   * 대화상자: 옵션대로 처리하고, 생성 코드에서는 대화상자를 띄운 클릭 전에 핸들러 등록
+   */
+  private onDialog = async (dialog: Dialog) => {
+    const accept = this.captureOptions?.dialogAction !== 'dismiss';
+    const promptValue = dialog.type() === 'prompt' ? dialog.defaultValue() : '';
+    const handler = accept
+      ? `dialog.accept(${promptValue ? toStringLiteral(promptValue) : ''})`
+      : 'dialog.dismiss()';
+    const message = dialog.message().replace(/\s+/g, ' ').trim();
+
+    this.enqueueCapture(async () => {
+      if (!this.currentFlow) return;
+
+      const step = await this.addStep({
+        action: 'custom',
+        value: `page.once('dialog', dialog => ${handler});`,
+        description: `${dialog.type()} 대화상자 ${accept ? '수락' : '취소'}: ${message}`
+      }, false);
+
+      // 스텝 순서: 대화상자를 띄운 클릭 앞으로 이동
+      const steps = this.currentFlow.steps;
+      const trigger = steps[steps.length - 2];
+      if (trigger?.action === 'click') {
+        steps.splice(steps.length - 2, 2, step, trigger);
+        [step.order, trigger.order] = [trigger.order, step.order];
+      }
+    });
+
+    await (accept ? dialog.accept(promptValue || undefined) : dialog.dismiss()).catch(() => undefined);
+  };
+
   /**
    * 플로우 기록 종료 및 저장
    */
   endFlow(): FlowRecord | null {
     if (!this.currentFlow) {
-      console.log('[FlowRecorder] 기록 중인 플로우가 없습니다.');
+      logger.warn('기록 중인 플로우가 없습니다.');
       return null;
     }
 
@@ -158,7 +416,7 @@ export class FlowRecorder {
     this.saveFlow(flow);
     this.currentFlow = null;
 
-    console.log(`[FlowRecorder] 기록 완료: ${flow.name} (${flow.steps.length} 스텝)`);
+    logger.info(`기록 완료: ${flow.name} (${flow.steps.length} 스텝)`);
     return flow;
   }
 
@@ -180,49 +438,16 @@ export class FlowRecorder {
     const markdown = this.generateMarkdown(flow);
     fs.writeFileSync(mdPath, markdown);
 
-    console.log(`[FlowRecorder] 저장됨: ${jsonPath}`);
-    console.log(`[FlowRecorder] 문서: ${mdPath}`);
+    logger.info(`저장됨: ${jsonPath}`);
+    logger.info(`문서: ${mdPath}`);
   }
 
   /**
    * Playwright 테스트 코드 생성
+   * 셀렉터는 CSS/셀렉터 엔진 문자열 또는 getByRole(...) 등 로케이터 표현식 모두 지원
    */
-  generateTestCode(flow: FlowRecord): string {
-    const lines: string[] = [
-      `import { test, expect } from '@playwright/test';`,
-      ``,
-      `// 플로우: ${flow.name}`,
-      `// ${flow.description}`,
-      `// 생성일: ${flow.createdAt}`,
-      ``,
-      `test('${flow.name}', async ({ page }) => {`,
-    ];
-
-    for (const step of flow.steps) {
-      lines.push(`  // Step ${step.order}: ${step.description}`);
-
-      switch (step.action) {
-        case 'navigate':
-          lines.push(`  await page.goto('${step.target}');`);
-          break;
-        case 'click':
-          lines.push(`  await page.locator('${step.selector}').click();`);
-          break;
-        case 'fill':
-          lines.push(`  await page.locator('${step.selector}').fill('${step.value}');`);
-          break;
-        case 'wait':
-          lines.push(`  await page.waitForTimeout(1000);`);
-          break;
-        case 'assert':
-          lines.push(`  await expect(page.locator('${step.selector}')).toBeVisible();`);
-          break;
-      }
-      lines.push('');
-    }
-
-    lines.push(`});`);
-    return lines.join('\n');
+  generateTestCode(flow: FlowRecord, options: CodeEmitterOptions = {}): string {
+    return emitFlowTest(flow, options);
   }
 
   /**
@@ -248,6 +473,7 @@ export class FlowRecorder {
       lines.push(`- **액션**: ${step.action}`);
       if (step.selector) lines.push(`- **셀렉터**: \`${step.selector}\``);
       if (step.value) lines.push(`- **값**: ${step.value}`);
+      if (step.masked) lines.push(`- **값**: (가림 - 환경 변수 ${maskedValueEnv(step)})`);
       if (step.target) lines.push(`- **대상**: ${step.target}`);
       if (step.screenshot) {
         const relativePath = path.relative(path.dirname(path.join(this.outputDir, 'flows', `${flow.name}.md`)), step.screenshot);
@@ -284,3 +510,12 @@ export class FlowRecorder {
       .map(f => f.replace('.json', ''));
   }
 }
+
+function urlWithoutQuery(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return `${parsed.origin}${parsed.pathname}`;
+  } catch {
+    return url;
+  }
+}
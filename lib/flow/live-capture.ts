@@ -0,0 +1,128 @@
+import { escapeForHasText } from '../analyzer/selector-generator';
+
+/**
+ * 라이브 기록 옵션
+ */
+export interface CaptureOptions {
+  screenshots?: boolean;              // 스텝마다 스크린샷 (기본: false)
+  dialogAction?: 'accept' | 'dismiss'; // alert/confirm/prompt 처리 (기본: accept)
+  maskPasswords?: boolean;            // 비밀번호 입력값을 기록하지 않고 masked 스텝으로 (기본: true)
+  navigationGrace?: number;           // 조작 후 이 시간(ms) 안의 이동은 URL 대기로 기록 (기본: 3000)
+}
+
+/**
+ * 요소 스냅샷 - 이벤트 시점의 속성 (요소가 사라졌을 때 셀렉터 생성용)
+ */
+export interface CapturedElement {
+  tag: string;
+  id?: string;
+  testId?: string;
+  ariaLabel?: string;
+  name?: string;
+  placeholder?: string;
+  type?: string;
+  text?: string;
+}
+
+/**
+ * 페이지에서 전달되는 기록 이벤트
+ */
+export interface CaptureEvent {
+  type: 'click' | 'fill' | 'select';
+  captureId: string;                  // data-flow-capture-id 속성 값
+  value?: string;
+  element: CapturedElement;
+}
+
+export const CAPTURE_ID_ATTRIBUTE = 'data-flow-capture-id';
+
+/**
+ * 페이지에 주입하는 리스너 (addInitScript/evaluate로 실행, 최상위 프레임만)
+ *
+ * - click: 버튼/링크 등 클릭 (텍스트 입력/select 클릭은 제외)
+ * - change: 텍스트 입력은 fill, select는 select로 기록 (입력 완료 시점)
+ */
+export function installCaptureListeners(bindingName: string) {
+  const doc = document as Document & { __flowCaptureInstalled?: boolean };
+  if (doc.__flowCaptureInstalled || window !== window.top) return;
+  doc.__flowCaptureInstalled = true;
+
+  const CLICKABLE = [
+    'button', 'a', 'summary', 'input[type="checkbox"]', 'input[type="radio"]',
+    'input[type="submit"]', 'input[type="button"]', 'input[type="reset"]',
+    '[role="button"]', '[role="link"]', '[role="tab"]', '[role="menuitem"]',
+    '[role="option"]', '[role="checkbox"]', '[role="radio"]', '[role="switch"]'
+  ].join(', ');
+  const NON_TEXT_TYPES = ['checkbox', 'radio', 'submit', 'button', 'reset', 'file', 'image', 'color', 'range', 'hidden'];
+  let nextId = 0;
+
+  const isTextField = (el: Element) =>
+    el.tagName === 'TEXTAREA' ||
+    (el.tagName === 'INPUT' && !NON_TEXT_TYPES.includes((el as HTMLInputElement).type));
+
+  const send = (type: string, el: Element, value?: string) => {
+    const binding = (window as unknown as Record<string, unknown>)[bindingName];
+    if (typeof binding !== 'function') return;
+
+    const captureId = `${Date.now()}-${++nextId}`;
+    el.setAttribute('data-flow-capture-id', captureId);
+
+    const input = el as HTMLInputElement;
+    const text = (el.textContent || '').replace(/\s+/g, ' ').trim();
+    binding({
+      type,
+      captureId,
+      value,
+      element: {
+        tag: el.tagName.toLowerCase(),
+        id: el.id || undefined,
+        testId: el.getAttribute('data-testid') || undefined,
+        ariaLabel: el.getAttribute('aria-label') || undefined,
+        name: input.name || undefined,
+        placeholder: input.placeholder || undefined,
+        type: input.type || undefined,
+        text: text && text.length <= 50 ? text : undefined
+      }
+    }).catch(() => undefined);
+  };
+
+  document.addEventListener('click', (event) => {
+    const target = event.target;
+    if (!(target instanceof Element)) return;
+    if (isTextField(target) || target.closest('select')) return;
+
+    // 레이블 클릭은 연결된 입력의 클릭이 이어서 발생하므로 제외
+    const label = target.closest('label') as HTMLLabelElement | null;
+    if (label?.control && label.control !== target && !label.control.contains(target)) return;
+
+    send('click', target.closest(CLICKABLE) || target);
+  }, true);
+
+  document.addEventListener('change', (event) => {
+    const target = event.target as HTMLInputElement;
+    if (!(target instanceof Element)) return;
+
+    if (target.tagName === 'SELECT') {
+      send('select', target, target.value);
+    } else if (isTextField(target)) {
+      send('fill', target, target.value);
+    }
+  }, true);
+}
+
+/**
+ * 스냅샷 기반 CSS 셀렉터 (요소가 이미 사라져 SelectorGenerator를 쓸 수 없을 때)
+ */
+export function selectorFromSnapshot(element: CapturedElement): string {
+  if (element.testId) return `[data-testid="${escapeAttributeValue(element.testId)}"]`;
+  if (element.id) return `[id="${escapeAttributeValue(element.id)}"]`;
+  if (element.ariaLabel) return `${element.tag}[aria-label="${escapeAttributeValue(element.ariaLabel)}"]`;
+  if (element.name) return `${element.tag}[name="${escapeAttributeValue(element.name)}"]`;
+  if (element.placeholder) return `${element.tag}[placeholder="${escapeAttributeValue(element.placeholder)}"]`;
+  if (element.text) return `${element.tag}:has-text("${escapeForHasText(element.text)}")`;
+  return element.tag;
+}
+
+function escapeAttributeValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
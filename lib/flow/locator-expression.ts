@@ -0,0 +1,331 @@
+import { FRAME_SEPARATOR } from '../analyzer/frame-scope';
+
+/**
+ * 로케이터 표현식 → Playwright 셀렉터 문자열
+ *
+ * FlowStep.selector에 기록된 getByRole(...) 등 표현식을 page.locator()에 넘길 수 있는
+ * 셀렉터로 변환 (코드를 실행하지 않고 리터럴 인자만 해석)
+ *
+ * | 표현식 | 셀렉터 |
+ * |--------|--------|
+ * | getByRole('button', { name: '저장' }) | internal:role=button[name="저장"i] |
+ * | getByLabel / getByText | internal:label=... / internal:text=... |
+ * | getByPlaceholder / getByAltText / getByTitle | internal:attr=[placeholder=...] 등 |
+ * | getByTestId('id') | internal:testid=[data-testid="id"s] |
+ * | locator('css') | css |
+ * | frameLocator('iframe').getByText('x') | iframe >> internal:control=enter-frame >> internal:text="x"i |
+ * | .first() / .last() / .nth(n) | nth=0 / nth=-1 / nth=n |
+ */
+
+type LiteralValue = string | number | boolean | RegExp | { [key: string]: LiteralValue };
+
+interface LocatorCall {
+  method: string;
+  args: LiteralValue[];
+}
+
+// Playwright 로케이터 표현식 (page. 생략 가능)
+const LOCATOR_EXPRESSION = /^(page\.)?(getBy(Role|Text|Label|Placeholder|AltText|Title|TestId)|locator|frameLocator)\(/;
+
+/**
+ * 로케이터 표현식 여부 (코드 생성/재생 공용)
+ */
+export function isLocatorExpression(selector: string): boolean {
+  return LOCATOR_EXPRESSION.test(selector.trim());
+}
+
+/**
+ * 문자열 리터럴 해석 ('...', "...", `...`)
+ */
+export function parseStringLiteral(literal: string): string {
+  return new ExpressionParser(literal.trim()).parseString();
+}
+
+/**
+ * 셀렉터 또는 로케이터 표현식 → page.locator()용 셀렉터 (일반 셀렉터는 그대로)
+ */
+export function toPlaywrightSelector(selector: string, testIdAttribute: string = 'data-testid'): string {
+  if (!isLocatorExpression(selector)) return selector;
+
+  const calls = new ExpressionParser(selector.trim()).parse();
+  if (calls[calls.length - 1].method === 'frameLocator') {
+    throw new Error(`frameLocator() 뒤에 프레임 안 요소 로케이터가 필요합니다: ${selector}`);
+  }
+
+  // frameLocator() 다음 호출은 프레임 진입 구분자로 연결
+  return calls.reduce((result, call, index) => {
+    const part = callToSelector(call, selector, testIdAttribute);
+    if (index === 0) return part;
+    return result + (calls[index - 1].method === 'frameLocator' ? FRAME_SEPARATOR : ' >> ') + part;
+  }, '');
+}
+
+function callToSelector(call: LocatorCall, source: string, testIdAttribute: string): string {
+  const [first, second] = call.args;
+  const options = isOptions(second) ? second : {};
+  const exact = options.exact === true;
+
+  switch (call.method) {
+    case 'locator':
+    case 'frameLocator':
+      return String(expectText(first, call, source));
+
+    case 'getByRole': {
+      const props: string[] = [];
+      for (const [key, name] of [
+        ['checked', 'checked'], ['disabled', 'disabled'], ['selected', 'selected'],
+        ['expanded', 'expanded'], ['includeHidden', 'include-hidden'], ['level', 'level']
+      ]) {
+        if (options[key] !== undefined) props.push(`[${name}=${String(options[key])}]`);
+      }
+      if (options.name !== undefined) {
+        props.push(`[name=${escapeForAttribute(expectText(options.name, call, source), exact)}]`);
+      }
+      if (options.pressed !== undefined) props.push(`[pressed=${String(options.pressed)}]`);
+      return `internal:role=${expectText(first, call, source)}${props.join('')}`;
+    }
+
+    case 'getByText':
+      return `internal:text=${escapeForText(expectText(first, call, source), exact)}`;
+
+    case 'getByLabel':
+      return `internal:label=${escapeForText(expectText(first, call, source), exact)}`;
+
+    case 'getByPlaceholder':
+      return `internal:attr=[placeholder=${escapeForAttribute(expectText(first, call, source), exact)}]`;
+
+    case 'getByAltText':
+      return `internal:attr=[alt=${escapeForAttribute(expectText(first, call, source), exact)}]`;
+
+    case 'getByTitle':
+      return `internal:attr=[title=${escapeForAttribute(expectText(first, call, source), exact)}]`;
+
+    case 'getByTestId':
+      return `internal:testid=[${testIdAttribute}=${escapeForAttribute(expectText(first, call, source), true)}]`;
+
+    case 'first':
+      return 'nth=0';
+
+    case 'last':
+      return 'nth=-1';
+
+    case 'nth':
+      if (typeof first !== 'number') {
+        throw new Error(`nth()에는 숫자가 필요합니다: ${source}`);
+      }
+      return `nth=${first}`;
+
+    default:
+      throw new Error(`지원하지 않는 로케이터 메서드: ${call.method}() (${source})`);
+  }
+}
+
+function isOptions(value: LiteralValue | undefined): value is { [key: string]: LiteralValue } {
+  return !!value && typeof value === 'object' && !(value instanceof RegExp);
+}
+
+function expectText(value: LiteralValue | undefined, call: LocatorCall, source: string): string | RegExp {
+  if (typeof value === 'string' || value instanceof RegExp) return value;
+  throw new Error(`${call.method}()에는 문자열 또는 정규식 인자가 필요합니다: ${source}`);
+}
+
+// Playwright 셀렉터 이스케이프 규칙 (getBy* 메서드가 만드는 셀렉터와 동일)
+function escapeRegex(regex: RegExp): string {
+  if (regex.unicode || (regex as RegExp & { unicodeSets?: boolean }).unicodeSets) return String(regex);
+  return String(regex).replace(/(^|[^\\])(\\\\)*(["'`])/g, '$1$2\\$3').replace(/>>/g, '\\>\\>');
+}
+
+function escapeForText(text: string | RegExp, exact: boolean): string {
+  if (typeof text !== 'string') return escapeRegex(text);
+  return `${JSON.stringify(text)}${exact ? 's' : 'i'}`;
+}
+
+function escapeForAttribute(value: string | RegExp, exact: boolean): string {
+  if (typeof value !== 'string') return escapeRegex(value);
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"${exact ? 's' : 'i'}`;
+}
+
+/**
+ * 표현식 파서 - page.메서드(리터럴, ...).메서드(...) 체인만 허용
+ */
+class ExpressionParser {
+  private pos = 0;
+
+  constructor(private source: string) {}
+
+  parse(): LocatorCall[] {
+    const calls: LocatorCall[] = [];
+    if (this.source.startsWith('page.')) this.pos = 'page.'.length;
+
+    for (;;) {
+      const method = this.identifier();
+      this.expect('(');
+      const args: LiteralValue[] = [];
+      this.skipSpace();
+      while (this.peek() !== ')') {
+        args.push(this.value());
+        this.skipSpace();
+        if (this.peek() === ',') {
+          this.pos++;
+          this.skipSpace();
+        } else if (this.peek() !== ')') {
+          this.fail(`',' 또는 ')'가 필요합니다`);
+        }
+      }
+      this.expect(')');
+      calls.push({ method, args });
+      this.skipSpace();
+      if (this.peek() !== '.') break;
+      this.pos++;
+    }
+
+    this.skipSpace();
+    if (this.pos < this.source.length) this.fail('표현식 끝에 알 수 없는 내용이 있습니다');
+    return calls;
+  }
+
+  parseString(): string {
+    const ch = this.peek();
+    if (ch !== '\'' && ch !== '"' && ch !== '`') this.fail('문자열 리터럴이 필요합니다');
+    const result = this.string(ch);
+    if (this.pos < this.source.length) this.fail('표현식 끝에 알 수 없는 내용이 있습니다');
+    return result;
+  }
+
+  private value(): LiteralValue {
+    this.skipSpace();
+    const ch = this.peek();
+
+    if (ch === '\'' || ch === '"' || ch === '`') return this.string(ch);
+    if (ch === '/') return this.regex();
+    if (ch === '{') return this.object();
+    if (ch === '-' || /\d/.test(ch)) {
+      const match = /^-?\d+(\.\d+)?/.exec(this.source.slice(this.pos));
+      if (!match) this.fail('숫자 형식이 올바르지 않습니다');
+      this.pos += match![0].length;
+      return Number(match![0]);
+    }
+
+    const word = this.identifier();
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    return this.fail(`리터럴만 사용할 수 있습니다 (${word})`);
+  }
+
+  private string(quote: string): string {
+    this.pos++;
+    let result = '';
+
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos++];
+      if (ch === quote) return result;
+      if (quote === '`' && ch === '$' && this.peek() === '{') this.fail('템플릿 문자열 치환은 지원하지 않습니다');
+      if (ch !== '\\') {
+        result += ch;
+        continue;
+      }
+
+      const next = this.source[this.pos++];
+      switch (next) {
+        case 'n': result += '\n'; break;
+        case 'r': result += '\r'; break;
+        case 't': result += '\t'; break;
+        case 'b': result += '\b'; break;
+        case 'f': result += '\f'; break;
+        case 'v': result += '\v'; break;
+        case '0': result += '\0'; break;
+        case '\n': break;
+        case 'x':
+          result += String.fromCharCode(parseInt(this.source.slice(this.pos, this.pos + 2), 16));
+          this.pos += 2;
+          break;
+        case 'u':
+          if (this.peek() === '{') {
+            const end = this.source.indexOf('}', this.pos);
+            result += String.fromCodePoint(parseInt(this.source.slice(this.pos + 1, end), 16));
+            this.pos = end + 1;
+          } else {
+            result += String.fromCharCode(parseInt(this.source.slice(this.pos, this.pos + 4), 16));
+            this.pos += 4;
+          }
+          break;
+        default:
+          result += next;
+      }
+    }
+
+    return this.fail('문자열이 닫히지 않았습니다');
+  }
+
+  private regex(): RegExp {
+    const start = ++this.pos;
+    let inClass = false;
+
+    while (this.pos < this.source.length) {
+      const ch = this.source[this.pos];
+      if (ch === '\\') {
+        this.pos += 2;
+        continue;
+      }
+      if (ch === '[') inClass = true;
+      else if (ch === ']') inClass = false;
+      else if (ch === '/' && !inClass) break;
+      this.pos++;
+    }
+
+    if (this.peek() !== '/') this.fail('정규식이 닫히지 않았습니다');
+    const body = this.source.slice(start, this.pos++);
+    const flags = /^[a-z]*/.exec(this.source.slice(this.pos))![0];
+    this.pos += flags.length;
+    return new RegExp(body, flags);
+  }
+
+  private object(): { [key: string]: LiteralValue } {
+    this.expect('{');
+    const result: { [key: string]: LiteralValue } = {};
+    this.skipSpace();
+
+    while (this.peek() !== '}') {
+      const ch = this.peek();
+      const key = ch === '\'' || ch === '"' ? this.string(ch) : this.identifier();
+      this.expect(':');
+      result[key] = this.value();
+      this.skipSpace();
+      if (this.peek() === ',') {
+        this.pos++;
+        this.skipSpace();
+      } else if (this.peek() !== '}') {
+        this.fail(`',' 또는 '}'가 필요합니다`);
+      }
+    }
+
+    this.expect('}');
+    return result;
+  }
+
+  private identifier(): string {
+    this.skipSpace();
+    const match = /^[A-Za-z_$][\w$]*/.exec(this.source.slice(this.pos));
+    if (!match) this.fail('식별자가 필요합니다');
+    this.pos += match![0].length;
+    return match![0];
+  }
+
+  private expect(ch: string) {
+    this.skipSpace();
+    if (this.peek() !== ch) this.fail(`'${ch}'가 필요합니다`);
+    this.pos++;
+  }
+
+  private skipSpace() {
+    while (/\s/.test(this.peek())) this.pos++;
+  }
+
+  private peek(): string {
+    return this.source[this.pos] ?? '';
+  }
+
+  private fail(message: string): never {
+    throw new Error(`로케이터 표현식 해석 실패 (${this.pos}번째 문자): ${message} - ${this.source}`);
+  }
+}
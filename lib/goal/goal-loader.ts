@@ -0,0 +1,220 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse as parseYaml } from 'yaml';
+import {
+  ExtendedGoal,
+  FieldIdentifier,
+  ButtonInstruction,
+  SuccessCondition,
+  normalizeGoal
+} from '../analyzer/instruction-types';
+import {
+  GoalDefinition,
+  GoalValidationIssue,
+  FieldIdentifierDefinition,
+  ButtonInstructionDefinition,
+  PatternValue,
+  SerializedPattern,
+  SuccessConditionDefinition,
+  validateGoalDefinition
+} from './goal-schema';
+
+/**
+ * Goal 파일 확장자 (Tests/<feature>/ 폴더에 함께 둠)
+ */
+export const GOAL_FILE_PATTERN = /\.goal\.(ya?ml|json)$/;
+
+/**
+ * Goal 파일 형식
+ */
+export type GoalFileFormat = 'yaml' | 'json';
+
+/**
+ * 로드된 Goal 파일
+ */
+export interface LoadedGoalFile {
+  filePath: string;
+  goal: ExtendedGoal;
+  definition: GoalDefinition;
+}
+
+/**
+ * 파일 형식 추론 (확장자 기반)
+ */
+export function detectGoalFileFormat(filePath: string): GoalFileFormat {
+  return filePath.toLowerCase().endsWith('.json') ? 'json' : 'yaml';
+}
+
+/**
+ * Goal 정의 텍스트 파싱 + 검증
+ * 검증 실패 시 모든 오류 경로를 포함한 Error throw
+ */
+export function parseGoalDefinition(
+  text: string,
+  format: GoalFileFormat = 'yaml',
+  source: string = '(inline)'
+): GoalDefinition {
+  let data: unknown;
+  try {
+    data = format === 'json' ? JSON.parse(text) : parseYaml(text);
+  } catch (error) {
+    throw new Error(`Goal 파일 파싱 실패 (${source}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const issues = validateGoalDefinition(data);
+  if (issues.length > 0) {
+    throw new Error(formatValidationIssues(source, issues));
+  }
+
+  return data as GoalDefinition;
+}
+
+/**
+ * 검증 오류를 읽기 쉬운 메시지로 변환
+ */
+export function formatValidationIssues(source: string, issues: GoalValidationIssue[]): string {
+  const lines = [`Goal 파일 검증 실패 (${source}): ${issues.length}개 오류`];
+  issues.forEach(issue => lines.push(`  - ${issue.path}: ${issue.message}`));
+  return lines.join('\n');
+}
+
+/**
+ * Goal 정의를 AutoPilot에서 실행 가능한 ExtendedGoal로 변환
+ * ({{random}} 등 템플릿 값은 문자열 그대로 두고 AutoPilot이 실행 시드로 렌더링)
+ */
+export function toExtendedGoal(definition: GoalDefinition): ExtendedGoal {
+  const goal: ExtendedGoal = {
+    name: definition.name,
+    description: definition.description,
+    requiredFields: definition.requiredFields,
+    options: definition.options ? { ...definition.options } : undefined
+  };
+
+  if (definition.targetButton !== undefined) {
+    goal.targetButton = typeof definition.targetButton === 'string'
+      ? definition.targetButton
+      : toButtonInstruction(definition.targetButton);
+  }
+
+  if (definition.successIndicator !== undefined) {
+    const indicator = definition.successIndicator;
+    if (typeof indicator === 'string') {
+      goal.successIndicator = indicator;
+    } else if ('regex' in indicator) {
+      goal.successIndicator = toRegExp(indicator);
+    } else {
+      goal.successIndicator = toSuccessCondition(indicator);
+    }
+  }
+
+  if (definition.fieldInstructions) {
+    goal.fieldInstructions = definition.fieldInstructions.map(instruction => ({
+      ...instruction,
+      field: toFieldIdentifier(instruction.field)
+    }));
+  }
+
+  if (definition.preSteps) {
+    goal.preSteps = definition.preSteps.map(step => ({ ...step }));
+  }
+
+  if (definition.captures) {
+    goal.captures = definition.captures.map(capture => ({
+      ...capture,
+      pattern: toPattern(capture.pattern)
+    }));
+  }
+
+  return normalizeGoal(goal);
+}
+
+/**
+ * Goal 파일 로드 (.goal.yaml / .goal.yml / .goal.json)
+ */
+export function loadGoalFile(filePath: string): LoadedGoalFile {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  const definition = parseGoalDefinition(text, detectGoalFileFormat(filePath), filePath);
+
+  return {
+    filePath,
+    goal: toExtendedGoal(definition),
+    definition
+  };
+}
+
+/**
+ * 디렉토리의 모든 Goal 파일 로드 (하위 폴더 포함)
+ */
+export function loadGoalDirectory(dir: string): LoadedGoalFile[] {
+  return findGoalFiles(dir).map(filePath => loadGoalFile(filePath));
+}
+
+/**
+ * 디렉토리에서 Goal 파일 경로 검색 (정렬된 순서)
+ */
+export function findGoalFiles(dir: string): string[] {
+  if (!fs.existsSync(dir)) return [];
+
+  const results: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules' || entry.name.startsWith('.')) continue;
+      results.push(...findGoalFiles(fullPath));
+    } else if (GOAL_FILE_PATTERN.test(entry.name)) {
+      results.push(fullPath);
+    }
+  }
+
+  return results.sort();
+}
+
+/**
+ * 직렬화된 정규식 → RegExp
+ */
+function toRegExp(pattern: SerializedPattern): RegExp {
+  return new RegExp(pattern.regex, pattern.flags);
+}
+
+/**
+ * 문자열 또는 직렬화된 정규식 → string | RegExp
+ */
+function toPattern(value: PatternValue | undefined): string | RegExp | undefined {
+  if (typeof value === 'string') return value;
+  return value ? toRegExp(value) : undefined;
+}
+
+/**
+ * 필드 식별자 변환
+ */
+function toFieldIdentifier(field: FieldIdentifierDefinition): FieldIdentifier {
+  return {
+    ...field,
+    label: toPattern(field.label),
+    placeholder: toPattern(field.placeholder),
+    ariaLabel: toPattern(field.ariaLabel)
+  };
+}
+
+/**
+ * 버튼 지시 변환
+ */
+function toButtonInstruction(button: ButtonInstructionDefinition): ButtonInstruction {
+  return {
+    ...button,
+    text: toPattern(button.text),
+    ariaLabel: toPattern(button.ariaLabel)
+  };
+}
+
+/**
+ * 성공 조건 변환 (재귀)
+ */
+function toSuccessCondition(condition: SuccessConditionDefinition): SuccessCondition {
+  return {
+    type: condition.type,
+    value: toPattern(condition.value),
+    conditions: condition.conditions?.map(toSuccessCondition),
+    timeout: condition.timeout
+  };
+}
@@ -0,0 +1,484 @@
+import { FieldType, FieldPurpose } from '../analyzer/smart-field-analyzer';
+import { PreStepType, SuccessConditionType, CaptureSource } from '../analyzer/instruction-types';
+import { ValueLocale, ValueVariant, VALUE_LOCALES, VALUE_VARIANTS } from '../analyzer/value-providers';
+import { findTemplateError } from './value-template';
+
+/**
+ * 직렬화 가능한 정규식 표현
+ * 예: { regex: "채널.*선택", flags: "i" }
+ */
+export interface SerializedPattern {
+  regex: string;
+  flags?: string;
+}
+
+/**
+ * 문자열 또는 정규식 (파일 형식)
+ */
+export type PatternValue = string | SerializedPattern;
+
+/**
+ * Goal 파일의 필드 식별자
+ */
+export interface FieldIdentifierDefinition {
+  selector?: string;
+  name?: string;
+  label?: PatternValue;
+  placeholder?: PatternValue;
+  ariaLabel?: PatternValue;
+  purpose?: FieldPurpose;
+  nthOfType?: number;
+}
+
+/**
+ * Goal 파일의 필드 지시 (value는 {{timestamp}}, {{변수}} 같은 템플릿 지원)
+ */
+export interface FieldInstructionDefinition {
+  field: FieldIdentifierDefinition;
+  value: string;
+  type?: FieldType;
+  required?: boolean;
+  skipIfFilled?: boolean;
+  clearBefore?: boolean;
+  selectExact?: boolean;
+  createIfNotExists?: boolean;
+  saveAs?: string;
+}
+
+/**
+ * Goal 파일의 버튼 지시
+ */
+export interface ButtonInstructionDefinition {
+  text?: PatternValue;
+  selector?: string;
+  ariaLabel?: PatternValue;
+  role?: string;
+  waitForEnabled?: boolean;
+  timeout?: number;
+  scrollIntoView?: boolean;
+}
+
+/**
+ * Goal 파일의 성공 조건 (custom predicate는 파일에서 지원하지 않음)
+ */
+export interface SuccessConditionDefinition {
+  type: Exclude<SuccessConditionType, 'custom'>;
+  value?: PatternValue;
+  conditions?: SuccessConditionDefinition[];
+  timeout?: number;
+}
+
+/**
+ * Goal 파일의 실행 전 단계
+ */
+export interface PreStepDefinition {
+  type: PreStepType;
+  target?: string;
+  value?: string;
+  timeout?: number;
+  optional?: boolean;
+  description?: string;
+}
+
+/**
+ * Goal 파일의 값 캡처
+ */
+export interface CaptureDefinition {
+  name: string;
+  from: CaptureSource;
+  selector?: string;
+  attribute?: string;
+  pattern?: PatternValue;
+  group?: number | string;
+  optional?: boolean;
+  timeout?: number;
+}
+
+/**
+ * Goal 파일 형식 (YAML/JSON)
+ */
+export interface GoalDefinition {
+  name: string;
+  description?: string;
+  targetButton?: string | ButtonInstructionDefinition;
+  successIndicator?: string | SerializedPattern | SuccessConditionDefinition;
+  fieldInstructions?: FieldInstructionDefinition[];
+  preSteps?: PreStepDefinition[];
+  captures?: CaptureDefinition[];
+  requiredFields?: string[];
+  options?: {
+    maxSteps?: number;
+    stepDelay?: number;
+    autoFillUnknown?: boolean;
+    strictMode?: boolean;
+    retryOnError?: boolean;
+    maxRetries?: number;
+    preStepTimeout?: number;
+    locale?: ValueLocale;
+    valueVariant?: ValueVariant;
+  };
+}
+
+/**
+ * 검증 오류 (path 예: "fieldInstructions[0].field.label")
+ */
+export interface GoalValidationIssue {
+  path: string;
+  message: string;
+}
+
+const FIELD_TYPES: FieldType[] = [
+  'text', 'dropdown', 'combobox', 'radio', 'checkbox', 'datepicker',
+  'file', 'textarea', 'number', 'password', 'unknown'
+];
+
+const FIELD_PURPOSES: FieldPurpose[] = [
+  'name', 'email', 'phone', 'url', 'channel', 'campaign', 'adgroup', 'creative',
+  'date', 'amount', 'description', 'search', 'password', 'custom', 'unknown'
+];
+
+const PRE_STEP_TYPES: PreStepType[] = [
+  'click', 'wait', 'navigate', 'escape', 'fill', 'select', 'waitForUrl', 'assertVisible'
+];
+
+const CAPTURE_SOURCES: CaptureSource[] = ['text', 'attribute', 'value', 'clipboard', 'url'];
+
+const SUCCESS_CONDITION_TYPES: SuccessConditionDefinition['type'][] = [
+  'url', 'text', 'element', 'all', 'any', 'not'
+];
+
+// target이 필요한 실행 전 단계
+const PRE_STEP_TARGET_REQUIRED: PreStepType[] = [
+  'click', 'navigate', 'fill', 'select', 'waitForUrl', 'assertVisible'
+];
+
+/**
+ * 검증 컨텍스트 - 경로별 오류 수집
+ */
+class Validator {
+  readonly issues: GoalValidationIssue[] = [];
+
+  error(path: string, message: string) {
+    this.issues.push({ path: path || '(root)', message });
+  }
+
+  isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  object(path: string, value: unknown, allowedKeys: string[]): value is Record<string, unknown> {
+    if (!this.isObject(value)) {
+      this.error(path, `객체여야 합니다 (현재: ${describeType(value)})`);
+      return false;
+    }
+    for (const key of Object.keys(value)) {
+      if (!allowedKeys.includes(key)) {
+        this.error(join(path, key), `알 수 없는 키입니다 (허용: ${allowedKeys.join(', ')})`);
+      }
+    }
+    return true;
+  }
+
+  string(path: string, value: unknown, required = false): boolean {
+    if (value === undefined) {
+      if (required) this.error(path, '필수 항목입니다');
+      return !required;
+    }
+    if (typeof value !== 'string') {
+      this.error(path, `문자열이어야 합니다 (현재: ${describeType(value)})`);
+      return false;
+    }
+    if (required && value.trim() === '') {
+      this.error(path, '빈 문자열은 사용할 수 없습니다');
+      return false;
+    }
+    return true;
+  }
+
+  number(path: string, value: unknown, min = 0): boolean {
+    if (value === undefined) return true;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min) {
+      this.error(path, `${min} 이상의 숫자여야 합니다 (현재: ${JSON.stringify(value)})`);
+      return false;
+    }
+    return true;
+  }
+
+  boolean(path: string, value: unknown): boolean {
+    if (value === undefined) return true;
+    if (typeof value !== 'boolean') {
+      this.error(path, `true 또는 false여야 합니다 (현재: ${JSON.stringify(value)})`);
+      return false;
+    }
+    return true;
+  }
+
+  oneOf<T extends string>(path: string, value: unknown, allowed: readonly T[], required = false): boolean {
+    if (value === undefined) {
+      if (required) this.error(path, `필수 항목입니다 (허용: ${allowed.join(', ')})`);
+      return !required;
+    }
+    if (!allowed.includes(value as T)) {
+      this.error(path, `허용되지 않은 값 ${JSON.stringify(value)} (허용: ${allowed.join(', ')})`);
+      return false;
+    }
+    return true;
+  }
+
+  pattern(path: string, value: unknown): boolean {
+    if (value === undefined || typeof value === 'string') return true;
+    if (!this.object(path, value, ['regex', 'flags'])) return false;
+    if (!this.string(join(path, 'regex'), value.regex, true)) return false;
+    if (!this.string(join(path, 'flags'), value.flags)) return false;
+    try {
+      new RegExp(value.regex as string, value.flags as string | undefined);
+      return true;
+    } catch (error) {
+      this.error(join(path, 'regex'), `잘못된 정규식: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * 템플릿 문자열 - 플레이스홀더 문법만 검사
+   * (내장 생성기 외의 {{변수}}는 시나리오/캡처 값이라 실행 시점에 해석)
+   */
+  template(path: string, value: unknown, required = false): boolean {
+    if (!this.string(path, value, required)) return false;
+    if (typeof value !== 'string') return true;
+
+    const problem = findTemplateError(value);
+    if (problem) {
+      this.error(path, problem);
+      return false;
+    }
+    return true;
+  }
+
+  array(path: string, value: unknown): value is unknown[] {
+    if (value === undefined) return false;
+    if (!Array.isArray(value)) {
+      this.error(path, `배열이어야 합니다 (현재: ${describeType(value)})`);
+      return false;
+    }
+    return true;
+  }
+}
+
+/**
+ * Goal 정의 검증 - 모든 오류를 경로와 함께 반환 (빈 배열이면 유효)
+ */
+export function validateGoalDefinition(data: unknown): GoalValidationIssue[] {
+  const v = new Validator();
+
+  if (!v.object('', data, [
+    'name', 'description', 'targetButton', 'successIndicator',
+    'fieldInstructions', 'preSteps', 'captures', 'requiredFields', 'options'
+  ])) {
+    return v.issues;
+  }
+
+  v.string('name', data.name, true);
+  v.string('description', data.description);
+
+  // targetButton
+  if (data.targetButton !== undefined && typeof data.targetButton !== 'string') {
+    const button = data.targetButton;
+    if (v.object('targetButton', button, [
+      'text', 'selector', 'ariaLabel', 'role', 'waitForEnabled', 'timeout', 'scrollIntoView'
+    ])) {
+      v.pattern('targetButton.text', button.text);
+      v.string('targetButton.selector', button.selector);
+      v.pattern('targetButton.ariaLabel', button.ariaLabel);
+      v.string('targetButton.role', button.role);
+      v.boolean('targetButton.waitForEnabled', button.waitForEnabled);
+      v.number('targetButton.timeout', button.timeout);
+      v.boolean('targetButton.scrollIntoView', button.scrollIntoView);
+      if (!button.text && !button.selector && !button.ariaLabel) {
+        v.error('targetButton', 'text, selector, ariaLabel 중 하나는 필요합니다');
+      }
+    }
+  }
+
+  // successIndicator
+  if (data.successIndicator !== undefined && typeof data.successIndicator !== 'string') {
+    if (v.isObject(data.successIndicator) && 'regex' in data.successIndicator) {
+      v.pattern('successIndicator', data.successIndicator);
+    } else {
+      validateSuccessCondition(v, 'successIndicator', data.successIndicator);
+    }
+  }
+
+  // fieldInstructions
+  if (v.array('fieldInstructions', data.fieldInstructions)) {
+    data.fieldInstructions.forEach((instruction: unknown, i: number) => {
+      const path = `fieldInstructions[${i}]`;
+      if (!v.object(path, instruction, [
+        'field', 'value', 'type', 'required', 'skipIfFilled', 'clearBefore', 'selectExact', 'createIfNotExists', 'saveAs'
+      ])) return;
+
+      validateFieldIdentifier(v, join(path, 'field'), instruction.field);
+      v.template(join(path, 'value'), instruction.value, true);
+      v.oneOf(join(path, 'type'), instruction.type, FIELD_TYPES);
+      v.string(join(path, 'saveAs'), instruction.saveAs);
+      for (const key of ['required', 'skipIfFilled', 'clearBefore', 'selectExact', 'createIfNotExists']) {
+        v.boolean(join(path, key), instruction[key]);
+      }
+    });
+  }
+
+  // preSteps
+  if (v.array('preSteps', data.preSteps)) {
+    data.preSteps.forEach((step: unknown, i: number) => {
+      const path = `preSteps[${i}]`;
+      if (!v.object(path, step, ['type', 'target', 'value', 'timeout', 'optional', 'description'])) return;
+
+      v.oneOf(join(path, 'type'), step.type, PRE_STEP_TYPES, true);
+      v.string(join(path, 'target'), step.target, PRE_STEP_TARGET_REQUIRED.includes(step.type as PreStepType));
+      v.template(join(path, 'value'), step.value, step.type === 'fill' || step.type === 'select');
+      v.number(join(path, 'timeout'), step.timeout);
+      v.boolean(join(path, 'optional'), step.optional);
+      v.string(join(path, 'description'), step.description);
+    });
+  }
+
+  // captures
+  if (v.array('captures', data.captures)) {
+    data.captures.forEach((capture: unknown, i: number) => {
+      const path = `captures[${i}]`;
+      if (!v.object(path, capture, [
+        'name', 'from', 'selector', 'attribute', 'pattern', 'group', 'optional', 'timeout'
+      ])) return;
+
+      v.string(join(path, 'name'), capture.name, true);
+      v.oneOf(join(path, 'from'), capture.from, CAPTURE_SOURCES, true);
+      v.string(join(path, 'selector'), capture.selector, ['text', 'attribute', 'value'].includes(capture.from as string));
+      v.string(join(path, 'attribute'), capture.attribute, capture.from === 'attribute');
+      if (capture.from === 'url' && capture.pattern === undefined) {
+        v.error(join(path, 'pattern'), 'url 캡처에는 필수 항목입니다');
+      }
+      v.pattern(join(path, 'pattern'), capture.pattern);
+      if (typeof capture.group !== 'string') {
+        v.number(join(path, 'group'), capture.group);
+      }
+      v.boolean(join(path, 'optional'), capture.optional);
+      v.number(join(path, 'timeout'), capture.timeout);
+    });
+  }
+
+  // requiredFields
+  if (v.array('requiredFields', data.requiredFields)) {
+    data.requiredFields.forEach((field: unknown, i: number) => {
+      v.string(`requiredFields[${i}]`, field, true);
+    });
+  }
+
+  // options
+  if (data.options !== undefined && v.object('options', data.options, [
+    'maxSteps', 'stepDelay', 'autoFillUnknown', 'strictMode', 'retryOnError', 'maxRetries', 'preStepTimeout',
+    'locale', 'valueVariant'
+  ])) {
+    const { options } = data;
+    v.number('options.maxSteps', options.maxSteps, 1);
+    v.number('options.stepDelay', options.stepDelay);
+    v.boolean('options.autoFillUnknown', options.autoFillUnknown);
+    v.boolean('options.strictMode', options.strictMode);
+    v.boolean('options.retryOnError', options.retryOnError);
+    v.number('options.maxRetries', options.maxRetries);
+    v.number('options.preStepTimeout', options.preStepTimeout);
+    v.oneOf('options.locale', options.locale, VALUE_LOCALES);
+    v.oneOf('options.valueVariant', options.valueVariant, VALUE_VARIANTS);
+  }
+
+  return v.issues;
+}
+
+/**
+ * 필드 식별자 검증
+ */
+function validateFieldIdentifier(v: Validator, path: string, value: unknown) {
+  if (value === undefined) {
+    v.error(path, '필수 항목입니다');
+    return;
+  }
+  if (!v.object(path, value, [
+    'selector', 'name', 'label', 'placeholder', 'ariaLabel', 'purpose', 'nthOfType'
+  ])) return;
+
+  v.string(join(path, 'selector'), value.selector);
+  v.string(join(path, 'name'), value.name);
+  v.pattern(join(path, 'label'), value.label);
+  v.pattern(join(path, 'placeholder'), value.placeholder);
+  v.pattern(join(path, 'ariaLabel'), value.ariaLabel);
+  v.oneOf(join(path, 'purpose'), value.purpose, FIELD_PURPOSES);
+  v.number(join(path, 'nthOfType'), value.nthOfType);
+
+  if (Object.keys(value).length === 0) {
+    v.error(path, 'selector, name, label, placeholder, ariaLabel, purpose, nthOfType 중 하나는 필요합니다');
+  }
+}
+
+/**
+ * 성공 조건 검증 (재귀)
+ */
+function validateSuccessCondition(v: Validator, path: string, value: unknown) {
+  if (!v.object(path, value, ['type', 'value', 'conditions', 'timeout'])) return;
+
+  if (value.type === 'custom') {
+    v.error(join(path, 'type'), 'custom 조건은 코드(predicate)가 필요하므로 Goal 파일에서 사용할 수 없습니다');
+    return;
+  }
+  if (!v.oneOf(join(path, 'type'), value.type, SUCCESS_CONDITION_TYPES, true)) return;
+
+  v.number(join(path, 'timeout'), value.timeout);
+
+  const isComposite = value.type === 'all' || value.type === 'any' || value.type === 'not';
+  if (isComposite) {
+    if (value.value !== undefined) {
+      v.error(join(path, 'value'), `${value.type} 조건에는 value 대신 conditions를 사용하세요`);
+    }
+    if (value.conditions === undefined) {
+      v.error(join(path, 'conditions'), '하위 조건이 하나 이상 필요합니다');
+      return;
+    }
+    if (!v.array(join(path, 'conditions'), value.conditions)) return;
+    if (value.conditions.length === 0) {
+      v.error(join(path, 'conditions'), '하위 조건이 하나 이상 필요합니다');
+      return;
+    }
+    if (value.type === 'not' && value.conditions.length > 1) {
+      v.error(join(path, 'conditions'), 'not 조건은 하위 조건을 하나만 가질 수 있습니다');
+    }
+    value.conditions.forEach((child: unknown, i: number) => {
+      validateSuccessCondition(v, `${join(path, 'conditions')}[${i}]`, child);
+    });
+    return;
+  }
+
+  if (value.conditions !== undefined) {
+    v.error(join(path, 'conditions'), `${value.type} 조건에는 conditions를 사용할 수 없습니다`);
+  }
+  if (value.value === undefined) {
+    v.error(join(path, 'value'), '필수 항목입니다');
+  } else if (value.type === 'element' && typeof value.value !== 'string') {
+    v.error(join(path, 'value'), 'element 조건의 value는 셀렉터 문자열이어야 합니다');
+  } else {
+    v.pattern(join(path, 'value'), value.value);
+  }
+}
+
+/**
+ * 경로 연결
+ */
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+/**
+ * 오류 메시지용 타입 설명
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,126 @@
+import { randomUUID } from 'crypto';
+import { ValueScope } from '../analyzer/value-generator';
+
+/**
+ * 템플릿 플레이스홀더 패턴: {{name}} 또는 {{name:arg}}
+ */
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_][\w.]*)(?::([^}]*))?\s*\}\}/g;
+
+/**
+ * 내장 동적 값 생성기
+ *
+ * | 플레이스홀더 | 예시 결과 |
+ * |------|------|
+ * | {{timestamp}} | 1735689600000 |
+ * | {{uuid}} | 3f1c...-... |
+ * | {{random}} / {{random:8}} | k3j9x2 (영소문자+숫자) |
+ * | {{date}} | 2025-01-01 |
+ * | {{datetime}} | 2025-01-01T00:00:00.000Z |
+ *
+ * values(시드 값 범위)가 주어지면 무작위 값은 시드로, 날짜/시각은 기준 시각(baseTime, 기본: 실행 시작)으로 생성
+ * → 같은 시드와 기준 시각(결과의 baseDate)으로 다시 실행하면 같은 값 (없으면 Math.random / 현재 시각)
+ */
+const BUILTIN_GENERATORS: Record<string, (arg: string | undefined, values?: ValueScope) => string> = {
+  timestamp: (_arg, values) => String(values ? values.baseTime : Date.now()),
+  uuid: (_arg, values) => values ? seededUuid(values) : randomUUID(),
+  random: (arg, values) => {
+    const length = arg ? parseInt(arg, 10) || 6 : 6;
+    if (values) return values.token(length);
+
+    let result = '';
+    while (result.length < length) {
+      result += Math.random().toString(36).slice(2);
+    }
+    return result.slice(0, length);
+  },
+  date: (_arg, values) => new Date(values ? values.baseTime : Date.now()).toISOString().slice(0, 10),
+  datetime: (_arg, values) => new Date(values ? values.baseTime : Date.now()).toISOString()
+};
+
+/**
+ * 문자열에 템플릿 플레이스홀더가 있는지 확인
+ */
+export function hasTemplate(value: string): boolean {
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  return PLACEHOLDER_PATTERN.test(value);
+}
+
+/**
+ * 템플릿에서 사용된 플레이스홀더 이름 목록
+ */
+export function listPlaceholders(value: string): string[] {
+  return Array.from(value.matchAll(PLACEHOLDER_PATTERN)).map(m => m[1]);
+}
+
+/**
+ * 템플릿 문법 오류 (없으면 null)
+ *
+ * - 닫히지 않은 {{
+ * - {{이름}} / {{이름:인자}} 형식이 아닌 플레이스홀더
+ * - {{random:n}}의 n이 1 이상의 정수가 아님
+ */
+export function findTemplateError(template: string): string | null {
+  let index = template.indexOf('{{');
+  while (index !== -1) {
+    const end = template.indexOf('}}', index + 2);
+    if (end === -1) {
+      return `닫히지 않은 플레이스홀더: "${template.slice(index, index + 20)}"`;
+    }
+
+    const placeholder = template.slice(index, end + 2);
+    const match = placeholder.match(/^\{\{\s*([a-zA-Z_][\w.]*)(?::([^}]*))?\s*\}\}$/);
+    if (!match) {
+      return `잘못된 플레이스홀더 "${placeholder}" (형식: {{이름}} 또는 {{이름:인자}})`;
+    }
+    if (match[1] === 'random' && match[2] !== undefined && !/^\s*[1-9]\d*\s*$/.test(match[2])) {
+      return `{{random:n}}의 길이는 1 이상의 정수여야 합니다 (현재: "${match[2]}")`;
+    }
+
+    index = template.indexOf('{{', end + 2);
+  }
+  return null;
+}
+
+/**
+ * 내장 생성기 이름인지 확인
+ */
+export function isBuiltinPlaceholder(name: string): boolean {
+  return name in BUILTIN_GENERATORS;
+}
+
+/**
+ * 템플릿 렌더링 - 호출할 때마다 새 값 생성
+ * variables(saveAs/캡처 값)를 내장 생성기보다 우선 적용, 알 수 없는 플레이스홀더는 그대로 유지
+ * values를 넘기면 내장 생성기 값이 시드로 재현됨 (AutoPilot은 실행 시드의 값 범위를 넘김)
+ */
+export function renderTemplate(template: string, variables: Record<string, string> = {}, values?: ValueScope): string {
+  return template.replace(PLACEHOLDER_PATTERN, (match, name: string, arg?: string) => {
+    if (arg === undefined && Object.prototype.hasOwnProperty.call(variables, name)) {
+      return variables[name];
+    }
+    const generator = BUILTIN_GENERATORS[name];
+    return generator ? generator(arg?.trim(), values) : match;
+  });
+}
+
+/**
+ * 템플릿 문자열을 값 생성 함수로 변환 (플레이스홀더가 없으면 문자열 그대로)
+ *
+ * 반환된 함수는 시드와 무관하게 값을 만들므로, 재현이 필요하면 템플릿 문자열을
+ * 그대로 value에 넣어 AutoPilot이 실행 시드로 렌더링하게 할 것
+ */
+export function compileTemplate(template: string, values?: ValueScope): string | (() => string) {
+  if (!hasTemplate(template)) return template;
+  return () => renderTemplate(template, {}, values);
+}
+
+/**
+ * 시드 값 범위로 만든 UUID v4 형식 문자열
+ */
+function seededUuid(values: ValueScope): string {
+  const hex = Array.from({ length: 32 }, () => Math.floor(values.random() * 16).toString(16));
+  hex[12] = '4';
+  hex[16] = (8 + Math.floor(values.random() * 4)).toString(16);
+  const part = (start: number, end: number) => hex.slice(start, end).join('');
+  return `${part(0, 8)}-${part(8, 12)}-${part(12, 16)}-${part(16, 20)}-${part(20, 32)}`;
+}
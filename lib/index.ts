@@ -6,12 +6,137 @@ export { DOMExplorer, type ElementInfo, type ExplorationResult } from './explore
 export { ModalHandler, type ModalPattern } from './modal/modal-handler';
 export { TestDataManager, type TestDataRecord, type DataManagerConfig } from './data/test-data-manager';
 export { FlowRecorder, type FlowStep, type FlowRecord } from './flow/flow-recorder';
+export {
+  emitFlowTest,
+  toLocatorCode,
+  maskedValueEnv,
+  typeCheckTestCode,
+  type CodeEmitterOptions,
+  type CodeCheckResult
+} from './flow/code-emitter';
+export {
+  selectorFromSnapshot,
+  type CaptureOptions,
+  type CaptureEvent,
+  type CapturedElement
+} from './flow/live-capture';
+export {
+  FlowPlayer,
+  formatPlaybackResult,
+  type FlowPlayerOptions,
+  type FlowStepResult,
+  type FlowPlaybackResult
+} from './flow/flow-player';
+export { toPlaywrightSelector, isLocatorExpression } from './flow/locator-expression';
+export {
+  diffFlows,
+  diffFlowWithPlayback,
+  formatFlowDiff,
+  writeFlowDiffReport,
+  type FlowDiff,
+  type FlowDiffOptions,
+  type FlowStepChange,
+  type FlowChangeType
+} from './flow/flow-diff';
+
+// 시각 회귀 (스크린샷 기준 이미지 비교)
+export {
+  compareImages,
+  readPng,
+  type ImageDiffOptions,
+  type ImageDiffResult,
+  type ImageRegion
+} from './visual/image-diff';
+export {
+  VisualBaselineStore,
+  flowStepKey,
+  formatVisualResult,
+  type VisualVerdict,
+  type VisualCheckResult,
+  type VisualFlowResult,
+  type BaselineMeta,
+  type BaselineStoreOptions,
+  type VisualCaptureOptions
+} from './visual/baseline-store';
 export { TestHelper, retry, skipIf, type AppConfig } from './utils/test-helpers';
 
+// 로깅 / 이벤트 (테스트 하네스, 커스텀 리포터 구독용)
+export {
+  createLogger,
+  configureLogger,
+  resetLoggerConfig,
+  getLoggerConfig,
+  errorData,
+  type Logger,
+  type LoggerConfig,
+  type LogLevel,
+  type LogFormat,
+  type LogRecord
+} from './utils/logger';
+export {
+  TypedEventBus,
+  qaEvents,
+  type QAEvents,
+  type StepSource,
+  type EventHandler
+} from './utils/event-bus';
+
+// Goal 파일 (YAML/JSON)
+export {
+  loadGoalFile,
+  loadGoalDirectory,
+  findGoalFiles,
+  parseGoalDefinition,
+  toExtendedGoal,
+  formatValidationIssues,
+  detectGoalFileFormat,
+  GOAL_FILE_PATTERN,
+  type LoadedGoalFile,
+  type GoalFileFormat
+} from './goal/goal-loader';
+export {
+  validateGoalDefinition,
+  type GoalDefinition,
+  type GoalValidationIssue,
+  type SerializedPattern,
+  type PatternValue,
+  type FieldIdentifierDefinition,
+  type FieldInstructionDefinition,
+  type ButtonInstructionDefinition,
+  type SuccessConditionDefinition,
+  type PreStepDefinition,
+  type CaptureDefinition
+} from './goal/goal-schema';
+export { renderTemplate, compileTemplate, hasTemplate, findTemplateError } from './goal/value-template';
+
+// 시나리오 (여러 Goal 연결 실행)
+export {
+  ScenarioRunner,
+  type Scenario,
+  type ScenarioGoal,
+  type ScenarioGoalSource,
+  type ScenarioContext,
+  type ScenarioGoalResult,
+  type ScenarioResult,
+  type GoalFailurePolicy
+} from './scenario/scenario-runner';
+
 // DOM 기반 자동화 모듈
 export {
   // 기존 모듈
   PageStateAnalyzer,
+  AccessibilityStateAnalyzer,
+  parseAriaSnapshot,
+  AccessibilityAuditor,
+  summarizeAudit,
+  assertNoViolations,
+  formatAuditReport,
+  AUDIT_RULES,
+  collectFrameScopes,
+  qualifySelector,
+  splitFrameSelector,
+  frameScopeOf,
+  FRAME_SEPARATOR,
   ActionDecider,
   AutoPilot,
   type PageState,
@@ -20,10 +145,18 @@ export {
   type FormState,
   type AlertState,
   type ModalState,
+  type AccessibilityNode,
+  type AuditRuleId,
+  type AuditImpact,
+  type AuditViolation,
+  type AuditResult,
+  type AuditOptions,
+  type FrameScope,
   type Action,
   type ActionType,
   type Goal,
   type FieldStrategy,
+  type SkippedField,
   type AutoPilotConfig,
   type ExecutionStep,
   type ExecutionResult,
@@ -35,6 +168,44 @@ export {
   SelectorGenerator,
   DropdownHandler,
   ErrorRecovery,
+  SelectorRepository,
+  fingerprintSimilarity,
+  formatDriftReport,
+  SelectorScorer,
+  analyzeSelector,
+  inferSelectorType,
+  formatSelectorScores,
+  SuccessEvaluator,
+  toSuccessCondition,
+  ValueCapturer,
+  SeededValueGenerator,
+  createValueScope,
+  ValueProviderRegistry,
+  applyValueVariant,
+  ValidationFuzzer,
+  getNegativeInputs,
+  formatCoverageMatrix,
+  FieldDependencyAnalyzer,
+  sortByFillOrder,
+  describeDependencyGraph,
+  DecisionPolicyRegistry,
+  extendPolicy,
+  DEFAULT_DECISION_POLICY,
+  DEFAULT_DECISION_RULES,
+  DEFAULT_POLICY_NAME,
+  createReplayScript,
+  saveReplayScript,
+  loadReplayScript,
+  matchesUrlPattern,
+  REPLAY_SCRIPT_VERSION,
+  REPLAY_FILE_EXTENSION,
+  generateSpecCode,
+  writeSpecFile,
+  getSpecFilePath,
+  generateTraceHtml,
+  writeTraceReport,
+  toStringLiteral,
+  toRegexLiteral,
   escapeForSelector,
   escapeForHasText,
   matchesFieldIdentifier,
@@ -63,11 +234,61 @@ export {
   type RecoveryStrategyType,
   type RecoveryResult,
   type RecoveryOptions,
+  type RecoveryContext,
+  type ErrorRecoveryConfig,
+  type ElementFingerprint,
+  type SelectorEntry,
+  type SelectorHistoryEntry,
+  type SelectorResolution,
+  type SelectorDriftReport,
+  type SelectorRepositoryOptions,
+  type SelectorScore,
+  type SelectorRisk,
+  type SelectorRiskType,
+  type SuccessIndicator,
+  type CaptureResult,
+  type ValueGenerator,
+  type ValueScope,
+  type SeededValueGeneratorOptions,
+  type GeneratedValue,
+  type ValueLocale,
+  type ValueVariant,
+  type ValueProvider,
+  type ValueProviderOptions,
+  type NegativeInput,
+  type NegativeInputCategory,
+  type FuzzOutcome,
+  type FuzzOptions,
+  type FuzzCaseResult,
+  type ValidationCoverageReport,
+  type FieldDependencyType,
+  type FieldDependency,
+  type FieldNode,
+  type FieldDependencyGraph,
+  type DependencyDiscoveryOptions,
+  type DecisionPolicy,
+  type DecisionRule,
+  type DecisionContext,
+  type PolicyExtension,
+  type ReplayStep,
+  type ReplayScript,
+  type ReplayOptions,
+  type ReplayResult,
+  type ReplayScriptOptions,
+  type SpecGeneratorOptions,
+  type TraceReportOptions,
+  type TraceReportWriteOptions,
+  type LocatorExpression,
+  type LocatorStrategy,
   type ExtendedGoal,
   type FieldInstruction,
   type FieldIdentifier,
   type ButtonInstruction,
   type SuccessCondition,
+  type SuccessConditionType,
   type PreStep,
+  type PreStepType,
+  type CaptureInstruction,
+  type CaptureSource,
   type GoalOptions
 } from './analyzer';
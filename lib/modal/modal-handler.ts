@@ -1,4 +1,8 @@
 import { Page } from '@playwright/test';
+import { createLogger } from '../utils/logger';
+import { qaEvents } from '../utils/event-bus';
+
+const logger = createLogger('ModalHandler');
 
 export interface ModalPattern {
   name: string;
@@ -110,7 +114,7 @@ export class ModalHandler {
         }
 
         if (isVisible) {
-          console.log(`[ModalHandler] 감지됨: ${pattern.name}`);
+          logger.info(`감지됨: ${pattern.name}`);
           return pattern;
         }
       } catch {
@@ -125,7 +129,7 @@ export class ModalHandler {
    */
   async handleModal(pattern: ModalPattern): Promise<boolean> {
     try {
-      console.log(`[ModalHandler] 처리 중: ${pattern.name}`);
+      logger.info(`처리 중: ${pattern.name}`);
 
       switch (pattern.closeAction) {
         case 'escape':
@@ -178,11 +182,14 @@ export class ModalHandler {
 
       this.handledModals.push(pattern.name);
       await this.page.waitForTimeout(500);
-      console.log(`[ModalHandler] 완료: ${pattern.name}`);
+      logger.info(`완료: ${pattern.name}`);
+      qaEvents.emit('modalHandled', { pattern: pattern.name, success: true });
       return true;
 
     } catch (error) {
-      console.log(`[ModalHandler] 실패: ${pattern.name}`, error);
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`실패: ${pattern.name}`, { error: message });
+      qaEvents.emit('modalHandled', { pattern: pattern.name, success: false, error: message });
       return false;
     }
   }
@@ -209,7 +216,7 @@ export class ModalHandler {
     }
 
     if (handled.length > 0) {
-      console.log(`[ModalHandler] 총 ${handled.length}개 모달 처리됨:`, handled);
+      logger.info(`총 ${handled.length}개 모달 처리됨`, { handled });
     }
 
     return handled;
@@ -0,0 +1,314 @@
+import { Page } from '@playwright/test';
+import * as path from 'path';
+import {
+  AutoPilot,
+  AutoPilotConfig,
+  ExecutionResult,
+  ExecutionStep
+} from '../analyzer/auto-pilot';
+import { ExtendedGoal, normalizeGoal } from '../analyzer/instruction-types';
+import { loadGoalFile } from '../goal/goal-loader';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('Scenario');
+
+/**
+ * 시나리오 내 Goal 지정 방법
+ * - ExtendedGoal 객체
+ * - Goal 파일 경로 (.goal.yaml / .goal.json)
+ * - 이전 Goal 결과(컨텍스트)를 받아 Goal을 만드는 함수
+ */
+export type ScenarioGoalSource =
+  | ExtendedGoal
+  | string
+  | ((context: ScenarioContext) => ExtendedGoal | Promise<ExtendedGoal>);
+
+/**
+ * Goal 실패 시 처리 방법
+ */
+export type GoalFailurePolicy =
+  | 'abort'      // 시나리오 중단, 실패 (기본)
+  | 'continue'   // 다음 Goal 계속 진행, 시나리오는 실패
+  | 'ignore';    // 다음 Goal 계속 진행, 시나리오 성공 여부에 영향 없음
+
+/**
+ * 시나리오 단계 (Goal + 정책)
+ */
+export interface ScenarioGoal {
+  id?: string;                 // 결과/변수 식별자 (기본: goal.name)
+  goal: ScenarioGoalSource;
+  onFailure?: GoalFailurePolicy;
+  retries?: number;            // 실패 시 재실행 횟수 (기본: 0)
+  skipIf?: (context: ScenarioContext) => boolean;
+}
+
+/**
+ * 시나리오 정의
+ */
+export interface Scenario {
+  name: string;
+  description?: string;
+  goals: ScenarioGoal[];
+  variables?: Record<string, string>;  // 초기 변수
+  baseDir?: string;                    // Goal 파일 경로 기준 디렉토리 (기본: cwd)
+}
+
+/**
+ * Goal 간 공유 컨텍스트
+ *
+ * 각 Goal 실행 후 변수 추가 (다음 Goal에서 {{변수}} 템플릿으로 참조):
+ * - saveAs/captures로 저장된 값: `<name>`, `<id>.<name>`
+ * - 최종 URL: `<id>.url`, `lastUrl`
+ */
+export interface ScenarioContext {
+  scenario: string;
+  page: Page;
+  variables: Record<string, string>;
+  results: ScenarioGoalResult[];
+}
+
+/**
+ * Goal별 실행 결과
+ */
+export interface ScenarioGoalResult {
+  id: string;
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  attempts: number;
+  result?: ExecutionResult;      // 마지막 시도 결과
+  steps: ExecutionStep[];        // 모든 시도의 단계 (attempt로 구분)
+  error?: string;
+}
+
+/**
+ * 시나리오 실행 결과 (steps는 모든 Goal의 통합 타임라인)
+ */
+export interface ScenarioResult extends ExecutionResult {
+  scenario: string;
+  goals: ScenarioGoalResult[];
+  variables: Record<string, string>;
+}
+
+/**
+ * ScenarioRunner - 여러 Goal을 순서대로 실행
+ *
+ * 사용법:
+ * ```typescript
+ * const runner = new ScenarioRunner(page);
+ *
+ * const result = await runner.run({
+ *   name: '트래킹 링크 생성 → 삭제',
+ *   goals: [
+ *     { id: 'create', goal: 'Tests/트래킹 링크 생성/트래킹 링크 생성.goal.yaml' },
+ *     {
+ *       id: 'delete',
+ *       goal: {
+ *         name: '트래킹 링크 삭제',
+ *         preSteps: [{ type: 'click', target: 'text={{create.channel}}' }],
+ *         targetButton: '삭제'
+ *       }
+ *     }
+ *   ]
+ * });
+ * ```
+ */
+export class ScenarioRunner {
+  private page: Page;
+  private pilot: AutoPilot;
+  private verbose: boolean;
+
+  constructor(page: Page, config: AutoPilotConfig = {}) {
+    this.page = page;
+    this.pilot = new AutoPilot(page, config);
+    this.verbose = config.verbose ?? true;
+  }
+
+  /**
+   * 내부 AutoPilot (필드 전략 추가 등)
+   */
+  getAutoPilot(): AutoPilot {
+    return this.pilot;
+  }
+
+  /**
+   * 시나리오 실행
+   */
+  async run(scenario: Scenario): Promise<ScenarioResult> {
+    const startTime = Date.now();
+    const context: ScenarioContext = {
+      scenario: scenario.name,
+      page: this.page,
+      variables: { ...(scenario.variables || {}) },
+      results: []
+    };
+    const steps: ExecutionStep[] = [];
+    let success = true;
+    let error: string | undefined;
+    let aborted = false;
+
+    this.log(`🎬 시나리오 시작: ${scenario.name} (${scenario.goals.length}개 Goal)`);
+
+    for (let i = 0; i < scenario.goals.length; i++) {
+      const entry = scenario.goals[i];
+      const fallbackId = `goal-${i + 1}`;
+
+      // 이전 Goal 실패로 중단된 경우
+      if (aborted) {
+        context.results.push({
+          id: entry.id || fallbackId,
+          name: entry.id || fallbackId,
+          status: 'skipped',
+          attempts: 0,
+          steps: [],
+          error: '이전 Goal 실패로 건너뜀'
+        });
+        continue;
+      }
+
+      const goalResult = await this.runGoal(entry, fallbackId, scenario, context);
+      context.results.push(goalResult);
+
+      // 통합 타임라인에 추가 (실패한 시도 포함)
+      for (const step of goalResult.steps) {
+        steps.push({ ...step, step: steps.length + 1, goal: goalResult.id });
+      }
+
+      if (goalResult.status !== 'failed') continue;
+
+      const policy = entry.onFailure ?? 'abort';
+      this.log(`   ❌ ${goalResult.name} 실패 (정책: ${policy}): ${goalResult.error}`);
+
+      if (policy === 'ignore') continue;
+
+      success = false;
+      error = error ?? `${goalResult.name}: ${goalResult.error}`;
+      if (policy === 'abort') {
+        aborted = true;
+      }
+    }
+
+    const passed = context.results.filter(r => r.status === 'passed').length;
+    this.log(`${success ? '✅' : '❌'} 시나리오 종료: ${passed}/${scenario.goals.length} Goal 성공`);
+
+    const lastResult = [...context.results].reverse().find(r => r.result)?.result;
+
+    return {
+      scenario: scenario.name,
+      success,
+      steps,
+      goals: context.results,
+      variables: context.variables,
+      finalState: lastResult?.finalState,
+      skippedFields: context.results.flatMap(r => r.result?.skippedFields || []),
+      seed: this.pilot.getSeed(),
+      baseDate: this.pilot.getBaseDate(),
+      generatedValues: context.results.flatMap(r => r.result?.generatedValues || []),
+      error,
+      totalTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * 단일 Goal 실행 (재시도 포함)
+   */
+  private async runGoal(
+    entry: ScenarioGoal,
+    fallbackId: string,
+    scenario: Scenario,
+    context: ScenarioContext
+  ): Promise<ScenarioGoalResult> {
+    let goal: ExtendedGoal;
+    try {
+      goal = await this.resolveGoal(entry.goal, scenario, context);
+    } catch (resolveError) {
+      return {
+        id: entry.id || fallbackId,
+        name: entry.id || fallbackId,
+        status: 'failed',
+        attempts: 0,
+        steps: [],
+        error: `Goal 로드 실패: ${resolveError instanceof Error ? resolveError.message : String(resolveError)}`
+      };
+    }
+
+    const id = entry.id || goal.name;
+
+    if (entry.skipIf?.(context)) {
+      this.log(`\n⏭️ [${id}] 건너뜀 (skipIf)`);
+      return { id, name: goal.name, status: 'skipped', attempts: 0, steps: [] };
+    }
+
+    const maxAttempts = (entry.retries ?? 0) + 1;
+    const steps: ExecutionStep[] = [];
+    let result: ExecutionResult | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      this.log(`\n▶️ [${id}] ${goal.name}${attempt > 1 ? ` (재시도 ${attempt - 1}/${entry.retries})` : ''}`);
+      result = await this.pilot.execute(goal, context.variables);
+      steps.push(...result.steps.map(step => ({ ...step, attempt })));
+
+      this.collectVariables(id, result, context);
+      if (result.success) {
+        return { id, name: goal.name, status: 'passed', attempts: attempt, result, steps };
+      }
+      if (attempt < maxAttempts) {
+        this.log(`   ↻ 시도 ${attempt} 실패: ${result.error}`);
+      }
+    }
+
+    return {
+      id,
+      name: goal.name,
+      status: 'failed',
+      attempts: maxAttempts,
+      result,
+      steps,
+      error: result?.error
+    };
+  }
+
+  /**
+   * Goal 소스 → ExtendedGoal
+   */
+  private async resolveGoal(
+    source: ScenarioGoalSource,
+    scenario: Scenario,
+    context: ScenarioContext
+  ): Promise<ExtendedGoal> {
+    if (typeof source === 'string') {
+      const filePath = path.resolve(scenario.baseDir ?? process.cwd(), source);
+      return loadGoalFile(filePath).goal;
+    }
+
+    if (typeof source === 'function') {
+      return normalizeGoal(await source(context));
+    }
+
+    return source;
+  }
+
+  /**
+   * Goal 결과에서 변수 수집
+   */
+  private collectVariables(id: string, result: ExecutionResult, context: ScenarioContext) {
+    for (const [name, value] of Object.entries(result.variables || {})) {
+      context.variables[name] = value;
+      context.variables[`${id}.${name}`] = value;
+    }
+
+    const url = result.finalState?.url ?? this.page.url();
+    context.variables[`${id}.url`] = url;
+    context.variables.lastUrl = url;
+  }
+
+  /**
+   * 로그 출력
+   */
+  private log(message: string) {
+    if (this.verbose) {
+      logger.info(message);
+    } else {
+      logger.debug(message);
+    }
+  }
+}
@@ -0,0 +1,155 @@
+import type { LogRecord } from './logger';
+import type { RecoveryResult } from '../analyzer/error-recovery';
+import type { TestDataRecord } from '../data/test-data-manager';
+import type { FlowStep } from '../flow/flow-recorder';
+import type { VisualVerdict } from '../visual/baseline-store';
+
+/**
+ * 단계 실행 주체
+ */
+export type StepSource = 'AutoPilot' | 'FlowPlayer';
+
+/**
+ * QA 자동화 이벤트 (이벤트 이름 → payload)
+ */
+export interface QAEvents {
+  stepStarted: {
+    source: StepSource;
+    step: number;
+    action: string;
+    description: string;
+    selector?: string;
+  };
+  actionExecuted: {
+    source: StepSource;
+    step: number;
+    action: string;
+    description: string;
+    selector?: string;
+    success: boolean;
+    duration: number;
+    error?: string;
+  };
+  recoveryAttempted: {
+    operation: string;
+    selector?: string;
+    result: RecoveryResult;
+  };
+  executionFinished: {
+    source: StepSource;
+    name: string;
+    success: boolean;
+    steps: number;
+    duration: number;
+    error?: string;
+  };
+  modalHandled: {
+    pattern: string;
+    success: boolean;
+    error?: string;
+  };
+  dataRegistered: { record: TestDataRecord };
+  dataRemoved: { id: string };
+  flowStepRecorded: { flow: string; step: FlowStep };
+  visualChecked: { key: string; verdict: VisualVerdict };
+  log: LogRecord;
+}
+
+export type EventHandler<T> = (payload: T) => void | Promise<void>;
+
+/**
+ * TypedEventBus - 이벤트 이름별 payload 타입이 고정된 이벤트 버스
+ *
+ * - emit은 동기 호출 (비동기 핸들러는 기다리지 않음)
+ * - 핸들러 에러는 실행 흐름에 영향을 주지 않도록 onError로 전달
+ */
+export class TypedEventBus<Events extends object> {
+  private handlers: Map<keyof Events, Set<EventHandler<any>>> = new Map();
+  private onError: (error: unknown, event: keyof Events) => void;
+
+  constructor(onError?: (error: unknown, event: keyof Events) => void) {
+    this.onError = onError ?? ((error, event) => {
+      console.error(`[EventBus] '${String(event)}' 핸들러 실패: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }
+
+  /**
+   * 구독 (반환값을 호출하면 구독 해제)
+   */
+  on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * 한 번만 구독
+   */
+  once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    const wrapper: EventHandler<Events[K]> = payload => {
+      this.off(event, wrapper);
+      return handler(payload);
+    };
+    return this.on(event, wrapper);
+  }
+
+  /**
+   * 구독 해제
+   */
+  off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>) {
+    this.handlers.get(event)?.delete(handler);
+  }
+
+  /**
+   * 이벤트 발행
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    const handlers = this.handlers.get(event);
+    if (!handlers) return;
+
+    for (const handler of Array.from(handlers)) {
+      try {
+        const result = handler(payload);
+        if (result instanceof Promise) {
+          result.catch(error => this.onError(error, event));
+        }
+      } catch (error) {
+        this.onError(error, event);
+      }
+    }
+  }
+
+  /**
+   * 구독자 수
+   */
+  listenerCount(event: keyof Events): number {
+    return this.handlers.get(event)?.size ?? 0;
+  }
+
+  /**
+   * 구독 전체 해제 (event 지정 시 해당 이벤트만)
+   */
+  clear(event?: keyof Events) {
+    if (event === undefined) {
+      this.handlers.clear();
+    } else {
+      this.handlers.delete(event);
+    }
+  }
+}
+
+/**
+ * 전역 이벤트 버스 - 테스트 하네스/커스텀 리포터에서 구독
+ *
+ * 사용법:
+ * ```typescript
+ * const unsubscribe = qaEvents.on('actionExecuted', event => {
+ *   if (!event.success) test.info().annotations.push({ type: 'failed-step', description: event.description });
+ * });
+ * // ...
+ * unsubscribe();
+ * ```
+ */
+export const qaEvents = new TypedEventBus<QAEvents>();
@@ -0,0 +1,161 @@
+import { qaEvents } from './event-bus';
+
+/**
+ * 로그 레벨 (silent는 출력 없음)
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * 로그 출력 형식
+ * - text: [Namespace] 메시지 (기존 콘솔 출력과 동일)
+ * - json: 한 줄에 LogRecord 하나 (CI 수집/파싱용)
+ */
+export type LogFormat = 'text' | 'json';
+
+/**
+ * 로그 레코드
+ */
+export interface LogRecord {
+  time: string;
+  level: Exclude<LogLevel, 'silent'>;
+  namespace: string;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * 로거 설정 (환경변수 QA_LOG_LEVEL, QA_LOG_FORMAT, QA_LOG_NAMESPACES로도 지정)
+ */
+export interface LoggerConfig {
+  level?: LogLevel;               // 최소 레벨 (기본: info)
+  format?: LogFormat;             // 출력 형식 (기본: text)
+  namespaces?: string[];          // 출력할 네임스페이스 ('Flow*' 와일드카드, '-DataManager' 제외, 기본: 전체)
+  sink?: (record: LogRecord, line: string) => void; // 출력 대상 (기본: 콘솔)
+}
+
+/**
+ * 네임스페이스 로거
+ */
+export interface Logger {
+  readonly namespace: string;
+  debug(message: string, data?: Record<string, unknown>): void;
+  info(message: string, data?: Record<string, unknown>): void;
+  warn(message: string, data?: Record<string, unknown>): void;
+  error(message: string, data?: Record<string, unknown>): void;
+  isEnabled(level: Exclude<LogLevel, 'silent'>): boolean;
+  child(name: string): Logger;    // 하위 네임스페이스 (AutoPilot:Recovery)
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40, silent: 100 };
+
+let settings: Required<Omit<LoggerConfig, 'sink'>> & Pick<LoggerConfig, 'sink'> = readEnvConfig();
+
+/**
+ * 전역 로거 설정 변경 (지정하지 않은 항목은 유지)
+ *
+ * 사용법:
+ * ```typescript
+ * configureLogger({ level: 'debug', format: 'json', namespaces: ['AutoPilot*', '-AutoPilot:Recovery'] });
+ * ```
+ */
+export function configureLogger(config: LoggerConfig) {
+  settings = { ...settings, ...stripUndefined(config) };
+}
+
+/**
+ * 로거 설정 초기화 (환경변수 기준)
+ */
+export function resetLoggerConfig() {
+  settings = readEnvConfig();
+}
+
+/**
+ * 현재 로거 설정
+ */
+export function getLoggerConfig(): LoggerConfig {
+  return { ...settings };
+}
+
+/**
+ * 네임스페이스 로거 생성
+ *
+ * 출력된 레코드는 qaEvents의 'log' 이벤트로도 전달
+ */
+export function createLogger(namespace: string): Logger {
+  const write = (level: Exclude<LogLevel, 'silent'>, message: string, data?: Record<string, unknown>) => {
+    if (!isEnabled(namespace, level)) return;
+
+    const record: LogRecord = { time: new Date().toISOString(), level, namespace, message };
+    if (data && Object.keys(data).length > 0) record.data = data;
+
+    const line = settings.format === 'json' ? JSON.stringify(record) : formatText(record);
+    if (settings.sink) {
+      settings.sink(record, line);
+    } else if (level === 'error') {
+      console.error(line);
+    } else if (level === 'warn') {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+    qaEvents.emit('log', record);
+  };
+
+  return {
+    namespace,
+    debug: (message, data) => write('debug', message, data),
+    info: (message, data) => write('info', message, data),
+    warn: (message, data) => write('warn', message, data),
+    error: (message, data) => write('error', message, data),
+    isEnabled: level => isEnabled(namespace, level),
+    child: name => createLogger(`${namespace}:${name}`)
+  };
+}
+
+/**
+ * 에러 → 로그 데이터
+ */
+export function errorData(error: unknown): Record<string, unknown> {
+  return { error: error instanceof Error ? error.message : String(error) };
+}
+
+function isEnabled(namespace: string, level: Exclude<LogLevel, 'silent'>): boolean {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[settings.level]) return false;
+  return matchesNamespace(namespace, settings.namespaces);
+}
+
+function matchesNamespace(namespace: string, patterns: string[]): boolean {
+  const includes = patterns.filter(pattern => !pattern.startsWith('-'));
+  const excludes = patterns.filter(pattern => pattern.startsWith('-')).map(pattern => pattern.slice(1));
+
+  if (excludes.some(pattern => matchesPattern(namespace, pattern))) return false;
+  return includes.length === 0 || includes.some(pattern => matchesPattern(namespace, pattern));
+}
+
+function matchesPattern(namespace: string, pattern: string): boolean {
+  const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`);
+  return regex.test(namespace);
+}
+
+function formatText(record: LogRecord): string {
+  const prefix = record.level === 'warn' || record.level === 'error' ? `${record.level.toUpperCase()} ` : '';
+  const data = record.data ? ` ${JSON.stringify(record.data)}` : '';
+  return `${prefix}[${record.namespace}] ${record.message}${data}`;
+}
+
+function readEnvConfig() {
+  const level = process.env.QA_LOG_LEVEL as LogLevel | undefined;
+  const format = process.env.QA_LOG_FORMAT as LogFormat | undefined;
+  const namespaces = process.env.QA_LOG_NAMESPACES;
+
+  return {
+    level: level && level in LEVEL_ORDER ? level : 'info' as LogLevel,
+    format: format === 'json' ? 'json' as LogFormat : 'text' as LogFormat,
+    namespaces: namespaces ? namespaces.split(',').map(ns => ns.trim()).filter(Boolean) : [],
+    sink: undefined
+  };
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
@@ -3,6 +3,11 @@ import { DOMExplorer } from '../explorer/dom-explorer';
 import { ModalHandler } from '../modal/modal-handler';
 import { TestDataManager } from '../data/test-data-manager';
 import { FlowRecorder } from '../flow/flow-recorder';
+import { createLogger, errorData } from './logger';
+
+const logger = createLogger('TestHelper');
+const retryLogger = createLogger('Retry');
+const skipLogger = createLogger('Skip');
 
 export interface AppConfig {
   name: string;
@@ -63,11 +68,11 @@ export class TestHelper {
       // 6. 추가 모달 처리
       await this.modalHandler.waitAndHandle(1000);
 
-      console.log(`[TestHelper] 앱 접근 성공: ${this.appConfig.name}`);
+      logger.info(`앱 접근 성공: ${this.appConfig.name}`);
       return true;
 
     } catch (error) {
-      console.log(`[TestHelper] 앱 접근 실패:`, error);
+      logger.warn('앱 접근 실패', errorData(error));
       return false;
     }
   }
@@ -84,7 +89,7 @@ export class TestHelper {
         .toBeVisible({ timeout: 5000 });
       return true;
     } catch {
-      console.log(`[TestHelper] 앱 위치 확인 실패: ${this.appConfig.name}`);
+      logger.info(`앱 위치 확인 실패: ${this.appConfig.name}`);
       return false;
     }
   }
@@ -113,11 +118,11 @@ export class TestHelper {
       // 앱 위치 재확인
       await this.verifyAppLocation();
 
-      console.log(`[TestHelper] 메뉴 이동 완료: ${menuPath.join(' > ')}`);
+      logger.info(`메뉴 이동 완료: ${menuPath.join(' > ')}`);
       return true;
 
     } catch (error) {
-      console.log(`[TestHelper] 메뉴 이동 실패:`, error);
+      logger.warn('메뉴 이동 실패', errorData(error));
       return false;
     }
   }
@@ -126,12 +131,12 @@ export class TestHelper {
    * 요소 탐색 및 셀렉터 제안
    */
   async findElement(description: string): Promise<string[]> {
-    console.log(`[TestHelper] 요소 탐색: "${description}"`);
+    logger.info(`요소 탐색: "${description}"`);
 
     // 텍스트로 검색
     const byText = await this.explorer.findByText(description);
     if (byText.length > 0) {
-      console.log(`[TestHelper] ${byText.length}개 요소 발견 (텍스트)`);
+      logger.info(`${byText.length}개 요소 발견 (텍스트)`);
       return byText.flatMap(el => el.suggestedSelectors);
     }
 
@@ -146,11 +151,11 @@ export class TestHelper {
     });
 
     if (matches.length > 0) {
-      console.log(`[TestHelper] ${matches.length}개 관련 요소 발견`);
+      logger.info(`${matches.length}개 관련 요소 발견`);
       return matches.flatMap(el => el.suggestedSelectors);
     }
 
-    console.log('[TestHelper] 요소를 찾을 수 없습니다.');
+    logger.info('요소를 찾을 수 없습니다.');
     return [];
   }
 
@@ -165,7 +170,7 @@ export class TestHelper {
       await this.modalHandler.handleAllModals();
       return true;
     } catch (error) {
-      console.log(`[TestHelper] 클릭 실패: ${selector}`, error);
+      logger.warn(`클릭 실패: ${selector}`, errorData(error));
       return false;
     }
   }
@@ -186,7 +191,7 @@ export class TestHelper {
 
       return true;
     } catch (error) {
-      console.log(`[TestHelper] 입력 실패: ${selector}`, error);
+      logger.warn(`입력 실패: ${selector}`, errorData(error));
       return false;
     }
   }
@@ -206,7 +211,7 @@ export class TestHelper {
           const isVisible = await this.page.locator(selector)
             .isVisible({ timeout: 500 });
           if (isVisible) {
-            console.log(`[TestHelper] 요소 발견: ${selector}`);
+            logger.info(`요소 발견: ${selector}`);
             return selector;
           }
         } catch {
@@ -216,7 +221,7 @@ export class TestHelper {
       await this.page.waitForTimeout(500);
     }
 
-    console.log('[TestHelper] 요소를 찾을 수 없습니다:', selectorCandidates);
+    logger.warn('요소를 찾을 수 없습니다', { selectors: selectorCandidates });
     return null;
   }
 
@@ -261,7 +266,7 @@ export async function retry<T>(
       onError?.(error, attempt);
 
       if (attempt < maxAttempts) {
-        console.log(`[Retry] 시도 ${attempt}/${maxAttempts} 실패, ${delay}ms 후 재시도...`);
+        retryLogger.warn(`시도 ${attempt}/${maxAttempts} 실패, ${delay}ms 후 재시도...`, errorData(error));
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
@@ -275,7 +280,7 @@ export async function retry<T>(
  */
 export function skipIf(condition: boolean, reason: string) {
   if (condition) {
-    console.log(`[Skip] ${reason}`);
+    skipLogger.info(reason);
     return true;
   }
   return false;
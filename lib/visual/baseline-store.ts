@@ -0,0 +1,315 @@
+import { Page } from '@playwright/test';
+import * as fs from 'fs';
+import * as path from 'path';
+import { compareImages, ImageDiffOptions, ImageDiffResult, ImageRegion } from './image-diff';
+import type { ExecutionResult } from '../analyzer/auto-pilot';
+import { createLogger } from '../utils/logger';
+import { qaEvents } from '../utils/event-bus';
+
+const logger = createLogger('VisualBaseline');
+
+/**
+ * 시각 비교 판정
+ */
+export type VisualVerdict =
+  | 'pass'        // 기준 이미지와 허용치 안에서 일치
+  | 'fail'        // 시각 회귀
+  | 'new'         // 기준 이미지가 없어 현재 이미지를 기준으로 저장
+  | 'updated'     // updateBaselines 모드로 기준 이미지 갱신
+  | 'missing';    // 비교할 스크린샷이 없음
+
+/**
+ * 기준 이미지 메타데이터 (<key>.json)
+ */
+export interface BaselineMeta {
+  key: string;
+  width: number;
+  height: number;
+  ignoreRegions: ImageRegion[];  // 기준 촬영 시 마스크한 동적 영역
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 스텝 단위 시각 비교 결과
+ */
+export interface VisualCheckResult {
+  key: string;
+  verdict: VisualVerdict;
+  baselinePath: string;
+  actualPath?: string;
+  diffPath?: string;
+  diff?: ImageDiffResult;
+}
+
+/**
+ * 플로우 시각 비교 결과
+ */
+export interface VisualFlowResult {
+  flow: string;
+  passed: boolean;               // fail이 하나도 없으면 true
+  steps: Array<VisualCheckResult & { order: number }>;
+}
+
+/**
+ * 기준 이미지 저장소 옵션
+ */
+export interface BaselineStoreOptions extends Omit<ImageDiffOptions, 'diffPath'> {
+  updateBaselines?: boolean;     // 비교 대신 기준 이미지 갱신 (기본: false, 환경변수 UPDATE_BASELINES=1)
+}
+
+/**
+ * 스크린샷 촬영 옵션
+ */
+export interface VisualCaptureOptions {
+  mask?: string[];               // 동적 영역 셀렉터 (촬영 시 칠하고, 영역은 비교에서도 제외)
+  fullPage?: boolean;
+}
+
+/**
+ * VisualBaselineStore - 스크린샷 기준 이미지 저장 및 시각 회귀 판정
+ *
+ * 폴더 구조:
+ * ```
+ * <baseDir>/baselines/<key>.png, <key>.json   기준 이미지 + 마스크 영역
+ * <baseDir>/diffs/<key>.diff.png              차이 이미지 (빨간색 = 다른 픽셀)
+ * ```
+ *
+ * 사용법:
+ * ```typescript
+ * const store = new VisualBaselineStore('visual-baselines', { maxDiffRatio: 0.001 });
+ * const player = new FlowPlayer(page, { visualBaselines: store, screenshotMask: ['.timestamp'] });
+ * const result = await player.play('회원가입');   // 스텝별 visual 판정, 회귀가 있으면 실패
+ * ```
+ */
+export class VisualBaselineStore {
+  private baseDir: string;
+  private options: BaselineStoreOptions;
+
+  constructor(baseDir: string = './visual-baselines', options: BaselineStoreOptions = {}) {
+    this.baseDir = baseDir;
+    this.options = {
+      ...options,
+      updateBaselines: options.updateBaselines ?? process.env.UPDATE_BASELINES === '1'
+    };
+  }
+
+  /**
+   * 기준 이미지 경로
+   */
+  baselinePath(key: string): string {
+    return path.join(this.baseDir, 'baselines', `${toFileKey(key)}.png`);
+  }
+
+  /**
+   * 기준 이미지 존재 여부
+   */
+  hasBaseline(key: string): boolean {
+    return fs.existsSync(this.baselinePath(key));
+  }
+
+  /**
+   * 기준 이미지 메타데이터
+   */
+  getMeta(key: string): BaselineMeta | null {
+    const metaPath = this.metaPath(key);
+    if (!fs.existsSync(metaPath)) return null;
+    return JSON.parse(fs.readFileSync(metaPath, 'utf-8'));
+  }
+
+  /**
+   * 마스크 셀렉터 → 화면 영역 (보이는 요소만)
+   */
+  async resolveMaskRegions(page: Page, selectors: string[] = [], fullPage: boolean = false): Promise<ImageRegion[]> {
+    const regions: ImageRegion[] = [];
+    const scroll = fullPage
+      ? await page.evaluate(() => ({ x: window.scrollX, y: window.scrollY }))
+      : { x: 0, y: 0 };
+
+    for (const selector of selectors) {
+      const locators = await page.locator(selector).all();
+      for (const locator of locators) {
+        const box = await locator.boundingBox().catch(() => null);
+        if (box) {
+          regions.push({ x: box.x + scroll.x, y: box.y + scroll.y, width: box.width, height: box.height });
+        }
+      }
+    }
+    return regions;
+  }
+
+  /**
+   * 현재 화면 촬영 후 비교 (동적 영역은 마스크)
+   */
+  async capture(page: Page, key: string, options: VisualCaptureOptions = {}): Promise<VisualCheckResult> {
+    const actualPath = path.join(this.baseDir, 'actual', `${toFileKey(key)}.png`);
+    fs.mkdirSync(path.dirname(actualPath), { recursive: true });
+
+    const mask = options.mask ?? [];
+    const regions = await this.resolveMaskRegions(page, mask, options.fullPage);
+    await page.screenshot({
+      path: actualPath,
+      fullPage: options.fullPage,
+      mask: mask.map(selector => page.locator(selector)),
+      animations: 'disabled',
+      caret: 'hide'
+    });
+
+    return this.check(key, actualPath, regions);
+  }
+
+  /**
+   * 스크린샷 파일을 기준 이미지와 비교 (없으면 기준으로 저장)
+   */
+  check(key: string, actualPath?: string, ignoreRegions: ImageRegion[] = []): VisualCheckResult {
+    const baselinePath = this.baselinePath(key);
+
+    if (!actualPath || !fs.existsSync(actualPath)) {
+      return this.report({ key, verdict: 'missing', baselinePath, actualPath });
+    }
+
+    if (!this.hasBaseline(key) || this.options.updateBaselines) {
+      const verdict: VisualVerdict = this.hasBaseline(key) ? 'updated' : 'new';
+      this.approve(key, actualPath, ignoreRegions);
+      logger.info(`${verdict === 'new' ? '기준 이미지 생성' : '기준 이미지 갱신'}: ${key}`);
+      return this.report({ key, verdict, baselinePath, actualPath });
+    }
+
+    const meta = this.getMeta(key);
+    const diffPath = path.join(this.baseDir, 'diffs', `${toFileKey(key)}.diff.png`);
+    if (fs.existsSync(diffPath)) fs.unlinkSync(diffPath);
+
+    const diff = compareImages(baselinePath, actualPath, {
+      ...this.options,
+      ignoreRegions: [...(this.options.ignoreRegions ?? []), ...(meta?.ignoreRegions ?? []), ...ignoreRegions],
+      diffPath
+    });
+
+    const verdict: VisualVerdict = diff.match ? 'pass' : 'fail';
+    if (verdict === 'fail') {
+      const reason = diff.sizeMismatch
+        ? `크기 불일치 ${meta?.width ?? '?'}x${meta?.height ?? '?'} → ${diff.width}x${diff.height}`
+        : `${diff.diffPixels}px (${(diff.diffRatio * 100).toFixed(2)}%)`;
+      logger.warn(`❌ 시각 회귀: ${key} - ${reason}`);
+    }
+
+    return this.report({ key, verdict, baselinePath, actualPath, diffPath: diff.diffPath, diff });
+  }
+
+  /**
+   * 스크린샷 두 장 비교 - 저장소 허용치와 키의 기준 이미지 마스크 영역 적용 (기준 이미지는 바꾸지 않음)
+   */
+  compare(key: string, beforePath: string, afterPath: string, ignoreRegions: ImageRegion[] = []): ImageDiffResult {
+    const { updateBaselines, ...diffOptions } = this.options;
+    return compareImages(beforePath, afterPath, {
+      ...diffOptions,
+      ignoreRegions: [...(this.options.ignoreRegions ?? []), ...(this.getMeta(key)?.ignoreRegions ?? []), ...ignoreRegions]
+    });
+  }
+
+  /**
+   * 현재 이미지를 기준 이미지로 승인
+   */
+  approve(key: string, actualPath: string, ignoreRegions: ImageRegion[] = []) {
+    const baselinePath = this.baselinePath(key);
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.copyFileSync(actualPath, baselinePath);
+
+    const { width, height } = readSize(baselinePath);
+    const previous = this.getMeta(key);
+    const now = new Date().toISOString();
+    const meta: BaselineMeta = {
+      key,
+      width,
+      height,
+      ignoreRegions,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now
+    };
+    fs.writeFileSync(this.metaPath(key), JSON.stringify(meta, null, 2), 'utf-8');
+  }
+
+  /**
+   * 플로우 스텝 스크린샷 일괄 비교 (FlowRecord 또는 FlowPlayer 결과)
+   * 키: <플로우 이름>/step-<순서>
+   */
+  checkFlow(flow: { name?: string; flow?: string; steps: Array<{ order: number; screenshot?: string }> }): VisualFlowResult {
+    const name = flow.name ?? flow.flow ?? 'flow';
+    const steps = flow.steps
+      .filter(step => step.screenshot)
+      .map(step => ({ order: step.order, ...this.check(flowStepKey(name, step.order), step.screenshot) }));
+
+    return {
+      flow: name,
+      passed: steps.every(step => step.verdict !== 'fail'),
+      steps
+    };
+  }
+
+  /**
+   * AutoPilot 실행 스크린샷 일괄 비교 (enableScreenshots로 실행한 결과)
+   * 키: <이름>/step-<단계 번호>
+   */
+  checkExecution(name: string, result: ExecutionResult): VisualFlowResult {
+    return this.checkFlow({
+      name,
+      steps: result.steps.map(step => ({ order: step.step, screenshot: step.screenshot }))
+    });
+  }
+
+  private report(result: VisualCheckResult): VisualCheckResult {
+    qaEvents.emit('visualChecked', { key: result.key, verdict: result.verdict });
+    return result;
+  }
+
+  private metaPath(key: string): string {
+    return path.join(this.baseDir, 'baselines', `${toFileKey(key)}.json`);
+  }
+}
+
+/**
+ * 플로우 스텝 기준 이미지 키
+ */
+export function flowStepKey(flowName: string, order: number): string {
+  return `${flowName}/step-${order}`;
+}
+
+/**
+ * 시각 비교 결과 Markdown 요약
+ */
+export function formatVisualResult(result: VisualFlowResult): string {
+  const icons: Record<VisualVerdict, string> = {
+    pass: '✅', fail: '❌', new: '🆕', updated: '🔄', missing: '⚪'
+  };
+  const lines = [
+    `# 시각 회귀: ${result.flow}`,
+    ``,
+    `- **결과**: ${result.passed ? '✅ 통과' : '❌ 시각 회귀 발견'}`,
+    ``,
+    `| # | 판정 | 다른 픽셀 | 차이 이미지 |`,
+    `|---|------|-----------|-------------|`
+  ];
+
+  for (const step of result.steps) {
+    const pixels = step.diff ? `${step.diff.diffPixels} (${(step.diff.diffRatio * 100).toFixed(2)}%)` : '-';
+    lines.push(`| ${step.order} | ${icons[step.verdict]} ${step.verdict} | ${pixels} | ${step.diffPath ?? ''} |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * 키 → 파일 경로 (/로 폴더 구분, 금지 문자는 '-', '.'/'..'은 '_')
+ */
+function toFileKey(key: string): string {
+  return key
+    .split('/')
+    .map(part => part.replace(/[\\:*?"<>|]/g, '-').trim().replace(/^\.+$/, '_') || '_')
+    .join(path.sep);
+}
+
+function readSize(filePath: string): { width: number; height: number } {
+  // PNG IHDR: 16~23 바이트에 너비/높이
+  const header = fs.readFileSync(filePath).subarray(0, 24);
+  return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) };
+}
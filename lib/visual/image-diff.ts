@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PNG } from 'pngjs';
+import pixelmatch from 'pixelmatch';
+
+/**
+ * 이미지 영역 (px)
+ */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * 이미지 비교 옵션
+ */
+export interface ImageDiffOptions {
+  threshold?: number;           // 픽셀 색상 차이 허용치 0~1, YIQ 지각 색차 기준 (기본: 0.1)
+  maxDiffPixels?: number;       // 허용하는 다른 픽셀 수 (기본: 0)
+  maxDiffRatio?: number;        // 허용하는 다른 픽셀 비율 0~1 (기본: 0)
+  includeAA?: boolean;          // 안티앨리어싱 픽셀도 차이로 계산 (기본: false)
+  ignoreRegions?: ImageRegion[]; // 비교에서 제외할 영역 (동적 영역 마스크)
+  diffPath?: string;            // 차이 이미지 저장 경로 (차이가 있을 때만 저장)
+}
+
+/**
+ * 이미지 비교 결과
+ */
+export interface ImageDiffResult {
+  match: boolean;
+  diffPixels: number;
+  diffRatio: number;
+  totalPixels: number;
+  width: number;
+  height: number;
+  sizeMismatch: boolean;        // 크기가 다르면 큰 쪽 기준으로 비교 (넘치는 영역은 모두 차이)
+  diffPath?: string;
+}
+
+// 마스크 영역 채우기 색 (양쪽 이미지에 같은 색을 칠해 차이에서 제외)
+const MASK_COLOR = [255, 0, 255, 255];
+const DIFF_COLOR = [255, 0, 0, 255];
+
+/**
+ * PNG 두 장 비교 (오프라인, 브라우저 불필요)
+ *
+ * - 색상 허용치: pixelmatch YIQ 색차 (threshold)
+ * - 안티앨리어싱: 글꼴 경계 등 AA 픽셀은 기본적으로 차이에서 제외
+ * - 마스크: ignoreRegions를 양쪽에 같은 색으로 칠한 뒤 비교
+ * - 판정: 다른 픽셀 수/비율이 maxDiffPixels/maxDiffRatio 이하면 일치
+ */
+export function compareImages(
+  baseline: string | Buffer,
+  actual: string | Buffer,
+  options: ImageDiffOptions = {}
+): ImageDiffResult {
+  const expected = readPng(baseline);
+  const received = readPng(actual);
+
+  const width = Math.max(expected.width, received.width);
+  const height = Math.max(expected.height, received.height);
+  const sizeMismatch = expected.width !== received.width || expected.height !== received.height;
+
+  // 한쪽에만 있는 영역 (크기가 다를 때): pixelmatch에서는 제외하고 전부 차이로 계산
+  const overlapWidth = Math.min(expected.width, received.width);
+  const overlapHeight = Math.min(expected.height, received.height);
+  const outside: ImageRegion[] = [
+    { x: overlapWidth, y: 0, width: width - overlapWidth, height },
+    { x: 0, y: overlapHeight, width: overlapWidth, height: height - overlapHeight }
+  ];
+
+  const left = resize(expected, width, height);
+  const right = resize(received, width, height);
+  for (const region of [...(options.ignoreRegions ?? []), ...outside]) {
+    fillRegion(left, region, MASK_COLOR);
+    fillRegion(right, region, MASK_COLOR);
+  }
+
+  const diff = new PNG({ width, height });
+  let diffPixels = pixelmatch(left.data, right.data, diff.data, width, height, {
+    threshold: options.threshold ?? 0.1,
+    includeAA: options.includeAA ?? false,
+    diffMask: false
+  });
+  for (const region of outside) {
+    fillRegion(diff, region, DIFF_COLOR);
+    diffPixels += region.width * region.height;
+  }
+
+  const totalPixels = width * height;
+  const diffRatio = totalPixels === 0 ? 0 : diffPixels / totalPixels;
+  const withinTolerance = diffPixels <= (options.maxDiffPixels ?? 0) ||
+    (options.maxDiffRatio !== undefined && diffRatio <= options.maxDiffRatio);
+  const match = !sizeMismatch && withinTolerance;
+
+  let diffPath: string | undefined;
+  if (options.diffPath && diffPixels > 0) {
+    fs.mkdirSync(path.dirname(options.diffPath), { recursive: true });
+    fs.writeFileSync(options.diffPath, PNG.sync.write(diff));
+    diffPath = options.diffPath;
+  }
+
+  return { match, diffPixels, diffRatio, totalPixels, width, height, sizeMismatch, diffPath };
+}
+
+/**
+ * PNG 파일/버퍼 읽기
+ */
+export function readPng(source: string | Buffer): PNG {
+  const buffer = typeof source === 'string' ? fs.readFileSync(source) : source;
+  try {
+    return PNG.sync.read(buffer);
+  } catch (error) {
+    const label = typeof source === 'string' ? source : 'buffer';
+    throw new Error(`PNG 읽기 실패 (${label}): ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * 캔버스 크기 맞추기 (넘치는 영역은 투명)
+ */
+function resize(image: PNG, width: number, height: number): PNG {
+  if (image.width === width && image.height === height) {
+    const copy = new PNG({ width, height });
+    image.data.copy(copy.data);
+    return copy;
+  }
+
+  const canvas = new PNG({ width, height });
+  canvas.data.fill(0);
+  PNG.bitblt(image, canvas, 0, 0, image.width, image.height, 0, 0);
+  return canvas;
+}
+
+function fillRegion(image: PNG, region: ImageRegion, color: number[]) {
+  const x0 = Math.max(0, Math.floor(region.x));
+  const y0 = Math.max(0, Math.floor(region.y));
+  const x1 = Math.min(image.width, Math.ceil(region.x + region.width));
+  const y1 = Math.min(image.height, Math.ceil(region.y + region.height));
+
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const offset = (y * image.width + x) * 4;
+      image.data[offset] = color[0];
+      image.data[offset + 1] = color[1];
+      image.data[offset + 2] = color[2];
+      image.data[offset + 3] = color[3];
+    }
+  }
+}